@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import AdminView from './page';
 import * as useWebSocketModule from '@/hooks/useWebSocket';
 
@@ -42,6 +42,14 @@ vi.mock('@/components/BracketVisualization', () => ({
   BracketVisualization: () => <div data-testid="bracket-visualization">Bracket Visualization</div>,
 }));
 
+vi.mock('@/components/TournamentHistory', () => ({
+  TournamentHistory: () => <div data-testid="tournament-history">TournamentHistory</div>,
+}));
+
+vi.mock('@/components/MemePackagePanel', () => ({
+  MemePackagePanel: () => <div data-testid="meme-package-panel">Meme Package Panel</div>,
+}));
+
 vi.mock('@/components/Snackbar', () => ({
   Snackbar: () => <div data-testid="snackbar">Snackbar</div>,
 }));
@@ -78,10 +86,30 @@ describe('AdminView - Reset Button Visibility', () => {
       isConnected: true,
       error: null,
       hasVotedInCurrentMatch: false,
+      votedMatchIds: [],
+      jury: [],
+      judge: null,
+      roomNotFound: false,
+      adminUnauthorized: false,
+      sessionRestored: false,
       castVote: vi.fn(),
       startTournament: vi.fn(),
+      decideTie: vi.fn(),
+      pauseTournament: vi.fn(),
+      resumeTournament: vi.fn(),
+      addJudge: vi.fn(),
+      removeJudge: vi.fn(),
+      joinJury: vi.fn(),
+      continueTournament: vi.fn(),
+      adjustMatchTime: vi.fn(),
+      endMatch: vi.fn(),
+      undoLastResult: vi.fn(),
+      overrideMatch: vi.fn(),
       resetTournament: vi.fn().mockResolvedValue({ deletedCount: 0, errors: [] }),
+      deleteTournament: vi.fn(),
+      dismissSessionRestored: vi.fn(),
       reconnect: vi.fn(),
+      reauthenticate: vi.fn(),
     });
 
     render(<AdminView />);
@@ -92,7 +120,7 @@ describe('AdminView - Reset Button Visibility', () => {
     expect((resetButton as HTMLButtonElement).disabled).toBe(false);
   });
 
-  it('should display reset button in DUEL_IN_PROGRESS state', () => {
+  it('should offer to delete the tournament instead of resetting it in DUEL_IN_PROGRESS state', () => {
     // Mock useWebSocket to return DUEL_IN_PROGRESS state
     vi.mocked(useWebSocketModule.useWebSocket).mockReturnValue({
       tournamentState: {
@@ -142,18 +170,38 @@ describe('AdminView - Reset Button Visibility', () => {
       isConnected: true,
       error: null,
       hasVotedInCurrentMatch: false,
+      votedMatchIds: [],
+      jury: [],
+      judge: null,
+      roomNotFound: false,
+      adminUnauthorized: false,
+      sessionRestored: false,
       castVote: vi.fn(),
       startTournament: vi.fn(),
+      decideTie: vi.fn(),
+      pauseTournament: vi.fn(),
+      resumeTournament: vi.fn(),
+      addJudge: vi.fn(),
+      removeJudge: vi.fn(),
+      joinJury: vi.fn(),
+      continueTournament: vi.fn(),
+      adjustMatchTime: vi.fn(),
+      endMatch: vi.fn(),
+      undoLastResult: vi.fn(),
+      overrideMatch: vi.fn(),
       resetTournament: vi.fn().mockResolvedValue({ deletedCount: 0, errors: [] }),
+      deleteTournament: vi.fn(),
+      dismissSessionRestored: vi.fn(),
       reconnect: vi.fn(),
+      reauthenticate: vi.fn(),
     });
 
     render(<AdminView />);
 
-    // Verify reset button is present
-    const resetButton = screen.getByRole('button', { name: /REINICIAR TORNEIO/i });
-    expect(resetButton).toBeDefined();
-    expect((resetButton as HTMLButtonElement).disabled).toBe(false);
+    // An unfinished tournament is not archived, so the button deletes it
+    expect(screen.queryByRole('button', { name: /REINICIAR TORNEIO/i })).toBeNull();
+    const deleteButton = screen.getByRole('button', { name: /APAGAR TORNEIO/i });
+    expect((deleteButton as HTMLButtonElement).disabled).toBe(false);
   });
 
   it('should display reset button in TOURNAMENT_FINISHED state', () => {
@@ -182,10 +230,30 @@ describe('AdminView - Reset Button Visibility', () => {
       isConnected: true,
       error: null,
       hasVotedInCurrentMatch: false,
+      votedMatchIds: [],
+      jury: [],
+      judge: null,
+      roomNotFound: false,
+      adminUnauthorized: false,
+      sessionRestored: false,
       castVote: vi.fn(),
       startTournament: vi.fn(),
+      decideTie: vi.fn(),
+      pauseTournament: vi.fn(),
+      resumeTournament: vi.fn(),
+      addJudge: vi.fn(),
+      removeJudge: vi.fn(),
+      joinJury: vi.fn(),
+      continueTournament: vi.fn(),
+      adjustMatchTime: vi.fn(),
+      endMatch: vi.fn(),
+      undoLastResult: vi.fn(),
+      overrideMatch: vi.fn(),
       resetTournament: vi.fn().mockResolvedValue({ deletedCount: 0, errors: [] }),
+      deleteTournament: vi.fn(),
+      dismissSessionRestored: vi.fn(),
       reconnect: vi.fn(),
+      reauthenticate: vi.fn(),
     });
 
     render(<AdminView />);
@@ -210,10 +278,30 @@ describe('AdminView - Reset Button Visibility', () => {
       isConnected: false,
       error: null,
       hasVotedInCurrentMatch: false,
+      votedMatchIds: [],
+      jury: [],
+      judge: null,
+      roomNotFound: false,
+      adminUnauthorized: false,
+      sessionRestored: false,
       castVote: vi.fn(),
       startTournament: vi.fn(),
+      decideTie: vi.fn(),
+      pauseTournament: vi.fn(),
+      resumeTournament: vi.fn(),
+      addJudge: vi.fn(),
+      removeJudge: vi.fn(),
+      joinJury: vi.fn(),
+      continueTournament: vi.fn(),
+      adjustMatchTime: vi.fn(),
+      endMatch: vi.fn(),
+      undoLastResult: vi.fn(),
+      overrideMatch: vi.fn(),
       resetTournament: vi.fn().mockResolvedValue({ deletedCount: 0, errors: [] }),
+      deleteTournament: vi.fn(),
+      dismissSessionRestored: vi.fn(),
       reconnect: vi.fn(),
+      reauthenticate: vi.fn(),
     });
 
     render(<AdminView />);
@@ -245,10 +333,30 @@ describe('AdminView - Reset Button Visibility', () => {
       isConnected: true,
       error: null,
       hasVotedInCurrentMatch: false,
+      votedMatchIds: [],
+      jury: [],
+      judge: null,
+      roomNotFound: false,
+      adminUnauthorized: false,
+      sessionRestored: false,
       castVote: vi.fn(),
       startTournament: vi.fn(),
+      decideTie: vi.fn(),
+      pauseTournament: vi.fn(),
+      resumeTournament: vi.fn(),
+      addJudge: vi.fn(),
+      removeJudge: vi.fn(),
+      joinJury: vi.fn(),
+      continueTournament: vi.fn(),
+      adjustMatchTime: vi.fn(),
+      endMatch: vi.fn(),
+      undoLastResult: vi.fn(),
+      overrideMatch: vi.fn(),
       resetTournament: mockResetTournament,
+      deleteTournament: vi.fn(),
+      dismissSessionRestored: vi.fn(),
       reconnect: vi.fn(),
+      reauthenticate: vi.fn(),
     });
 
     const { rerender } = render(<AdminView />);
@@ -299,10 +407,30 @@ describe('AdminView - Confirmation Message Display', () => {
       isConnected: true,
       error: null,
       hasVotedInCurrentMatch: false,
+      votedMatchIds: [],
+      jury: [],
+      judge: null,
+      roomNotFound: false,
+      adminUnauthorized: false,
+      sessionRestored: false,
       castVote: vi.fn(),
       startTournament: vi.fn(),
+      decideTie: vi.fn(),
+      pauseTournament: vi.fn(),
+      resumeTournament: vi.fn(),
+      addJudge: vi.fn(),
+      removeJudge: vi.fn(),
+      joinJury: vi.fn(),
+      continueTournament: vi.fn(),
+      adjustMatchTime: vi.fn(),
+      endMatch: vi.fn(),
+      undoLastResult: vi.fn(),
+      overrideMatch: vi.fn(),
       resetTournament: mockResetTournament,
+      deleteTournament: vi.fn(),
+      dismissSessionRestored: vi.fn(),
       reconnect: vi.fn(),
+      reauthenticate: vi.fn(),
     });
 
     render(<AdminView />);
@@ -341,10 +469,30 @@ describe('AdminView - Confirmation Message Display', () => {
       isConnected: true,
       error: null,
       hasVotedInCurrentMatch: false,
+      votedMatchIds: [],
+      jury: [],
+      judge: null,
+      roomNotFound: false,
+      adminUnauthorized: false,
+      sessionRestored: false,
       castVote: vi.fn(),
       startTournament: vi.fn(),
+      decideTie: vi.fn(),
+      pauseTournament: vi.fn(),
+      resumeTournament: vi.fn(),
+      addJudge: vi.fn(),
+      removeJudge: vi.fn(),
+      joinJury: vi.fn(),
+      continueTournament: vi.fn(),
+      adjustMatchTime: vi.fn(),
+      endMatch: vi.fn(),
+      undoLastResult: vi.fn(),
+      overrideMatch: vi.fn(),
       resetTournament: mockResetTournament,
+      deleteTournament: vi.fn(),
+      dismissSessionRestored: vi.fn(),
       reconnect: vi.fn(),
+      reauthenticate: vi.fn(),
     });
 
     render(<AdminView />);
@@ -400,10 +548,30 @@ describe('AdminView - Confirmation Message Display', () => {
       isConnected: true,
       error: null,
       hasVotedInCurrentMatch: false,
+      votedMatchIds: [],
+      jury: [],
+      judge: null,
+      roomNotFound: false,
+      adminUnauthorized: false,
+      sessionRestored: false,
       castVote: vi.fn(),
       startTournament: vi.fn(),
+      decideTie: vi.fn(),
+      pauseTournament: vi.fn(),
+      resumeTournament: vi.fn(),
+      addJudge: vi.fn(),
+      removeJudge: vi.fn(),
+      joinJury: vi.fn(),
+      continueTournament: vi.fn(),
+      adjustMatchTime: vi.fn(),
+      endMatch: vi.fn(),
+      undoLastResult: vi.fn(),
+      overrideMatch: vi.fn(),
       resetTournament: mockResetTournament,
+      deleteTournament: vi.fn(),
+      dismissSessionRestored: vi.fn(),
       reconnect: vi.fn(),
+      reauthenticate: vi.fn(),
     });
 
     const { rerender } = render(<AdminView />);
@@ -433,10 +601,30 @@ describe('AdminView - Confirmation Message Display', () => {
       isConnected: true,
       error: null,
       hasVotedInCurrentMatch: false,
+      votedMatchIds: [],
+      jury: [],
+      judge: null,
+      roomNotFound: false,
+      adminUnauthorized: false,
+      sessionRestored: false,
       castVote: vi.fn(),
       startTournament: vi.fn(),
+      decideTie: vi.fn(),
+      pauseTournament: vi.fn(),
+      resumeTournament: vi.fn(),
+      addJudge: vi.fn(),
+      removeJudge: vi.fn(),
+      joinJury: vi.fn(),
+      continueTournament: vi.fn(),
+      adjustMatchTime: vi.fn(),
+      endMatch: vi.fn(),
+      undoLastResult: vi.fn(),
+      overrideMatch: vi.fn(),
       resetTournament: mockResetTournament,
+      deleteTournament: vi.fn(),
+      dismissSessionRestored: vi.fn(),
       reconnect: vi.fn(),
+      reauthenticate: vi.fn(),
     });
 
     // Re-render to reflect state change
@@ -475,10 +663,30 @@ describe('AdminView - Error Message Display', () => {
       isConnected: true,
       error: null,
       hasVotedInCurrentMatch: false,
+      votedMatchIds: [],
+      jury: [],
+      judge: null,
+      roomNotFound: false,
+      adminUnauthorized: false,
+      sessionRestored: false,
       castVote: vi.fn(),
       startTournament: vi.fn(),
+      decideTie: vi.fn(),
+      pauseTournament: vi.fn(),
+      resumeTournament: vi.fn(),
+      addJudge: vi.fn(),
+      removeJudge: vi.fn(),
+      joinJury: vi.fn(),
+      continueTournament: vi.fn(),
+      adjustMatchTime: vi.fn(),
+      endMatch: vi.fn(),
+      undoLastResult: vi.fn(),
+      overrideMatch: vi.fn(),
       resetTournament: mockResetTournament,
+      deleteTournament: vi.fn(),
+      dismissSessionRestored: vi.fn(),
       reconnect: vi.fn(),
+      reauthenticate: vi.fn(),
     });
 
     render(<AdminView />);
@@ -498,10 +706,10 @@ describe('AdminView - Error Message Display', () => {
     expect(snackbars.length).toBe(2);
   });
 
-  it('should display error message with details when reset fails with Error object', async () => {
-    // Mock useWebSocket with a failing reset function that throws an Error
+  it('should display error message with details when deleting fails with Error object', async () => {
+    // Mock useWebSocket with a failing delete function that throws an Error
     const errorMessage = 'Network connection lost during reset';
-    const mockResetTournament = vi.fn().mockRejectedValue(new Error(errorMessage));
+    const mockDeleteTournament = vi.fn().mockRejectedValue(new Error(errorMessage));
 
     vi.mocked(useWebSocketModule.useWebSocket).mockReturnValue({
       tournamentState: {
@@ -551,21 +759,42 @@ describe('AdminView - Error Message Display', () => {
       isConnected: true,
       error: null,
       hasVotedInCurrentMatch: false,
+      votedMatchIds: [],
+      jury: [],
+      judge: null,
+      roomNotFound: false,
+      adminUnauthorized: false,
+      sessionRestored: false,
       castVote: vi.fn(),
       startTournament: vi.fn(),
-      resetTournament: mockResetTournament,
+      decideTie: vi.fn(),
+      pauseTournament: vi.fn(),
+      resumeTournament: vi.fn(),
+      addJudge: vi.fn(),
+      removeJudge: vi.fn(),
+      joinJury: vi.fn(),
+      continueTournament: vi.fn(),
+      adjustMatchTime: vi.fn(),
+      endMatch: vi.fn(),
+      undoLastResult: vi.fn(),
+      overrideMatch: vi.fn(),
+      resetTournament: vi.fn(),
+      deleteTournament: mockDeleteTournament,
+      dismissSessionRestored: vi.fn(),
       reconnect: vi.fn(),
+      reauthenticate: vi.fn(),
     });
 
     render(<AdminView />);
 
-    // Get reset button and click it
-    const resetButton = screen.getByRole('button', { name: /REINICIAR TORNEIO/i });
-    resetButton.click();
+    // Deleting takes a second click to confirm
+    fireEvent.click(screen.getByRole('button', { name: /APAGAR TORNEIO/i }));
+    expect(mockDeleteTournament).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByRole('button', { name: /CONFIRMAR/i }));
 
-    // Wait for the reset to fail
+    // Wait for the deletion to fail
     await vi.waitFor(() => {
-      expect(mockResetTournament).toHaveBeenCalled();
+      expect(mockDeleteTournament).toHaveBeenCalled();
     });
 
     // Verify the snackbar components are rendered
@@ -601,10 +830,30 @@ describe('AdminView - Error Message Display', () => {
       isConnected: true,
       error: null,
       hasVotedInCurrentMatch: false,
+      votedMatchIds: [],
+      jury: [],
+      judge: null,
+      roomNotFound: false,
+      adminUnauthorized: false,
+      sessionRestored: false,
       castVote: vi.fn(),
       startTournament: vi.fn(),
+      decideTie: vi.fn(),
+      pauseTournament: vi.fn(),
+      resumeTournament: vi.fn(),
+      addJudge: vi.fn(),
+      removeJudge: vi.fn(),
+      joinJury: vi.fn(),
+      continueTournament: vi.fn(),
+      adjustMatchTime: vi.fn(),
+      endMatch: vi.fn(),
+      undoLastResult: vi.fn(),
+      overrideMatch: vi.fn(),
       resetTournament: mockResetTournament,
+      deleteTournament: vi.fn(),
+      dismissSessionRestored: vi.fn(),
       reconnect: vi.fn(),
+      reauthenticate: vi.fn(),
     });
 
     render(<AdminView />);
@@ -640,10 +889,30 @@ describe('AdminView - Error Message Display', () => {
       isConnected: true,
       error: null,
       hasVotedInCurrentMatch: false,
+      votedMatchIds: [],
+      jury: [],
+      judge: null,
+      roomNotFound: false,
+      adminUnauthorized: false,
+      sessionRestored: false,
       castVote: vi.fn(),
       startTournament: vi.fn(),
+      decideTie: vi.fn(),
+      pauseTournament: vi.fn(),
+      resumeTournament: vi.fn(),
+      addJudge: vi.fn(),
+      removeJudge: vi.fn(),
+      joinJury: vi.fn(),
+      continueTournament: vi.fn(),
+      adjustMatchTime: vi.fn(),
+      endMatch: vi.fn(),
+      undoLastResult: vi.fn(),
+      overrideMatch: vi.fn(),
       resetTournament: mockResetTournament,
+      deleteTournament: vi.fn(),
+      dismissSessionRestored: vi.fn(),
       reconnect: vi.fn(),
+      reauthenticate: vi.fn(),
     });
 
     render(<AdminView />);
@@ -662,3 +931,57 @@ describe('AdminView - Error Message Display', () => {
     expect(snackbars.length).toBe(2);
   });
 });
+
+describe('AdminView - Admin Sign-in', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should ask for the admin secret instead of showing the controls without an admin session', async () => {
+    const mockReauthenticate = vi.fn();
+
+    vi.mocked(useWebSocketModule.useWebSocket).mockReturnValue({
+      tournamentState: null,
+      isConnected: true,
+      error: 'Admin sign-in required',
+      hasVotedInCurrentMatch: false,
+      votedMatchIds: [],
+      jury: [],
+      judge: null,
+      roomNotFound: false,
+      adminUnauthorized: true,
+      sessionRestored: false,
+      castVote: vi.fn(),
+      startTournament: vi.fn(),
+      decideTie: vi.fn(),
+      pauseTournament: vi.fn(),
+      resumeTournament: vi.fn(),
+      addJudge: vi.fn(),
+      removeJudge: vi.fn(),
+      joinJury: vi.fn(),
+      continueTournament: vi.fn(),
+      adjustMatchTime: vi.fn(),
+      endMatch: vi.fn(),
+      undoLastResult: vi.fn(),
+      overrideMatch: vi.fn(),
+      resetTournament: vi.fn(),
+      deleteTournament: vi.fn(),
+      dismissSessionRestored: vi.fn(),
+      reconnect: vi.fn(),
+      reauthenticate: mockReauthenticate,
+    });
+
+    render(<AdminView />);
+
+    expect(screen.queryByRole('button', { name: /REINICIAR TORNEIO/i })).toBeNull();
+    const input = screen.getByLabelText('Senha de admin');
+    fireEvent.change(input, { target: { value: 'secret' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Entrar' }));
+
+    // Once the session cookie is set, the socket reconnects to pick it up
+    await vi.waitFor(() => {
+      expect(mockReauthenticate).toHaveBeenCalled();
+    });
+    expect(global.fetch).toHaveBeenCalledWith('/api/admin/session', expect.objectContaining({ method: 'POST' }));
+  });
+});
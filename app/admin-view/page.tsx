@@ -1,28 +1,73 @@
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
+import { useParams } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import { UploadZone } from '@/components/UploadZone';
 import { MemeList } from '@/components/MemeList';
 import { TournamentConfig } from '@/components/TournamentConfig';
 import { AdminDuelView } from '@/components/AdminDuelView';
+import { MatchResultReveal } from '@/components/MatchResultReveal';
+import { MatchControls } from '@/components/MatchControls';
+import { PauseToggle } from '@/components/PauseToggle';
+import { ResultCorrections } from '@/components/ResultCorrections';
+import { JuryPanel } from '@/components/JuryPanel';
+import { RoomPanel } from '@/components/RoomPanel';
+import { OverrideSummary } from '@/components/OverrideSummary';
 import { BracketVisualization } from '@/components/BracketVisualization';
+import { StandingsTable } from '@/components/StandingsTable';
+import { TournamentHistory } from '@/components/TournamentHistory';
+import { ExportButtons } from '@/components/ExportButtons';
+import { MemePackagePanel } from '@/components/MemePackagePanel';
 import { Snackbar } from '@/components/Snackbar';
-import { Meme } from '@/types';
+import { AdminLogin } from '@/components/AdminLogin';
+import { Meme, TournamentSettings } from '@/types';
+import { getOverriddenMatches } from '@/lib/match-override';
+import { getActiveMatches } from '@/lib/active-matches';
+import { getPodium } from '@/lib/podium';
+import { withRoom } from '@/lib/rooms';
 
 export default function AdminView() {
-  const { tournamentState, isConnected, error, startTournament, resetTournament } = useWebSocket();
+  // Also served at /r/<code>/admin, to run a room's tournament
+  const roomCode = useParams<{ code?: string }>()?.code ?? null;
+  const {
+    tournamentState,
+    isConnected,
+    error,
+    startTournament,
+    decideTie,
+    pauseTournament,
+    resumeTournament,
+    continueTournament,
+    adjustMatchTime,
+    endMatch,
+    undoLastResult,
+    overrideMatch,
+    jury,
+    addJudge,
+    removeJudge,
+    resetTournament,
+    deleteTournament,
+    roomNotFound,
+    adminUnauthorized,
+    reauthenticate,
+    sessionRestored,
+    dismissSessionRestored
+  } = useWebSocket({ admin: true, room: roomCode });
   const [memes, setMemes] = useState<Meme[]>([]);
   const [isResetting, setIsResetting] = useState(false);
   const [resetSuccess, setResetSuccess] = useState(false);
+  const [resetArchived, setResetArchived] = useState(false);
   const [resetError, setResetError] = useState<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [showRematchConfig, setShowRematchConfig] = useState(false);
 
   // Load memes on initial mount
   useEffect(() => {
     const loadMemes = async () => {
       try {
-        const response = await fetch('/api/memes');
+        const response = await fetch(withRoom('/api/memes', roomCode));
         if (response.ok) {
           const data = await response.json();
           setMemes(data.memes);
@@ -33,7 +78,14 @@ export default function AdminView() {
     };
     
     loadMemes();
-  }, []);
+  }, [roomCode]);
+
+  // Hide the rematch configuration once a new tournament starts
+  useEffect(() => {
+    if (tournamentState?.status !== 'TOURNAMENT_FINISHED') {
+      setShowRematchConfig(false);
+    }
+  }, [tournamentState?.status]);
 
   // Sync memes from tournament state only when tournament is active
   // During WAITING status, we manage memes locally via uploads
@@ -46,15 +98,21 @@ export default function AdminView() {
   // Refresh memes list after upload
   const handleUploadComplete = useCallback(async () => {
     try {
-      const response = await fetch('/api/memes');
+      const response = await fetch(withRoom('/api/memes', roomCode));
       if (response.ok) {
         const data = await response.json();
-        setMemes(data.memes);
+        // Keep the order set by dragging (manual seeding); new uploads go last
+        setMemes(prev => {
+          const order = new Map(prev.map((meme, index) => [meme.id, index]));
+          return [...data.memes].sort((a: Meme, b: Meme) =>
+            (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity)
+          );
+        });
       }
     } catch (error) {
       console.error('Error fetching memes:', error);
     }
-  }, []);
+  }, [roomCode]);
 
   // Handle meme deletion
   const handleMemeDelete = useCallback((memeId: string) => {
@@ -73,20 +131,27 @@ export default function AdminView() {
   }, []);
 
   // Handle tournament start
-  const handleStartTournament = useCallback(async (votingTimeSeconds: number) => {
-    startTournament(votingTimeSeconds);
-  }, [startTournament]);
+  const handleStartTournament = useCallback(async (
+    votingTimeSeconds: number,
+    settings: Omit<TournamentSettings, 'votingTimeSeconds'>
+  ) => {
+    startTournament(votingTimeSeconds, {
+      ...settings,
+      seedOrder: settings.seeding === 'MANUAL' ? memes.map(meme => meme.id) : undefined
+    });
+  }, [startTournament, memes]);
 
-  // Handle tournament reset
-  const handleResetTournament = useCallback(async () => {
+  // Handle tournament reset, or deletion of a tournament that has not finished
+  const handleResetTournament = useCallback(async (hardDelete: boolean) => {
     setIsResetting(true);
     setResetError(null);
     setResetSuccess(false);
 
     try {
-      const result = await resetTournament();
+      const result = await (hardDelete ? deleteTournament() : resetTournament());
       
       // Show success message
+      setResetArchived(!!result.archivedTournamentId);
       setResetSuccess(true);
       
       // Clear memes list to show empty state
@@ -103,7 +168,39 @@ export default function AdminView() {
     } finally {
       setIsResetting(false);
     }
-  }, [resetTournament]);
+  }, [resetTournament, deleteTournament]);
+
+  // A tournament still being played is not archived, so deleting it takes a second click to confirm
+  const handleDeleteTournament = () => {
+    if (!confirmingDelete) {
+      setConfirmingDelete(true);
+      return;
+    }
+
+    setConfirmingDelete(false);
+    handleResetTournament(true);
+  };
+
+  // The room's join code matches no room, or the room was closed
+  if (roomNotFound) {
+    return (
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        className="flex items-center justify-center min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900"
+      >
+        <div className="text-center max-w-md p-8">
+          <p className="text-white text-2xl font-bold mb-4">Sala não encontrada</p>
+          <p className="text-gray-300 text-lg">Confira o código da sala com o organizador.</p>
+        </div>
+      </motion.div>
+    );
+  }
+
+  // Only a signed-in admin session gets the live tallies and admin controls
+  if (adminUnauthorized) {
+    return <AdminLogin onSignedIn={reauthenticate} />;
+  }
 
   // Show loading state while connecting
   if (!isConnected && !tournamentState) {
@@ -139,8 +236,15 @@ export default function AdminView() {
 
   const status = tournamentState?.status || 'WAITING';
   const isWaiting = status === 'WAITING';
-  const isTournamentActive = status === 'DUEL_IN_PROGRESS';
+  const isPaused = status === 'PAUSED';
+  const activeMatches = getActiveMatches(tournamentState);
+  const podium = tournamentState ? getPodium(tournamentState) : { first: null, second: null, third: null };
+  const isShowingResult = status === 'MATCH_RESULT';
+  const isTournamentActive = status === 'DUEL_IN_PROGRESS' || isPaused || isShowingResult;
   const isTournamentFinished = status === 'TOURNAMENT_FINISHED';
+  const undoableMatch = tournamentState?.undoableMatchId
+    ? tournamentState.bracket.flatMap(round => round.matches).find(m => m.id === tournamentState.undoableMatchId) || null
+    : null;
 
   return (
     <div className="h-screen flex flex-col overflow-hidden bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900">
@@ -156,16 +260,17 @@ export default function AdminView() {
             Painel Administrativo
           </h1>
           <p className="text-gray-300 text-sm md:text-base">
-            Campeonato de Memes
+            Campeonato de Memes{roomCode && ` · Sala ${roomCode}`}
           </p>
         </motion.div>
         
-        {/* Reset Button - Always visible */}
+        {/* Reset Button - Always visible; deletes a tournament that has not finished */}
         <motion.button
           initial={{ y: -20, opacity: 0 }}
           animate={{ y: 0, opacity: 1 }}
           transition={{ duration: 0.5, delay: 0.2 }}
-          onClick={handleResetTournament}
+          onClick={() => isTournamentActive ? handleDeleteTournament() : handleResetTournament(false)}
+          onBlur={() => setConfirmingDelete(false)}
           disabled={!isConnected || isResetting}
           className=" px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg shadow-lg transition-colors duration-200 text-sm md:text-base whitespace-nowrap flex items-center gap-2 md:w-[185px]"
           whileHover={{ scale: 1.05 }}
@@ -174,7 +279,11 @@ export default function AdminView() {
           {isResetting && (
             <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-white"></div>
           )}
-          {isResetting ? 'REINICIANDO...' : 'REINICIAR TORNEIO'}
+          {isResetting
+            ? 'REINICIANDO...'
+            : isTournamentActive
+              ? (confirmingDelete ? 'CONFIRMAR' : 'APAGAR TORNEIO')
+              : 'REINICIAR TORNEIO'}
         </motion.button>
       </header>
 
@@ -200,14 +309,26 @@ export default function AdminView() {
                 onStart={handleStartTournament}
               />
 
+              {/* Room */}
+              <RoomPanel roomCode={roomCode} />
+
+              {/* Finished Tournaments */}
+              <TournamentHistory allowDelete />
+
+              {/* Jury */}
+              <JuryPanel judges={jury} onAddJudge={addJudge} onRemoveJudge={removeJudge} />
+
               {/* Upload Zone */}
               <div>
                 <h2 className="text-lg md:text-xl font-bold text-white mb-2">
                   Upload de Memes
                 </h2>
-                <UploadZone onUploadComplete={handleUploadComplete} />
+                <UploadZone onUploadComplete={handleUploadComplete} roomCode={roomCode} />
               </div>
 
+              {/* Meme Package Import/Export */}
+              <MemePackagePanel memeCount={memes.length} onImportComplete={handleUploadComplete} roomCode={roomCode} />
+
               {/* Meme List */}
               <div>
                 <h2 className="text-lg md:text-xl font-bold text-white mb-2">
@@ -218,6 +339,8 @@ export default function AdminView() {
                     memes={memes}
                     onDelete={handleMemeDelete}
                     onCaptionUpdate={handleCaptionUpdate}
+                    onReorder={setMemes}
+                    roomCode={roomCode}
                   />
                 </div>
               </div>
@@ -234,15 +357,56 @@ export default function AdminView() {
               transition={{ duration: 0.5 }}
               className="space-y-4"
             >
-              {/* Current Duel */}
-              {tournamentState.currentMatch && (
-                <AdminDuelView match={tournamentState.currentMatch} />
+              {/* Result reveal between matches; the admin can skip ahead */}
+              {isShowingResult && tournamentState.matchResult ? (
+                <MatchResultReveal result={tournamentState.matchResult} jury={tournamentState.config} onContinue={continueTournament} />
+              ) : (
+                <div className="flex justify-end">
+                  <PauseToggle isPaused={isPaused} onPause={pauseTournament} onResume={resumeTournament} />
+                </div>
+              )}
+
+              {/* Active Duels, side by side when played in parallel */}
+              {!isShowingResult && activeMatches.length > 0 && (
+                <div className={`grid grid-cols-1 gap-4 ${activeMatches.length > 1 ? 'lg:grid-cols-2' : ''}`}>
+                  {activeMatches.map((match) => (
+                    <div key={match.id} className="space-y-4">
+                      <MatchControls
+                        match={match}
+                        onAdjustTime={adjustMatchTime}
+                        onEndMatch={endMatch}
+                      />
+                      <AdminDuelView match={match} jury={tournamentState.config} onDecideTie={decideTie} />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Undo / Override */}
+              <ResultCorrections
+                activeMatches={isShowingResult ? [] : activeMatches}
+                undoableMatch={undoableMatch}
+                onUndo={undoLastResult}
+                onOverride={overrideMatch}
+              />
+
+              {/* Judges can still join or be replaced mid-tournament */}
+              {tournamentState.config.juryScoring && (
+                <JuryPanel judges={jury} onAddJudge={addJudge} onRemoveJudge={removeJudge} />
+              )}
+
+              {/* League Standings */}
+              {tournamentState.standings && (
+                <StandingsTable standings={tournamentState.standings} />
               )}
 
               {/* Bracket Visualization */}
               <BracketVisualization
                 bracket={tournamentState.bracket}
                 currentMatchId={tournamentState.currentMatch?.id || null}
+                format={tournamentState.config.format}
+                seeds={tournamentState.seeds}
+                showEndReasons
               />
             </motion.div>
           )}
@@ -266,13 +430,58 @@ export default function AdminView() {
                   <p className="text-white text-2xl font-semibold">
                     {tournamentState.winner.caption}
                   </p>
+                  {(podium.second || podium.third) && (
+                    <p className="mt-3 text-gray-300">
+                      {podium.second && <span>🥈 {podium.second.caption}</span>}
+                      {podium.second && podium.third && <span className="mx-2">·</span>}
+                      {podium.third && <span>🥉 {podium.third.caption}</span>}
+                    </p>
+                  )}
                 </div>
               )}
 
+              {/* Results Forced by the Admin */}
+              <OverrideSummary matches={getOverriddenMatches(tournamentState.bracket)} />
+
+              {/* Undo the Final Result */}
+              <ResultCorrections
+                activeMatches={[]}
+                undoableMatch={undoableMatch}
+                onUndo={undoLastResult}
+                onOverride={overrideMatch}
+              />
+
+              {/* Download the Results */}
+              <ExportButtons getExportUrl={format => withRoom(`/api/export?format=${format}`, roomCode)} />
+
+              {/* New Tournament With the Same Memes */}
+              {showRematchConfig ? (
+                <TournamentConfig
+                  memeCount={memes.length}
+                  tournamentStatus={status}
+                  onStart={handleStartTournament}
+                />
+              ) : (
+                <button
+                  onClick={() => setShowRematchConfig(true)}
+                  className="w-full py-3 rounded-lg font-bold text-sm bg-gray-800 text-white hover:bg-gray-700 transition-colors"
+                >
+                  NOVO TORNEIO COM OS MESMOS MEMES
+                </button>
+              )}
+
+              {/* Final Standings */}
+              {tournamentState.standings && (
+                <StandingsTable standings={tournamentState.standings} title="Classificação Final" />
+              )}
+
               {/* Final Bracket */}
               <BracketVisualization
                 bracket={tournamentState.bracket}
                 currentMatchId={null}
+                format={tournamentState.config.format}
+                seeds={tournamentState.seeds}
+                showEndReasons
               />
             </motion.div>
           )}
@@ -294,9 +503,22 @@ export default function AdminView() {
         )}
       </AnimatePresence>
 
+      {/* Tournament Resumed After a Server Restart */}
+      {sessionRestored && (
+        <Snackbar
+          message="O servidor reiniciou e o torneio foi retomado de onde parou."
+          isVisible={sessionRestored}
+          onClose={dismissSessionRestored}
+          duration={5000}
+          type="info"
+        />
+      )}
+
       {/* Reset Success Notification */}
       <Snackbar
-        message="Torneio reiniciado com sucesso! Pronto para um novo torneio."
+        message={resetArchived
+          ? 'Torneio arquivado no histórico e reiniciado! Pronto para um novo torneio.'
+          : 'Torneio reiniciado com sucesso! Pronto para um novo torneio.'}
         isVisible={resetSuccess}
         onClose={() => setResetSuccess(false)}
         duration={5000}
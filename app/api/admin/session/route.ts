@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ADMIN_COOKIE_NAME,
+  ADMIN_SESSION_MAX_AGE,
+  checkAdminSecret,
+  issueAdminToken,
+  verifyAdminToken
+} from '@/server/admin-auth';
+
+/**
+ * GET /api/admin/session
+ * Tells whether the request carries a valid admin session
+ */
+export async function GET(request: NextRequest) {
+  return NextResponse.json({
+    success: true,
+    authenticated: verifyAdminToken(request.cookies.get(ADMIN_COOKIE_NAME)?.value)
+  }, { status: 200 });
+}
+
+/**
+ * POST /api/admin/session
+ * Signs the admin in with the admin secret and sets the admin session cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+
+    if (!checkAdminSecret(body?.secret)) {
+      // Security logging: failed sign-ins may be guesses
+      console.warn('[SECURITY] Invalid admin secret');
+      return NextResponse.json(
+        { error: 'Invalid admin secret' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ success: true }, { status: 200 });
+    response.cookies.set(ADMIN_COOKIE_NAME, issueAdminToken(), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      path: '/',
+      maxAge: ADMIN_SESSION_MAX_AGE
+    });
+    return response;
+
+  } catch (error: any) {
+    console.error('Error signing admin in:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to sign in', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/session
+ * Signs the admin out
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true }, { status: 200 });
+  response.cookies.delete(ADMIN_COOKIE_NAME);
+  return response;
+}
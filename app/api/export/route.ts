@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomRepository } from '@/server/room-registry';
+import { EXPORT_FORMATS, exportTournament, isExportFormat } from '@/server/tournament-export';
+
+/**
+ * GET /api/export?format=<json|csv|md>&room=<code>
+ * Downloads the finished tournament of a room, or of the default tournament
+ * when no room is given
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const format = request.nextUrl.searchParams.get('format');
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Export format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const repository = getRoomRepository(request.nextUrl.searchParams.get('room'));
+    if (!repository) {
+      return NextResponse.json(
+        { error: 'Room not found' },
+        { status: 404 }
+      );
+    }
+
+    const state = await repository.getState();
+    if (!state || state.status !== 'TOURNAMENT_FINISHED') {
+      return NextResponse.json(
+        { error: 'Tournament has not finished' },
+        { status: 409 }
+      );
+    }
+
+    const file = exportTournament(state, format);
+
+    return new NextResponse(file.contents, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error exporting tournament:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to export tournament', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRepositoryInstance } from '@/server/repository-singleton';
-import fs from 'fs/promises';
-import path from 'path';
+import { getRoomRepository } from '@/server/room-registry';
+import { deleteUploadedImages } from '@/server/file-utils';
+import { getMemeImageUrls } from '@/lib/meme-images';
 
 /**
- * DELETE /api/memes/[id]
- * Deletes a meme from the repository and removes the associated file
+ * DELETE /api/memes/[id]?room=<code>
+ * Deletes a meme from the repository of a room, or of the default tournament
+ * when no room is given, and removes every stored copy of its image
  */
 export async function DELETE(
   request: NextRequest,
@@ -14,8 +15,14 @@ export async function DELETE(
   try {
     const { id } = context.params;
 
-    // Get singleton repository instance
-    const repository = getRepositoryInstance();
+    // Get the repository the meme was uploaded to
+    const repository = getRoomRepository(request.nextUrl.searchParams.get('room'));
+    if (!repository) {
+      return NextResponse.json(
+        { error: 'Room not found' },
+        { status: 404 }
+      );
+    }
 
     // Retrieve the meme to get the file path
     const meme = await repository.getMemeById(id);
@@ -30,13 +37,11 @@ export async function DELETE(
     // Delete the meme from repository
     await repository.deleteMeme(id);
 
-    // Delete the associated file from /public/uploads
-    try {
-      const filePath = path.join(process.cwd(), 'public', meme.imageUrl);
-      await fs.unlink(filePath);
-    } catch (fileError: any) {
-      // Log the error but don't fail the request if file doesn't exist
-      console.warn(`Failed to delete file for meme ${id}:`, fileError.message);
+    // Delete the associated files from /public/uploads
+    // Log the errors but don't fail the request if a file doesn't exist
+    const deleteResult = await deleteUploadedImages(getMemeImageUrls(meme));
+    if (deleteResult.errors.length > 0) {
+      console.warn(`Failed to delete files for meme ${id}:`, deleteResult.errors);
     }
 
     // Return success response
@@ -1,14 +1,21 @@
-import { NextResponse } from 'next/server';
-import { getRepositoryInstance } from '@/server/repository-singleton';
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomRepository } from '@/server/room-registry';
 
 /**
- * GET /api/memes
- * Retrieves all uploaded memes from the repository
+ * GET /api/memes?room=<code>
+ * Retrieves all uploaded memes from the repository of a room, or of the
+ * default tournament when no room is given
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Retrieve memes from singleton repository
-    const repository = getRepositoryInstance();
+    const repository = getRoomRepository(request.nextUrl.searchParams.get('room'));
+    if (!repository) {
+      return NextResponse.json(
+        { error: 'Room not found' },
+        { status: 404 }
+      );
+    }
+
     const memes = await repository.getMemes();
 
     // Return JSON array
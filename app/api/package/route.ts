@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import formidable from 'formidable';
+import fs from 'fs/promises';
+import { getRoomRegistry, getRoomRepository } from '@/server/room-registry';
+import { createMemePackage, importMemePackage, readMemePackage } from '@/server/meme-package';
+import { isFileSizeLimitError, parseUpload, toIncomingMessage } from '@/server/upload-parser';
+import { ADMIN_COOKIE_NAME, verifyAdminToken } from '@/server/admin-auth';
+
+/**
+ * GET /api/package?room=<code>&state=1
+ * Downloads the meme pool of a room, or of the default tournament when no
+ * room is given, as a zip package; with state=1 the package also carries the
+ * full tournament state, live tallies included, so that takes an admin session
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const repository = getRoomRepository(request.nextUrl.searchParams.get('room'));
+    if (!repository) {
+      return NextResponse.json(
+        { error: 'Room not found' },
+        { status: 404 }
+      );
+    }
+
+    const includeState = request.nextUrl.searchParams.get('state') === '1';
+    if (includeState && !verifyAdminToken(request.cookies.get(ADMIN_COOKIE_NAME)?.value)) {
+      console.warn('[SECURITY] Unauthorized download of the tournament state');
+      return NextResponse.json(
+        { error: 'Admin session required' },
+        { status: 401 }
+      );
+    }
+
+    const memes = await repository.getMemes();
+    const state = includeState ? await repository.getState() : null;
+    const contents = await createMemePackage(memes, state);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(new Uint8Array(contents), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="memes-${date}.zip"`
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error exporting meme package:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to export meme package', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/package?room=<code>
+ * Imports the memes of a zip package into a room, or into the default
+ * tournament when no room is given, before its tournament starts
+ */
+export async function POST(request: NextRequest) {
+  let file: formidable.File | undefined;
+
+  try {
+    const roomCode = request.nextUrl.searchParams.get('room');
+    const repository = getRoomRepository(roomCode);
+    if (!repository) {
+      return NextResponse.json(
+        { error: 'Room not found' },
+        { status: 404 }
+      );
+    }
+
+    const state = await repository.getState();
+    if (state && state.status !== 'WAITING') {
+      return NextResponse.json(
+        { error: 'Memes can only be imported before the tournament starts' },
+        { status: 409 }
+      );
+    }
+
+    // Packages are zip archives, streamed to disk up to the archive size limit
+    const { files } = await parseUpload(toIncomingMessage(request), { allowArchives: true });
+    const fileArray = files.file;
+    if (!fileArray || (Array.isArray(fileArray) && fileArray.length === 0)) {
+      return NextResponse.json(
+        { error: 'No file provided' },
+        { status: 400 }
+      );
+    }
+    file = Array.isArray(fileArray) ? fileArray[0] : fileArray;
+
+    // Nothing is stored unless the whole package is valid
+    const result = await readMemePackage(await fs.readFile(file.filepath));
+    if (!result.valid) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    const memes = await importMemePackage(result.memePackage);
+    for (const meme of memes) {
+      await repository.addMeme(meme);
+    }
+    if (roomCode) {
+      getRoomRegistry().touch(roomCode);
+    }
+
+    return NextResponse.json({
+      success: true,
+      memes
+    }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('Error importing meme package:', error);
+
+    if (isFileSizeLimitError(error)) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 413 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to import meme package', details: error.message },
+      { status: 500 }
+    );
+  } finally {
+    // Clean up temporary file
+    if (file) {
+      await fs.unlink(file.filepath).catch(() => {});
+    }
+  }
+}
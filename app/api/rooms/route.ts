@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getRoomRegistry } from '@/server/room-registry';
+
+/**
+ * POST /api/rooms
+ * Creates a tournament room and returns its join code
+ */
+export async function POST() {
+  try {
+    const room = getRoomRegistry().createRoom();
+
+    return NextResponse.json({
+      success: true,
+      room: {
+        code: room.code,
+        createdAt: room.createdAt
+      }
+    }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('Error creating room:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to create room', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getArchiveInstance } from '@/server/repository-singleton';
+import { EXPORT_FORMATS, exportTournament, isExportFormat } from '@/server/tournament-export';
+
+/**
+ * GET /api/tournaments/[id]/export?format=<json|csv|md>
+ * Downloads an archived tournament
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  try {
+    const format = request.nextUrl.searchParams.get('format');
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Export format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const tournament = await getArchiveInstance().getTournamentById(context.params.id);
+    if (!tournament) {
+      return NextResponse.json(
+        { error: 'Tournament not found' },
+        { status: 404 }
+      );
+    }
+
+    const file = exportTournament(tournament.state, format);
+
+    return new NextResponse(file.contents, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`
+      }
+    });
+
+  } catch (error: any) {
+    console.error('Error exporting tournament:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to export tournament', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getArchiveInstance } from '@/server/repository-singleton';
+import { getImageUrlsInUse } from '@/server/tournament-archive';
+import { deleteUploadedImages } from '@/server/file-utils';
+import { getMemeImageUrls } from '@/lib/meme-images';
+import { ADMIN_COOKIE_NAME, verifyAdminToken } from '@/server/admin-auth';
+
+/**
+ * GET /api/tournaments/[id]
+ * Retrieves an archived tournament with its final state
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  try {
+    const tournament = await getArchiveInstance().getTournamentById(context.params.id);
+
+    if (!tournament) {
+      return NextResponse.json(
+        { error: 'Tournament not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      tournament
+    }, { status: 200 });
+
+  } catch (error: any) {
+    console.error('Error retrieving tournament:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to retrieve tournament', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/tournaments/[id]
+ * Deletes an archived tournament for good, along with the images no other
+ * tournament shows. Admin only
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  if (!verifyAdminToken(request.cookies.get(ADMIN_COOKIE_NAME)?.value)) {
+    console.warn(`[SECURITY] Unauthorized deletion of archived tournament ${context.params.id}`);
+    return NextResponse.json(
+      { error: 'Admin session required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { id } = context.params;
+    const archive = getArchiveInstance();
+    const tournament = await archive.getTournamentById(id);
+
+    if (!tournament) {
+      return NextResponse.json(
+        { error: 'Tournament not found' },
+        { status: 404 }
+      );
+    }
+
+    await archive.deleteTournament(id);
+
+    // A rematch shares its images with the tournament archived before it
+    const inUse = await getImageUrlsInUse();
+    const imageUrls = tournament.state.memes.flatMap(getMemeImageUrls).filter(url => !inUse.has(url));
+    const deleteResult = await deleteUploadedImages(imageUrls);
+
+    if (deleteResult.errors.length > 0) {
+      console.warn(`File deletion errors for tournament ${id}:`, deleteResult.errors);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Tournament deleted successfully',
+      deletedTournamentId: id,
+      deletedFiles: deleteResult.deletedCount
+    }, { status: 200 });
+
+  } catch (error: any) {
+    console.error('Error deleting tournament:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to delete tournament', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getArchiveInstance } from '@/server/repository-singleton';
+import { summarizeArchivedTournament } from '@/server/tournament-archive';
+
+/**
+ * GET /api/tournaments
+ * Lists the archived tournaments, most recently archived first
+ */
+export async function GET() {
+  try {
+    const tournaments = await getArchiveInstance().getTournaments();
+
+    return NextResponse.json({
+      success: true,
+      tournaments: tournaments.map(summarizeArchivedTournament)
+    }, { status: 200 });
+
+  } catch (error: any) {
+    console.error('Error retrieving tournaments:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to retrieve tournaments', details: error.message },
+      { status: 500 }
+    );
+  }
+}
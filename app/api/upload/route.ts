@@ -1,103 +1,93 @@
 import { NextRequest, NextResponse } from 'next/server';
 import formidable from 'formidable';
-import { IncomingMessage } from 'http';
-import { Readable } from 'stream';
-import sharp from 'sharp';
 import fs from 'fs/promises';
-import path from 'path';
 import { randomUUID } from 'crypto';
-import { Meme } from '@/types';
-import { getRepositoryInstance } from '@/server/repository-singleton';
-
-// Maximum file size: 5MB
-const MAX_FILE_SIZE = 5 * 1024 * 1024;
-
-// Allowed MIME types
-const ALLOWED_MIME_TYPES = [
-  'image/png',
-  'image/jpeg',
-  'image/jpg',
-  'image/webp'
-];
+import { ITournamentRepository, Meme } from '@/types';
+import { getRoomRegistry, getRoomRepository } from '@/server/room-registry';
+import {
+  saveUploadedImage,
+  validateFileContents,
+  validateFileSize,
+  validateFileType
+} from '@/server/image-processing';
+import { isZipArchive, uploadMemeArchive } from '@/server/bulk-upload';
+import { getUploadLimits } from '@/server/upload-config';
+import { isFileSizeLimitError, parseUpload, readFileHead, toIncomingMessage } from '@/server/upload-parser';
 
 /**
- * Convert Next.js request to Node.js IncomingMessage for formidable
+ * GET /api/upload
+ * Returns the limits uploads are checked against
  */
-async function convertToIncomingMessage(request: NextRequest): Promise<IncomingMessage> {
-  const headers: Record<string, string> = {};
-  request.headers.forEach((value, key) => {
-    headers[key] = value;
-  });
-
-  const readable = new Readable({
-    read() {}
-  });
-
-  // Get the request body as array buffer and push to readable stream
-  const arrayBuffer = await request.arrayBuffer();
-  readable.push(Buffer.from(arrayBuffer));
-  readable.push(null);
-
-  // Create a mock IncomingMessage
-  const incomingMessage = readable as any as IncomingMessage;
-  incomingMessage.headers = headers;
-
-  return incomingMessage;
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    limits: getUploadLimits()
+  }, { status: 200 });
 }
 
-/**
- * Parse multipart form data using formidable
- */
-async function parseForm(req: IncomingMessage): Promise<{ fields: formidable.Fields; files: formidable.Files }> {
-  const form = formidable({
-    maxFileSize: MAX_FILE_SIZE,
-    keepExtensions: true,
-  });
-
-  return new Promise((resolve, reject) => {
-    form.parse(req, (err, fields, files) => {
-      if (err) {
-        reject(err);
-      } else {
-        resolve({ fields, files });
-      }
-    });
-  });
-}
 
 /**
- * Validate file size
+ * Store the memes of a zip archive and report the outcome of each of its files
  */
-function validateFileSize(fileSize: number): { valid: boolean; error?: string } {
-  if (fileSize > MAX_FILE_SIZE) {
-    return {
-      valid: false,
-      error: `File size exceeds maximum allowed size of 5MB. File size: ${(fileSize / 1024 / 1024).toFixed(2)}MB`
-    };
+async function handleArchiveUpload(
+  file: formidable.File,
+  repository: ITournamentRepository,
+  roomCode: string | null
+): Promise<NextResponse> {
+  const data = await fs.readFile(file.filepath);
+  const archive = await uploadMemeArchive(data);
+  if (!archive.valid) {
+    return NextResponse.json(
+      { error: archive.error },
+      { status: 400 }
+    );
   }
-  return { valid: true };
-}
 
-/**
- * Validate file MIME type
- */
-function validateFileType(mimeType: string | null): { valid: boolean; error?: string } {
-  if (!mimeType || !ALLOWED_MIME_TYPES.includes(mimeType)) {
-    return {
-      valid: false,
-      error: `Invalid file type. Allowed types: PNG, JPG, JPEG, WEBP. Received: ${mimeType || 'unknown'}`
-    };
+  for (const result of archive.results) {
+    if (result.meme) {
+      await repository.addMeme(result.meme);
+    }
+  }
+  if (roomCode) {
+    getRoomRegistry().touch(roomCode);
   }
-  return { valid: true };
+
+  if (!archive.results.some(result => result.success)) {
+    return NextResponse.json(
+      { error: 'No image in the archive could be uploaded', results: archive.results },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    results: archive.results
+  }, { status: 201 });
 }
 
+/**
+ * POST /api/upload?room=<code>
+ * Stores an uploaded meme in the repository of a room, or of the default
+ * tournament when no room is given. A zip archive stores each of its images,
+ * captioned from the CSV or JSON manifest it may hold
+ */
 export async function POST(request: NextRequest) {
+  let file: formidable.File | undefined;
+
   try {
-    // Convert Next.js request to IncomingMessage for formidable
-    const incomingMessage = await convertToIncomingMessage(request);
+    // Resolve the room before reading the upload
+    const roomCode = request.nextUrl.searchParams.get('room');
+    const repository = getRoomRepository(roomCode);
+    if (!repository) {
+      return NextResponse.json(
+        { error: 'Room not found' },
+        { status: 404 }
+      );
+    }
 
-    // Parse multipart form data
-    const { fields, files } = await parseForm(incomingMessage);
+    // Parse multipart form data; the file is streamed to disk and refused
+    // as soon as it grows past its limit
+    const { fields, files } = await parseUpload(toIncomingMessage(request), { allowArchives: true });
 
     // Extract the file from the parsed data
     const fileArray = files.file;
@@ -108,7 +98,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const file = Array.isArray(fileArray) ? fileArray[0] : fileArray;
+    file = Array.isArray(fileArray) ? fileArray[0] : fileArray;
+
+    if (isZipArchive(file.originalFilename || '', file.mimetype)) {
+      return await handleArchiveUpload(file, repository, roomCode);
+    }
 
     // Validate file size
     const sizeValidation = validateFileSize(file.size);
@@ -128,23 +122,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Ensure uploads directory exists
-    const uploadsDir = path.join(process.cwd(), 'public', 'uploads');
-    await fs.mkdir(uploadsDir, { recursive: true });
-
-    // Generate unique filename
-    const fileExtension = path.extname(file.originalFilename || '');
-    const uniqueFilename = `${randomUUID()}${fileExtension}`;
-    const destinationPath = path.join(uploadsDir, uniqueFilename);
+    // Validate file contents, which the client cannot vouch for
+    const contentValidation = validateFileContents(await readFileHead(file.filepath), file.mimetype);
+    if (!contentValidation.valid) {
+      return NextResponse.json(
+        { error: contentValidation.error },
+        { status: 400 }
+      );
+    }
 
     // Process image with sharp and save
     const fileBuffer = await fs.readFile(file.filepath);
-    await sharp(fileBuffer)
-      .resize(1920, 1080, { fit: 'inside', withoutEnlargement: true })
-      .toFile(destinationPath);
-
-    // Clean up temporary file
-    await fs.unlink(file.filepath);
+    const { imageUrl, variants } = await saveUploadedImage(fileBuffer, file.originalFilename || '');
 
     // Extract caption from form fields
     const captionArray = fields.caption;
@@ -153,14 +142,17 @@ export async function POST(request: NextRequest) {
     // Create meme object
     const meme: Meme = {
       id: randomUUID(),
-      imageUrl: `/uploads/${uniqueFilename}`,
+      imageUrl,
+      variants,
       caption: caption as string,
       uploadedAt: new Date()
     };
 
-    // Store meme via singleton repository
-    const repository = getRepositoryInstance();
+    // Store meme in the room's repository; uploading counts as activity
     await repository.addMeme(meme);
+    if (roomCode) {
+      getRoomRegistry().touch(roomCode);
+    }
 
     // Return meme metadata
     return NextResponse.json({
@@ -168,6 +160,7 @@ export async function POST(request: NextRequest) {
       meme: {
         id: meme.id,
         imageUrl: meme.imageUrl,
+        variants: meme.variants,
         caption: meme.caption,
         uploadedAt: meme.uploadedAt
       }
@@ -176,11 +169,11 @@ export async function POST(request: NextRequest) {
   } catch (error: any) {
     console.error('Upload error:', error);
 
-    // Handle formidable file size errors
-    if (error.code === 'LIMIT_FILE_SIZE' || error.message?.includes('maxFileSize')) {
+    // Handle uploads cut off for growing past their size limit
+    if (isFileSizeLimitError(error)) {
       return NextResponse.json(
-        { error: 'File size exceeds maximum allowed size of 5MB' },
-        { status: 400 }
+        { error: error.message },
+        { status: 413 }
       );
     }
 
@@ -188,5 +181,10 @@ export async function POST(request: NextRequest) {
       { error: 'Failed to upload file', details: error.message },
       { status: 500 }
     );
+  } finally {
+    // Clean up temporary file
+    if (file) {
+      await fs.unlink(file.filepath).catch(() => {});
+    }
   }
 }
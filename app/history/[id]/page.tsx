@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Trophy } from 'lucide-react';
+import { BracketVisualization } from '@/components/BracketVisualization';
+import { StandingsTable } from '@/components/StandingsTable';
+import { OverrideSummary } from '@/components/OverrideSummary';
+import { ExportButtons } from '@/components/ExportButtons';
+import { ArchivedTournament, Meme } from '@/types';
+import { getOverriddenMatches } from '@/lib/match-override';
+import { getPodium } from '@/lib/podium';
+import { MemeImage } from '@/components/MemeImage';
+
+export default function ArchivedTournamentPage() {
+  const id = useParams<{ id: string }>()?.id;
+  const [tournament, setTournament] = useState<ArchivedTournament | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    const loadTournament = async () => {
+      try {
+        const response = await fetch(`/api/tournaments/${id}`);
+        if (!response.ok) {
+          setNotFound(true);
+          return;
+        }
+        const data = await response.json();
+        setTournament(data.tournament);
+      } catch (error) {
+        console.error('Error loading tournament:', error);
+        setNotFound(true);
+      }
+    };
+
+    loadTournament();
+  }, [id]);
+
+  if (notFound) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900">
+        <div className="text-center max-w-md p-8">
+          <p className="text-white text-2xl font-bold mb-4">Torneio não encontrado</p>
+          <a href="/history" className="text-purple-300 hover:underline">Voltar ao histórico</a>
+        </div>
+      </div>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  const { state } = tournament;
+  const podium = getPodium(state);
+  const places = [
+    { label: '🏆 Campeão', meme: podium.first || state.winner },
+    { label: '🥈 2º lugar', meme: podium.second },
+    { label: '🥉 3º lugar', meme: podium.third }
+  ].filter((place): place is { label: string; meme: Meme } => place.meme !== null);
+  const finishedAt = tournament.finishedAt || tournament.archivedAt;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900">
+      <div className="max-w-7xl mx-auto p-4 md:pt-8 space-y-4">
+        <header className="flex items-center justify-between gap-4">
+          <a href="/history" className="flex items-center gap-1 text-purple-300 text-sm hover:underline">
+            <ArrowLeft className="w-4 h-4" />
+            <span>Histórico</span>
+          </a>
+          <div className="flex-1 text-center">
+            <h1 className="text-2xl md:text-3xl font-bold text-white">
+              Torneio de {new Date(finishedAt).toLocaleDateString('pt-BR')}
+            </h1>
+            <p className="text-gray-300 text-sm md:text-base">
+              {state.memes.length} memes{tournament.roomCode && ` · Sala ${tournament.roomCode}`}
+            </p>
+          </div>
+        </header>
+
+        {/* Podium */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="grid grid-cols-1 sm:grid-cols-3 gap-4"
+        >
+          {places.map(({ label, meme }) => (
+            <div key={label} className="bg-gray-800 rounded-lg overflow-hidden">
+              <div className="relative w-full aspect-[4/3] bg-gray-700">
+                <MemeImage
+                  meme={meme}
+                  size="medium"
+                  className="object-cover"
+                  sizes="(max-width: 640px) 100vw, 33vw"
+                />
+              </div>
+              <div className="p-3">
+                <p className="text-yellow-400 text-sm font-bold">{label}</p>
+                <p className="text-white text-sm line-clamp-2">{meme.caption}</p>
+              </div>
+            </div>
+          ))}
+          {places.length === 0 && (
+            <div className="sm:col-span-3 bg-gray-800 rounded-lg p-6 flex items-center justify-center gap-2 text-gray-400">
+              <Trophy className="w-5 h-5" />
+              <span>Sem campeão</span>
+            </div>
+          )}
+        </motion.div>
+
+        {/* Download the Results */}
+        <ExportButtons getExportUrl={format => `/api/tournaments/${tournament.id}/export?format=${format}`} />
+
+        {/* Results Forced by the Admin */}
+        <OverrideSummary matches={getOverriddenMatches(state.bracket)} />
+
+        {/* Final Standings */}
+        {state.standings && (
+          <StandingsTable standings={state.standings} title="Classificação Final" />
+        )}
+
+        {/* Final Bracket */}
+        <BracketVisualization
+          bracket={state.bracket}
+          currentMatchId={null}
+          format={state.config.format}
+          seeds={state.seeds}
+          showEndReasons
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { TournamentHistory } from '@/components/TournamentHistory';
+
+export default function HistoryPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900">
+      <div className="max-w-3xl mx-auto p-4 md:pt-8 space-y-4">
+        <header className="text-center">
+          <h1 className="text-2xl md:text-3xl font-bold text-white">
+            Histórico de Torneios
+          </h1>
+          <p className="text-gray-300 text-sm md:text-base">
+            Campeonato de Memes
+          </p>
+        </header>
+
+        <TournamentHistory />
+      </div>
+    </div>
+  );
+}
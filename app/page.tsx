@@ -1,13 +1,79 @@
 'use client';
 
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useParams } from 'next/navigation';
 import { AnimatePresence, motion } from 'framer-motion';
+import { ListOrdered, X } from 'lucide-react';
 import { useWebSocket } from '@/hooks/useWebSocket';
 import { WaitingScreen } from '@/components/WaitingScreen';
 import { DuelView } from '@/components/DuelView';
 import { WinnerScreen } from '@/components/WinnerScreen';
+import { MatchResultReveal } from '@/components/MatchResultReveal';
+import { StandingsTable } from '@/components/StandingsTable';
+import { JuryJoin } from '@/components/JuryJoin';
+import { Snackbar } from '@/components/Snackbar';
+import { TIE_BREAK_LABELS } from '@/lib/tie-break';
+import { getOverriddenMatches } from '@/lib/match-override';
+import { getActiveMatches } from '@/lib/active-matches';
+import { getPodium } from '@/lib/podium';
 
 export default function Home() {
-  const { tournamentState, isConnected, error, castVote, hasVotedInCurrentMatch } = useWebSocket();
+  // Also served at /r/<code>, for the participants of a room
+  const roomCode = useParams<{ code?: string }>()?.code;
+  const {
+    tournamentState,
+    isConnected,
+    error,
+    castVote,
+    votedMatchIds,
+    judge,
+    joinJury,
+    roomNotFound,
+    sessionRestored,
+    dismissSessionRestored
+  } = useWebSocket({ room: roomCode });
+  const [showStandings, setShowStandings] = useState(false);
+  const [selectedMatchId, setSelectedMatchId] = useState<string | null>(null);
+  const [tieBreakNotice, setTieBreakNotice] = useState<string | null>(null);
+  const announcedMatchIdRef = useRef<string | null | undefined>(undefined);
+
+  // Announce how the latest tie-broken match was decided
+  // Matches decided before the first state arrived are not news to announce
+  useEffect(() => {
+    if (!tournamentState) {
+      return;
+    }
+
+    const decided = tournamentState.bracket
+      .flatMap(round => round.matches)
+      .filter(match => match.status === 'COMPLETED' && match.decidedBy && match.winner && match.completedAt)
+      .sort((a, b) => new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime())[0];
+
+    if (announcedMatchIdRef.current === undefined) {
+      announcedMatchIdRef.current = decided?.id ?? null;
+    } else if (decided && decided.id !== announcedMatchIdRef.current) {
+      announcedMatchIdRef.current = decided.id;
+      setTieBreakNotice(`Desempate (${TIE_BREAK_LABELS[decided.decidedBy!]}): ${decided.winner!.caption} venceu`);
+    }
+  }, [tournamentState]);
+
+  const handleTieBreakNoticeClose = useCallback(() => setTieBreakNotice(null), []);
+
+  // The room's join code matches no room, or the room was closed
+  if (roomNotFound) {
+    return (
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        className="flex items-center justify-center min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900"
+      >
+        <div className="text-center max-w-md p-8">
+          <p className="text-white text-2xl font-bold mb-4">Sala não encontrada</p>
+          <p className="text-gray-300 text-lg">Confira o código da sala com o organizador.</p>
+        </div>
+      </motion.div>
+    );
+  }
 
   // Show loading state while connecting
   if (!isConnected && !tournamentState) {
@@ -47,17 +113,55 @@ export default function Home() {
       return { key: 'waiting', component: <WaitingScreen /> };
     }
 
-    if (tournamentState.status === 'DUEL_IN_PROGRESS' && tournamentState.currentMatch) {
+    // A paused duel stays on screen behind the paused overlay
+    if ((tournamentState.status === 'DUEL_IN_PROGRESS' || tournamentState.status === 'PAUSED') && tournamentState.currentMatch) {
+      // Voters pick which parallel duel to watch; a finished duel falls back to the first one
+      const activeMatches = getActiveMatches(tournamentState);
+      const match = activeMatches.find(m => m.id === selectedMatchId) || tournamentState.currentMatch;
       return { 
-        key: `duel-${tournamentState.currentMatch.id}`, 
-        component: <DuelView match={tournamentState.currentMatch} onVote={castVote} error={error} hasVotedInCurrentMatch={hasVotedInCurrentMatch} />
+        key: `duel-${match.id}`, 
+        component: (
+          <DuelView
+            match={match}
+            onVote={castVote}
+            error={error}
+            hasVotedInCurrentMatch={votedMatchIds.includes(match.id)}
+            isPaused={tournamentState.status === 'PAUSED'}
+            activeMatches={activeMatches}
+            votedMatchIds={votedMatchIds}
+            onSelectMatch={setSelectedMatchId}
+          />
+        )
+      };
+    }
+
+    if (tournamentState.status === 'MATCH_RESULT' && tournamentState.matchResult) {
+      return {
+        key: `result-${tournamentState.matchResult.matches.map(m => m.id).join('-')}`,
+        component: (
+          <MatchResultReveal
+            result={tournamentState.matchResult}
+            bracket={tournamentState.bracket}
+            format={tournamentState.config.format}
+            seeds={tournamentState.seeds}
+            jury={tournamentState.config}
+          />
+        )
       };
     }
 
     if (tournamentState.status === 'TOURNAMENT_FINISHED' && tournamentState.winner) {
+      const podium = getPodium(tournamentState);
       return { 
         key: 'winner', 
-        component: <WinnerScreen winner={tournamentState.winner} />
+        component: (
+          <WinnerScreen
+            winner={tournamentState.winner}
+            secondPlace={podium.second}
+            thirdPlace={podium.third}
+            overriddenMatches={getOverriddenMatches(tournamentState.bracket)}
+          />
+        )
       };
     }
 
@@ -67,18 +171,82 @@ export default function Home() {
 
   const { key, component } = getView();
 
+  const standings = tournamentState?.status !== 'WAITING' ? tournamentState?.standings : undefined;
+
+  // Judges can join ahead of time or once a tournament with a jury is on
+  const showJuryJoin = !!judge || !tournamentState || tournamentState.status === 'WAITING' || !!tournamentState.config.juryScoring;
+
   // Render with smooth transitions between states
   return (
-    <AnimatePresence mode="wait">
-      <motion.div
-        key={key}
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        exit={{ opacity: 0 }}
-        transition={{ duration: 0.5 }}
-      >
-        {component}
-      </motion.div>
-    </AnimatePresence>
+    <>
+      <AnimatePresence mode="wait">
+        <motion.div
+          key={key}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.5 }}
+        >
+          {component}
+        </motion.div>
+      </AnimatePresence>
+
+      <Snackbar
+        message={tieBreakNotice || ''}
+        isVisible={!!tieBreakNotice}
+        onClose={handleTieBreakNoticeClose}
+        duration={5000}
+        type="info"
+      />
+
+      <Snackbar
+        message="O servidor reiniciou e o torneio foi retomado de onde parou."
+        isVisible={sessionRestored}
+        onClose={dismissSessionRestored}
+        duration={5000}
+        type="info"
+      />
+
+      {showJuryJoin && <JuryJoin judge={judge} onJoin={joinJury} />}
+
+      {/* League standings (round-robin and Swiss only) */}
+      {standings && (
+        <>
+          <button
+            onClick={() => setShowStandings(true)}
+            className="fixed bottom-4 left-4 z-40 flex items-center space-x-2 bg-gray-900/80 text-white px-4 py-2 rounded-full shadow-lg hover:bg-gray-800"
+          >
+            <ListOrdered className="w-4 h-4" />
+            <span className="text-sm font-semibold">Classificação</span>
+          </button>
+
+          <AnimatePresence>
+            {showStandings && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4"
+                onClick={() => setShowStandings(false)}
+              >
+                <div
+                  className="relative w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <button
+                    onClick={() => setShowStandings(false)}
+                    className="absolute top-4 right-4 text-gray-400 hover:text-white"
+                    aria-label="Fechar classificação"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                  <StandingsTable standings={standings} />
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </>
+      )}
+    </>
   );
 }
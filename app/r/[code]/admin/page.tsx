@@ -0,0 +1,2 @@
+// A room's tournament is run from the same page as the default tournament
+export { default } from '../../../admin-view/page';
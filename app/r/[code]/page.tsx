@@ -0,0 +1,2 @@
+// Participants of a room vote on the same page as the default tournament
+export { default } from '../../page';
@@ -1,21 +1,32 @@
 'use client';
 
 import { motion } from 'framer-motion';
-import Image from 'next/image';
-import { Match } from '@/types';
+import { Match, VoteChoice } from '@/types';
 import { Timer } from './Timer';
-import { Trophy, Users } from 'lucide-react';
+import { Trophy, Users, Scale, Gavel } from 'lucide-react';
+import { TIE_BREAK_PHASE_MESSAGES } from '@/lib/tie-break';
+import { HEAT_LABEL, getEntrants, getEntrantVotes, getTotalVotes } from '@/lib/heats';
+import { JurySettings, getJuryVotes, getTotalJuryVotes, getMatchScore, formatMatchScore, formatJuryScoring } from '@/lib/jury';
+import { MemeImage } from './MemeImage';
 
 interface AdminDuelViewProps {
   match: Match;
+  jury?: JurySettings;
+  onDecideTie?: (matchId: string, choice: VoteChoice) => void;
 }
 
-export function AdminDuelView({ match }: AdminDuelViewProps) {
+export function AdminDuelView({ match, jury = {}, onDecideTie }: AdminDuelViewProps) {
+  const entrants = getEntrants(match);
+  const totalVotes = getTotalVotes(match);
+  const hasJury = !!jury.juryScoring;
+  const scores = entrants.map(meme => getMatchScore(match, meme, jury));
+  const totalScore = scores.reduce((total, score) => total + score, 0);
+
   return (
     <div className="bg-gray-800 rounded-lg p-6 space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between pb-4 border-b border-gray-700">
-        <h2 className="text-2xl font-bold text-white">Duelo Atual</h2>
+        <h2 className="text-2xl font-bold text-white">{match.entrants ? `${HEAT_LABEL} Atual` : 'Duelo Atual'}</h2>
         <div className="flex items-center space-x-4 text-gray-300">
           <div className="flex items-center space-x-2">
             <Trophy className="w-5 h-5" />
@@ -33,6 +44,7 @@ export function AdminDuelView({ match }: AdminDuelViewProps) {
         <Timer 
           timeRemaining={match.timeRemaining} 
           totalTime={match.totalTime} 
+          endsAt={match.endsAt}
         />
       </div>
 
@@ -48,133 +60,132 @@ export function AdminDuelView({ match }: AdminDuelViewProps) {
           {match.status === 'PENDING' && 'Aguardando'}
           {match.status === 'COMPLETED' && 'Concluído'}
         </span>
+        {!!match.extensions && (
+          <p className="mt-2 text-xs text-orange-400">
+            Prorrogado {match.extensions}x por votos no fim de um duelo apertado
+          </p>
+        )}
       </div>
 
+      {/* Tie-break */}
+      {match.tieBreakPhase && (
+        <div className="bg-yellow-900/30 border border-yellow-600 rounded-lg p-4 space-y-3">
+          <p className="flex items-center justify-center space-x-2 text-yellow-400 font-semibold">
+            <Scale className="w-5 h-5" />
+            <span>{TIE_BREAK_PHASE_MESSAGES[match.tieBreakPhase]}</span>
+          </p>
+          {match.tieBreakPhase === 'AWAITING_ADMIN' && onDecideTie && (
+            <div className="grid grid-cols-2 gap-3">
+              {(['LEFT', 'RIGHT'] as const).map((side) => {
+                const meme = side === 'LEFT' ? match.leftMeme : match.rightMeme;
+                return (
+                  <button
+                    key={side}
+                    onClick={() => onDecideTie(match.id, side)}
+                    className="px-3 py-2 rounded-lg bg-yellow-600 text-white text-sm font-bold hover:bg-yellow-700 transition-colors truncate"
+                  >
+                    Vitória para {meme?.caption}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Jury scoring */}
+      {hasJury && (
+        <p className="flex items-center justify-center space-x-2 text-sm text-purple-300">
+          <Gavel className="w-4 h-4" />
+          <span>{formatJuryScoring(jury)}</span>
+        </p>
+      )}
+
       {/* Memes Display */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {/* Left Meme */}
-        <motion.div
-          initial={{ x: -50, opacity: 0 }}
-          animate={{ x: 0, opacity: 1 }}
-          className="bg-gray-700 rounded-lg overflow-hidden"
-        >
-          {/* Image */}
-          <div className="relative w-full aspect-square bg-gray-900">
-            <Image
-              src={match.leftMeme.imageUrl}
-              alt={match.leftMeme.caption}
-              fill
-              className="object-cover"
-              sizes="(max-width: 768px) 100vw, 50vw"
-              priority
-            />
-          </div>
-
-          {/* Info */}
-          <div className="p-4 space-y-3">
-            <p className="text-white text-center font-medium min-h-[3rem] flex items-center justify-center">
-              {match.leftMeme.caption}
-            </p>
-            
-            {/* Vote Counter */}
-            <div className="bg-gray-800 rounded-lg p-4">
-              <div className="flex items-center justify-between">
-                <span className="text-gray-400 text-sm">Votos:</span>
-                <motion.span 
-                  key={match.votes.left}
-                  initial={{ scale: 1.5, color: '#a855f7' }}
-                  animate={{ scale: 1, color: '#ffffff' }}
-                  className="text-3xl font-bold text-white"
-                >
-                  {match.votes.left}
-                </motion.span>
-              </div>
-              
-              {/* Vote bar */}
-              <div className="mt-2 h-2 bg-gray-900 rounded-full overflow-hidden">
-                <motion.div
-                  className="h-full bg-gradient-to-r from-purple-600 to-pink-600"
-                  initial={{ width: 0 }}
-                  animate={{ 
-                    width: `${
-                      match.votes.left + match.votes.right > 0
-                        ? (match.votes.left / (match.votes.left + match.votes.right)) * 100
-                        : 50
-                    }%` 
-                  }}
-                  transition={{ duration: 0.3 }}
+        {entrants.map((meme, index) => {
+          const votes = getEntrantVotes(match, meme);
+          const score = scores[index];
+          return (
+            <motion.div
+              key={meme.id}
+              initial={{ x: index % 2 === 0 ? -50 : 50, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              className="bg-gray-700 rounded-lg overflow-hidden"
+            >
+              {/* Image */}
+              <div className="relative w-full aspect-square bg-gray-900">
+                <MemeImage
+                  meme={meme}
+                  size="medium"
+                  className="object-cover"
+                  sizes="(max-width: 768px) 100vw, 50vw"
+                  priority
                 />
               </div>
-            </div>
-          </div>
-        </motion.div>
 
-        {/* Right Meme */}
-        <motion.div
-          initial={{ x: 50, opacity: 0 }}
-          animate={{ x: 0, opacity: 1 }}
-          className="bg-gray-700 rounded-lg overflow-hidden"
-        >
-          {/* Image */}
-          <div className="relative w-full aspect-square bg-gray-900">
-            <Image
-              src={match.rightMeme.imageUrl}
-              alt={match.rightMeme.caption}
-              fill
-              className="object-cover"
-              sizes="(max-width: 768px) 100vw, 50vw"
-              priority
-            />
-          </div>
+              {/* Info */}
+              <div className="p-4 space-y-3">
+                <p className="text-white text-center font-medium min-h-[3rem] flex items-center justify-center">
+                  {meme.caption}
+                </p>
+                
+                {/* Vote Counter */}
+                <div className="bg-gray-800 rounded-lg p-4">
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-400 text-sm">{hasJury ? 'Placar:' : 'Votos:'}</span>
+                    <motion.span 
+                      key={score}
+                      initial={{ scale: 1.5, color: '#a855f7' }}
+                      animate={{ scale: 1, color: '#ffffff' }}
+                      className="text-3xl font-bold text-white"
+                    >
+                      {formatMatchScore(score, jury)}
+                    </motion.span>
+                  </div>
 
-          {/* Info */}
-          <div className="p-4 space-y-3">
-            <p className="text-white text-center font-medium min-h-[3rem] flex items-center justify-center">
-              {match.rightMeme.caption}
-            </p>
-            
-            {/* Vote Counter */}
-            <div className="bg-gray-800 rounded-lg p-4">
-              <div className="flex items-center justify-between">
-                <span className="text-gray-400 text-sm">Votos:</span>
-                <motion.span 
-                  key={match.votes.right}
-                  initial={{ scale: 1.5, color: '#a855f7' }}
-                  animate={{ scale: 1, color: '#ffffff' }}
-                  className="text-3xl font-bold text-white"
-                >
-                  {match.votes.right}
-                </motion.span>
-              </div>
-              
-              {/* Vote bar */}
-              <div className="mt-2 h-2 bg-gray-900 rounded-full overflow-hidden">
-                <motion.div
-                  className="h-full bg-gradient-to-r from-purple-600 to-pink-600"
-                  initial={{ width: 0 }}
-                  animate={{ 
-                    width: `${
-                      match.votes.left + match.votes.right > 0
-                        ? (match.votes.right / (match.votes.left + match.votes.right)) * 100
-                        : 50
-                    }%` 
-                  }}
-                  transition={{ duration: 0.3 }}
-                />
+                  {/* Jury vs audience breakdown */}
+                  {hasJury && (
+                    <div className="mt-1 flex justify-between text-xs text-gray-400">
+                      <span>Público: {votes}</span>
+                      <span>Júri: {getJuryVotes(match, meme)}</span>
+                    </div>
+                  )}
+                  
+                  {/* Vote bar */}
+                  <div className="mt-2 h-2 bg-gray-900 rounded-full overflow-hidden">
+                    <motion.div
+                      className="h-full bg-gradient-to-r from-purple-600 to-pink-600"
+                      initial={{ width: 0 }}
+                      animate={{ 
+                        width: `${totalScore > 0 ? (score / totalScore) * 100 : 100 / entrants.length}%` 
+                      }}
+                      transition={{ duration: 0.3 }}
+                    />
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
-        </motion.div>
+            </motion.div>
+          );
+        })}
       </div>
 
       {/* Total Votes */}
       <div className="bg-gray-700 rounded-lg p-4">
         <div className="flex items-center justify-between">
-          <span className="text-gray-300">Total de votos:</span>
+          <span className="text-gray-300">{hasJury ? 'Votos do público:' : 'Total de votos:'}</span>
           <span className="text-2xl font-bold text-white">
-            {match.votes.left + match.votes.right}
+            {totalVotes}
           </span>
         </div>
+        {hasJury && (
+          <div className="flex items-center justify-between mt-2">
+            <span className="text-gray-300">Votos do júri:</span>
+            <span className="text-2xl font-bold text-white">
+              {getTotalJuryVotes(match)}
+            </span>
+          </div>
+        )}
       </div>
     </div>
   );
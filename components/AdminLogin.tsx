@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Lock } from 'lucide-react';
+
+interface AdminLoginProps {
+  onSignedIn: () => void;
+}
+
+export function AdminLogin({ onSignedIn }: AdminLoginProps) {
+  const [secret, setSecret] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!secret) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/admin/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ secret })
+      });
+
+      if (!response.ok) {
+        setError(response.status === 401 ? 'Senha de admin incorreta' : 'Não foi possível entrar');
+        return;
+      }
+      setSecret('');
+      onSignedIn();
+    } catch {
+      setError('Não foi possível entrar');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="flex items-center justify-center min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900 p-4"
+    >
+      <div className="w-full max-w-sm bg-gray-800 rounded-lg p-6 space-y-4">
+        <div className="flex items-center space-x-2 text-white">
+          <Lock className="w-5 h-5" />
+          <h1 className="text-lg font-bold">Área do admin</h1>
+        </div>
+        <p className="text-gray-400 text-sm">Digite a senha de admin configurada no servidor.</p>
+        <input
+          type="password"
+          aria-label="Senha de admin"
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+          autoFocus
+          className="w-full px-4 py-2 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-purple-500 focus:outline-none"
+        />
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+        <button
+          onClick={handleSubmit}
+          disabled={!secret || isSubmitting}
+          className="w-full py-2 rounded-lg bg-purple-600 text-white font-bold hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSubmitting ? 'Entrando...' : 'Entrar'}
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -1,16 +1,25 @@
 'use client';
 
 import { motion } from 'framer-motion';
-import Image from 'next/image';
-import { Round, Match } from '@/types';
-import { Trophy, Clock, CheckCircle } from 'lucide-react';
+import { Round, Match, Meme, BracketSide, TournamentFormat } from '@/types';
+import { Trophy, Clock, CheckCircle, Coffee, Scale, ShieldAlert, Flag } from 'lucide-react';
+import { TIE_BREAK_LABELS } from '@/lib/tie-break';
+import { OVERRIDE_LABEL } from '@/lib/match-override';
+import { END_REASON_LABELS } from '@/lib/match-ending';
+import { getEntrants, getEntrantVotes, hasBothMemes, isHeat } from '@/lib/heats';
+import { BRACKET_SIDE_LABELS, getRoundLabel } from '@/lib/round-labels';
+import { getJuryVotes, getTotalJuryVotes } from '@/lib/jury';
+import { MemeImage } from './MemeImage';
 
 interface BracketVisualizationProps {
   bracket: Round[];
   currentMatchId: string | null;
+  format?: TournamentFormat;
+  seeds?: Record<string, number>;
+  showEndReasons?: boolean;
 }
 
-export function BracketVisualization({ bracket, currentMatchId }: BracketVisualizationProps) {
+export function BracketVisualization({ bracket, currentMatchId, format, seeds, showEndReasons }: BracketVisualizationProps) {
   if (bracket.length === 0) {
     return (
       <div className="bg-gray-800 rounded-lg p-6">
@@ -37,7 +46,7 @@ export function BracketVisualization({ bracket, currentMatchId }: BracketVisuali
       return 'border-purple-500 border-2 shadow-lg shadow-purple-500/50 animate-pulse';
     }
     if (status === 'completed') {
-      return 'border-green-700 border';
+      return match.override ? 'border-orange-500 border-2' : 'border-green-700 border';
     }
     return 'border-gray-700 border';
   };
@@ -53,6 +62,173 @@ export function BracketVisualization({ bracket, currentMatchId }: BracketVisuali
     return 'bg-gray-800/50';
   };
 
+  const isDoubleElimination = format === 'DOUBLE_ELIMINATION';
+
+  // Rounds of the same bracket side, in play order
+  const getSideRounds = (side: BracketSide) =>
+    bracket.filter(round => (round.side || 'WINNERS') === side);
+
+  const renderSeed = (memeId: string) =>
+    seeds?.[memeId] ? (
+      <span className="text-gray-400 text-xs font-bold mr-1">#{seeds[memeId]}</span>
+    ) : null;
+
+  const renderEntrant = (match: Match, meme: Meme, isAdvancing: boolean, isUpcoming: boolean) => (
+    <div key={meme.id} className={`
+      flex items-center space-x-2 p-2 rounded
+      ${isAdvancing 
+        ? 'bg-green-900/30 border border-green-700' 
+        : 'bg-gray-700/50'
+      }
+    `}>
+      <div className="relative w-12 h-12 rounded overflow-hidden bg-gray-900 flex-shrink-0">
+        <MemeImage
+          meme={meme}
+          size="thumbnail"
+          className="object-cover"
+          sizes="48px"
+        />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-white text-sm truncate">
+          {renderSeed(meme.id)}
+          {meme.caption}
+        </p>
+        {!isUpcoming && (
+          <p className="text-gray-400 text-xs">
+            {match.votesHidden ? '?' : getEntrantVotes(match, meme)} votos
+            {getTotalJuryVotes(match) > 0 && ` · ${getJuryVotes(match, meme)} do júri`}
+          </p>
+        )}
+      </div>
+      {isAdvancing && (
+        <Trophy className="w-4 h-4 text-yellow-400 flex-shrink-0" />
+      )}
+    </div>
+  );
+
+  const renderRound = (round: Round, roundIndex: number) => (
+    <div key={roundIndex} className="flex flex-col space-y-4 min-w-[280px]">
+      {/* Round Label */}
+      <div className="text-center mb-2">
+        <h3 className="text-lg font-bold text-white">
+          {getRoundLabel(bracket, round, format)}
+        </h3>
+        <p className="text-sm text-gray-400">
+          {round.matches.length} {round.matches.some(isHeat)
+            ? (round.matches.length === 1 ? 'bateria' : 'baterias')
+            : (round.matches.length === 1 ? 'duelo' : 'duelos')}
+        </p>
+        {round.bye && (
+          <p className="flex items-center justify-center space-x-1 text-xs text-gray-400 mt-1">
+            <Coffee className="w-3 h-3" />
+            <span>Folga: {round.bye.caption}</span>
+          </p>
+        )}
+      </div>
+
+      {/* Matches */}
+      <div className="flex flex-col justify-around space-y-4 flex-1">
+        {round.matches.map((match, matchIndex) => {
+          const status = getMatchStatus(match);
+          const isCompleted = status === 'completed';
+          const isCurrent = status === 'current';
+          const isUpcoming = status === 'upcoming';
+
+          return (
+            <motion.div
+              key={match.id}
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ delay: roundIndex * 0.1 + matchIndex * 0.05 }}
+              className={`
+                rounded-lg p-3 space-y-2 transition-all
+                ${getMatchBorderClass(match)}
+                ${getMatchBgClass(match)}
+                ${isUpcoming ? 'opacity-60' : ''}
+              `}
+            >
+              {/* Match Header */}
+              <div className="flex items-center justify-between text-xs text-gray-400">
+                <span>Match {matchIndex + 1}</span>
+                {isCurrent && (
+                  <div className="flex items-center space-x-1 text-purple-400">
+                    <Clock className="w-3 h-3" />
+                    <span>Em andamento</span>
+                  </div>
+                )}
+                {isCompleted && (
+                  <div className="flex items-center space-x-1 text-green-400">
+                    <CheckCircle className="w-3 h-3" />
+                    <span>{match.winner ? 'Concluído' : 'Empate'}</span>
+                  </div>
+                )}
+              </div>
+
+              {!hasBothMemes(match) ? (
+                // Show placeholder when memes aren't assigned yet (future rounds)
+                <div className="text-center py-6 text-gray-500 text-sm">
+                  Aguardando vencedores da rodada anterior...
+                </div>
+              ) : (
+                <>
+                  {isHeat(match) ? (
+                    // Heat: every entrant, with the qualifiers highlighted
+                    getEntrants(match).map(meme => renderEntrant(
+                      match,
+                      meme,
+                      isCompleted && !!match.qualifiers?.some(q => q.id === meme.id),
+                      isUpcoming
+                    ))
+                  ) : (
+                    <>
+                      {renderEntrant(match, match.leftMeme, isCompleted && match.winner?.id === match.leftMeme.id, isUpcoming)}
+
+                      {/* VS Divider */}
+                      <div className="text-center">
+                        <span className="text-xs text-gray-500 font-bold">VS</span>
+                      </div>
+
+                      {renderEntrant(match, match.rightMeme, isCompleted && match.winner?.id === match.rightMeme.id, isUpcoming)}
+                    </>
+                  )}
+
+                  {/* Admin override */}
+                  {isCompleted && match.override && (
+                    <div className="text-xs text-orange-400 text-center" title={match.override.reason}>
+                      <p className="flex items-center justify-center space-x-1 font-semibold">
+                        <ShieldAlert className="w-3 h-3" />
+                        <span>{OVERRIDE_LABEL}</span>
+                      </p>
+                      <p className="truncate italic">&ldquo;{match.override.reason}&rdquo;</p>
+                    </div>
+                  )}
+
+                  {/* Why voting ended */}
+                  {isCompleted && showEndReasons && match.endReason && (
+                    <p className="flex items-center justify-center space-x-1 text-xs text-gray-400">
+                      <Flag className="w-3 h-3" />
+                      <span>{END_REASON_LABELS[match.endReason]}</span>
+                      {!!match.extensions && <span>(+{match.extensions} prorrogação{match.extensions > 1 ? 'ões' : ''})</span>}
+                    </p>
+                  )}
+
+                  {/* Tie-break */}
+                  {isCompleted && match.decidedBy && (
+                    <p className="flex items-center justify-center space-x-1 text-xs text-yellow-400">
+                      <Scale className="w-3 h-3" />
+                      <span>Desempate: {TIE_BREAK_LABELS[match.decidedBy]}</span>
+                    </p>
+                  )}
+                </>
+              )}
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
   return (
     <div className="bg-gray-800 rounded-lg p-6 space-y-6">
       {/* Header */}
@@ -78,153 +254,26 @@ export function BracketVisualization({ bracket, currentMatchId }: BracketVisuali
       </div>
 
       {/* Bracket Display */}
-      <div className="overflow-x-auto">
-        <div className="flex space-x-8 min-w-max pb-4">
-          {bracket.map((round, roundIndex) => (
-            <div key={roundIndex} className="flex flex-col space-y-4 min-w-[280px]">
-              {/* Round Label */}
-              <div className="text-center mb-2">
-                <h3 className="text-lg font-bold text-white">
-                  {roundIndex === bracket.length - 1 
-                    ? 'Final' 
-                    : roundIndex === bracket.length - 2
-                    ? 'Semifinal'
-                    : `Round ${roundIndex + 1}`
-                  }
-                </h3>
-                <p className="text-sm text-gray-400">
-                  {round.matches.length} {round.matches.length === 1 ? 'duelo' : 'duelos'}
-                </p>
-              </div>
-
-              {/* Matches */}
-              <div className="flex flex-col justify-around space-y-4 flex-1">
-                {round.matches.map((match, matchIndex) => {
-                  const status = getMatchStatus(match);
-                  const isCompleted = status === 'completed';
-                  const isCurrent = status === 'current';
-                  const isUpcoming = status === 'upcoming';
-                  
-                  // Check if memes are assigned yet (they might be null for future rounds)
-                  const hasLeftMeme = match.leftMeme != null;
-                  const hasRightMeme = match.rightMeme != null;
-                  const hasBothMemes = hasLeftMeme && hasRightMeme;
-
-                  return (
-                    <motion.div
-                      key={match.id}
-                      initial={{ opacity: 0, x: -20 }}
-                      animate={{ opacity: 1, x: 0 }}
-                      transition={{ delay: roundIndex * 0.1 + matchIndex * 0.05 }}
-                      className={`
-                        rounded-lg p-3 space-y-2 transition-all
-                        ${getMatchBorderClass(match)}
-                        ${getMatchBgClass(match)}
-                        ${isUpcoming ? 'opacity-60' : ''}
-                      `}
-                    >
-                      {/* Match Header */}
-                      <div className="flex items-center justify-between text-xs text-gray-400">
-                        <span>Match {matchIndex + 1}</span>
-                        {isCurrent && (
-                          <div className="flex items-center space-x-1 text-purple-400">
-                            <Clock className="w-3 h-3" />
-                            <span>Em andamento</span>
-                          </div>
-                        )}
-                        {isCompleted && (
-                          <div className="flex items-center space-x-1 text-green-400">
-                            <CheckCircle className="w-3 h-3" />
-                            <span>Concluído</span>
-                          </div>
-                        )}
-                      </div>
-
-                      {!hasBothMemes ? (
-                        // Show placeholder when memes aren't assigned yet
-                        <div className="text-center py-6 text-gray-500 text-sm">
-                          Aguardando vencedores da rodada anterior...
-                        </div>
-                      ) : (
-                        <>
-                          {/* Left Meme */}
-                          <div className={`
-                            flex items-center space-x-2 p-2 rounded
-                            ${isCompleted && match.winner?.id === match.leftMeme.id 
-                              ? 'bg-green-900/30 border border-green-700' 
-                              : 'bg-gray-700/50'
-                            }
-                          `}>
-                            <div className="relative w-12 h-12 rounded overflow-hidden bg-gray-900 flex-shrink-0">
-                              <Image
-                                src={match.leftMeme.imageUrl}
-                                alt={match.leftMeme.caption}
-                                fill
-                                className="object-cover"
-                                sizes="48px"
-                              />
-                            </div>
-                            <div className="flex-1 min-w-0">
-                              <p className="text-white text-sm truncate">
-                                {match.leftMeme.caption}
-                              </p>
-                              {!isUpcoming && (
-                                <p className="text-gray-400 text-xs">
-                                  {match.votes.left} votos
-                                </p>
-                              )}
-                            </div>
-                            {isCompleted && match.winner?.id === match.leftMeme.id && (
-                              <Trophy className="w-4 h-4 text-yellow-400 flex-shrink-0" />
-                            )}
-                          </div>
-
-                          {/* VS Divider */}
-                          <div className="text-center">
-                            <span className="text-xs text-gray-500 font-bold">VS</span>
-                          </div>
-
-                          {/* Right Meme */}
-                          <div className={`
-                            flex items-center space-x-2 p-2 rounded
-                            ${isCompleted && match.winner?.id === match.rightMeme.id 
-                              ? 'bg-green-900/30 border border-green-700' 
-                              : 'bg-gray-700/50'
-                            }
-                          `}>
-                            <div className="relative w-12 h-12 rounded overflow-hidden bg-gray-900 flex-shrink-0">
-                              <Image
-                                src={match.rightMeme.imageUrl}
-                                alt={match.rightMeme.caption}
-                                fill
-                                className="object-cover"
-                                sizes="48px"
-                              />
-                            </div>
-                            <div className="flex-1 min-w-0">
-                              <p className="text-white text-sm truncate">
-                                {match.rightMeme.caption}
-                              </p>
-                              {!isUpcoming && (
-                                <p className="text-gray-400 text-xs">
-                                  {match.votes.right} votos
-                                </p>
-                              )}
-                            </div>
-                            {isCompleted && match.winner?.id === match.rightMeme.id && (
-                              <Trophy className="w-4 h-4 text-yellow-400 flex-shrink-0" />
-                            )}
-                          </div>
-                        </>
-                      )}
-                    </motion.div>
-                  );
-                })}
+      {isDoubleElimination ? (
+        (['WINNERS', 'LOSERS', 'GRAND_FINAL'] as BracketSide[])
+          .filter(side => getSideRounds(side).length > 0)
+          .map(side => (
+            <div key={side} className="space-y-3">
+              <h3 className="text-xl font-bold text-white">{BRACKET_SIDE_LABELS[side]}</h3>
+              <div className="overflow-x-auto">
+                <div className="flex space-x-8 min-w-max pb-4">
+                  {getSideRounds(side).map(round => renderRound(round, bracket.indexOf(round)))}
+                </div>
               </div>
             </div>
-          ))}
+          ))
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="flex space-x-8 min-w-max pb-4">
+            {bracket.map((round, roundIndex) => renderRound(round, roundIndex))}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
@@ -2,31 +2,52 @@
 
 import { motion, AnimatePresence } from 'framer-motion';
 import { useState, useEffect } from 'react';
-import { Match, VoteChoice } from '@/types';
+import { Match, Meme, VoteTarget } from '@/types';
 import { MemeCard } from './MemeCard';
 import { Timer } from './Timer';
 import { Snackbar } from './Snackbar';
+import { TIE_BREAK_PHASE_MESSAGES, getVotingRound } from '@/lib/tie-break';
+import { THIRD_PLACE_LABEL } from '@/lib/podium';
+import { HEAT_LABEL, getEntrantVotes, hasBothMemes } from '@/lib/heats';
+import { useCountdown } from '@/hooks/useCountdown';
+import { Pause, Check } from 'lucide-react';
 
 interface DuelViewProps {
   match: Match;
-  onVote: (matchId: string, choice: VoteChoice) => void;
+  onVote: (matchId: string, target: VoteTarget) => void;
   error?: string | null;
   hasVotedInCurrentMatch?: boolean;
+  isPaused?: boolean;
+  activeMatches?: Match[];
+  votedMatchIds?: string[];
+  onSelectMatch?: (matchId: string) => void;
 }
 
-export function DuelView({ match, onVote, error, hasVotedInCurrentMatch = false }: DuelViewProps) {
+export function DuelView({
+  match,
+  onVote,
+  error,
+  hasVotedInCurrentMatch = false,
+  isPaused = false,
+  activeMatches = [],
+  votedMatchIds = [],
+  onSelectMatch
+}: DuelViewProps) {
   const [showVotedSnackbar, setShowVotedSnackbar] = useState(false);
-  const [previousMatchId, setPreviousMatchId] = useState(match.id);
+  // A tie-break that reopens voting counts as a new voting round
+  const votingRound = `${match.id}:${getVotingRound(match)}`;
+  const [previousVotingRound, setPreviousVotingRound] = useState(votingRound);
+  const timeRemaining = useCountdown(match);
 
   // Determine if voting is enabled
-  // Disable voting if user has already voted in this match
-  const isVotingEnabled = match.status === 'IN_PROGRESS' && match.timeRemaining > 0 && !hasVotedInCurrentMatch;
+  // Disable voting if user has already voted in this match or the admin paused the tournament
+  const isVotingEnabled = match.status === 'IN_PROGRESS' && timeRemaining > 0 && !hasVotedInCurrentMatch && !isPaused;
 
   // Show snackbar when user has voted
   useEffect(() => {
     // Reset snackbar when match changes
-    if (match.id !== previousMatchId) {
-      setPreviousMatchId(match.id);
+    if (votingRound !== previousVotingRound) {
+      setPreviousVotingRound(votingRound);
       setShowVotedSnackbar(false);
     }
 
@@ -34,7 +55,7 @@ export function DuelView({ match, onVote, error, hasVotedInCurrentMatch = false
     if (hasVotedInCurrentMatch && match.status === 'IN_PROGRESS') {
       setShowVotedSnackbar(true);
     }
-  }, [hasVotedInCurrentMatch, match.id, match.status, previousMatchId]);
+  }, [hasVotedInCurrentMatch, votingRound, match.status, previousVotingRound]);
 
   const handleLeftVote = () => {
     if (isVotingEnabled) {
@@ -48,6 +69,22 @@ export function DuelView({ match, onVote, error, hasVotedInCurrentMatch = false
     }
   };
 
+  const handleEntrantVote = (meme: Meme) => {
+    if (isVotingEnabled) {
+      onVote(match.id, { memeId: meme.id });
+    }
+  };
+
+  const getMatchLabel = () => {
+    if (match.entrants) {
+      return `${HEAT_LABEL} ${match.matchIndex + 1} - ${match.entrants.length} memes`;
+    }
+    if (match.isThirdPlace) {
+      return THIRD_PLACE_LABEL;
+    }
+    return `Round ${match.roundIndex + 1} - Match ${match.matchIndex + 1}`;
+  };
+
   return (
     <motion.div 
       initial={{ opacity: 0 }}
@@ -67,10 +104,47 @@ export function DuelView({ match, onVote, error, hasVotedInCurrentMatch = false
           Duelo de Memes
         </h1>
         <p className="text-sm md:text-base text-gray-300">
-          Round {match.roundIndex + 1} - Match {match.matchIndex + 1}
+          {getMatchLabel()}
+          {match.votesHidden && <span className="text-gray-400"> · Placar revelado no fim do duelo</span>}
         </p>
       </motion.div>
 
+      {/* Parallel duels */}
+      {activeMatches.length > 1 && onSelectMatch && (
+        <div className="flex flex-wrap justify-center gap-2 px-2 pb-2" role="tablist" aria-label="Duelos em andamento">
+          {activeMatches.map((activeMatch, index) => {
+            const isSelected = activeMatch.id === match.id;
+            const hasVoted = votedMatchIds.includes(activeMatch.id);
+            return (
+              <button
+                key={activeMatch.id}
+                role="tab"
+                aria-selected={isSelected}
+                onClick={() => onSelectMatch(activeMatch.id)}
+                className={`
+                  flex items-center space-x-1 px-3 py-1.5 rounded-full text-sm font-semibold transition-colors
+                  ${isSelected ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}
+                `}
+              >
+                <span>Duelo {index + 1}</span>
+                {hasVoted && <Check className="w-4 h-4 text-green-400" />}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Tie-break */}
+      {match.tieBreakPhase && (
+        <motion.p
+          initial={{ scale: 0.8, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          className="text-center text-lg md:text-xl font-bold text-yellow-400 px-2"
+        >
+          {TIE_BREAK_PHASE_MESSAGES[match.tieBreakPhase]}
+        </motion.p>
+      )}
+
       {/* Timer */}
       <motion.div 
         initial={{ scale: 0 }}
@@ -81,28 +155,46 @@ export function DuelView({ match, onVote, error, hasVotedInCurrentMatch = false
         <Timer 
           timeRemaining={match.timeRemaining} 
           totalTime={match.totalTime}
+          endsAt={match.endsAt}
           size="small"
         />
       </motion.div>
 
-      {/* Meme Cards - Side by side on desktop, stacked on mobile */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 md:gap-4 p-2 md:p-4 md:overflow-hidden max-w-7xl mx-auto w-full justify-items-center">
-        <MemeCard
-          meme={match.leftMeme}
-          voteCount={match.votes.left}
-          onVote={handleLeftVote}
-          disabled={!isVotingEnabled}
-          side="left"
-        />
-        
-        <MemeCard
-          meme={match.rightMeme}
-          voteCount={match.votes.right}
-          onVote={handleRightVote}
-          disabled={!isVotingEnabled}
-          side="right"
-        />
-      </div>
+      {/* Meme Cards - Side by side on desktop, stacked on mobile; heats use a compact grid */}
+      {match.entrants ? (
+        <div className={`grid grid-cols-2 gap-2 md:gap-4 p-2 md:p-4 md:overflow-hidden max-w-7xl mx-auto w-full justify-items-center ${
+          match.entrants.length > 3 ? 'md:grid-cols-4' : 'md:grid-cols-3'
+        }`}>
+          {match.entrants.map((meme) => (
+            <MemeCard
+              key={meme.id}
+              meme={meme}
+              voteCount={match.votesHidden ? null : getEntrantVotes(match, meme)}
+              onVote={() => handleEntrantVote(meme)}
+              disabled={!isVotingEnabled}
+              compact
+            />
+          ))}
+        </div>
+      ) : hasBothMemes(match) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 md:gap-4 p-2 md:p-4 md:overflow-hidden max-w-7xl mx-auto w-full justify-items-center">
+          <MemeCard
+            meme={match.leftMeme}
+            voteCount={match.votesHidden ? null : match.votes.left}
+            onVote={handleLeftVote}
+            disabled={!isVotingEnabled}
+            side="left"
+          />
+          
+          <MemeCard
+            meme={match.rightMeme}
+            voteCount={match.votesHidden ? null : match.votes.right}
+            onVote={handleRightVote}
+            disabled={!isVotingEnabled}
+            side="right"
+          />
+        </div>
+      )}
 
       {/* Error message */}
       <AnimatePresence>
@@ -121,9 +213,31 @@ export function DuelView({ match, onVote, error, hasVotedInCurrentMatch = false
         )}
       </AnimatePresence>
 
+      {/* Paused overlay */}
+      <AnimatePresence>
+        {isPaused && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3 }}
+            className="fixed inset-0 z-40 flex flex-col items-center justify-center bg-gray-900/80 backdrop-blur-sm text-center px-4"
+            role="status"
+          >
+            <Pause className="w-16 h-16 md:w-20 md:h-20 text-yellow-400 mb-4" />
+            <p className="text-3xl md:text-4xl font-bold text-white mb-2">
+              Torneio pausado
+            </p>
+            <p className="text-lg md:text-xl text-gray-300">
+              A votação será retomada em instantes
+            </p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Status message - only for completed or waiting states */}
       <AnimatePresence>
-        {!isVotingEnabled && !hasVotedInCurrentMatch && (
+        {!isVotingEnabled && !hasVotedInCurrentMatch && !isPaused && (
           <motion.div 
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
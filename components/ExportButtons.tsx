@@ -0,0 +1,41 @@
+'use client';
+
+import { Download } from 'lucide-react';
+import { ExportFormat } from '@/types';
+
+interface ExportButtonsProps {
+  getExportUrl: (format: ExportFormat) => string;
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'md', label: 'Markdown', description: 'Resumo pronto para colar' },
+  { format: 'csv', label: 'CSV', description: 'Uma linha por duelo' },
+  { format: 'json', label: 'JSON', description: 'Estado completo do torneio' }
+];
+
+/**
+ * Download links for the results of a finished tournament
+ */
+export function ExportButtons({ getExportUrl }: ExportButtonsProps) {
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-3">
+      <h2 className="flex items-center space-x-2 text-lg font-bold text-white">
+        <Download className="w-5 h-5" />
+        <span>Exportar resultados</span>
+      </h2>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        {EXPORT_OPTIONS.map(({ format, label, description }) => (
+          <a
+            key={format}
+            href={getExportUrl(format)}
+            download
+            className="p-3 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+          >
+            <p className="text-white text-sm font-bold">{label}</p>
+            <p className="text-gray-400 text-xs">{description}</p>
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Gavel, X } from 'lucide-react';
+
+interface JuryJoinProps {
+  judge: { id: string; name: string } | null;
+  onJoin: (code: string) => void;
+}
+
+export function JuryJoin({ judge, onJoin }: JuryJoinProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [code, setCode] = useState('');
+
+  // A judge's votes count for the jury; show whose seat this is
+  if (judge) {
+    return (
+      <div className="fixed bottom-4 right-4 z-40 flex items-center space-x-2 bg-purple-700/90 text-white px-4 py-2 rounded-full shadow-lg">
+        <Gavel className="w-4 h-4" />
+        <span className="text-sm font-semibold">Jurado: {judge.name}</span>
+      </div>
+    );
+  }
+
+  const handleSubmit = () => {
+    if (!code.trim()) {
+      return;
+    }
+    onJoin(code.trim());
+    setCode('');
+    setIsOpen(false);
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-4 right-4 z-40 flex items-center space-x-2 bg-gray-900/80 text-white px-4 py-2 rounded-full shadow-lg hover:bg-gray-800"
+      >
+        <Gavel className="w-4 h-4" />
+        <span className="text-sm font-semibold">Sou jurado</span>
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4"
+            onClick={() => setIsOpen(false)}
+          >
+            <div
+              className="relative w-full max-w-sm bg-gray-800 rounded-lg p-6 space-y-4"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <button
+                onClick={() => setIsOpen(false)}
+                className="absolute top-4 right-4 text-gray-400 hover:text-white"
+                aria-label="Fechar"
+              >
+                <X className="w-5 h-5" />
+              </button>
+              <h2 className="text-lg font-bold text-white">Entrar no júri</h2>
+              <p className="text-gray-400 text-sm">Digite o código que você recebeu do organizador.</p>
+              <input
+                type="text"
+                aria-label="Código do jurado"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                autoFocus
+                className="w-full px-4 py-2 bg-gray-700 text-white font-mono tracking-widest text-center rounded-lg border border-gray-600 focus:border-purple-500 focus:outline-none"
+              />
+              <button
+                onClick={handleSubmit}
+                disabled={!code.trim()}
+                className="w-full py-2 rounded-lg bg-purple-600 text-white font-bold hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+              >
+                ENTRAR
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
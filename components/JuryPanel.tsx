@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { Judge } from '@/types';
+import { Gavel, UserPlus, UserCheck, Trash2 } from 'lucide-react';
+import { MAX_JUDGE_NAME_LENGTH } from '@/lib/jury';
+
+interface JuryPanelProps {
+  judges: Judge[];
+  onAddJudge: (name: string) => void;
+  onRemoveJudge: (judgeId: string) => void;
+}
+
+export function JuryPanel({ judges, onAddJudge, onRemoveJudge }: JuryPanelProps) {
+  const [name, setName] = useState('');
+
+  const handleAdd = () => {
+    if (!name.trim()) {
+      return;
+    }
+    onAddJudge(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-4">
+      <h2 className="flex items-center space-x-2 text-lg font-bold text-white">
+        <Gavel className="w-5 h-5" />
+        <span>Júri ({judges.length})</span>
+      </h2>
+
+      {/* Add judge */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          aria-label="Nome do jurado"
+          value={name}
+          maxLength={MAX_JUDGE_NAME_LENGTH}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Nome do jurado"
+          className="flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-purple-500 focus:outline-none"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!name.trim()}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 text-white text-sm font-bold hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+        >
+          <UserPlus className="w-4 h-4" />
+          <span>GERAR CÓDIGO</span>
+        </button>
+      </div>
+
+      {/* Judges and their join codes */}
+      {judges.length > 0 ? (
+        <ul className="space-y-2">
+          {judges.map((judge) => (
+            <li key={judge.id} className="flex items-center gap-3 p-2 rounded-lg bg-gray-700/50">
+              <span className="flex-1 min-w-0 text-white text-sm truncate">{judge.name}</span>
+              <code className="px-2 py-1 rounded bg-gray-900 text-purple-300 font-mono tracking-widest">
+                {judge.joinCode}
+              </code>
+              <span className={`flex items-center gap-1 text-xs w-24 ${judge.joined ? 'text-green-400' : 'text-gray-400'}`}>
+                {judge.joined && <UserCheck className="w-4 h-4" />}
+                {judge.joined ? 'Conectado' : 'Aguardando'}
+              </span>
+              <button
+                onClick={() => onRemoveJudge(judge.id)}
+                aria-label={`Remover ${judge.name}`}
+                className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-400 text-sm">
+          Nenhum jurado cadastrado. Cada jurado recebe um código para entrar pela tela de votação.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { Match } from '@/types';
+import { Plus, Minus, Square } from 'lucide-react';
+import { useCountdown } from '@/hooks/useCountdown';
+
+/**
+ * Seconds added or removed by each time adjustment button
+ */
+const TIME_STEP_SECONDS = 10;
+
+interface MatchControlsProps {
+  match: Match;
+  onAdjustTime: (matchId: string, deltaSeconds: number) => void;
+  onEndMatch: (matchId: string) => void;
+}
+
+export function MatchControls({
+  match,
+  onAdjustTime,
+  onEndMatch
+}: MatchControlsProps) {
+  // Nothing to time while the admin has to pick a tie winner
+  const isTimerLocked = match.status !== 'IN_PROGRESS' || match.tieBreakPhase === 'AWAITING_ADMIN';
+  const timeRemaining = useCountdown(match);
+
+  const buttonClass = 'flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-white text-sm font-bold transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 flex flex-wrap items-center justify-center gap-3">
+      <button
+        onClick={() => onAdjustTime(match.id, -TIME_STEP_SECONDS)}
+        disabled={isTimerLocked || timeRemaining <= 1}
+        className={`${buttonClass} bg-gray-700 hover:bg-gray-600`}
+        aria-label={`Remover ${TIME_STEP_SECONDS} segundos`}
+      >
+        <Minus className="w-4 h-4" />
+        <span>{TIME_STEP_SECONDS}s</span>
+      </button>
+
+      <button
+        onClick={() => onAdjustTime(match.id, TIME_STEP_SECONDS)}
+        disabled={isTimerLocked}
+        className={`${buttonClass} bg-gray-700 hover:bg-gray-600`}
+        aria-label={`Adicionar ${TIME_STEP_SECONDS} segundos`}
+      >
+        <Plus className="w-4 h-4" />
+        <span>{TIME_STEP_SECONDS}s</span>
+      </button>
+
+      <button
+        onClick={() => onEndMatch(match.id)}
+        disabled={isTimerLocked}
+        className={`${buttonClass} bg-red-600 hover:bg-red-700`}
+      >
+        <Square className="w-4 h-4" />
+        <span>ENCERRAR DUELO</span>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { Match, Meme, MatchResultIntermission, Round, TournamentFormat } from '@/types';
+import { Trophy, SkipForward } from 'lucide-react';
+import { BracketVisualization } from './BracketVisualization';
+import { HEAT_LABEL, rankEntrants, getEntrants, getEntrantVotes } from '@/lib/heats';
+import { THIRD_PLACE_LABEL } from '@/lib/podium';
+import { JurySettings, getJuryVotes, getTotalJuryVotes, getMatchScore, formatMatchScore } from '@/lib/jury';
+import { useCountdown } from '@/hooks/useCountdown';
+import { MemeImage } from './MemeImage';
+
+/**
+ * Seconds the result is on screen before the updated bracket appears
+ */
+const BRACKET_REVEAL_DELAY = 2;
+
+interface MatchResultRevealProps {
+  result: MatchResultIntermission;
+  bracket?: Round[];
+  format?: TournamentFormat;
+  seeds?: Record<string, number>;
+  jury?: JurySettings;
+  onContinue?: () => void;
+}
+
+export function MatchResultReveal({ result, bracket, format, seeds, jury = {}, onContinue }: MatchResultRevealProps) {
+  const timeRemaining = useCountdown(result);
+
+  const getMatchLabel = (match: Match) => {
+    if (match.entrants) {
+      return `${HEAT_LABEL} ${match.matchIndex + 1}`;
+    }
+    if (match.isThirdPlace) {
+      return THIRD_PLACE_LABEL;
+    }
+    return `Round ${match.roundIndex + 1} - Match ${match.matchIndex + 1}`;
+  };
+
+  const renderResult = (match: Match, index: number) => {
+    const getScore = (meme: Meme) => getMatchScore(match, meme, jury);
+    const totalScore = getEntrants(match).reduce((total, meme) => total + getScore(meme), 0);
+    const hasJuryVotes = getTotalJuryVotes(match) > 0;
+    const advancing = match.qualifiers || (match.winner ? [match.winner] : []);
+
+    return (
+      <motion.div
+        key={match.id}
+        initial={{ y: 40, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ delay: index * 0.2 }}
+        className="bg-gray-800/80 rounded-2xl p-4 space-y-3 w-full max-w-xl"
+      >
+        <p className="text-center text-gray-300 text-sm">{getMatchLabel(match)}</p>
+
+        {rankEntrants(match, getScore).map((meme, place) => {
+          const score = getScore(meme);
+          const isAdvancing = advancing.some(m => m.id === meme.id);
+          return (
+            <motion.div
+              key={meme.id}
+              initial={isAdvancing ? { scale: 0.8 } : { opacity: 0.4 }}
+              animate={isAdvancing ? { scale: [0.8, 1.08, 1] } : { opacity: 1 }}
+              transition={{ delay: 0.6 + index * 0.2 + place * 0.1, duration: 0.6 }}
+              className={`
+                flex items-center space-x-3 p-2 rounded-lg
+                ${isAdvancing ? 'bg-green-900/40 border border-green-500' : 'bg-gray-700/50'}
+              `}
+            >
+              <div className="relative w-14 h-14 rounded overflow-hidden bg-gray-900 flex-shrink-0">
+                <MemeImage
+                  meme={meme}
+                  size="thumbnail"
+                  className="object-cover"
+                  sizes="56px"
+                />
+              </div>
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="text-white font-semibold truncate">{meme.caption}</p>
+                {hasJuryVotes && (
+                  <p className="text-gray-400 text-xs">
+                    {getEntrantVotes(match, meme)} do público · {getJuryVotes(match, meme)} do júri
+                  </p>
+                )}
+                <div className="h-2 bg-gray-900 rounded-full overflow-hidden">
+                  <motion.div
+                    className={`h-full ${isAdvancing ? 'bg-green-500' : 'bg-gray-500'}`}
+                    initial={{ width: 0 }}
+                    animate={{ width: `${totalScore > 0 ? (score / totalScore) * 100 : 0}%` }}
+                    transition={{ delay: 0.3 + index * 0.2, duration: 0.8 }}
+                  />
+                </div>
+              </div>
+              <span className="text-2xl font-black text-white min-w-12 text-right">{formatMatchScore(score, jury)}</span>
+              {isAdvancing && <Trophy className="w-6 h-6 text-yellow-400 flex-shrink-0" />}
+            </motion.div>
+          );
+        })}
+
+        {!match.winner && (
+          <p className="text-center text-yellow-400 font-bold">Empate!</p>
+        )}
+      </motion.div>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.5 }}
+      className={`flex flex-col items-center gap-4 p-4 ${bracket ? 'min-h-screen justify-center bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900' : 'bg-gray-800 rounded-lg'}`}
+    >
+      {/* Title */}
+      <motion.h2
+        initial={{ scale: 0, rotate: -10 }}
+        animate={{ scale: 1, rotate: 0 }}
+        transition={{ type: 'spring', stiffness: 260, damping: 20 }}
+        className="text-3xl md:text-4xl font-black text-white"
+      >
+        {result.matches.length === 1 ? 'Resultado' : 'Resultados'}
+      </motion.h2>
+
+      {/* Results */}
+      <div className="flex flex-wrap justify-center gap-4 w-full">
+        {result.matches.map(renderResult)}
+      </div>
+
+      {/* Countdown and admin shortcut */}
+      <div className="flex items-center gap-4">
+        <p className="text-gray-300 text-sm">
+          Próximo duelo em <span className="font-bold text-white">{timeRemaining}s</span>
+        </p>
+        {onContinue && (
+          <button
+            onClick={onContinue}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 text-white text-sm font-bold hover:bg-purple-700 transition-colors"
+          >
+            <SkipForward className="w-4 h-4" />
+            <span>PRÓXIMO DUELO</span>
+          </button>
+        )}
+      </div>
+
+      {/* Updated bracket */}
+      {bracket && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: BRACKET_REVEAL_DELAY }}
+          className="w-full max-w-6xl max-h-[45vh] overflow-y-auto"
+        >
+          <BracketVisualization
+            bracket={bracket}
+            currentMatchId={null}
+            format={format}
+            seeds={seeds}
+          />
+        </motion.div>
+      )}
+    </motion.div>
+  );
+}
@@ -1,18 +1,19 @@
 'use client';
 
 import { motion } from 'framer-motion';
-import Image from 'next/image';
 import { Meme } from '@/types';
+import { MemeImage } from './MemeImage';
 
 interface MemeCardProps {
   meme: Meme;
-  voteCount: number;
+  voteCount: number | null;  // null while blind voting hides the tally
   onVote: () => void;
   disabled?: boolean;
   side?: 'left' | 'right';
+  compact?: boolean;       // Smaller card for heats, where 3-4 memes share the screen
 }
 
-export function MemeCard({ meme, voteCount, onVote, disabled = false, side }: MemeCardProps) {
+export function MemeCard({ meme, voteCount, onVote, disabled = false, side, compact = false }: MemeCardProps) {
   // Enhanced entrance animation: start from center, move to sides
   const getInitialPosition = () => {
     if (!side) return { x: 0, opacity: 1, scale: 1 };
@@ -41,23 +42,26 @@ export function MemeCard({ meme, voteCount, onVote, disabled = false, side }: Me
         delay: side === 'left' ? 0.5 : 0.6,
         ease: [0.43, 0.13, 0.23, 0.96] // Custom easing for smooth motion
       }}
-      className="flex h-fit w-[75%] md:w-full flex-col items-center space-y-4 p-2 md:p-4 bg-gray-800 rounded-lg shadow-xl hover:shadow-2xl transition-shadow duration-300"
+      className={`flex h-fit flex-col items-center bg-gray-800 rounded-lg shadow-xl hover:shadow-2xl transition-shadow duration-300 ${
+        compact ? 'w-full space-y-2 p-2' : 'w-[75%] md:w-full space-y-4 p-2 md:p-4'
+      }`}
       whileHover={!disabled ? { scale: 1.02, y: -5 } : {}}
     >
       {/* Vote count badge */}
       <div className="relative w-full">
         <div className="absolute -top-2 -right-2 z-10 bg-purple-600 text-white rounded-full w-8 h-8 md:w-10 md:h-10 flex items-center justify-center font-bold text-sm md:text-base shadow-lg">
-          {voteCount}
+          {voteCount ?? '?'}
         </div>
         
         {/* Image container with aspect ratio preservation */}
-        <div className="relative w-full aspect-[4/3] md:aspect-[16/9] lg:aspect-[16/10] overflow-hidden rounded-lg bg-gray-700">
-          <Image
-            src={meme.imageUrl}
-            alt={meme.caption}
-            fill
+        <div className={`relative w-full overflow-hidden rounded-lg bg-gray-700 ${
+          compact ? 'aspect-[4/3] max-h-[22vh] md:max-h-[40vh]' : 'aspect-[4/3] md:aspect-[16/9] lg:aspect-[16/10]'
+        }`}>
+          <MemeImage
+            meme={meme}
+            size={compact ? 'medium' : 'large'}
             className="object-contain"
-            sizes="(max-width: 768px) 100vw, 50vw"
+            sizes={compact ? '(max-width: 768px) 50vw, 25vw' : '(max-width: 768px) 100vw, 50vw'}
             priority
           />
         </div>
@@ -0,0 +1,50 @@
+'use client';
+
+import Image from 'next/image';
+import { ImageVariantSize, Meme } from '@/types';
+
+interface MemeImageProps {
+  meme: Meme;
+  size: ImageVariantSize;  // Smallest variant that still looks sharp where the image is shown
+  className?: string;
+  sizes?: string;
+  priority?: boolean;
+}
+
+/**
+ * Image of a meme filling its container, which must be positioned
+ * The requested variant is served in WebP or AVIF, falling back to JPEG or
+ * PNG; memes uploaded before variants existed show their single image
+ */
+export function MemeImage({ meme, size, className, sizes, priority }: MemeImageProps) {
+  const variant = meme.variants?.[size];
+
+  if (!variant) {
+    return (
+      <Image
+        src={meme.imageUrl}
+        alt={meme.caption}
+        fill
+        className={className}
+        sizes={sizes}
+        priority={priority}
+      />
+    );
+  }
+
+  // The variant is already sized, so it is served as is
+  return (
+    <picture>
+      <source srcSet={variant.url} type={variant.mimeType} />
+      <Image
+        src={variant.fallbackUrl}
+        alt={meme.caption}
+        fill
+        unoptimized
+        className={className}
+        sizes={sizes}
+        priority={priority}
+      />
+    </picture>
+  );
+}
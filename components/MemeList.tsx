@@ -2,20 +2,25 @@
 
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import Image from 'next/image';
-import { Trash2, Edit2, Check, X } from 'lucide-react';
+import { Trash2, Edit2, Check, X, GripVertical } from 'lucide-react';
 import { Meme } from '@/types';
+import { withRoom } from '@/lib/rooms';
+import { MemeImage } from './MemeImage';
 
 interface MemeListProps {
   memes: Meme[];
   onDelete?: (memeId: string) => void;
   onCaptionUpdate?: (memeId: string, newCaption: string) => void;
+  onReorder?: (memes: Meme[]) => void;  // Enables drag-and-drop ordering (manual seeding)
+  roomCode?: string | null;              // Room the memes belong to
 }
 
-export function MemeList({ memes, onDelete, onCaptionUpdate }: MemeListProps) {
+export function MemeList({ memes, onDelete, onCaptionUpdate, onReorder, roomCode }: MemeListProps) {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editCaption, setEditCaption] = useState('');
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
 
   const handleStartEdit = (meme: Meme) => {
     setEditingId(meme.id);
@@ -39,7 +44,7 @@ export function MemeList({ memes, onDelete, onCaptionUpdate }: MemeListProps) {
     setDeletingId(memeId);
     
     try {
-      const response = await fetch(`/api/memes/${memeId}`, {
+      const response = await fetch(withRoom(`/api/memes/${memeId}`, roomCode), {
         method: 'DELETE',
       });
 
@@ -58,6 +63,24 @@ export function MemeList({ memes, onDelete, onCaptionUpdate }: MemeListProps) {
     }
   };
 
+  const handleDrop = (targetId: string) => {
+    if (onReorder && draggedId && draggedId !== targetId) {
+      const reordered = memes.filter(meme => meme.id !== draggedId);
+      const targetIndex = reordered.findIndex(meme => meme.id === targetId);
+      const dragged = memes.find(meme => meme.id === draggedId)!;
+
+      // Dropping onto a later meme places the dragged one after it
+      const insertAt = memes.findIndex(meme => meme.id === draggedId) < memes.findIndex(meme => meme.id === targetId)
+        ? targetIndex + 1
+        : targetIndex;
+      reordered.splice(insertAt, 0, dragged);
+      onReorder(reordered);
+    }
+
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
   if (memes.length === 0) {
     return (
       <div className="text-center py-12 bg-gray-800 rounded-lg border-2 border-dashed border-gray-700">
@@ -74,87 +97,117 @@ export function MemeList({ memes, onDelete, onCaptionUpdate }: MemeListProps) {
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-2 md:gap-4">
       {memes.map((meme, index) => (
-        <motion.div
+        <div
           key={meme.id}
-          initial={{ opacity: 0, scale: 0.9 }}
-          animate={{ opacity: 1, scale: 1 }}
-          transition={{ delay: index * 0.05 }}
-          className="bg-gray-800 rounded-lg overflow-hidden shadow-lg hover:shadow-xl transition-shadow"
+          draggable={!!onReorder && editingId !== meme.id}
+          onDragStart={() => setDraggedId(meme.id)}
+          onDragOver={(e) => {
+            if (!onReorder || !draggedId) return;
+            e.preventDefault();
+            setDropTargetId(meme.id);
+          }}
+          onDragLeave={() => setDropTargetId(current => (current === meme.id ? null : current))}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(meme.id);
+          }}
+          onDragEnd={() => {
+            setDraggedId(null);
+            setDropTargetId(null);
+          }}
+          className={`
+            rounded-lg
+            ${onReorder ? 'cursor-grab active:cursor-grabbing' : ''}
+            ${draggedId === meme.id ? 'opacity-50' : ''}
+            ${dropTargetId === meme.id && draggedId !== meme.id ? 'ring-2 ring-purple-500' : ''}
+          `}
         >
-          {/* Image preview */}
-          <div className="relative w-full aspect-[4/3] md:aspect-[16/10] bg-gray-700">
-            <Image
-              src={meme.imageUrl}
-              alt={meme.caption}
-              fill
-              className="object-cover"
-              sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 25vw"
-            />
-          </div>
-
-          {/* Caption and actions */}
-          <div className="p-2 md:p-3 space-y-2">
-            {editingId === meme.id ? (
-              // Edit mode
-              <div className="space-y-1.5">
-                <input
-                  type="text"
-                  value={editCaption}
-                  onChange={(e) => setEditCaption(e.target.value)}
-                  className="w-full px-2 py-1.5 bg-gray-700 text-white text-sm rounded border border-gray-600 focus:border-purple-500 focus:outline-none"
-                  placeholder="Legenda do meme"
-                  autoFocus
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter') {
-                      handleSaveEdit(meme.id);
-                    } else if (e.key === 'Escape') {
-                      handleCancelEdit();
-                    }
-                  }}
-                />
-                <div className="flex space-x-1.5">
-                  <button
-                    onClick={() => handleSaveEdit(meme.id)}
-                    className="flex-1 flex items-center justify-center space-x-1 px-2 py-1.5 bg-green-600 text-white text-xs rounded hover:bg-green-700 transition-colors"
-                  >
-                    <Check className="w-3 h-3" />
-                    <span>Salvar</span>
-                  </button>
-                  <button
-                    onClick={handleCancelEdit}
-                    className="flex-1 flex items-center justify-center space-x-1 px-2 py-1.5 bg-gray-600 text-white text-xs rounded hover:bg-gray-700 transition-colors"
-                  >
-                    <X className="w-3 h-3" />
-                    <span>Cancelar</span>
-                  </button>
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ delay: index * 0.05 }}
+            className="bg-gray-800 rounded-lg overflow-hidden shadow-lg hover:shadow-xl transition-shadow"
+          >
+            {/* Image preview */}
+            <div className="relative w-full aspect-[4/3] md:aspect-[16/10] bg-gray-700">
+              {onReorder && (
+                <div className="absolute top-1 left-1 z-10 flex items-center space-x-1 bg-gray-900/80 text-white text-xs font-bold px-1.5 py-0.5 rounded">
+                  <GripVertical className="w-3 h-3" />
+                  <span>#{index + 1}</span>
                 </div>
-              </div>
-            ) : (
-              // View mode
-              <>
-                <p className="text-white text-xs md:text-sm min-h-[2rem] line-clamp-2">
-                  {meme.caption}
-                </p>
-                <div className="flex space-x-1.5">
-                  <button
-                    onClick={() => handleDelete(meme.id)}
-                    disabled={deletingId === meme.id}
-                    className="flex-1 flex items-center justify-center space-x-1 px-2 py-1.5 bg-red-600 text-white rounded hover:bg-red-700 transition-colors text-xs disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    {deletingId === meme.id ? (
-                      <div className="w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                    ) : (
-                      <>
-                        <Trash2 className="w-3 h-3" />
-                        <span>Deletar</span>
-                      </>
-                    )}
-                  </button>
+              )}
+              <MemeImage
+                meme={meme}
+                size="medium"
+                className="object-cover"
+                sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 25vw"
+              />
+            </div>
+
+            {/* Caption and actions */}
+            <div className="p-2 md:p-3 space-y-2">
+              {editingId === meme.id ? (
+                // Edit mode
+                <div className="space-y-1.5">
+                  <input
+                    type="text"
+                    value={editCaption}
+                    onChange={(e) => setEditCaption(e.target.value)}
+                    className="w-full px-2 py-1.5 bg-gray-700 text-white text-sm rounded border border-gray-600 focus:border-purple-500 focus:outline-none"
+                    placeholder="Legenda do meme"
+                    autoFocus
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        handleSaveEdit(meme.id);
+                      } else if (e.key === 'Escape') {
+                        handleCancelEdit();
+                      }
+                    }}
+                  />
+                  <div className="flex space-x-1.5">
+                    <button
+                      onClick={() => handleSaveEdit(meme.id)}
+                      className="flex-1 flex items-center justify-center space-x-1 px-2 py-1.5 bg-green-600 text-white text-xs rounded hover:bg-green-700 transition-colors"
+                    >
+                      <Check className="w-3 h-3" />
+                      <span>Salvar</span>
+                    </button>
+                    <button
+                      onClick={handleCancelEdit}
+                      className="flex-1 flex items-center justify-center space-x-1 px-2 py-1.5 bg-gray-600 text-white text-xs rounded hover:bg-gray-700 transition-colors"
+                    >
+                      <X className="w-3 h-3" />
+                      <span>Cancelar</span>
+                    </button>
+                  </div>
                 </div>
-              </>
-            )}
-          </div>
-        </motion.div>
+              ) : (
+                // View mode
+                <>
+                  <p className="text-white text-xs md:text-sm min-h-[2rem] line-clamp-2">
+                    {meme.caption}
+                  </p>
+                  <div className="flex space-x-1.5">
+                    <button
+                      onClick={() => handleDelete(meme.id)}
+                      disabled={deletingId === meme.id}
+                      className="flex-1 flex items-center justify-center space-x-1 px-2 py-1.5 bg-red-600 text-white rounded hover:bg-red-700 transition-colors text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {deletingId === meme.id ? (
+                        <div className="w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                      ) : (
+                        <>
+                          <Trash2 className="w-3 h-3" />
+                          <span>Deletar</span>
+                        </>
+                      )}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </motion.div>
+        </div>
       ))}
     </div>
   );
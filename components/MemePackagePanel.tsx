@@ -0,0 +1,125 @@
+'use client';
+
+import { ChangeEvent, useState } from 'react';
+import { Download, Package, Upload } from 'lucide-react';
+import { withRoom } from '@/lib/rooms';
+
+interface MemePackagePanelProps {
+  memeCount: number;
+  onImportComplete?: () => void;
+  roomCode?: string | null;  // Room whose memes are exported and imported
+}
+
+/**
+ * Moves the meme pool between installations as a zip package: the memes can
+ * be downloaded, with or without the tournament state, and a package
+ * downloaded elsewhere can be imported here
+ */
+export function MemePackagePanel({ memeCount, onImportComplete, roomCode }: MemePackagePanelProps) {
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same package be picked again
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setIsImporting(true);
+    setMessage(null);
+    setError(null);
+
+    const formData = new FormData();
+    formData.append('file', file);
+
+    try {
+      const response = await fetch(withRoom('/api/package', roomCode), {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Import failed');
+      }
+      setMessage(`${data.memes.length} memes importados.`);
+      onImportComplete?.();
+    } catch (error) {
+      console.error('Error importing package:', error);
+      setError(`Erro ao importar pacote: ${error instanceof Error ? error.message : 'tente novamente'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-3">
+      <div>
+        <h2 className="flex items-center space-x-2 text-lg font-bold text-white">
+          <Package className="w-5 h-5" />
+          <span>Pacote de memes</span>
+        </h2>
+        <p className="text-gray-400 text-sm">
+          Baixe os memes com as imagens em um arquivo .zip para levar a outro servidor ou guardar como backup.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        {memeCount > 0 ? (
+          <>
+            <a
+              href={withRoom('/api/package', roomCode)}
+              download
+              className="flex items-center gap-2 p-3 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+            >
+              <Download className="w-4 h-4 text-white flex-shrink-0" />
+              <span>
+                <span className="block text-white text-sm font-bold">Memes</span>
+                <span className="block text-gray-400 text-xs">Legendas e imagens</span>
+              </span>
+            </a>
+            <a
+              href={withRoom('/api/package?state=1', roomCode)}
+              download
+              className="flex items-center gap-2 p-3 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
+            >
+              <Download className="w-4 h-4 text-white flex-shrink-0" />
+              <span>
+                <span className="block text-white text-sm font-bold">Memes e estado</span>
+                <span className="block text-gray-400 text-xs">Inclui o estado completo do torneio</span>
+              </span>
+            </a>
+          </>
+        ) : (
+          <p className="sm:col-span-2 p-3 text-gray-400 text-sm">Nenhum meme para exportar</p>
+        )}
+
+        <label
+          htmlFor="package-input"
+          className={`flex items-center gap-2 p-3 rounded-lg bg-purple-600 transition-colors ${
+            isImporting ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-purple-700'
+          }`}
+        >
+          <Upload className="w-4 h-4 text-white flex-shrink-0" />
+          <span>
+            <span className="block text-white text-sm font-bold">{isImporting ? 'IMPORTANDO...' : 'IMPORTAR PACOTE'}</span>
+            <span className="block text-purple-200 text-xs">Memes recebem novos IDs</span>
+          </span>
+        </label>
+        <input
+          type="file"
+          id="package-input"
+          accept=".zip,application/zip"
+          onChange={handleImport}
+          disabled={isImporting}
+          className="hidden"
+        />
+      </div>
+
+      {message && <p className="text-green-400 text-sm">{message}</p>}
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+    </div>
+  );
+}
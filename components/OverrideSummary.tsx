@@ -0,0 +1,41 @@
+'use client';
+
+import { Match } from '@/types';
+import { ShieldAlert } from 'lucide-react';
+import { OVERRIDE_LABEL } from '@/lib/match-override';
+
+interface OverrideSummaryProps {
+  matches: Match[];
+}
+
+/**
+ * Lists the results forced by the admin alongside the final results
+ */
+export function OverrideSummary({ matches }: OverrideSummaryProps) {
+  if (matches.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-orange-900/30 border border-orange-500 rounded-lg p-4 space-y-2 text-left">
+      <p className="flex items-center space-x-2 text-orange-300 font-bold">
+        <ShieldAlert className="w-5 h-5 flex-shrink-0" />
+        <span>
+          {matches.length === 1
+            ? `1 ${OVERRIDE_LABEL.toLowerCase()}`
+            : `${matches.length} resultados definidos pelo admin`}
+        </span>
+      </p>
+      <ul className="space-y-1 text-sm text-white">
+        {matches.map((match) => (
+          <li key={match.id} className="truncate">
+            <span className="font-semibold">{match.winner?.caption}</span>
+            {' venceu '}
+            {match.winner?.id === match.leftMeme?.id ? match.rightMeme?.caption : match.leftMeme?.caption}
+            <span className="italic text-orange-200"> — &ldquo;{match.override!.reason}&rdquo;</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
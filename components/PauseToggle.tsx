@@ -0,0 +1,25 @@
+'use client';
+
+import { Pause, Play } from 'lucide-react';
+
+interface PauseToggleProps {
+  isPaused: boolean;
+  onPause: () => void;
+  onResume: () => void;
+}
+
+export function PauseToggle({ isPaused, onPause, onResume }: PauseToggleProps) {
+  const buttonClass = 'flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-white text-sm font-bold transition-colors';
+
+  return isPaused ? (
+    <button onClick={onResume} className={`${buttonClass} bg-green-600 hover:bg-green-700`}>
+      <Play className="w-4 h-4" />
+      <span>RETOMAR</span>
+    </button>
+  ) : (
+    <button onClick={onPause} className={`${buttonClass} bg-yellow-600 hover:bg-yellow-700`}>
+      <Pause className="w-4 h-4" />
+      <span>PAUSAR</span>
+    </button>
+  );
+}
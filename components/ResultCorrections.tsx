@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { Match, VoteChoice } from '@/types';
+import { Undo2, ShieldAlert } from 'lucide-react';
+import { getEntrants, isHeat } from '@/lib/heats';
+
+const MAX_REASON_LENGTH = 200;
+
+interface ResultCorrectionsProps {
+  activeMatches: Match[];
+  undoableMatch: Match | null;
+  onUndo: (matchId: string) => void;
+  onOverride: (matchId: string, choice: VoteChoice, reason: string) => void;
+}
+
+export function ResultCorrections({ activeMatches, undoableMatch, onUndo, onOverride }: ResultCorrectionsProps) {
+  const [reason, setReason] = useState('');
+  const [selectedMatchId, setSelectedMatchId] = useState<string | null>(null);
+  // Heats rank several memes, so only duels can be given a forced winner
+  const overridableMatches = activeMatches.filter(m => m.status === 'IN_PROGRESS' && !isHeat(m));
+  const currentMatch = overridableMatches.find(m => m.id === selectedMatchId) || overridableMatches[0] || null;
+  const canOverride = !!currentMatch;
+
+  if (!undoableMatch && !canOverride) {
+    return null;
+  }
+
+  const handleOverride = (choice: VoteChoice) => {
+    if (!currentMatch || !reason.trim()) {
+      return;
+    }
+    onOverride(currentMatch.id, choice, reason.trim());
+    setReason('');
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-4">
+      <h2 className="text-lg font-bold text-white">Correção de Resultados</h2>
+
+      {/* Undo */}
+      {undoableMatch && (
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+          <p className="text-gray-300 text-sm truncate">
+            Último resultado: {getEntrants(undoableMatch).map(meme => meme.caption).join(' vs ')}
+          </p>
+          <button
+            onClick={() => onUndo(undoableMatch.id)}
+            className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-gray-700 text-white text-sm font-bold hover:bg-gray-600 transition-colors whitespace-nowrap"
+          >
+            <Undo2 className="w-4 h-4" />
+            <span>DESFAZER E REPETIR DUELO</span>
+          </button>
+        </div>
+      )}
+
+      {/* Override */}
+      {canOverride && currentMatch && (
+        <div className="space-y-3">
+          <label htmlFor="override-reason" className="flex items-center space-x-2 text-sm font-medium text-gray-300">
+            <ShieldAlert className="w-4 h-4 text-orange-400" />
+            <span>Forçar vencedor do duelo atual</span>
+          </label>
+          {overridableMatches.length > 1 && (
+            <select
+              aria-label="Duelo"
+              value={currentMatch.id}
+              onChange={(e) => setSelectedMatchId(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-700 text-white text-sm rounded-lg border border-gray-600 focus:border-orange-500 focus:outline-none"
+            >
+              {overridableMatches.map((match) => (
+                <option key={match.id} value={match.id}>
+                  {match.leftMeme?.caption} vs {match.rightMeme?.caption}
+                </option>
+              ))}
+            </select>
+          )}
+          <input
+            id="override-reason"
+            type="text"
+            value={reason}
+            maxLength={MAX_REASON_LENGTH}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Motivo (obrigatório)"
+            className="w-full px-4 py-2 bg-gray-700 text-white rounded-lg border border-gray-600 focus:border-orange-500 focus:outline-none"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            {(['LEFT', 'RIGHT'] as const).map((side) => {
+              const meme = side === 'LEFT' ? currentMatch.leftMeme : currentMatch.rightMeme;
+              return (
+                <button
+                  key={side}
+                  onClick={() => handleOverride(side)}
+                  disabled={!reason.trim()}
+                  className="px-3 py-2 rounded-lg bg-orange-600 text-white text-sm font-bold hover:bg-orange-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors truncate"
+                >
+                  Vitória para {meme?.caption}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
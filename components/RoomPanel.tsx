@@ -0,0 +1,106 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DoorOpen, Plus } from 'lucide-react';
+import { getRoomAdminPath, getRoomPath } from '@/lib/rooms';
+
+interface RoomPanelProps {
+  roomCode: string | null;   // Room this admin view runs, null for the default tournament
+}
+
+export function RoomPanel({ roomCode }: RoomPanelProps) {
+  const [createdCode, setCreatedCode] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [origin, setOrigin] = useState('');
+
+  // Links are shown in full so they can be shared as they are
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  const handleCreateRoom = async () => {
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/rooms', { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to create room');
+      }
+      const data = await response.json();
+      setCreatedCode(data.room.code);
+    } catch (error) {
+      console.error('Error creating room:', error);
+      setError('Erro ao criar sala. Tente novamente.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Inside a room: share its join code with participants
+  if (roomCode) {
+    return (
+      <div className="bg-gray-800 rounded-lg p-4 space-y-2">
+        <h2 className="flex items-center space-x-2 text-lg font-bold text-white">
+          <DoorOpen className="w-5 h-5" />
+          <span>Sala</span>
+          <code className="px-2 py-1 rounded bg-gray-900 text-purple-300 font-mono tracking-widest">{roomCode}</code>
+        </h2>
+        <p className="text-gray-400 text-sm">
+          Participantes entram em{' '}
+          <a href={getRoomPath(roomCode)} className="text-purple-300 hover:underline break-all">
+            {origin}{getRoomPath(roomCode)}
+          </a>
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="flex items-center space-x-2 text-lg font-bold text-white">
+            <DoorOpen className="w-5 h-5" />
+            <span>Salas</span>
+          </h2>
+          <p className="text-gray-400 text-sm">
+            Crie uma sala para rodar outro torneio ao mesmo tempo, com seus próprios memes e participantes.
+          </p>
+        </div>
+        <button
+          onClick={handleCreateRoom}
+          disabled={isCreating}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 text-white text-sm font-bold hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{isCreating ? 'CRIANDO...' : 'CRIAR SALA'}</span>
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {createdCode && (
+        <div className="p-3 rounded-lg bg-gray-700/50 space-y-1 text-sm">
+          <p className="text-white">
+            Código da sala:{' '}
+            <code className="px-2 py-1 rounded bg-gray-900 text-purple-300 font-mono tracking-widest">{createdCode}</code>
+          </p>
+          <p className="text-gray-300">
+            Participantes:{' '}
+            <a href={getRoomPath(createdCode)} className="text-purple-300 hover:underline break-all">
+              {origin}{getRoomPath(createdCode)}
+            </a>
+          </p>
+          <p className="text-gray-300">
+            Administração:{' '}
+            <a href={getRoomAdminPath(createdCode)} className="text-purple-300 hover:underline break-all">
+              {origin}{getRoomAdminPath(createdCode)}
+            </a>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
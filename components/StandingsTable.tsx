@@ -0,0 +1,84 @@
+'use client';
+
+import { StandingsEntry } from '@/types';
+import { ListOrdered } from 'lucide-react';
+import { MemeImage } from './MemeImage';
+
+interface StandingsTableProps {
+  standings: StandingsEntry[];
+  title?: string;
+}
+
+export function StandingsTable({ standings, title = 'Classificação' }: StandingsTableProps) {
+  if (standings.length === 0) {
+    return (
+      <div className="bg-gray-800 rounded-lg p-6">
+        <p className="text-gray-400 text-center">
+          Nenhuma classificação disponível
+        </p>
+      </div>
+    );
+  }
+
+  // Judge votes scored as shares of a match make the differential fractional
+  const formatDifferential = (value: number) => {
+    const rounded = Number(value.toFixed(2));
+    return rounded > 0 ? `+${rounded}` : `${rounded}`;
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 md:p-6 space-y-4">
+      {/* Header */}
+      <h2 className="text-xl md:text-2xl font-bold text-white flex items-center space-x-2 pb-3 border-b border-gray-700">
+        <ListOrdered className="w-6 h-6" />
+        <span>{title}</span>
+      </h2>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-gray-300">
+          <thead>
+            <tr className="text-xs uppercase text-gray-400 border-b border-gray-700">
+              <th className="py-2 pr-2 text-left">#</th>
+              <th className="py-2 pr-2 text-left">Meme</th>
+              <th className="py-2 px-2 text-center" title="Pontos">Pts</th>
+              <th className="py-2 px-2 text-center" title="Duelos">J</th>
+              <th className="py-2 px-2 text-center" title="Vitórias">V</th>
+              <th className="py-2 px-2 text-center" title="Empates">E</th>
+              <th className="py-2 px-2 text-center" title="Derrotas">D</th>
+              <th className="py-2 pl-2 text-center" title="Saldo de votos">SV</th>
+            </tr>
+          </thead>
+          <tbody>
+            {standings.map((entry) => (
+              <tr
+                key={entry.meme.id}
+                className={`border-b border-gray-700/50 ${entry.rank === 1 ? 'text-yellow-300' : ''}`}
+              >
+                <td className="py-2 pr-2 font-bold">{entry.rank}</td>
+                <td className="py-2 pr-2">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <div className="relative w-8 h-8 rounded overflow-hidden bg-gray-900 flex-shrink-0">
+                      <MemeImage
+                        meme={entry.meme}
+                        size="thumbnail"
+                        className="object-cover"
+                        sizes="32px"
+                      />
+                    </div>
+                    <span className="truncate max-w-[160px] md:max-w-[240px]">{entry.meme.caption}</span>
+                  </div>
+                </td>
+                <td className="py-2 px-2 text-center font-bold text-white">{entry.points}</td>
+                <td className="py-2 px-2 text-center">{entry.played}</td>
+                <td className="py-2 px-2 text-center">{entry.wins}</td>
+                <td className="py-2 px-2 text-center">{entry.draws}</td>
+                <td className="py-2 px-2 text-center">{entry.losses}</td>
+                <td className="py-2 pl-2 text-center">{formatDifferential(entry.voteDifferential)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
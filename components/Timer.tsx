@@ -1,14 +1,18 @@
 'use client';
 
 import { motion } from 'framer-motion';
+import { useCountdown } from '@/hooks/useCountdown';
 
 interface TimerProps {
   timeRemaining: number;
   totalTime: number;
+  endsAt?: number | null;  // Deadline to count down to; without one the time stands still
   size?: 'small' | 'medium' | 'large';
 }
 
-export function Timer({ timeRemaining, totalTime, size = 'large' }: TimerProps) {
+export function Timer({ timeRemaining: startingTime, totalTime, endsAt, size = 'large' }: TimerProps) {
+  const timeRemaining = useCountdown({ timeRemaining: startingTime, endsAt });
+
   // Calculate progress percentage
   const progress = totalTime > 0 ? (timeRemaining / totalTime) * 100 : 0;
   
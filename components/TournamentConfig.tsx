@@ -1,32 +1,189 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Play, Clock, AlertCircle } from 'lucide-react';
-import { TournamentStatus } from '@/types';
+import { Play, Clock, AlertCircle, GitBranch, ListOrdered, Scale, LayoutGrid, Hourglass, FastForward, Eye, EyeOff, Gavel } from 'lucide-react';
+import { TournamentStatus, TournamentFormat, TournamentSettings, SeedingStrategy, TieBreakPolicy, MatchEndingPolicy, JuryScoring } from '@/types';
+import { TIE_BREAK_LABELS } from '@/lib/tie-break';
+import { MIN_HEAT_SIZE, MAX_HEAT_SIZE, MAX_HEAT_QUALIFIERS } from '@/lib/heats';
+import { ENDING_POLICY_OPTIONS } from '@/lib/match-ending';
+import { JURY_SCORING_OPTIONS, DEFAULT_JURY_WEIGHT, DEFAULT_JURY_SHARE, MAX_JURY_WEIGHT } from '@/lib/jury';
+import {
+  estimateTournamentDuration,
+  formatDuration,
+  parseRoundTimeSchedule,
+  MIN_ROUND_TIME_MULTIPLIER,
+  MAX_ROUND_TIME_MULTIPLIER
+} from '@/lib/round-times';
 
 interface TournamentConfigProps {
   memeCount: number;
   tournamentStatus: TournamentStatus;
-  onStart: (votingTimeSeconds: number) => void;
+  onStart: (votingTimeSeconds: number, settings: Omit<TournamentSettings, 'votingTimeSeconds'>) => void;
 }
 
+const FORMAT_OPTIONS: { value: TournamentFormat; label: string; description: string }[] = [
+  {
+    value: 'SINGLE_ELIMINATION',
+    label: 'Eliminação simples',
+    description: 'Perdeu, está fora'
+  },
+  {
+    value: 'DOUBLE_ELIMINATION',
+    label: 'Eliminação dupla',
+    description: 'Eliminado só após duas derrotas'
+  },
+  {
+    value: 'ROUND_ROBIN',
+    label: 'Pontos corridos',
+    description: 'Todos enfrentam todos'
+  },
+  {
+    value: 'SWISS',
+    label: 'Sistema suíço',
+    description: 'Rodadas pareadas pela classificação'
+  }
+];
+
+const SEEDING_OPTIONS: { value: SeedingStrategy; label: string; description: string }[] = [
+  {
+    value: 'RANDOM',
+    label: 'Aleatório',
+    description: 'Sorteia os cabeças de chave'
+  },
+  {
+    value: 'UPLOAD_ORDER',
+    label: 'Ordem de upload',
+    description: 'Primeiros enviados são os primeiros cabeças'
+  },
+  {
+    value: 'MANUAL',
+    label: 'Manual',
+    description: 'Arraste os memes na lista para ordenar'
+  },
+  {
+    value: 'PAST_RESULTS',
+    label: 'Resultados anteriores',
+    description: 'Usa a classificação do último torneio'
+  }
+];
+
+const TIE_BREAK_OPTIONS: { value: TieBreakPolicy; description: string }[] = [
+  { value: 'RANDOM', description: 'Sorteia o vencedor' },
+  { value: 'SUDDEN_DEATH', description: 'Prorrogação curta, o primeiro voto vence' },
+  { value: 'REVOTE', description: 'Zera os votos e vota de novo' },
+  { value: 'FIRST_TO_FINAL_COUNT', description: 'Vence quem atingiu o placar final antes' },
+  { value: 'ADMIN_DECISION', description: 'O admin escolhe o vencedor' }
+];
+
+const PARALLEL_MATCH_OPTIONS = [1, 2, 3, 4];
+
+const INTERMISSION_OPTIONS = [0, 5, 10, 15];
+
+const JURY_SHARE_OPTIONS = [0.25, DEFAULT_JURY_SHARE, 0.75];
+
+const HEAT_SIZE_OPTIONS = [MIN_HEAT_SIZE, MAX_HEAT_SIZE];
+
+const HEAT_QUALIFIER_OPTIONS = [1, MAX_HEAT_QUALIFIERS];
+
+type RoundTimeMode = 'FIXED' | 'SCHEDULE' | 'CURVE';
+
+const ROUND_TIME_MODE_OPTIONS: { value: RoundTimeMode; label: string }[] = [
+  { value: 'FIXED', label: 'Igual em todas' },
+  { value: 'SCHEDULE', label: 'Por rodada' },
+  { value: 'CURVE', label: 'Curva' }
+];
+
 export function TournamentConfig({ 
   memeCount, 
   tournamentStatus, 
   onStart 
 }: TournamentConfigProps) {
   const [votingTime, setVotingTime] = useState(30);
+  const [format, setFormat] = useState<TournamentFormat>('SINGLE_ELIMINATION');
+  const [grandFinalReset, setGrandFinalReset] = useState(true);
+  const [thirdPlaceMatch, setThirdPlaceMatch] = useState(false);
+  const [heatSize, setHeatSize] = useState<number | null>(null);
+  const [heatQualifiers, setHeatQualifiers] = useState(1);
+  const [swissRounds, setSwissRounds] = useState<number | null>(null);
+  const [seeding, setSeeding] = useState<SeedingStrategy>('RANDOM');
+  const [tieBreak, setTieBreak] = useState<TieBreakPolicy>('RANDOM');
+  const [parallelMatches, setParallelMatches] = useState(1);
+  const [roundTimeMode, setRoundTimeMode] = useState<RoundTimeMode>('FIXED');
+  const [roundTimeScheduleText, setRoundTimeScheduleText] = useState('15, 15, 30, 60');
+  const [roundTimeMultiplier, setRoundTimeMultiplier] = useState(1.5);
+  const [intermissionSeconds, setIntermissionSeconds] = useState(0);
+  const [blindVoting, setBlindVoting] = useState(false);
+  const [juryScoring, setJuryScoring] = useState<JuryScoring | null>(null);
+  const [juryWeight, setJuryWeight] = useState(DEFAULT_JURY_WEIGHT);
+  const [juryShare, setJuryShare] = useState(DEFAULT_JURY_SHARE);
+  const [endingPolicies, setEndingPolicies] = useState<MatchEndingPolicy[]>([]);
   const [isStarting, setIsStarting] = useState(false);
+  const [hasArchivedTournaments, setHasArchivedTournaments] = useState(false);
 
-  const canStart = memeCount >= 2 && tournamentStatus === 'WAITING';
+  // After a reset, past results come from the tournament history
+  useEffect(() => {
+    if (tournamentStatus !== 'WAITING') {
+      return;
+    }
+
+    const loadHistory = async () => {
+      try {
+        const response = await fetch('/api/tournaments');
+        if (response.ok) {
+          const data = await response.json();
+          setHasArchivedTournaments(data.tournaments.length > 0);
+        }
+      } catch (error) {
+        console.error('Error loading tournaments:', error);
+      }
+    };
+
+    loadHistory();
+  }, [tournamentStatus]);
+
+  // A finished tournament can be followed by a new one with the same memes
+  const isConfigurable = tournamentStatus === 'WAITING' || tournamentStatus === 'TOURNAMENT_FINISHED';
+  const hasPastResults = tournamentStatus === 'TOURNAMENT_FINISHED' || hasArchivedTournaments;
+  const isLeague = format === 'ROUND_ROBIN' || format === 'SWISS';
+  const defaultSwissRounds = Math.max(1, Math.ceil(Math.log2(Math.max(memeCount, 2))));
+  const roundTimeSchedule = roundTimeMode === 'SCHEDULE' ? parseRoundTimeSchedule(roundTimeScheduleText) : null;
+  const isRoundTimeValid = roundTimeMode !== 'SCHEDULE' || roundTimeSchedule !== null;
+  const canStart = memeCount >= 2 && isConfigurable && isRoundTimeValid && (seeding !== 'PAST_RESULTS' || hasPastResults);
+
+  const settings: Omit<TournamentSettings, 'votingTimeSeconds'> = {
+    format,
+    grandFinalReset: format === 'DOUBLE_ELIMINATION' ? grandFinalReset : undefined,
+    thirdPlaceMatch: format === 'SINGLE_ELIMINATION' ? thirdPlaceMatch : undefined,
+    heatSize: format === 'SINGLE_ELIMINATION' && heatSize ? heatSize : undefined,
+    heatQualifiers: format === 'SINGLE_ELIMINATION' && heatSize ? heatQualifiers : undefined,
+    swissRounds: format === 'SWISS' && swissRounds ? swissRounds : undefined,
+    seeding,
+    tieBreak: isLeague ? undefined : tieBreak,
+    parallelMatches,
+    roundTimeSchedule: roundTimeSchedule || undefined,
+    roundTimeMultiplier: roundTimeMode === 'CURVE' ? roundTimeMultiplier : undefined,
+    endingPolicies: endingPolicies.length > 0 ? endingPolicies : undefined,
+    intermissionSeconds: intermissionSeconds || undefined,
+    blindVoting: blindVoting || undefined,
+    juryScoring: juryScoring || undefined,
+    juryWeight: juryScoring === 'WEIGHTED' ? juryWeight : undefined,
+    juryShare: juryScoring === 'SHARE' ? juryShare : undefined
+  };
+  const estimatedDuration = estimateTournamentDuration({ votingTimeSeconds: votingTime, ...settings }, memeCount);
+
+  const toggleEndingPolicy = (policy: MatchEndingPolicy) => {
+    setEndingPolicies(current => current.includes(policy)
+      ? current.filter(p => p !== policy)
+      : [...current, policy]);
+  };
 
   const handleStart = async () => {
     if (!canStart) return;
     
     setIsStarting(true);
     try {
-      await onStart(votingTime);
+      await onStart(votingTime, settings);
     } catch (error) {
       console.error('Error starting tournament:', error);
       alert('Erro ao iniciar torneio. Tente novamente.');
@@ -41,6 +198,10 @@ export function TournamentConfig({
         return 'Aguardando início';
       case 'DUEL_IN_PROGRESS':
         return 'Torneio em andamento';
+      case 'PAUSED':
+        return 'Torneio pausado';
+      case 'MATCH_RESULT':
+        return 'Mostrando resultado';
       case 'TOURNAMENT_FINISHED':
         return 'Torneio finalizado';
       default:
@@ -54,6 +215,10 @@ export function TournamentConfig({
         return 'text-yellow-400';
       case 'DUEL_IN_PROGRESS':
         return 'text-green-400';
+      case 'PAUSED':
+        return 'text-orange-400';
+      case 'MATCH_RESULT':
+        return 'text-purple-400';
       case 'TOURNAMENT_FINISHED':
         return 'text-blue-400';
       default:
@@ -70,6 +235,8 @@ export function TournamentConfig({
           <div className={`w-2 h-2 rounded-full ${
             tournamentStatus === 'WAITING' ? 'bg-yellow-400' :
             tournamentStatus === 'DUEL_IN_PROGRESS' ? 'bg-green-400 animate-pulse' :
+            tournamentStatus === 'PAUSED' ? 'bg-orange-400' :
+            tournamentStatus === 'MATCH_RESULT' ? 'bg-purple-400' :
             'bg-blue-400'
           }`} />
           <span className={`text-sm font-medium ${getStatusColor()}`}>
@@ -93,7 +260,7 @@ export function TournamentConfig({
       </div>
 
       {/* Voting Time Configuration */}
-      {tournamentStatus === 'WAITING' && (
+      {isConfigurable && (
         <div className="space-y-2">
           <label className="flex items-center space-x-2 text-white text-sm font-medium">
             <Clock className="w-4 h-4" />
@@ -133,8 +300,438 @@ export function TournamentConfig({
         </div>
       )}
 
+      {/* Round Time Configuration */}
+      {isConfigurable && (
+        <div className="space-y-2">
+          <label className="flex items-center space-x-2 text-white text-sm font-medium">
+            <Hourglass className="w-4 h-4" />
+            <span>Tempo por rodada</span>
+          </label>
+
+          <div className="flex space-x-2">
+            {ROUND_TIME_MODE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setRoundTimeMode(option.value)}
+                className={`
+                  px-2.5 py-1 rounded text-xs transition-colors
+                  ${roundTimeMode === option.value
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }
+                `}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {roundTimeMode === 'SCHEDULE' && (
+            <div className="space-y-1">
+              <input
+                type="text"
+                aria-label="Segundos por rodada"
+                value={roundTimeScheduleText}
+                onChange={(e) => setRoundTimeScheduleText(e.target.value)}
+                className={`w-full px-3 py-2 bg-gray-700 text-white text-sm rounded-lg border focus:outline-none ${
+                  isRoundTimeValid ? 'border-gray-600 focus:border-purple-500' : 'border-red-500'
+                }`}
+              />
+              <p className={`text-xs ${isRoundTimeValid ? 'text-gray-400' : 'text-red-400'}`}>
+                {isRoundTimeValid
+                  ? 'Segundos por rodada; o último valor vale para a final'
+                  : 'Use números inteiros entre 5 e 300, separados por vírgula'}
+              </p>
+            </div>
+          )}
+
+          {roundTimeMode === 'CURVE' && (
+            <div className="flex items-center space-x-3">
+              <label htmlFor="round-time-multiplier" className="text-gray-300 text-xs">
+                Multiplicador por rodada
+              </label>
+              <input
+                id="round-time-multiplier"
+                type="number"
+                step="0.25"
+                min={MIN_ROUND_TIME_MULTIPLIER}
+                max={MAX_ROUND_TIME_MULTIPLIER}
+                value={roundTimeMultiplier}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!Number.isNaN(value)) {
+                    setRoundTimeMultiplier(Math.min(MAX_ROUND_TIME_MULTIPLIER, Math.max(MIN_ROUND_TIME_MULTIPLIER, value)));
+                  }
+                }}
+                className="flex-1 px-3 py-1.5 bg-gray-700 text-white text-sm rounded-lg border border-gray-600 focus:border-purple-500 focus:outline-none"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Match Ending Configuration */}
+      {isConfigurable && (
+        <div className="space-y-2">
+          <label className="flex items-center space-x-2 text-white text-sm font-medium">
+            <FastForward className="w-4 h-4" />
+            <span>Encerramento dos duelos</span>
+          </label>
+
+          {ENDING_POLICY_OPTIONS.map((option) => (
+            <label key={option.value} className="flex items-start space-x-2 text-gray-300 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                checked={endingPolicies.includes(option.value)}
+                onChange={() => toggleEndingPolicy(option.value)}
+                className="accent-purple-600 mt-0.5"
+              />
+              <span>
+                <span className="block font-semibold">{option.label}</span>
+                <span className="block opacity-80">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {/* Blind Voting Configuration */}
+      {isConfigurable && (
+        <label className="flex items-start space-x-2 text-gray-300 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={blindVoting}
+            onChange={(e) => setBlindVoting(e.target.checked)}
+            className="accent-purple-600 mt-0.5"
+          />
+          <span>
+            <span className="flex items-center space-x-1 font-semibold text-white text-sm">
+              <EyeOff className="w-4 h-4" />
+              <span>Votação às cegas</span>
+            </span>
+            <span className="block opacity-80">O placar só aparece quando o duelo termina; o admin continua vendo os votos</span>
+          </span>
+        </label>
+      )}
+
+      {/* Jury Configuration */}
+      {isConfigurable && (
+        <div className="space-y-2">
+          <label className="flex items-center space-x-2 text-white text-sm font-medium">
+            <Gavel className="w-4 h-4" />
+            <span>Júri</span>
+          </label>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {[{ value: null, label: 'Sem júri', description: 'Jurados votam como o público' }, ...JURY_SCORING_OPTIONS].map((option) => (
+              <button
+                key={option.value || 'NONE'}
+                onClick={() => setJuryScoring(option.value)}
+                className={`
+                  px-3 py-2 rounded-lg text-left transition-colors
+                  ${juryScoring === option.value
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }
+                `}
+              >
+                <span className="block text-sm font-semibold">{option.label}</span>
+                <span className="block text-xs opacity-80">{option.description}</span>
+              </button>
+            ))}
+          </div>
+
+          {juryScoring === 'WEIGHTED' && (
+            <div className="flex items-center space-x-3">
+              <label htmlFor="jury-weight" className="text-gray-300 text-xs">
+                Votos do público por voto de jurado
+              </label>
+              <input
+                id="jury-weight"
+                type="number"
+                min={1}
+                max={MAX_JURY_WEIGHT}
+                value={juryWeight}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (!Number.isNaN(value)) {
+                    setJuryWeight(Math.min(MAX_JURY_WEIGHT, Math.max(1, value)));
+                  }
+                }}
+                className="w-20 px-3 py-1.5 bg-gray-700 text-white text-sm rounded-lg border border-gray-600 focus:border-purple-500 focus:outline-none"
+              />
+            </div>
+          )}
+
+          {juryScoring === 'SHARE' && (
+            <div className="flex items-center space-x-2">
+              <span className="text-gray-300 text-xs">Parte do júri:</span>
+              {JURY_SHARE_OPTIONS.map((share) => (
+                <button
+                  key={share}
+                  onClick={() => setJuryShare(share)}
+                  className={`
+                    px-3 py-1 rounded text-xs transition-colors
+                    ${juryShare === share
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }
+                  `}
+                >
+                  {share * 100}%
+                </button>
+              ))}
+            </div>
+          )}
+
+          {juryScoring && (
+            <p className="text-gray-400 text-xs">
+              Cadastre os jurados no painel do júri; cada um entra com o próprio código
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Result Reveal Configuration */}
+      {isConfigurable && (
+        <div className="space-y-2">
+          <label className="flex items-center space-x-2 text-white text-sm font-medium">
+            <Eye className="w-4 h-4" />
+            <span>Resultado entre duelos</span>
+          </label>
+
+          <div className="flex space-x-2">
+            {INTERMISSION_OPTIONS.map((seconds) => (
+              <button
+                key={seconds}
+                onClick={() => setIntermissionSeconds(seconds)}
+                className={`
+                  px-3 py-1 rounded text-xs transition-colors
+                  ${intermissionSeconds === seconds
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }
+                `}
+              >
+                {seconds === 0 ? 'Não' : `${seconds}s`}
+              </button>
+            ))}
+          </div>
+          <p className="text-gray-400 text-xs">
+            Mostra o vencedor e o bracket atualizado antes do próximo duelo
+          </p>
+        </div>
+      )}
+
+      {/* Parallel Matches Configuration */}
+      {isConfigurable && (
+        <div className="space-y-2">
+          <label className="flex items-center space-x-2 text-white text-sm font-medium">
+            <LayoutGrid className="w-4 h-4" />
+            <span>Duelos simultâneos</span>
+          </label>
+
+          <div className="flex space-x-2">
+            {PARALLEL_MATCH_OPTIONS.map((count) => (
+              <button
+                key={count}
+                onClick={() => setParallelMatches(count)}
+                className={`
+                  px-3 py-1 rounded text-xs transition-colors
+                  ${parallelMatches === count
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }
+                `}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+          <p className="text-gray-400 text-xs">
+            Duelos da mesma rodada votados ao mesmo tempo
+          </p>
+        </div>
+      )}
+
+      {/* Format Configuration */}
+      {isConfigurable && (
+        <div className="space-y-2">
+          <label className="flex items-center space-x-2 text-white text-sm font-medium">
+            <GitBranch className="w-4 h-4" />
+            <span>Formato do torneio</span>
+          </label>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {FORMAT_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setFormat(option.value)}
+                className={`
+                  px-3 py-2 rounded-lg text-left transition-colors
+                  ${format === option.value
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }
+                `}
+              >
+                <span className="block text-sm font-semibold">{option.label}</span>
+                <span className="block text-xs opacity-80">{option.description}</span>
+              </button>
+            ))}
+          </div>
+
+          {format === 'SINGLE_ELIMINATION' && (
+            <label className="flex items-center space-x-2 text-gray-300 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                checked={thirdPlaceMatch}
+                onChange={(e) => setThirdPlaceMatch(e.target.checked)}
+                className="accent-purple-600"
+              />
+              <span>Disputa de 3º lugar entre os perdedores das semifinais</span>
+            </label>
+          )}
+
+          {format === 'SINGLE_ELIMINATION' && (
+            <div className="flex items-center space-x-3">
+              <label htmlFor="heat-size" className="text-gray-300 text-xs">
+                Baterias na primeira fase
+              </label>
+              <select
+                id="heat-size"
+                value={heatSize ?? ''}
+                onChange={(e) => setHeatSize(e.target.value ? parseInt(e.target.value) : null)}
+                className="flex-1 px-3 py-1.5 bg-gray-700 text-white text-sm rounded-lg border border-gray-600 focus:border-purple-500 focus:outline-none"
+              >
+                <option value="">Não (só duelos)</option>
+                {HEAT_SIZE_OPTIONS.map((size) => (
+                  <option key={size} value={size}>{size} memes por bateria</option>
+                ))}
+              </select>
+              {heatSize && (
+                <select
+                  aria-label="Classificados por bateria"
+                  value={heatQualifiers}
+                  onChange={(e) => setHeatQualifiers(parseInt(e.target.value))}
+                  className="px-3 py-1.5 bg-gray-700 text-white text-sm rounded-lg border border-gray-600 focus:border-purple-500 focus:outline-none"
+                >
+                  {HEAT_QUALIFIER_OPTIONS.map((count) => (
+                    <option key={count} value={count}>
+                      {count === 1 ? '1 classificado' : `${count} classificados`}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+
+          {format === 'DOUBLE_ELIMINATION' && (
+            <label className="flex items-center space-x-2 text-gray-300 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                checked={grandFinalReset}
+                onChange={(e) => setGrandFinalReset(e.target.checked)}
+                className="accent-purple-600"
+              />
+              <span>Repetir a grande final se o campeão da chave dos perdedores vencer</span>
+            </label>
+          )}
+
+          {format === 'SWISS' && (
+            <div className="flex items-center space-x-3">
+              <label htmlFor="swiss-rounds" className="text-gray-300 text-xs">
+                Número de rodadas
+              </label>
+              <input
+                id="swiss-rounds"
+                type="number"
+                min="1"
+                max={Math.max(1, memeCount - 1)}
+                value={swissRounds ?? ''}
+                placeholder={`${defaultSwissRounds} (automático)`}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value);
+                  setSwissRounds(Number.isNaN(value) ? null : Math.max(1, value));
+                }}
+                className="flex-1 px-3 py-1.5 bg-gray-700 text-white text-sm rounded-lg border border-gray-600 focus:border-purple-500 focus:outline-none"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Tie-break Configuration (league formats record draws instead) */}
+      {isConfigurable && !isLeague && (
+        <div className="space-y-2">
+          <label htmlFor="tie-break" className="flex items-center space-x-2 text-white text-sm font-medium">
+            <Scale className="w-4 h-4" />
+            <span>Desempate</span>
+          </label>
+
+          <select
+            id="tie-break"
+            value={tieBreak}
+            onChange={(e) => setTieBreak(e.target.value as TieBreakPolicy)}
+            className="w-full px-3 py-2 bg-gray-700 text-white text-sm rounded-lg border border-gray-600 focus:border-purple-500 focus:outline-none"
+          >
+            {TIE_BREAK_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {TIE_BREAK_LABELS[option.value]} — {option.description}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Seeding Configuration */}
+      {isConfigurable && (
+        <div className="space-y-2">
+          <label className="flex items-center space-x-2 text-white text-sm font-medium">
+            <ListOrdered className="w-4 h-4" />
+            <span>Cabeças de chave</span>
+          </label>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {SEEDING_OPTIONS.map((option) => {
+              const isDisabled = option.value === 'PAST_RESULTS' && !hasPastResults;
+              return (
+                <button
+                  key={option.value}
+                  onClick={() => setSeeding(option.value)}
+                  disabled={isDisabled}
+                  className={`
+                    px-3 py-2 rounded-lg text-left transition-colors
+                    ${seeding === option.value
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }
+                    ${isDisabled ? 'opacity-50 cursor-not-allowed hover:bg-gray-700' : ''}
+                  `}
+                >
+                  <span className="block text-sm font-semibold">{option.label}</span>
+                  <span className="block text-xs opacity-80">
+                    {isDisabled ? 'Disponível após o fim de um torneio' : option.description}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Duration Preview */}
+      {isConfigurable && memeCount >= 2 && (
+        <div className="flex items-center justify-between bg-gray-700 rounded-lg p-3">
+          <span className="text-sm text-gray-300">Duração estimada:</span>
+          <span className="text-base font-bold text-white">
+            {isRoundTimeValid ? `~${formatDuration(estimatedDuration)}` : '—'}
+          </span>
+        </div>
+      )}
+
       {/* Start Button */}
-      {tournamentStatus === 'WAITING' && (
+      {isConfigurable && (
         <motion.button
           onClick={handleStart}
           disabled={!canStart || isStarting}
@@ -156,7 +753,7 @@ export function TournamentConfig({
           ) : (
             <>
               <Play className="w-5 h-5" />
-              <span>Iniciar Torneio</span>
+              <span>{tournamentStatus === 'TOURNAMENT_FINISHED' ? 'Iniciar Novo Torneio' : 'Iniciar Torneio'}</span>
             </>
           )}
         </motion.button>
@@ -166,9 +763,9 @@ export function TournamentConfig({
       {tournamentStatus !== 'WAITING' && (
         <div className="bg-gray-700 rounded-lg p-3">
           <p className="text-gray-300 text-sm text-center">
-            {tournamentStatus === 'DUEL_IN_PROGRESS' 
+            {tournamentStatus === 'DUEL_IN_PROGRESS' || tournamentStatus === 'PAUSED' || tournamentStatus === 'MATCH_RESULT'
               ? 'O torneio está em andamento. Acompanhe os duelos abaixo.'
-              : 'O torneio foi finalizado. Confira o campeão!'
+              : 'O torneio foi finalizado. Confira o campeão ou inicie um novo torneio com os mesmos memes.'
             }
           </p>
         </div>
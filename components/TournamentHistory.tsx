@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { History, Trash2, Trophy } from 'lucide-react';
+import { ArchivedTournamentSummary, TournamentFormat } from '@/types';
+import { MemeImage } from './MemeImage';
+
+interface TournamentHistoryProps {
+  allowDelete?: boolean;   // Admin view: archived tournaments can be deleted for good
+}
+
+const FORMAT_LABELS: Record<TournamentFormat, string> = {
+  SINGLE_ELIMINATION: 'Eliminação simples',
+  DOUBLE_ELIMINATION: 'Eliminação dupla',
+  ROUND_ROBIN: 'Pontos corridos',
+  SWISS: 'Sistema suíço'
+};
+
+/**
+ * Format a date sent by the API, where dates arrive as ISO strings
+ */
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+}
+
+/**
+ * Lists the finished tournaments kept in the history, most recent first
+ */
+export function TournamentHistory({ allowDelete = false }: TournamentHistoryProps) {
+  const [tournaments, setTournaments] = useState<ArchivedTournamentSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTournaments = async () => {
+      try {
+        const response = await fetch('/api/tournaments');
+        if (!response.ok) {
+          throw new Error('Failed to load tournaments');
+        }
+        const data = await response.json();
+        setTournaments(data.tournaments);
+      } catch (error) {
+        console.error('Error loading tournaments:', error);
+        setError('Erro ao carregar o histórico.');
+      }
+    };
+
+    loadTournaments();
+  }, []);
+
+  // Deleting is permanent, so it takes a second click to confirm
+  const handleDelete = async (id: string) => {
+    if (confirmingId !== id) {
+      setConfirmingId(id);
+      return;
+    }
+
+    setConfirmingId(null);
+    setDeletingId(id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/tournaments/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to delete tournament');
+      }
+      setTournaments(prev => prev && prev.filter(tournament => tournament.id !== id));
+    } catch (error) {
+      console.error('Error deleting tournament:', error);
+      setError('Erro ao excluir torneio. Tente novamente.');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-3">
+      <div>
+        <h2 className="flex items-center space-x-2 text-lg font-bold text-white">
+          <History className="w-5 h-5" />
+          <span>Histórico</span>
+        </h2>
+        {allowDelete && (
+          <p className="text-gray-400 text-sm">
+            Torneios finalizados ficam guardados ao reiniciar. Excluir um torneio apaga também as imagens dele.
+          </p>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {tournaments === null && !error && (
+        <p className="text-gray-400 text-sm">Carregando...</p>
+      )}
+
+      {tournaments?.length === 0 && (
+        <p className="text-gray-400 text-sm">Nenhum torneio finalizado ainda</p>
+      )}
+
+      {tournaments && tournaments.length > 0 && (
+        <ul className="space-y-2">
+          {tournaments.map((tournament) => (
+            <li key={tournament.id} className="flex items-center gap-3 p-2 rounded-lg bg-gray-700/50">
+              <div className="relative w-14 h-14 flex-shrink-0 rounded overflow-hidden bg-gray-700">
+                {tournament.winner && (
+                  <MemeImage
+                    meme={tournament.winner}
+                    size="thumbnail"
+                    className="object-cover"
+                    sizes="56px"
+                  />
+                )}
+              </div>
+
+              <a href={`/history/${tournament.id}`} className="flex-1 min-w-0 group">
+                <p className="flex items-center space-x-1 text-white text-sm font-bold truncate group-hover:underline">
+                  <Trophy className="w-4 h-4 flex-shrink-0 text-yellow-400" />
+                  <span className="truncate">{tournament.winner?.caption || 'Sem campeão'}</span>
+                </p>
+                <p className="text-gray-400 text-xs">
+                  {formatDate(tournament.finishedAt || tournament.archivedAt)}
+                  {' · '}{FORMAT_LABELS[tournament.format || 'SINGLE_ELIMINATION']}
+                  {' · '}{tournament.memeCount} memes
+                  {tournament.roomCode && ` · Sala ${tournament.roomCode}`}
+                </p>
+              </a>
+
+              {allowDelete && (
+                <button
+                  onClick={() => handleDelete(tournament.id)}
+                  onBlur={() => setConfirmingId(null)}
+                  disabled={deletingId === tournament.id}
+                  className="flex items-center gap-1 px-2 py-1.5 rounded bg-red-600 text-white text-xs font-bold hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  <span>
+                    {deletingId === tournament.id ? 'EXCLUINDO...' : confirmingId === tournament.id ? 'CONFIRMAR' : 'EXCLUIR'}
+                  </span>
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {allowDelete && (
+        <a href="/history" className="inline-block text-purple-300 text-sm hover:underline">
+          Ver histórico completo
+        </a>
+      )}
+    </div>
+  );
+}
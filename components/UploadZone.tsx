@@ -1,15 +1,40 @@
 'use client';
 
-import { useState, useCallback, DragEvent, ChangeEvent } from 'react';
+import { useState, useCallback, useEffect, DragEvent, ChangeEvent } from 'react';
 import { motion } from 'framer-motion';
-import { Upload } from 'lucide-react';
+import { CheckCircle, Upload, XCircle } from 'lucide-react';
+import { UploadLimits, UploadResult } from '@/types';
+import { withRoom } from '@/lib/rooms';
+import { formatFileSize } from '@/lib/file-size';
+import { CaptionMap, getCaption, isCaptionManifest, parseCaptionManifest } from '@/lib/caption-manifest';
 
 interface UploadZoneProps {
   onUploadComplete?: () => void;
+  roomCode?: string | null;  // Room the memes are uploaded to
 }
 
-export function UploadZone({ onUploadComplete }: UploadZoneProps) {
+export function UploadZone({ onUploadComplete, roomCode }: UploadZoneProps) {
   const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [results, setResults] = useState<UploadResult[]>([]);
+  const [limits, setLimits] = useState<UploadLimits | null>(null);
+
+  // The server decides which files it accepts
+  useEffect(() => {
+    const loadLimits = async () => {
+      try {
+        const response = await fetch('/api/upload');
+        if (response.ok) {
+          const data = await response.json();
+          setLimits(data.limits);
+        }
+      } catch (error) {
+        console.error('Error loading upload limits:', error);
+      }
+    };
+
+    loadLimits();
+  }, []);
 
   const handleDragOver = useCallback((e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -21,44 +46,67 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
     setIsDragging(false);
   }, []);
 
-  const uploadFile = async (file: File) => {
+  // A zip archive reports on each of its images; any other file is a single image
+  const uploadFile = useCallback(async (file: File, caption: string): Promise<UploadResult[]> => {
     const formData = new FormData();
     formData.append('file', file);
-    formData.append('caption', file.name.replace(/\.[^/.]+$/, '')); // Use filename without extension as default caption
+    formData.append('caption', caption);
 
     try {
-      const response = await fetch('/api/upload', {
+      const response = await fetch(withRoom('/api/upload', roomCode), {
         method: 'POST',
         body: formData,
       });
+      const data = await response.json();
 
+      if (data.results) {
+        return data.results;
+      }
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Upload failed');
+        throw new Error(data.error || 'Upload failed');
       }
-
-      const data = await response.json();
-      return { success: true, memeId: data.meme.id };
+      return [{ filename: file.name, success: true, meme: data.meme }];
     } catch (error) {
-      return { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Upload failed' 
-      };
+      return [{
+        filename: file.name,
+        success: false,
+        error: error instanceof Error ? error.message : 'Upload failed'
+      }];
     }
-  };
+  }, [roomCode]);
 
   const processFiles = useCallback(async (files: File[]) => {
+    setIsUploading(true);
+    setResults([]);
+
+    // A CSV or JSON manifest among the files captions the images of the folder
+    let captions: CaptionMap = new Map();
+    const manifest = files.find(file => isCaptionManifest(file.name));
+    if (manifest) {
+      try {
+        captions = parseCaptionManifest(await manifest.text(), manifest.name);
+      } catch (error) {
+        setResults([{
+          filename: manifest.name,
+          success: false,
+          error: `Manifesto de legendas inválido: ${error instanceof Error ? error.message : ''}`
+        }]);
+      }
+    }
+
     // Upload each file
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      const result = await uploadFile(file);
-      
+    for (const file of files.filter(file => file !== manifest)) {
+      const fileResults = await uploadFile(file, getCaption(captions, file.webkitRelativePath || file.name));
+      setResults(prev => [...prev, ...fileResults]);
+
       // Notify parent component after each successful upload
-      if (result.success && onUploadComplete) {
+      if (fileResults.some(result => result.success) && onUploadComplete) {
         onUploadComplete();
       }
     }
-  }, [onUploadComplete]);
+
+    setIsUploading(false);
+  }, [onUploadComplete, uploadFile]);
 
   const handleDrop = useCallback((e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -71,10 +119,16 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
   const handleFileInput = useCallback((e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       const files = Array.from(e.target.files);
+      // Let the same files be picked again
+      e.target.value = '';
       processFiles(files);
     }
   }, [processFiles]);
 
+  const uploadedCount = results.filter(result => result.success).length;
+  const allowedTypes = limits?.allowedMimeTypes || ['image/png', 'image/jpeg', 'image/webp'];
+  const typeNames = allowedTypes.map(type => type.replace('image/', '').toUpperCase()).join(', ');
+
 
   return (
     <div className="space-y-2">
@@ -96,7 +150,15 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
           type="file"
           id="file-input"
           multiple
-          accept="image/png,image/jpeg,image/jpg,image/webp"
+          accept={[...allowedTypes, '.zip', 'application/zip', '.csv', '.json'].join(',')}
+          onChange={handleFileInput}
+          className="hidden"
+        />
+        <input
+          type="file"
+          id="folder-input"
+          // Not in React's attribute types; lets a whole folder be picked
+          ref={input => input?.setAttribute('webkitdirectory', '')}
           onChange={handleFileInput}
           className="hidden"
         />
@@ -111,19 +173,54 @@ export function UploadZone({ onUploadComplete }: UploadZoneProps) {
             <p className="text-sm text-gray-400 mb-3">
               ou clique para selecionar arquivos
             </p>
-            <label
-              htmlFor="file-input"
-              className="flex items-center justify-center px-4 py-2.5 bg-purple-600 text-white text-sm md:text-base rounded-lg font-medium cursor-pointer hover:bg-purple-700 transition-colors min-h-[44px] min-w-[44px]"
-            >
-              Selecionar Arquivos
-            </label>
+            <div className="flex flex-col sm:flex-row gap-2 justify-center">
+              <label
+                htmlFor="file-input"
+                className="flex items-center justify-center px-4 py-2.5 bg-purple-600 text-white text-sm md:text-base rounded-lg font-medium cursor-pointer hover:bg-purple-700 transition-colors min-h-[44px] min-w-[44px]"
+              >
+                Selecionar Arquivos
+              </label>
+              <label
+                htmlFor="folder-input"
+                className="flex items-center justify-center px-4 py-2.5 bg-gray-700 text-white text-sm md:text-base rounded-lg font-medium cursor-pointer hover:bg-gray-600 transition-colors min-h-[44px] min-w-[44px]"
+              >
+                Selecionar Pasta
+              </label>
+            </div>
           </div>
           
           <p className="text-xs md:text-sm text-gray-500">
-            PNG, JPG, JPEG ou WEBP (máx. 5MB)
+            {typeNames} (máx. {formatFileSize(limits?.maxFileSize ?? 5 * 1024 * 1024)} cada), ou um .zip
+            com várias imagens (máx. {formatFileSize(limits?.maxArchiveSize ?? 100 * 1024 * 1024)}).
+            Um arquivo .csv ou .json com &quot;arquivo,legenda&quot; define as legendas.
           </p>
         </div>
       </motion.div>
+
+      {/* Outcome of each file of the last upload */}
+      {results.length > 0 && (
+        <div className="bg-gray-800 rounded-lg p-3 space-y-2">
+          <p className="text-sm text-white font-semibold">
+            {isUploading ? 'Enviando... ' : ''}{uploadedCount} de {results.length} arquivos enviados
+          </p>
+          <ul className="max-h-40 overflow-y-auto space-y-1 text-xs">
+            {results.map((result, index) => (
+              <li key={`${result.filename}-${index}`} className="flex items-start gap-2">
+                {result.success ? (
+                  <CheckCircle className="w-4 h-4 flex-shrink-0 text-green-400" />
+                ) : (
+                  <XCircle className="w-4 h-4 flex-shrink-0 text-red-400" />
+                )}
+                <span className="text-gray-300 break-all">
+                  {result.filename}
+                  {result.success && result.meme && <span className="text-gray-500"> — {result.meme.caption}</span>}
+                  {result.error && <span className="text-red-400"> — {result.error}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,15 +1,19 @@
 'use client';
 
 import { motion } from 'framer-motion';
-import Image from 'next/image';
-import { Meme } from '@/types';
+import { Match, Meme } from '@/types';
+import { OverrideSummary } from './OverrideSummary';
 import { useEffect, useState } from 'react';
+import { MemeImage } from './MemeImage';
 
 interface WinnerScreenProps {
   winner: Meme;
+  secondPlace?: Meme | null;
+  thirdPlace?: Meme | null;
+  overriddenMatches?: Match[];
 }
 
-export function WinnerScreen({ winner }: WinnerScreenProps) {
+export function WinnerScreen({ winner, secondPlace = null, thirdPlace = null, overriddenMatches = [] }: WinnerScreenProps) {
   const [showConfetti, setShowConfetti] = useState(false);
 
   useEffect(() => {
@@ -21,6 +25,11 @@ export function WinnerScreen({ winner }: WinnerScreenProps) {
   const confettiCount = 50;
   const confettiColors = ['#ff0000', '#00ff00', '#0000ff', '#ffff00', '#ff00ff', '#00ffff'];
 
+  const podiumPlaces = [
+    { label: '🥈 2º lugar', meme: secondPlace },
+    { label: '🥉 3º lugar', meme: thirdPlace }
+  ].filter((place): place is { label: string; meme: Meme } => place.meme !== null);
+
   return (
     <div className="relative h-screen bg-gradient-to-br from-yellow-400 via-orange-500 to-red-500 overflow-hidden">
       {/* Confetti animation */}
@@ -111,10 +120,9 @@ export function WinnerScreen({ winner }: WinnerScreenProps) {
           >
             {/* Image */}
             <div className="relative w-full aspect-[4/3] md:aspect-[16/10] rounded-xl overflow-hidden mb-2 md:mb-4 shadow-xl">
-              <Image
-                src={winner.imageUrl}
-                alt={winner.caption}
-                fill
+              <MemeImage
+                meme={winner}
+                size="large"
                 className="object-contain"
                 sizes="(max-width: 768px) 100vw, 50vw"
                 priority
@@ -144,6 +152,45 @@ export function WinnerScreen({ winner }: WinnerScreenProps) {
             Parabéns ao vencedor! 🎉
           </p>
         </motion.div>
+
+        {/* Rest of the podium */}
+        {podiumPlaces.length > 0 && (
+          <motion.div
+            initial={{ y: 40, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ delay: 1.8 }}
+            className="mt-4 flex justify-center gap-4"
+          >
+            {podiumPlaces.map(({ label, meme }) => (
+              <div key={label} className="flex items-center gap-3 bg-white/90 rounded-xl shadow-xl p-2 pr-4 max-w-xs">
+                <div className="relative w-14 h-14 md:w-16 md:h-16 flex-shrink-0 rounded-lg overflow-hidden">
+                  <MemeImage
+                    meme={meme}
+                    size="thumbnail"
+                    className="object-cover"
+                    sizes="64px"
+                  />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-xs md:text-sm font-bold text-gray-600">{label}</p>
+                  <p className="text-sm md:text-base font-bold text-gray-800 truncate">{meme.caption}</p>
+                </div>
+              </div>
+            ))}
+          </motion.div>
+        )}
+
+        {/* Results forced by the admin */}
+        {overriddenMatches.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 2 }}
+            className="mt-4 max-w-2xl w-full mx-auto"
+          >
+            <OverrideSummary matches={overriddenMatches} />
+          </motion.div>
+        )}
       </div>
     </div>
   );
@@ -6,14 +6,27 @@ export { Timer } from './Timer';
 export { MemeCard } from './MemeCard';
 export { DuelView } from './DuelView';
 export { WinnerScreen } from './WinnerScreen';
+export { MatchResultReveal } from './MatchResultReveal';
+export { StandingsTable } from './StandingsTable';
+export { OverrideSummary } from './OverrideSummary';
+export { JuryJoin } from './JuryJoin';
+export { TournamentHistory } from './TournamentHistory';
+export { ExportButtons } from './ExportButtons';
 
 // Admin view components
+export { AdminLogin } from './AdminLogin';
 export { UploadZone } from './UploadZone';
+export { MemePackagePanel } from './MemePackagePanel';
 export { MemeList } from './MemeList';
 export { TournamentConfig } from './TournamentConfig';
 export { AdminDuelView } from './AdminDuelView';
+export { MatchControls } from './MatchControls';
+export { PauseToggle } from './PauseToggle';
+export { ResultCorrections } from './ResultCorrections';
+export { JuryPanel } from './JuryPanel';
 export { BracketVisualization } from './BracketVisualization';
 
 // Utility components
 export { ErrorBoundary } from './ErrorBoundary';
 export { Snackbar } from './Snackbar';
+export { MemeImage } from './MemeImage';
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { Countdown, getTimeRemaining } from '../lib/match-clock';
+
+/**
+ * How often a running countdown re-reads the clock, in milliseconds
+ * Several reads per second keep the display within a frame of the deadline
+ */
+const TICK_INTERVAL = 250;
+
+/**
+ * Count a match or result reveal down on the local clock
+ * The server publishes a deadline once rather than every second, so the
+ * seconds left are read from the deadline on the server-corrected clock.
+ * A stopped countdown shows the seconds it stopped at
+ *
+ * @param countdown - Seconds left and deadline of a match or result reveal
+ * @returns Whole seconds left
+ */
+export function useCountdown({ timeRemaining, endsAt }: Countdown): number {
+  const [secondsLeft, setSecondsLeft] = useState(() => getTimeRemaining({ timeRemaining, endsAt }));
+
+  useEffect(() => {
+    const update = () => setSecondsLeft(getTimeRemaining({ timeRemaining, endsAt }));
+    update();
+
+    if (endsAt == null) {
+      return;
+    }
+
+    const interval = setInterval(update, TICK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [timeRemaining, endsAt]);
+
+  return secondsLeft;
+}
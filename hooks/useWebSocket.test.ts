@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fc from 'fast-check';
 import { TournamentState, TournamentStatus, Meme, Match } from '../types';
+import { estimateClockOffset, setServerClockOffset, getServerTime, getTimeRemaining } from '../lib/match-clock';
 
 describe('useWebSocket - Tournament Reset Properties', () => {
   // These tests verify the correctness properties for tournament reset
@@ -184,3 +185,48 @@ describe('useWebSocket - Tournament Reset Properties', () => {
     );
   });
 });
+
+describe('useWebSocket - Clock Sync Properties', () => {
+  afterEach(() => {
+    setServerClockOffset(0);
+  });
+
+  /**
+   * Generate a clock offset of up to a day either way, in milliseconds
+   */
+  const offsetArbitrary = fc.integer({ min: -86400000, max: 86400000 });
+
+  // Feature: clock-sync, Property 1: A symmetric round trip measures the offset exactly
+  it('should measure the server clock offset from a symmetric round trip', () => {
+    fc.assert(
+      fc.property(
+        offsetArbitrary,
+        fc.integer({ min: 0, max: 2000000000000 }),
+        fc.integer({ min: 0, max: 5000 }),
+        (offset, sentAt, oneWayDelay) => {
+          // The server reads its clock when the ping arrives, halfway through the round trip
+          const serverTime = sentAt + oneWayDelay + offset;
+          const receivedAt = sentAt + 2 * oneWayDelay;
+
+          expect(estimateClockOffset(sentAt, serverTime, receivedAt)).toBe(offset);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: clock-sync, Property 2: A deadline reads the same on any client clock
+  it('should count a deadline down on the server clock whatever the local clock says', () => {
+    fc.assert(
+      fc.property(offsetArbitrary, fc.integer({ min: 1, max: 300 }), (offset, seconds) => {
+        setServerClockOffset(offset);
+        const endsAt = getServerTime() + seconds * 1000;
+
+        expect(getTimeRemaining({ timeRemaining: 0, endsAt })).toBe(seconds);
+        expect(getTimeRemaining({ timeRemaining: 0, endsAt }, endsAt + 1000)).toBe(0);
+        expect(getTimeRemaining({ timeRemaining: seconds, endsAt: null })).toBe(seconds);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -1,6 +1,10 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { TournamentState, VoteChoice } from '../types';
+import { TournamentState, TournamentSettings, VoteChoice, VoteTarget, Judge, JuryUpdateMessage, JudgeStatusMessage, ClockPongMessage, StatePatchMessage, SessionRestoredMessage } from '../types';
+import { getActiveMatches } from '../lib/active-matches';
+import { applyStatePatch } from '../lib/state-patch';
+import { estimateClockOffset, setServerClockOffset } from '../lib/match-clock';
+import { getVotingRound } from '../lib/tie-break';
 
 /**
  * Configuration for exponential backoff reconnection
@@ -12,6 +16,15 @@ const RECONNECT_CONFIG = {
   maxAttempts: 10          // Maximum reconnection attempts
 };
 
+/**
+ * Clock handshake run on every connection: a few pings measure the server
+ * clock offset, and the reply with the shortest round trip is trusted most
+ */
+const CLOCK_SYNC_CONFIG = {
+  pings: 5,
+  interval: 200            // Milliseconds between pings
+};
+
 /**
  * Get session token from cookie
  * @returns Session token string or null if not found
@@ -31,23 +44,40 @@ function getSessionToken(): string | null {
   return null;
 }
 
+/**
+ * Options for the WebSocket connection
+ */
+interface UseWebSocketOptions {
+  admin?: boolean;         // Connect as the admin view; the server grants it to signed-in admin sessions only
+  room?: string | null;    // Join code of the room to connect to; the default tournament without one
+}
+
 /**
  * Custom hook for WebSocket connection to tournament server
  * Handles connection, disconnection, reconnection with exponential backoff
  * Subscribes to state:update events and provides methods to emit events
  * 
+ * @param options - Connection options
  * @returns Object containing tournament state and methods to interact with server
  */
-export function useWebSocket() {
+export function useWebSocket({ admin = false, room = null }: UseWebSocketOptions = {}) {
   const [tournamentState, setTournamentState] = useState<TournamentState | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [hasVotedInCurrentMatch, setHasVotedInCurrentMatch] = useState(false);
+  const [votedMatchIds, setVotedMatchIds] = useState<string[]>([]);
+  const [jury, setJury] = useState<Judge[]>([]); // Admin view only
+  const [judge, setJudge] = useState<JudgeStatusMessage['payload']['judge']>(null);
+  const [roomNotFound, setRoomNotFound] = useState(false);
+  const [adminUnauthorized, setAdminUnauthorized] = useState(false); // Admin view without a signed-in admin session
+  const [sessionRestored, setSessionRestored] = useState(false); // The server restarted and resumed the tournament
   
   const socketRef = useRef<Socket | null>(null);
   const reconnectAttemptRef = useRef(0);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const currentMatchIdRef = useRef<string | null>(null);
+  const votingRoundsRef = useRef<Record<string, string>>({}); // Active match ID → voting round
+  const clockRoundTripRef = useRef<number | null>(null); // Shortest clock ping round trip this connection
+  const stateRef = useRef<TournamentState | null>(null); // Latest state, which patches apply to
+  const resyncRequestedRef = useRef(false); // Waiting for a snapshot after missing a patch
 
   /**
    * Calculate exponential backoff delay
@@ -94,7 +124,9 @@ export function useWebSocket() {
       reconnection: false, // We handle reconnection manually with exponential backoff
       transports: ['websocket', 'polling'],
       auth: {
-        sessionToken: sessionToken || undefined
+        sessionToken: sessionToken || undefined,
+        role: admin ? 'admin' : undefined,
+        room: room || undefined
       }
     });
 
@@ -104,6 +136,7 @@ export function useWebSocket() {
     socket.on('connect', () => {
       setIsConnected(true);
       setError(null);
+      setAdminUnauthorized(false);
       reconnectAttemptRef.current = 0; // Reset reconnection counter on successful connection
       
       // Clear any pending reconnection timeout
@@ -111,6 +144,16 @@ export function useWebSocket() {
         clearTimeout(reconnectTimeoutRef.current);
         reconnectTimeoutRef.current = null;
       }
+
+      // Measure the server clock so match deadlines count down correctly
+      clockRoundTripRef.current = null;
+      for (let i = 0; i < CLOCK_SYNC_CONFIG.pings; i++) {
+        setTimeout(() => {
+          if (socket.connected) {
+            socket.emit('clock:ping', { sentAt: Date.now() });
+          }
+        }, i * CLOCK_SYNC_CONFIG.interval);
+      }
     });
 
     // Disconnection event
@@ -135,21 +178,62 @@ export function useWebSocket() {
       attemptReconnect();
     });
 
-    // State update event
-    socket.on('state:update', (state: TournamentState) => {
+    /**
+     * Take in a new version of the state, from a snapshot or a patch
+     */
+    const receiveState = (state: TournamentState) => {
+      stateRef.current = state;
       setTournamentState(state);
       
-      // Reset vote state when match changes
-      const newMatchId = state.currentMatch?.id || null;
-      if (newMatchId !== currentMatchIdRef.current) {
-        currentMatchIdRef.current = newMatchId;
-        setHasVotedInCurrentMatch(false);
+      // Forget votes in matches that ended or where a tie-break reopened voting
+      const previousRounds = votingRoundsRef.current;
+      const votingRounds: Record<string, string> = {};
+      for (const match of getActiveMatches(state)) {
+        votingRounds[match.id] = String(getVotingRound(match));
+      }
+      votingRoundsRef.current = votingRounds;
+      setVotedMatchIds(ids => {
+        const stillVoted = ids.filter(id => id in votingRounds && previousRounds[id] === votingRounds[id]);
+        return stillVoted.length === ids.length ? ids : stillVoted;
+      });
+    };
+
+    // State update event - full snapshot
+    socket.on('state:update', (state: TournamentState) => {
+      resyncRequestedRef.current = false;
+      receiveState(state);
+    });
+
+    // State patch event - changes since the previous revision
+    socket.on('state:patch', (patch: StatePatchMessage['payload']) => {
+      const current = stateRef.current;
+
+      // A patch only applies on top of the revision it was made from
+      if (!current || current.revision !== patch.baseRevision) {
+        if (!resyncRequestedRef.current) {
+          resyncRequestedRef.current = true;
+          socket.emit('state:resync', {});
+        }
+        return;
+      }
+
+      receiveState(applyStatePatch(current, patch));
+    });
+
+    // Clock pong event - keep the offset measured over the fastest round trip
+    socket.on('clock:pong', (payload: ClockPongMessage['payload']) => {
+      const receivedAt = Date.now();
+      const roundTrip = receivedAt - payload.sentAt;
+      if (clockRoundTripRef.current !== null && clockRoundTripRef.current <= roundTrip) {
+        return;
       }
+      clockRoundTripRef.current = roundTrip;
+      setServerClockOffset(estimateClockOffset(payload.sentAt, payload.serverTime, receivedAt));
     });
 
     // Vote locked event - user successfully voted
     socket.on('vote:locked', (payload: { matchId: string }) => {
-      setHasVotedInCurrentMatch(true);
+      setVotedMatchIds(ids => ids.includes(payload.matchId) ? ids : [...ids, payload.matchId]);
     });
 
     // Vote rejected event - duplicate vote attempt
@@ -159,7 +243,7 @@ export function useWebSocket() {
         ? 'You have already voted in this match' 
         : 'Match is not active';
       setError(`Vote rejected: ${errorMessage}`);
-      setHasVotedInCurrentMatch(true);
+      setVotedMatchIds(ids => ids.includes(payload.matchId) ? ids : [...ids, payload.matchId]);
       
       // Clear error after 5 seconds
       setTimeout(() => {
@@ -167,14 +251,34 @@ export function useWebSocket() {
       }, 5000);
     });
 
+    // Session restored event - the server restarted mid-tournament and picked it up again
+    socket.on('session:restored', (payload: SessionRestoredMessage['payload']) => {
+      setVotedMatchIds(ids => {
+        const restored = payload.votedMatchIds.filter(id => !ids.includes(id));
+        return restored.length === 0 ? ids : [...ids, ...restored];
+      });
+      setSessionRestored(true);
+    });
+
+    // Jury list event - sent to admin clients only
+    socket.on('jury:update', (payload: JuryUpdateMessage['payload']) => {
+      setJury(payload.judges);
+    });
+
+    // Judge role event - this session took up or lost the judge role
+    socket.on('jury:status', (payload: JudgeStatusMessage['payload']) => {
+      setJudge(payload.judge);
+    });
+
     // Tournament reset event - clear all local state
     socket.on('tournament:reset', (payload: { timestamp: Date }) => {
       // Clear tournament state (returns to waiting screen)
+      stateRef.current = null;
       setTournamentState(null);
       
       // Clear vote tracking
-      setHasVotedInCurrentMatch(false);
-      currentMatchIdRef.current = null;
+      setVotedMatchIds([]);
+      votingRoundsRef.current = {};
       
       // Clear any error messages
       setError(null);
@@ -184,35 +288,48 @@ export function useWebSocket() {
     socket.on('error', (errorPayload: { message: string; code: string }) => {
       console.error('Server error:', errorPayload);
       setError(errorPayload.message);
+
+      // The server closes the connection right after
+      if (errorPayload.code === 'ROOM_NOT_FOUND') {
+        setRoomNotFound(true);
+      }
+
+      // The admin view has to sign in, or sign in again once its session expired
+      if (errorPayload.code === 'ADMIN_UNAUTHORIZED') {
+        setAdminUnauthorized(true);
+      }
     });
 
     return socket;
-  }, [attemptReconnect]);
+  }, [attemptReconnect, admin, room]);
 
   /**
    * Cast a vote for a meme in the current match
    * @param matchId - ID of the match to vote in
-   * @param choice - Vote choice ('LEFT' or 'RIGHT')
+   * @param target - Side ('LEFT' or 'RIGHT') or, in a heat, the meme ID to vote for
    */
-  const castVote = useCallback((matchId: string, choice: VoteChoice) => {
+  const castVote = useCallback((matchId: string, target: VoteTarget) => {
     if (!socketRef.current || !isConnected) {
       console.error('Cannot cast vote: not connected');
       setError('Not connected to server');
       return;
     }
 
-    console.log(`Casting vote: ${choice} for match ${matchId}`);
-    socketRef.current.emit('vote:cast', {
-      matchId,
-      choice
-    });
+    console.log(`Casting vote: ${typeof target === 'object' ? target.memeId : target} for match ${matchId}`);
+    socketRef.current.emit('vote:cast', typeof target === 'object'
+      ? { matchId, memeId: target.memeId }
+      : { matchId, choice: target });
   }, [isConnected]);
 
   /**
    * Start the tournament (admin only)
    * @param votingTimeSeconds - Duration of each match in seconds
+   * @param settings - Optional tournament settings (format, seeding, tie-break policy)
    */
-  const startTournament = useCallback((votingTimeSeconds: number) => {
+  const startTournament = useCallback((
+    votingTimeSeconds: number,
+    settings: Omit<TournamentSettings, 'votingTimeSeconds'> = {}
+  ) => {
     if (!socketRef.current || !isConnected) {
       console.error('Cannot start tournament: not connected');
       setError('Not connected to server');
@@ -221,19 +338,189 @@ export function useWebSocket() {
 
     console.log(`Starting tournament with ${votingTimeSeconds}s voting time`);
     socketRef.current.emit('admin:start', {
-      votingTimeSeconds
+      votingTimeSeconds,
+      ...settings
     });
   }, [isConnected]);
 
   /**
-   * Reset the tournament (admin only)
-   * Clears all state and returns all clients to waiting screen
+   * Decide the winner of a tied match awaiting an admin decision (admin only)
+   * @param matchId - ID of the tied match
+   * @param choice - Winning side ('LEFT' or 'RIGHT')
+   */
+  const decideTie = useCallback((matchId: string, choice: VoteChoice) => {
+    if (!socketRef.current || !isConnected) {
+      console.error('Cannot decide tie: not connected');
+      setError('Not connected to server');
+      return;
+    }
+
+    socketRef.current.emit('admin:decide-tie', {
+      matchId,
+      choice
+    });
+  }, [isConnected]);
+
+  /**
+   * Pause the running duel (admin only)
+   */
+  const pauseTournament = useCallback(() => {
+    if (!socketRef.current || !isConnected) {
+      console.error('Cannot pause tournament: not connected');
+      setError('Not connected to server');
+      return;
+    }
+
+    socketRef.current.emit('admin:pause', {});
+  }, [isConnected]);
+
+  /**
+   * Resume a paused duel (admin only)
+   */
+  const resumeTournament = useCallback(() => {
+    if (!socketRef.current || !isConnected) {
+      console.error('Cannot resume tournament: not connected');
+      setError('Not connected to server');
+      return;
+    }
+
+    socketRef.current.emit('admin:resume', {});
+  }, [isConnected]);
+
+  /**
+   * End the result reveal and start the next match (admin only)
+   */
+  const continueTournament = useCallback(() => {
+    if (!socketRef.current || !isConnected) {
+      console.error('Cannot continue tournament: not connected');
+      setError('Not connected to server');
+      return;
+    }
+
+    socketRef.current.emit('admin:next', {});
+  }, [isConnected]);
+
+  /**
+   * Add or remove seconds on the current match (admin only)
+   * @param matchId - ID of the current match
+   * @param deltaSeconds - Seconds to add (positive) or remove (negative)
+   */
+  const adjustMatchTime = useCallback((matchId: string, deltaSeconds: number) => {
+    if (!socketRef.current || !isConnected) {
+      console.error('Cannot adjust match time: not connected');
+      setError('Not connected to server');
+      return;
+    }
+
+    socketRef.current.emit('admin:adjust-time', {
+      matchId,
+      deltaSeconds
+    });
+  }, [isConnected]);
+
+  /**
+   * End the current match immediately (admin only)
+   * @param matchId - ID of the current match
+   */
+  const endMatch = useCallback((matchId: string) => {
+    if (!socketRef.current || !isConnected) {
+      console.error('Cannot end match: not connected');
+      setError('Not connected to server');
+      return;
+    }
+
+    socketRef.current.emit('admin:end-match', { matchId });
+  }, [isConnected]);
+
+  /**
+   * Undo the last match result and replay the match (admin only)
+   * @param matchId - ID of the match whose result is undone
+   */
+  const undoLastResult = useCallback((matchId: string) => {
+    if (!socketRef.current || !isConnected) {
+      console.error('Cannot undo result: not connected');
+      setError('Not connected to server');
+      return;
+    }
+
+    socketRef.current.emit('admin:undo', { matchId });
+  }, [isConnected]);
+
+  /**
+   * Force the winner of the current match (admin only)
+   * @param matchId - ID of the current match
+   * @param choice - Side declared the winner
+   * @param reason - Why the result is overridden
+   */
+  const overrideMatch = useCallback((matchId: string, choice: VoteChoice, reason: string) => {
+    if (!socketRef.current || !isConnected) {
+      console.error('Cannot override match: not connected');
+      setError('Not connected to server');
+      return;
+    }
+
+    socketRef.current.emit('admin:override', {
+      matchId,
+      choice,
+      reason
+    });
+  }, [isConnected]);
+
+  /**
+   * Issue a join code for a new judge (admin only)
+   * @param name - Name shown for the judge
+   */
+  const addJudge = useCallback((name: string) => {
+    if (!socketRef.current || !isConnected) {
+      console.error('Cannot add judge: not connected');
+      setError('Not connected to server');
+      return;
+    }
+
+    socketRef.current.emit('admin:add-judge', { name });
+  }, [isConnected]);
+
+  /**
+   * Remove a judge and revoke their join code (admin only)
+   * @param judgeId - ID of the judge to remove
+   */
+  const removeJudge = useCallback((judgeId: string) => {
+    if (!socketRef.current || !isConnected) {
+      console.error('Cannot remove judge: not connected');
+      setError('Not connected to server');
+      return;
+    }
+
+    socketRef.current.emit('admin:remove-judge', { judgeId });
+  }, [isConnected]);
+
+  /**
+   * Take up the judge role with a join code issued by the admin
+   * @param code - Join code
+   */
+  const joinJury = useCallback((code: string) => {
+    if (!socketRef.current || !isConnected) {
+      console.error('Cannot join jury: not connected');
+      setError('Not connected to server');
+      return;
+    }
+
+    socketRef.current.emit('jury:join', { code });
+  }, [isConnected]);
+
+  /**
+   * Send a command that clears the tournament and wait for its outcome
+   * @param event - admin:reset or admin:delete-tournament
+   * @param payload - Payload of the command
    * @returns Promise that resolves with success details or rejects with error
    */
-  const resetTournament = useCallback((): Promise<{ deletedFiles: number; errors: any[] }> => {
+  const clearTournament = useCallback((
+    event: 'admin:reset' | 'admin:delete-tournament',
+    payload: object
+  ): Promise<{ archivedTournamentId: string | null; deletedFiles: number; errors: any[] }> => {
     return new Promise((resolve, reject) => {
       if (!socketRef.current || !isConnected) {
-        console.error('Cannot reset tournament: not connected');
+        console.error('Cannot clear tournament: not connected');
         const errorMsg = 'Not connected to server';
         setError(errorMsg);
         reject(new Error(errorMsg));
@@ -241,7 +528,7 @@ export function useWebSocket() {
       }
 
       // Set up one-time listeners for success/error responses
-      const successHandler = (response: { message: string; deletedFiles: number; errors: any[] }) => {
+      const successHandler = (response: { message: string; archivedTournamentId: string | null; deletedFiles: number; errors: any[] }) => {
         socketRef.current?.off('error', errorHandler);
         resolve(response);
       };
@@ -257,10 +544,36 @@ export function useWebSocket() {
       socketRef.current.once('error', errorHandler);
 
       // Emit reset request
-      socketRef.current.emit('admin:reset', {});
+      socketRef.current.emit(event, payload);
     });
   }, [isConnected]);
 
+  /**
+   * Reset the tournament (admin only)
+   * Archives a finished tournament, clears all state and returns all clients
+   * to waiting screen. The server refuses a tournament still being played
+   * @returns Promise that resolves with success details or rejects with error
+   */
+  const resetTournament = useCallback(() => {
+    return clearTournament('admin:reset', {});
+  }, [clearTournament]);
+
+  /**
+   * Delete the tournament without archiving it, even if it has not finished
+   * (admin only)
+   * @returns Promise that resolves with success details or rejects with error
+   */
+  const deleteTournament = useCallback(() => {
+    return clearTournament('admin:delete-tournament', { confirm: true });
+  }, [clearTournament]);
+
+  /**
+   * Dismiss the notice that the session was restored after a server restart
+   */
+  const dismissSessionRestored = useCallback(() => {
+    setSessionRestored(false);
+  }, []);
+
   /**
    * Manually reconnect to the server
    */
@@ -273,6 +586,19 @@ export function useWebSocket() {
     }
   }, []);
 
+  /**
+   * Open a new connection, so the server sees a session cookie set since
+   * the current one was opened
+   */
+  const reauthenticate = useCallback(() => {
+    reconnectAttemptRef.current = 0;
+    setError(null);
+
+    if (socketRef.current) {
+      socketRef.current.disconnect().connect();
+    }
+  }, []);
+
   // Initialize socket on mount and cleanup on unmount
   useEffect(() => {
     const socket = initializeSocket();
@@ -291,14 +617,37 @@ export function useWebSocket() {
     };
   }, [initializeSocket]);
 
+  const currentMatchId = tournamentState?.currentMatch?.id;
+  const hasVotedInCurrentMatch = !!currentMatchId && votedMatchIds.includes(currentMatchId);
+
   return {
     tournamentState,
     isConnected,
     error,
     hasVotedInCurrentMatch,
+    votedMatchIds,
+    jury,
+    judge,
+    roomNotFound,
+    adminUnauthorized,
+    sessionRestored,
     castVote,
     startTournament,
+    decideTie,
+    pauseTournament,
+    resumeTournament,
+    continueTournament,
+    adjustMatchTime,
+    endMatch,
+    undoLastResult,
+    overrideMatch,
+    addJudge,
+    removeJudge,
+    joinJury,
     resetTournament,
-    reconnect
+    deleteTournament,
+    dismissSessionRestored,
+    reconnect,
+    reauthenticate
   };
 }
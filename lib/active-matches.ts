@@ -0,0 +1,18 @@
+import { Match, TournamentState } from '@/types';
+
+/**
+ * Get the matches being voted on
+ * Falls back to the current match for states without parallel matches
+ *
+ * @param state - Tournament state
+ * @returns Active matches, the current match first
+ */
+export function getActiveMatches(state: TournamentState | null): Match[] {
+  if (!state) {
+    return [];
+  }
+  if (state.activeMatches) {
+    return state.activeMatches;
+  }
+  return state.currentMatch ? [state.currentMatch] : [];
+}
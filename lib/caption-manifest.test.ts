@@ -0,0 +1,58 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getCaption, isCaptionManifest, parseCaptionManifest } from './caption-manifest';
+
+describe('Caption Manifest', () => {
+  // Feature: bulk-upload, Property 1: Captions written to a CSV manifest are read back unchanged
+  it('should read back any caption written to a CSV manifest', () => {
+    const captionArbitrary = fc.string({ minLength: 1, maxLength: 50 }).filter(caption => caption.trim() === caption && caption.length > 0);
+
+    fc.assert(
+      fc.property(fc.array(captionArbitrary, { minLength: 1, maxLength: 10 }), (captions) => {
+        const rows = captions.map((caption, i) => `meme-${i}.png,"${caption.replace(/"/g, '""')}"`);
+        const parsed = parseCaptionManifest(['filename,caption', ...rows].join('\r\n'), 'captions.csv');
+
+        captions.forEach((caption, i) => expect(parsed.get(`meme-${i}.png`)).toBe(caption));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should read CSV manifests saved with semicolons and a byte order mark', () => {
+    const captions = parseCaptionManifest('\uFEFFarquivo;legenda\ngato.png;Gato surpreso\n', 'legendas.csv');
+
+    expect(captions).toEqual(new Map([['gato.png', 'Gato surpreso']]));
+  });
+
+  it('should read JSON manifests keyed by filename or listing entries', () => {
+    expect(parseCaptionManifest('{"gato.png": "Gato surpreso"}', 'captions.json'))
+      .toEqual(new Map([['gato.png', 'Gato surpreso']]));
+    expect(parseCaptionManifest('[{"filename": "cao.jpg", "caption": "Cão confuso"}]', 'captions.json'))
+      .toEqual(new Map([['cao.jpg', 'Cão confuso']]));
+  });
+
+  it('should reject manifests that cannot be read', () => {
+    expect(() => parseCaptionManifest('{"gato.png": ', 'captions.json')).toThrow();
+    expect(() => parseCaptionManifest('"gato"', 'captions.json')).toThrow();
+    expect(() => parseCaptionManifest('[{"filename": "gato.png"}]', 'captions.json')).toThrow();
+    expect(() => parseCaptionManifest('gato.png,"Gato', 'captions.csv')).toThrow();
+  });
+
+  it('should caption by path, then by filename, then with the filename itself', () => {
+    const captions = new Map([['memes/gato.png', 'Gato'], ['cao.jpg', 'Cão']]);
+
+    expect(getCaption(captions, 'memes/gato.png')).toBe('Gato');
+    expect(getCaption(captions, 'memes/cao.jpg')).toBe('Cão');
+    expect(getCaption(captions, 'memes/pato.final.webp')).toBe('pato.final');
+  });
+
+  it('should recognize manifests by their extension', () => {
+    expect(isCaptionManifest('legendas.CSV')).toBe(true);
+    expect(isCaptionManifest('captions.json')).toBe(true);
+    expect(isCaptionManifest('gato.png')).toBe(false);
+  });
+});
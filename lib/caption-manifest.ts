@@ -0,0 +1,151 @@
+/**
+ * Caption Manifests
+ *
+ * A bulk upload may carry a manifest that maps image filenames to captions:
+ * a CSV file with "filename,caption" rows (the header row is optional), or a
+ * JSON file holding either an object keyed by filename or an array of
+ * { filename, caption } entries. Images the manifest does not mention are
+ * captioned with their filename, as single uploads are.
+ */
+
+/**
+ * Captions keyed by filename
+ */
+export type CaptionMap = Map<string, string>;
+
+const MANIFEST_EXTENSIONS = ['.csv', '.json'];
+
+// First cells that mark the first CSV row as a header
+const CSV_HEADER_NAMES = ['filename', 'file', 'arquivo', 'imagem', 'image', 'nome'];
+
+/**
+ * Get the extension of a filename, lowercased and with its dot
+ */
+function getExtension(filename: string): string {
+  const match = /\.[^./\\]+$/.exec(filename);
+  return match ? match[0].toLowerCase() : '';
+}
+
+/**
+ * Get the last segment of a path
+ */
+function getBasename(path: string): string {
+  return path.split(/[/\\]/).pop() || '';
+}
+
+/**
+ * Check whether a file of a bulk upload is a caption manifest
+ */
+export function isCaptionManifest(filename: string): boolean {
+  return MANIFEST_EXTENSIONS.includes(getExtension(filename));
+}
+
+/**
+ * Caption given to an image the manifest does not mention: its filename without extension
+ */
+export function getDefaultCaption(filename: string): string {
+  return getBasename(filename).replace(/\.[^/.]+$/, '');
+}
+
+/**
+ * Split CSV text into rows of fields
+ * Quoted fields may hold separators, line breaks and doubled quotes.
+ * Spreadsheets set to pt-BR save with semicolons, so those are accepted too
+ */
+function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const separator = firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (field || row.length > 0) {
+    rows.push([...row, field]);
+  }
+  return rows;
+}
+
+/**
+ * Read the captions of a manifest
+ * @param contents - Text of the manifest file
+ * @param filename - Name of the manifest file, whose extension gives its format
+ * @returns Captions keyed by filename
+ * @throws Error if the manifest cannot be read
+ */
+export function parseCaptionManifest(contents: string, filename: string): CaptionMap {
+  const captions: CaptionMap = new Map();
+  // Spreadsheets often save with a byte order mark
+  const text = contents.replace(/^\uFEFF/, '');
+
+  if (getExtension(filename) === '.json') {
+    const data = JSON.parse(text);
+    if (!data || typeof data !== 'object') {
+      throw new Error('Manifest must be an object or an array');
+    }
+    const entries: Array<[unknown, unknown]> = Array.isArray(data)
+      ? data.map(entry => [entry?.filename ?? entry?.file, entry?.caption])
+      : Object.entries(data);
+    for (const [file, caption] of entries) {
+      if (typeof file !== 'string' || typeof caption !== 'string') {
+        throw new Error('Every manifest entry needs a filename and a caption');
+      }
+      captions.set(file.trim(), caption.trim());
+    }
+    return captions;
+  }
+
+  const rows = parseCsv(text).filter(row => row.some(field => field.trim()));
+  if (rows.length > 0 && CSV_HEADER_NAMES.includes(rows[0][0].trim().toLowerCase())) {
+    rows.shift();
+  }
+  for (const [file, caption = ''] of rows) {
+    if (file.trim() && caption.trim()) {
+      captions.set(file.trim(), caption.trim());
+    }
+  }
+  return captions;
+}
+
+/**
+ * Get the caption of an image
+ * The manifest may name the image by its path in the upload or by its filename alone
+ *
+ * @param captions - Captions read from the manifest
+ * @param path - Path of the image in the archive or folder
+ * @returns Caption from the manifest, or the filename without extension
+ */
+export function getCaption(captions: CaptionMap, path: string): string {
+  return captions.get(path) ?? captions.get(getBasename(path)) ?? getDefaultCaption(path);
+}
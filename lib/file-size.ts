@@ -0,0 +1,6 @@
+/**
+ * Format a size in bytes as megabytes, e.g. 5MB or 0.5MB
+ */
+export function formatFileSize(bytes: number): string {
+  return `${Number((bytes / 1024 / 1024).toFixed(2))}MB`;
+}
@@ -0,0 +1,87 @@
+import { FilledMatch, Match, Meme } from '@/types';
+
+/**
+ * Allowed number of memes per heat
+ */
+export const MIN_HEAT_SIZE = 3;
+export const MAX_HEAT_SIZE = 4;
+
+/**
+ * Most memes that can advance from a single heat
+ */
+export const MAX_HEAT_QUALIFIERS = 2;
+
+/**
+ * Display name of a multi-meme match
+ */
+export const HEAT_LABEL = 'Bateria';
+
+/**
+ * Check whether a tournament of this size starts with heats
+ * A pool that fits in a single heat goes straight to the bracket
+ *
+ * @param memeCount - Number of memes competing
+ * @param heatSize - Configured memes per heat, if any
+ */
+export function usesHeats(memeCount: number, heatSize?: number): heatSize is number {
+  return !!heatSize && memeCount > heatSize;
+}
+
+/**
+ * Get the number of heats needed so no heat exceeds the heat size
+ */
+export function getHeatCount(memeCount: number, heatSize: number): number {
+  return Math.ceil(memeCount / heatSize);
+}
+
+/**
+ * Check whether a match is a heat rather than a two-meme duel
+ */
+export function isHeat(match: Match): boolean {
+  return !!match.entrants;
+}
+
+/**
+ * Check whether both slots of a match have been filled
+ * Matches later in a bracket wait for earlier ones to fill their slots
+ */
+export function hasBothMemes(match: Match): match is FilledMatch {
+  return !!match.leftMeme && !!match.rightMeme;
+}
+
+/**
+ * Get every meme competing in a match
+ * Slots still waiting for a meme are left out
+ */
+export function getEntrants(match: Match): Meme[] {
+  return match.entrants || [match.leftMeme, match.rightMeme].filter((meme): meme is Meme => !!meme);
+}
+
+/**
+ * Get the votes received by one entrant of a match
+ */
+export function getEntrantVotes(match: Match, meme: Meme): number {
+  if (match.entrantVotes) {
+    return match.entrantVotes[meme.id] || 0;
+  }
+  return meme.id === match.leftMeme?.id ? match.votes.left : match.votes.right;
+}
+
+/**
+ * Get the total number of votes cast in a match
+ */
+export function getTotalVotes(match: Match): number {
+  return getEntrants(match).reduce((total, meme) => total + getEntrantVotes(match, meme), 0);
+}
+
+/**
+ * Rank the entrants of a heat by votes
+ * Entrants are listed in seed order, so tied entrants stay in seed order
+ *
+ * @param match - Heat to rank
+ * @param getScore - Score to rank by; defaults to audience votes
+ * @returns Entrants from highest to lowest score
+ */
+export function rankEntrants(match: Match, getScore: (meme: Meme) => number = meme => getEntrantVotes(match, meme)): Meme[] {
+  return [...getEntrants(match)].sort((a, b) => getScore(b) - getScore(a));
+}
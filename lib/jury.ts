@@ -0,0 +1,152 @@
+import { JuryScoring, Match, Meme, TournamentSettings } from '@/types';
+import { getEntrants, getEntrantVotes, getTotalVotes } from './heats';
+
+/**
+ * Audience votes a judge vote is worth by default under WEIGHTED scoring
+ */
+export const DEFAULT_JURY_WEIGHT = 5;
+export const MAX_JURY_WEIGHT = 100;
+
+/**
+ * Part of the result the jury decides under SHARE scoring
+ */
+export const DEFAULT_JURY_SHARE = 0.5;
+export const MIN_JURY_SHARE = 0.1;
+export const MAX_JURY_SHARE = 0.9;
+
+/**
+ * Longest name a judge can be given
+ */
+export const MAX_JUDGE_NAME_LENGTH = 40;
+
+/**
+ * Display names and descriptions of the jury scoring modes
+ */
+export const JURY_SCORING_OPTIONS: { value: JuryScoring; label: string; description: string }[] = [
+  {
+    value: 'WEIGHTED',
+    label: 'Voto com peso',
+    description: 'Cada voto de jurado vale vários votos do público'
+  },
+  {
+    value: 'SHARE',
+    label: 'Parte fixa do resultado',
+    description: 'O júri decide uma porcentagem fixa do resultado, não importa quantos votem'
+  }
+];
+
+/**
+ * Settings that decide how the jury counts
+ */
+export type JurySettings = Pick<TournamentSettings, 'juryScoring' | 'juryWeight' | 'juryShare'>;
+
+/**
+ * Decimal places a SHARE score is rounded to, so equal blends compare as ties
+ */
+const SHARE_SCORE_PRECISION = 1e6;
+
+/**
+ * Round a score, or a sum of scores, so equal blends compare as ties
+ */
+export function roundScore(score: number): number {
+  return Math.round(score * SHARE_SCORE_PRECISION) / SHARE_SCORE_PRECISION;
+}
+
+/**
+ * Get the judge votes received by one entrant of a match
+ */
+export function getJuryVotes(match: Match, meme: Meme): number {
+  if (match.juryEntrantVotes) {
+    return match.juryEntrantVotes[meme.id] || 0;
+  }
+  if (!match.juryVotes) {
+    return 0;
+  }
+  return meme.id === match.leftMeme?.id ? match.juryVotes.left : match.juryVotes.right;
+}
+
+/**
+ * Get the total number of judge votes cast in a match
+ */
+export function getTotalJuryVotes(match: Match): number {
+  return getEntrants(match).reduce((total, meme) => total + getJuryVotes(match, meme), 0);
+}
+
+/**
+ * Get the fraction of a tally one entrant holds
+ * A tally nobody has voted in yet is split evenly, so it favours no one
+ */
+function getTallyFraction(votes: number, total: number, entrants: number): number {
+  return total > 0 ? votes / total : 1 / entrants;
+}
+
+/**
+ * Get the score that decides a match for one of its entrants
+ * Without a jury this is the audience vote count. WEIGHTED adds each judge
+ * vote juryWeight times; SHARE blends the entrant's fraction of each tally,
+ * giving a score between 0 and 1.
+ *
+ * @param match - Any match
+ * @param meme - One of the match's entrants
+ * @param settings - Jury settings of the tournament
+ * @returns Score of the entrant, higher is better
+ */
+export function getMatchScore(match: Match, meme: Meme, settings: JurySettings): number {
+  const audienceVotes = getEntrantVotes(match, meme);
+
+  switch (settings.juryScoring) {
+    case 'WEIGHTED':
+      return audienceVotes + getJuryVotes(match, meme) * (settings.juryWeight ?? DEFAULT_JURY_WEIGHT);
+
+    case 'SHARE': {
+      const share = settings.juryShare ?? DEFAULT_JURY_SHARE;
+      const entrants = getEntrants(match).length;
+      const score = (1 - share) * getTallyFraction(audienceVotes, getTotalVotes(match), entrants)
+        + share * getTallyFraction(getJuryVotes(match, meme), getTotalJuryVotes(match), entrants);
+      return roundScore(score);
+    }
+
+    default:
+      return audienceVotes;
+  }
+}
+
+/**
+ * Format a score from getMatchScore for display: points, or a percentage under SHARE
+ */
+export function formatMatchScore(score: number, settings: JurySettings): string {
+  return settings.juryScoring === 'SHARE' ? `${(score * 100).toFixed(1)}%` : `${score}`;
+}
+
+/**
+ * Get the most score a single vote can add to an entrant
+ * A SHARE vote has no such bound: while a tally is small, one vote moves a
+ * large part of it
+ *
+ * @param settings - Jury settings of the tournament
+ * @returns Score per vote, or Infinity for SHARE scoring
+ */
+export function getMaxVoteValue(settings: JurySettings): number {
+  switch (settings.juryScoring) {
+    case 'WEIGHTED':
+      return Math.max(1, settings.juryWeight ?? DEFAULT_JURY_WEIGHT);
+    case 'SHARE':
+      return Infinity;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Describe how the jury counts, e.g. "Júri: cada voto vale 5"
+ */
+export function formatJuryScoring(settings: JurySettings): string | null {
+  switch (settings.juryScoring) {
+    case 'WEIGHTED':
+      return `Júri: cada voto vale ${settings.juryWeight ?? DEFAULT_JURY_WEIGHT}`;
+    case 'SHARE':
+      return `Júri: ${Math.round((settings.juryShare ?? DEFAULT_JURY_SHARE) * 100)}% do resultado`;
+    default:
+      return null;
+  }
+}
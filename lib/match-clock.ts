@@ -0,0 +1,55 @@
+import { Match } from '@/types';
+
+/**
+ * Anything that counts down to a deadline: a match or a result reveal
+ */
+export type Countdown = Pick<Match, 'timeRemaining' | 'endsAt'>;
+
+/**
+ * Milliseconds to add to the local clock to read the server clock
+ * Stays 0 on the server; clients set it from the clock handshake
+ */
+let serverClockOffset = 0;
+
+/**
+ * Set the offset of the server clock, as measured by the clock handshake
+ */
+export function setServerClockOffset(offset: number): void {
+  serverClockOffset = offset;
+}
+
+/**
+ * Get the current time on the server clock, in epoch milliseconds
+ */
+export function getServerTime(): number {
+  return Date.now() + serverClockOffset;
+}
+
+/**
+ * Estimate how far the server clock is ahead of the local clock
+ * The server is assumed to have read its clock halfway through the round trip
+ *
+ * @param sentAt - Local time the ping was sent
+ * @param serverTime - Server time in the reply
+ * @param receivedAt - Local time the reply arrived
+ * @returns Offset in milliseconds, negative when the server clock is behind
+ */
+export function estimateClockOffset(sentAt: number, serverTime: number, receivedAt: number): number {
+  return serverTime - (sentAt + receivedAt) / 2;
+}
+
+/**
+ * Get the whole seconds left on a countdown
+ * A running countdown is read from its deadline; a stopped one (paused,
+ * waiting to start, or on hold) keeps the seconds it stopped at
+ *
+ * @param countdown - A match or result reveal
+ * @param now - Current server time in epoch milliseconds
+ * @returns Seconds left, never below 0
+ */
+export function getTimeRemaining(countdown: Countdown, now: number = getServerTime()): number {
+  if (countdown.endsAt == null) {
+    return countdown.timeRemaining;
+  }
+  return Math.max(0, Math.ceil((countdown.endsAt - now) / 1000));
+}
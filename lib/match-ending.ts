@@ -0,0 +1,53 @@
+import { Match, Meme, MatchEndingPolicy, MatchEndReason } from '@/types';
+import { rankEntrants, getEntrantVotes } from './heats';
+
+/**
+ * Display names and descriptions of the adaptive ending policies
+ */
+export const ENDING_POLICY_OPTIONS: { value: MatchEndingPolicy; label: string; description: string }[] = [
+  {
+    value: 'ALL_VOTED',
+    label: 'Encerrar quando todos votarem',
+    description: 'O duelo acaba assim que todos os conectados votaram'
+  },
+  {
+    value: 'DECISIVE_LEAD',
+    label: 'Encerrar com vantagem decisiva',
+    description: 'O duelo acaba quando os votos restantes não mudam o resultado'
+  },
+  {
+    value: 'AUTO_EXTEND',
+    label: 'Prorrogar duelos apertados',
+    description: 'Votos nos últimos segundos de um duelo apertado adicionam tempo'
+  }
+];
+
+/**
+ * Display names for the reasons a match ended
+ */
+export const END_REASON_LABELS: Record<MatchEndReason, string> = {
+  TIME_EXPIRED: 'Tempo esgotado',
+  ALL_VOTED: 'Todos votaram',
+  DECISIVE_LEAD: 'Vantagem decisiva',
+  ENDED_BY_ADMIN: 'Encerrado pelo admin'
+};
+
+/**
+ * Get the smallest vote gap between finishing places that decide something
+ * For a duel this is the lead of the meme ahead. For a heat it covers every
+ * qualifying place, since heat winners and runners-up are seeded differently,
+ * and the gap to the first meme that would miss out
+ *
+ * @param match - An active match
+ * @param getScore - Score that decides the match; defaults to audience votes
+ * @returns Margin that a late swing would have to overcome
+ */
+export function getDecidingMargin(match: Match, getScore: (meme: Meme) => number = meme => getEntrantVotes(match, meme)): number {
+  const votes = rankEntrants(match, getScore).map(getScore);
+  const places = Math.min(match.qualifiersTo?.length || 1, votes.length - 1);
+  let margin = Infinity;
+  for (let place = 0; place < places; place++) {
+    margin = Math.min(margin, votes[place] - votes[place + 1]);
+  }
+  return margin;
+}
@@ -0,0 +1,19 @@
+import { Match, Round } from '@/types';
+
+/**
+ * Label shown next to results forced by the admin
+ */
+export const OVERRIDE_LABEL = 'Resultado definido pelo admin';
+
+/**
+ * Collect the matches whose winner was forced by the admin, in play order
+ *
+ * @param bracket - Tournament bracket
+ * @returns Overridden matches sorted by completion time
+ */
+export function getOverriddenMatches(bracket: Round[]): Match[] {
+  return bracket
+    .flatMap(round => round.matches)
+    .filter(match => match.override)
+    .sort((a, b) => new Date(a.completedAt || 0).getTime() - new Date(b.completedAt || 0).getTime());
+}
@@ -0,0 +1,23 @@
+import { Meme } from '@/types';
+
+/**
+ * Meme Images
+ *
+ * Every file stored for a meme image: the image itself and, for memes
+ * uploaded since resized copies are generated, each copy in its modern and
+ * fallback formats.
+ */
+
+/**
+ * Get the URL of every file stored for the image of a meme
+ * @param meme - Meme whose files are wanted
+ * @returns URLs under /uploads, without duplicates
+ */
+export function getMemeImageUrls(meme: Meme): string[] {
+  const urls = new Set([meme.imageUrl]);
+  Object.values(meme.variants || {}).forEach(variant => {
+    urls.add(variant.url);
+    urls.add(variant.fallbackUrl);
+  });
+  return Array.from(urls);
+}
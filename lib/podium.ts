@@ -0,0 +1,57 @@
+import { Match, Meme, TournamentState } from '@/types';
+
+/**
+ * Name of the match played between the semifinal losers
+ */
+export const THIRD_PLACE_LABEL = 'Disputa de 3º lugar';
+
+/**
+ * Memes on the podium of a finished tournament
+ */
+export interface Podium {
+  first: Meme | null;
+  second: Meme | null;
+  third: Meme | null;
+}
+
+/**
+ * Get the meme that lost a completed match
+ */
+function getLoser(match: Match | undefined): Meme | null {
+  if (!match || match.status !== 'COMPLETED' || !match.winner) {
+    return null;
+  }
+  return match.winner.id === match.leftMeme?.id ? match.rightMeme : match.leftMeme;
+}
+
+/**
+ * Work out the podium of a tournament
+ * League podiums follow the standings. In elimination formats, second place
+ * is the loser of the final and third place the winner of the third-place
+ * match, or the loser of the losers bracket final in double elimination.
+ *
+ * @param state - Tournament state
+ * @returns Podium, with null for places that were not decided
+ */
+export function getPodium(state: TournamentState): Podium {
+  if (state.standings) {
+    return {
+      first: state.standings[0]?.meme || null,
+      second: state.standings[1]?.meme || null,
+      third: state.standings[2]?.meme || null
+    };
+  }
+
+  const matches = state.bracket.flatMap(round => round.matches);
+  const final = matches.find(match => !match.winnerTo && !match.isThirdPlace && match.status === 'COMPLETED');
+  const thirdPlaceMatch = matches.find(match => match.isThirdPlace);
+  const losersFinal = [...state.bracket].reverse().find(round => round.side === 'LOSERS')?.matches[0];
+
+  return {
+    first: state.winner,
+    second: getLoser(final),
+    third: thirdPlaceMatch
+      ? thirdPlaceMatch.winner
+      : getLoser(losersFinal)
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Page where participants of a room vote
+ */
+export function getRoomPath(code: string): string {
+  return `/r/${code}`;
+}
+
+/**
+ * Page where a room's tournament is run
+ */
+export function getRoomAdminPath(code: string): string {
+  return `/r/${code}/admin`;
+}
+
+/**
+ * Point an API URL at a room's tournament
+ * Without a room code the URL addresses the default tournament unchanged
+ *
+ * @param url - API URL, which may already carry a query string
+ * @param roomCode - Room code, if any
+ * @returns URL carrying the room code
+ */
+export function withRoom(url: string, roomCode?: string | null): string {
+  if (!roomCode) {
+    return url;
+  }
+  return `${url}${url.includes('?') ? '&' : '?'}room=${encodeURIComponent(roomCode)}`;
+}
@@ -0,0 +1,51 @@
+import { BracketSide, Round, TournamentFormat } from '@/types';
+import { THIRD_PLACE_LABEL } from './podium';
+import { HEAT_LABEL, isHeat } from './heats';
+
+/**
+ * Display names of the sides of a double-elimination bracket
+ */
+export const BRACKET_SIDE_LABELS: Record<BracketSide, string> = {
+  WINNERS: 'Chave dos Vencedores',
+  LOSERS: 'Chave dos Perdedores',
+  GRAND_FINAL: 'Grande Final'
+};
+
+/**
+ * Name a round after its place in the tournament
+ * League rounds are numbered; elimination rounds end with the semifinal and
+ * final, and double-elimination rounds are numbered within their side
+ *
+ * @param bracket - Every round of the tournament
+ * @param round - Round to name
+ * @param format - Tournament format
+ */
+export function getRoundLabel(bracket: Round[], round: Round, format?: TournamentFormat): string {
+  if (format === 'ROUND_ROBIN' || format === 'SWISS') {
+    return `Rodada ${bracket.indexOf(round) + 1}`;
+  }
+
+  if (format !== 'DOUBLE_ELIMINATION') {
+    // The third-place match is played between the semifinals and the final
+    if (round.matches.some(m => m.isThirdPlace)) {
+      return THIRD_PLACE_LABEL;
+    }
+    if (round.matches.some(isHeat)) {
+      return `${HEAT_LABEL}s`;
+    }
+    const eliminationRounds = bracket.filter(r => !r.matches.some(m => m.isThirdPlace || isHeat(m)));
+    const position = eliminationRounds.indexOf(round);
+    return position === eliminationRounds.length - 1 
+      ? 'Final' 
+      : position === eliminationRounds.length - 2
+      ? 'Semifinal'
+      : `Round ${position + 1}`;
+  }
+
+  const side = round.side || 'WINNERS';
+  if (side === 'GRAND_FINAL') {
+    return round.matches.some(m => m.isBracketReset) ? 'Final (desempate)' : 'Grande Final';
+  }
+  const sideRounds = bracket.filter(r => (r.side || 'WINNERS') === side);
+  return `Round ${sideRounds.indexOf(round) + 1}`;
+}
@@ -0,0 +1,270 @@
+import { Round, TournamentFormat, TournamentSettings } from '@/types';
+import { usesHeats, getHeatCount, isHeat } from './heats';
+
+/**
+ * Shortest voting time a round can be given
+ */
+export const MIN_ROUND_TIME_SECONDS = 5;
+
+/**
+ * Longest voting time a round can be given
+ */
+export const MAX_ROUND_TIME_SECONDS = 300;
+
+/**
+ * Bounds of the round time multiplier curve
+ */
+export const MIN_ROUND_TIME_MULTIPLIER = 0.5;
+export const MAX_ROUND_TIME_MULTIPLIER = 3;
+
+/**
+ * Settings that decide how long each round lasts
+ */
+export type RoundTimeSettings = Pick<TournamentSettings, 'votingTimeSeconds' | 'roundTimeSchedule' | 'roundTimeMultiplier'>;
+
+/**
+ * Rounds that are played alongside an elimination stage instead of making one
+ * - HEATS: the heats opening a bracket, played at the stage of its first round
+ * - THIRD_PLACE: the third-place match, played at the stage of the final
+ * - LOSERS: a losers bracket round, played at the stage of the winners round before it
+ * - BRACKET_RESET: the grand final rematch, played at the stage of the grand final
+ */
+export type RoundKind = 'HEATS' | 'THIRD_PLACE' | 'LOSERS' | 'BRACKET_RESET';
+
+/**
+ * Get how a round of a bracket relates to its elimination stages
+ * @returns The kind of round, or undefined for a round that makes a stage of its own
+ */
+export function getRoundKind(round: Round): RoundKind | undefined {
+  if (round.side === 'LOSERS') {
+    return 'LOSERS';
+  }
+  if (round.matches.some(match => match.isBracketReset)) {
+    return 'BRACKET_RESET';
+  }
+  if (round.matches.some(match => match.isThirdPlace)) {
+    return 'THIRD_PLACE';
+  }
+  return round.matches.some(isHeat) ? 'HEATS' : undefined;
+}
+
+/**
+ * Get the elimination stage each round is played at
+ * Every winners bracket round, and the (grand) final, is a stage; the rounds
+ * played alongside them share their stage, so the schedule lines up with the
+ * depth of the bracket whatever extra rounds it has
+ *
+ * @param kinds - Kind of each round, in play order
+ * @returns 0-based stage of each round and the number of stages
+ */
+export function getRoundStages(kinds: Array<RoundKind | undefined>): { stages: number[]; stageCount: number } {
+  let stage = -1;
+  const stages = kinds.map(kind => {
+    switch (kind) {
+      case 'HEATS':
+        return 0;
+      case 'THIRD_PLACE':
+        return stage + 1;
+      case 'LOSERS':
+      case 'BRACKET_RESET':
+        return Math.max(0, stage);
+      default:
+        return ++stage;
+    }
+  });
+
+  return { stages, stageCount: Math.max(1, stage + 1) };
+}
+
+/**
+ * Get the voting time of an elimination stage
+ * A schedule is aligned to the last stage, so its final entry always applies
+ * to the final and stages before the schedule starts use its first entry.
+ * A multiplier grows (or shrinks) the base time stage after stage.
+ *
+ * @param settings - Round time settings
+ * @param stage - 0-based stage the round is played at (see getRoundStages)
+ * @param stageCount - Number of stages in the tournament
+ * @returns Voting time in seconds
+ */
+export function getRoundVotingTime(settings: RoundTimeSettings, stage: number, stageCount: number): number {
+  const schedule = settings.roundTimeSchedule;
+  if (schedule && schedule.length > 0) {
+    const scheduleIndex = Math.max(0, schedule.length - (stageCount - stage));
+    return schedule[Math.min(scheduleIndex, schedule.length - 1)];
+  }
+
+  if (settings.roundTimeMultiplier && settings.roundTimeMultiplier !== 1) {
+    const seconds = Math.round(settings.votingTimeSeconds * Math.pow(settings.roundTimeMultiplier, stage));
+    return Math.min(MAX_ROUND_TIME_SECONDS, Math.max(MIN_ROUND_TIME_SECONDS, seconds));
+  }
+
+  return settings.votingTimeSeconds;
+}
+
+/**
+ * Parse a comma-separated schedule such as "15, 15, 30, 60"
+ *
+ * @param text - Seconds per round, separated by commas or spaces
+ * @returns Seconds per round, or null if any entry is not a valid round time
+ */
+export function parseRoundTimeSchedule(text: string): number[] | null {
+  const entries = text.split(/[\s,;]+/).filter(Boolean);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const schedule = entries.map(entry => Number(entry));
+  return schedule.every(isValidRoundTime) ? schedule : null;
+}
+
+/**
+ * Check that a value is a whole number of seconds within the round time bounds
+ */
+export function isValidRoundTime(seconds: unknown): seconds is number {
+  return typeof seconds === 'number'
+    && Number.isInteger(seconds)
+    && seconds >= MIN_ROUND_TIME_SECONDS
+    && seconds <= MAX_ROUND_TIME_SECONDS;
+}
+
+/**
+ * Settings that shape the rounds of a tournament
+ */
+export type RoundEstimateOptions = Pick<TournamentSettings, 'grandFinalReset' | 'thirdPlaceMatch' | 'swissRounds' | 'heatSize' | 'heatQualifiers'>;
+
+/**
+ * Round of a tournament as estimated before its bracket is built
+ */
+export interface EstimatedRound {
+  matches: number;
+  kind?: RoundKind;
+}
+
+/**
+ * Estimate the rounds of a tournament and how many matches each will have
+ * Elimination brackets drop the matches byes skip; the losers bracket of a
+ * double elimination is approximated by pairing off whoever is left in it.
+ * Heats count as one match each.
+ *
+ * @param format - Tournament format
+ * @param memeCount - Number of memes competing
+ * @param options - Format-specific options
+ * @returns Rounds in play order
+ */
+export function estimateRounds(
+  format: TournamentFormat,
+  memeCount: number,
+  options: RoundEstimateOptions = {}
+): EstimatedRound[] {
+  if (memeCount < 2) {
+    return [];
+  }
+
+  if (format === 'ROUND_ROBIN') {
+    const slots = memeCount % 2 === 0 ? memeCount : memeCount + 1;
+    return new Array(slots - 1).fill(null).map(() => ({ matches: slots / 2 - (slots === memeCount ? 0 : 1) }));
+  }
+
+  if (format === 'SWISS') {
+    const rounds = Math.min(Math.max(1, options.swissRounds || Math.ceil(Math.log2(memeCount))), memeCount - 1);
+    return new Array(rounds).fill(null).map(() => ({ matches: Math.floor(memeCount / 2) }));
+  }
+
+  // Heats open a single-elimination bracket of their qualifiers
+  const heatRounds: EstimatedRound[] = [];
+  let entries = memeCount;
+  if (format === 'SINGLE_ELIMINATION' && usesHeats(memeCount, options.heatSize)) {
+    const heatCount = getHeatCount(memeCount, options.heatSize);
+    heatRounds.push({ matches: heatCount, kind: 'HEATS' });
+    entries = heatCount * (options.heatQualifiers || 1);
+  }
+
+  // Winners bracket: byes only thin out the first round
+  const numRounds = Math.ceil(Math.log2(entries));
+  const size = Math.pow(2, numRounds);
+  const winnersRounds: EstimatedRound[] = [{ matches: entries - size / 2 }];
+  for (let round = 2; round <= numRounds; round++) {
+    winnersRounds.push({ matches: size / Math.pow(2, round) });
+  }
+
+  if (format !== 'DOUBLE_ELIMINATION') {
+    // The third-place match needs two semifinals, so at least 4 entries
+    if (options.thirdPlaceMatch && entries >= 4) {
+      winnersRounds.splice(winnersRounds.length - 1, 0, { matches: 1, kind: 'THIRD_PLACE' });
+    }
+    return [...heatRounds, ...winnersRounds];
+  }
+
+  // Losers bracket: a survivors round, then a drop-in round per winners round
+  const rounds: EstimatedRound[] = [winnersRounds[0]];
+  let alive = winnersRounds[0].matches;
+  for (let round = 1; round < winnersRounds.length; round++) {
+    rounds.push(winnersRounds[round]);
+
+    const survivorsMatches = Math.floor(alive / 2);
+    alive -= survivorsMatches;
+    rounds.push({ matches: survivorsMatches, kind: 'LOSERS' });
+
+    alive += winnersRounds[round].matches;
+    const dropInMatches = Math.floor(alive / 2);
+    alive -= dropInMatches;
+    rounds.push({ matches: dropInMatches, kind: 'LOSERS' });
+  }
+
+  rounds.push({ matches: 1 });
+  if (options.grandFinalReset) {
+    rounds.push({ matches: 1, kind: 'BRACKET_RESET' });
+  }
+
+  return rounds.filter(round => round.matches > 0);
+}
+
+/**
+ * Estimate how many matches each round of a tournament will have
+ * @returns Number of matches per round, in play order
+ */
+export function estimateRoundSizes(
+  format: TournamentFormat,
+  memeCount: number,
+  options: RoundEstimateOptions = {}
+): number[] {
+  return estimateRounds(format, memeCount, options).map(round => round.matches);
+}
+
+/**
+ * Estimate the total running time of a tournament
+ * Includes a result reveal after every batch of parallel matches but the
+ * last; tie-breaks are not included.
+ *
+ * @param settings - Tournament settings
+ * @param memeCount - Number of memes competing
+ * @returns Estimated duration in seconds
+ */
+export function estimateTournamentDuration(settings: TournamentSettings, memeCount: number): number {
+  const rounds = estimateRounds(settings.format || 'SINGLE_ELIMINATION', memeCount, settings);
+  const { stages, stageCount } = getRoundStages(rounds.map(round => round.kind));
+  const parallelMatches = Math.max(1, settings.parallelMatches || 1);
+  let batches = 0;
+
+  const votingTime = rounds.reduce((total, round, roundIndex) => {
+    const seconds = getRoundVotingTime(settings, stages[roundIndex], stageCount);
+    const roundBatches = Math.ceil(round.matches / parallelMatches);
+    batches += roundBatches;
+    return total + roundBatches * seconds;
+  }, 0);
+
+  return votingTime + Math.max(0, batches - 1) * (settings.intermissionSeconds || 0);
+}
+
+/**
+ * Format a duration for display, e.g. "12min 30s"
+ */
+export function formatDuration(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  if (minutes === 0) {
+    return `${seconds}s`;
+  }
+  return seconds === 0 ? `${minutes}min` : `${minutes}min ${seconds}s`;
+}
@@ -0,0 +1,124 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { toWireState, diffState, applyStatePatch } from './state-patch';
+import { TournamentManager } from '../server/tournament-manager';
+import { InMemoryTournamentRepository } from '../server/in-memory-repository';
+import { projectStateForVoters } from '../server/state-projection';
+import { createMemes } from '../server/test-helpers';
+import { TournamentState, TournamentFormat } from '../types';
+
+describe('State Patches', () => {
+  let repository: InMemoryTournamentRepository;
+  let tournamentManager: TournamentManager;
+  let broadcasts: TournamentState[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    broadcasts = [];
+    tournamentManager = new TournamentManager(
+      repository,
+      state => broadcasts.push(toWireState(state, broadcasts.length + 1))
+    );
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  /**
+   * Bring a state from one broadcast to the next the way a client does
+   */
+  const patch = (previous: TournamentState, next: TournamentState): TournamentState | null => {
+    const ops = diffState(previous, next);
+    return ops && applyStatePatch(previous, { revision: next.revision!, ops });
+  };
+
+  // ============================================================================
+  // Property Tests
+  // ============================================================================
+
+  // Feature: state-patches, Property 1: Applying the patch between two broadcasts gives the later one
+  it('should rebuild every broadcast from the one before it', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom<TournamentFormat>('SINGLE_ELIMINATION', 'DOUBLE_ELIMINATION', 'SWISS'),
+        fc.integer({ min: 2, max: 8 }),
+        fc.boolean(),
+        fc.array(fc.constantFrom('LEFT' as const, 'RIGHT' as const, 'COMPLETE' as const), { maxLength: 40 }),
+        async (format, memeCount, blindVoting, actions) => {
+          broadcasts = [];
+          await tournamentManager.initializeTournament(createMemes(memeCount), 30, { format, blindVoting });
+
+          for (const action of actions) {
+            const state = (await repository.getState())!;
+            if (state.status !== 'DUEL_IN_PROGRESS') {
+              break;
+            }
+            if (action === 'COMPLETE') {
+              await tournamentManager.completeCurrentMatch();
+            } else {
+              await tournamentManager.processVote(state.currentMatch!.id, action);
+            }
+          }
+
+          for (let i = 1; i < broadcasts.length; i++) {
+            const rebuilt = patch(broadcasts[i - 1], broadcasts[i]);
+            expect(rebuilt ?? broadcasts[i]).toEqual(broadcasts[i]);
+
+            // Voters get patches of the projected state
+            const previous = toWireState(projectStateForVoters(broadcasts[i - 1]), i);
+            const next = toWireState(projectStateForVoters(broadcasts[i]), i + 1);
+            expect(patch(previous, next) ?? next).toEqual(next);
+          }
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  // ============================================================================
+  // Unit Tests
+  // ============================================================================
+
+  it('should send a vote as the new tally of one match', async () => {
+    await tournamentManager.initializeTournament(createMemes(8), 30);
+    const matchId = broadcasts[0].currentMatch!.id;
+
+    await tournamentManager.processVote(matchId, 'LEFT');
+
+    const ops = diffState(broadcasts[0], broadcasts[1])!;
+    expect(ops).toHaveLength(1);
+    expect(ops[0]).toMatchObject({ op: 'match', roundIndex: 0, matchIndex: 0 });
+    expect(Object.keys((ops[0] as { changes: object }).changes).sort()).toEqual(['lastVoteAt', 'votes']);
+  });
+
+  it('should send a completed match and the next one without the meme list', async () => {
+    await tournamentManager.initializeTournament(createMemes(8), 30);
+
+    await tournamentManager.completeCurrentMatch();
+
+    const ops = diffState(broadcasts[0], broadcasts[1])!;
+    expect(ops.map(op => op.op)).toEqual(expect.arrayContaining(['match', 'active']));
+    expect(ops.some(op => op.op === 'state' && 'memes' in op.changes)).toBe(false);
+    expect(ops.find(op => op.op === 'active')).toMatchObject({ currentMatchId: broadcasts[1].currentMatch!.id });
+  });
+
+  it('should fall back to a snapshot when the bracket is rebuilt', async () => {
+    await tournamentManager.initializeTournament(createMemes(8), 30);
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+
+    expect(diffState(broadcasts[0], broadcasts[1])).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+import { Match, StatePatchMessage, StatePatchOp, TournamentState } from '@/types';
+
+/**
+ * Top-level fields patched by their own ops rather than as plain values
+ */
+const STRUCTURAL_FIELDS = ['bracket', 'currentMatch', 'activeMatches', 'revision'];
+
+/**
+ * Changed and removed fields of an object
+ */
+interface FieldChanges<T> {
+  changes: Partial<T>;
+  unset?: string[];
+}
+
+/**
+ * Convert a state to the form clients receive it in
+ * Dates become strings, exactly as they do on the wire, so two versions of
+ * the state can be compared field by field
+ *
+ * @param state - Tournament state
+ * @param revision - Revision the state is sent as
+ * @returns Plain copy of the state carrying the revision
+ */
+export function toWireState(state: TournamentState, revision: number): TournamentState {
+  return { ...JSON.parse(JSON.stringify(state)), revision };
+}
+
+/**
+ * Compare two values as they would be sent
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Collect the fields that differ between two versions of an object
+ *
+ * @param previous - Version the client holds
+ * @param next - Version to bring it to
+ * @param skip - Fields left out of the comparison
+ * @returns The changed and removed fields, or null if nothing changed
+ */
+function diffFields<T extends object>(previous: T, next: T, skip: string[] = []): FieldChanges<T> | null {
+  const before = previous as Record<string, unknown>;
+  const after = next as Record<string, unknown>;
+  const changes: Record<string, unknown> = {};
+  const unset: string[] = [];
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (skip.includes(key)) {
+      continue;
+    }
+    if (after[key] === undefined) {
+      if (before[key] !== undefined) {
+        unset.push(key);
+      }
+    } else if (!isSameValue(before[key], after[key])) {
+      changes[key] = after[key];
+    }
+  }
+
+  if (Object.keys(changes).length === 0 && unset.length === 0) {
+    return null;
+  }
+  return unset.length > 0 ? { changes: changes as Partial<T>, unset } : { changes: changes as Partial<T> };
+}
+
+/**
+ * Remove fields listed in a patch op
+ */
+function unsetFields(target: object, unset: string[] = []): void {
+  for (const key of unset) {
+    delete (target as Record<string, unknown>)[key];
+  }
+}
+
+/**
+ * Get the IDs clients use to find the active matches in the bracket
+ */
+function getActiveMatchIds(state: TournamentState): Extract<StatePatchOp, { op: 'active' }> {
+  return {
+    op: 'active',
+    currentMatchId: state.currentMatch?.id ?? null,
+    activeMatchIds: state.activeMatches?.map(match => match.id)
+  };
+}
+
+/**
+ * Check that every active match is identical to its slot in the bracket
+ * Clients rebuild the active matches from the bracket, so a patch can only
+ * describe states where the two agree
+ */
+function areActiveMatchesInBracket(state: TournamentState): boolean {
+  const active = [state.currentMatch, ...(state.activeMatches || [])].filter((m): m is Match => !!m);
+  return active.every(match => isSameValue(match, state.bracket[match.roundIndex]?.matches[match.matchIndex]));
+}
+
+/**
+ * Describe the changes between two states sent to the same clients
+ * A vote comes out as a single match op carrying the new tally; starting
+ * and completing matches change a few match fields and the active match IDs.
+ * Both states must be in wire form (see toWireState)
+ *
+ * @param previous - State the clients hold
+ * @param next - State to bring them to
+ * @returns Patch ops, empty if nothing changed, or null when the change
+ *   reshapes the bracket and has to be sent as a full snapshot
+ */
+export function diffState(previous: TournamentState, next: TournamentState): StatePatchOp[] | null {
+  if (next.bracket.length < previous.bracket.length || !areActiveMatchesInBracket(next)) {
+    return null;
+  }
+
+  const ops: StatePatchOp[] = [];
+
+  const stateChanges = diffFields(previous, next, STRUCTURAL_FIELDS);
+  if (stateChanges) {
+    ops.push({ op: 'state', ...stateChanges });
+  }
+
+  for (const [roundIndex, round] of next.bracket.entries()) {
+    const previousRound = previous.bracket[roundIndex];
+    if (!previousRound) {
+      ops.push({ op: 'add-round', round });
+      continue;
+    }
+    if (previousRound.matches.length !== round.matches.length) {
+      return null;
+    }
+
+    const roundChanges = diffFields(previousRound, round, ['matches']);
+    if (roundChanges) {
+      ops.push({ op: 'round', roundIndex, ...roundChanges });
+    }
+
+    for (const [matchIndex, match] of round.matches.entries()) {
+      const matchChanges = diffFields(previousRound.matches[matchIndex], match);
+      if (matchChanges) {
+        ops.push({ op: 'match', roundIndex, matchIndex, ...matchChanges });
+      }
+    }
+  }
+
+  const activeMatchIds = getActiveMatchIds(next);
+  if (!isSameValue(getActiveMatchIds(previous), activeMatchIds)) {
+    ops.push(activeMatchIds);
+  }
+
+  return ops;
+}
+
+/**
+ * Apply a state patch, leaving the original state untouched
+ * Changed rounds and matches are copied, so React sees new objects for
+ * exactly the parts that changed
+ *
+ * @param state - State at the patch's base revision
+ * @param patch - Patch received from the server
+ * @returns State at the patch's revision
+ */
+export function applyStatePatch(
+  state: TournamentState,
+  { revision, ops }: Pick<StatePatchMessage['payload'], 'revision' | 'ops'>
+): TournamentState {
+  const next: TournamentState = { ...state, bracket: [...state.bracket], revision };
+  let { currentMatchId, activeMatchIds } = getActiveMatchIds(state);
+
+  for (const op of ops) {
+    switch (op.op) {
+      case 'state':
+        Object.assign(next, op.changes);
+        unsetFields(next, op.unset);
+        break;
+
+      case 'add-round':
+        next.bracket.push(op.round);
+        break;
+
+      case 'round': {
+        const round = { ...next.bracket[op.roundIndex], ...op.changes };
+        unsetFields(round, op.unset);
+        next.bracket[op.roundIndex] = round;
+        break;
+      }
+
+      case 'match': {
+        const round = next.bracket[op.roundIndex];
+        const match = { ...round.matches[op.matchIndex], ...op.changes };
+        unsetFields(match, op.unset);
+        const matches = [...round.matches];
+        matches[op.matchIndex] = match;
+        next.bracket[op.roundIndex] = { ...round, matches };
+        break;
+      }
+
+      case 'active':
+        currentMatchId = op.currentMatchId;
+        activeMatchIds = op.activeMatchIds;
+        break;
+    }
+  }
+
+  // The active matches are the bracket's own, patched, matches
+  const findMatch = (matchId: string) =>
+    next.bracket.flatMap(round => round.matches).find(match => match.id === matchId) || null;
+  next.currentMatch = currentMatchId ? findMatch(currentMatchId) : null;
+  if (activeMatchIds) {
+    next.activeMatches = activeMatchIds.map(findMatch).filter((m): m is Match => !!m);
+  } else {
+    delete next.activeMatches;
+  }
+
+  return next;
+}
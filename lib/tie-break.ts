@@ -0,0 +1,33 @@
+import { Match, TieBreakPolicy, TieBreakPhase } from '@/types';
+
+/**
+ * Display names for tie-break policies
+ */
+export const TIE_BREAK_LABELS: Record<TieBreakPolicy, string> = {
+  SUDDEN_DEATH: 'Morte súbita',
+  REVOTE: 'Nova votação',
+  FIRST_TO_FINAL_COUNT: 'Quem chegou primeiro',
+  ADMIN_DECISION: 'Decisão do admin',
+  RANDOM: 'Sorteio'
+};
+
+/**
+ * Messages shown while a tie-break is in progress
+ */
+export const TIE_BREAK_PHASE_MESSAGES: Record<TieBreakPhase, string> = {
+  SUDDEN_DEATH: 'Empate! Morte súbita: o primeiro voto decide',
+  REVOTE: 'Empate! Votação reaberta',
+  AWAITING_ADMIN: 'Empate! Aguardando decisão do admin'
+};
+
+/**
+ * Get the voting round open on a match: 1, or 2 once a tie-break reopened voting
+ * Votes cast in an earlier round no longer count, so clients let their
+ * sessions vote again when the round changes
+ */
+export function getVotingRound(match: Match): number {
+  if (match.votingRound) {
+    return match.votingRound;
+  }
+  return match.tieBreakPhase === 'SUDDEN_DEATH' || match.tieBreakPhase === 'REVOTE' ? 2 : 1;
+}
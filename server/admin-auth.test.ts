@@ -0,0 +1,65 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  ADMIN_COOKIE_NAME,
+  ADMIN_SESSION_MAX_AGE,
+  checkAdminSecret,
+  hasAdminSession,
+  issueAdminToken,
+  verifyAdminToken
+} from './admin-auth';
+
+describe('Admin Authentication', () => {
+  const originalSecret = process.env.ADMIN_SECRET;
+
+  beforeEach(() => {
+    process.env.ADMIN_SECRET = 'test-admin-secret';
+  });
+
+  afterEach(() => {
+    process.env.ADMIN_SECRET = originalSecret;
+  });
+
+  it('should only accept the configured admin secret', () => {
+    expect(checkAdminSecret('test-admin-secret')).toBe(true);
+    expect(checkAdminSecret('wrong-secret')).toBe(false);
+    expect(checkAdminSecret('')).toBe(false);
+    expect(checkAdminSecret(undefined)).toBe(false);
+  });
+
+  it('should accept its own tokens until they expire', () => {
+    const now = Date.now();
+    const token = issueAdminToken(now);
+
+    expect(verifyAdminToken(token, now)).toBe(true);
+    expect(verifyAdminToken(token, now + ADMIN_SESSION_MAX_AGE * 1000 - 1)).toBe(true);
+    expect(verifyAdminToken(token, now + ADMIN_SESSION_MAX_AGE * 1000)).toBe(false);
+  });
+
+  it('should reject forged and tampered tokens', () => {
+    const now = Date.now();
+    const [expiresAt, signature] = issueAdminToken(now).split('.');
+
+    expect(verifyAdminToken(undefined, now)).toBe(false);
+    expect(verifyAdminToken('admin', now)).toBe(false);
+    expect(verifyAdminToken(`${Number(expiresAt) + 1000}.${signature}`, now)).toBe(false);
+    expect(verifyAdminToken(`${expiresAt}.${'0'.repeat(signature.length)}`, now)).toBe(false);
+
+    // Tokens signed with a previous secret stop working
+    const token = issueAdminToken(now);
+    process.env.ADMIN_SECRET = 'rotated-admin-secret';
+    expect(verifyAdminToken(token, now)).toBe(false);
+  });
+
+  it('should find the admin session among the request cookies', () => {
+    const token = issueAdminToken();
+
+    expect(hasAdminSession(`theme=dark; ${ADMIN_COOKIE_NAME}=${token}; lang=pt-BR`)).toBe(true);
+    expect(hasAdminSession(`theme=dark; ${ADMIN_COOKIE_NAME}=forged`)).toBe(false);
+    expect(hasAdminSession(`x${ADMIN_COOKIE_NAME}=${token}`)).toBe(false);
+    expect(hasAdminSession(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+
+/**
+ * Admin Authentication
+ *
+ * The admin view signs in with ADMIN_SECRET and receives a session cookie
+ * signed by the server. Admin sockets and admin-only data are granted from
+ * that cookie alone: whatever a client claims in its handshake is ignored.
+ * Without ADMIN_SECRET a random secret is generated at startup and logged,
+ * so a fresh install still has a way in.
+ */
+
+export const ADMIN_COOKIE_NAME = 'meme_admin';
+
+// How long an admin session lasts, in seconds
+export const ADMIN_SESSION_MAX_AGE = 12 * 60 * 60;
+
+declare global {
+  var __adminSecret: string | undefined;
+}
+
+/**
+ * Get the secret admins sign in with, which also signs their sessions
+ */
+function getAdminSecret(): string {
+  if (process.env.ADMIN_SECRET) {
+    return process.env.ADMIN_SECRET;
+  }
+
+  if (!global.__adminSecret) {
+    global.__adminSecret = crypto.randomBytes(16).toString('hex');
+    console.warn(`ADMIN_SECRET not set. Admin secret for this run: ${global.__adminSecret}`);
+  }
+  return global.__adminSecret;
+}
+
+/**
+ * Compare two strings in constant time
+ */
+function safeEqual(a: string, b: string): boolean {
+  const digestA = crypto.createHash('sha256').update(a).digest();
+  const digestB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * Sign the expiry time of an admin session
+ */
+function sign(expiresAt: number): string {
+  return crypto.createHmac('sha256', getAdminSecret()).update(`admin:${expiresAt}`).digest('hex');
+}
+
+/**
+ * Check a secret entered on the admin sign-in form
+ * @param secret - Secret sent by the client
+ * @returns true if it is the admin secret
+ */
+export function checkAdminSecret(secret: unknown): boolean {
+  return typeof secret === 'string' && secret.length > 0 && safeEqual(secret, getAdminSecret());
+}
+
+/**
+ * Issue the token of a new admin session
+ * @param now - Current time (epoch ms)
+ * @returns Token to store in the admin cookie
+ */
+export function issueAdminToken(now: number = Date.now()): string {
+  const expiresAt = now + ADMIN_SESSION_MAX_AGE * 1000;
+  return `${expiresAt}.${sign(expiresAt)}`;
+}
+
+/**
+ * Check that a token was issued by this server and has not expired
+ * Changing ADMIN_SECRET invalidates every session issued before
+ * @param token - Token from the admin cookie
+ * @param now - Current time (epoch ms)
+ */
+export function verifyAdminToken(token: string | undefined, now: number = Date.now()): boolean {
+  if (!token) {
+    return false;
+  }
+
+  const [expiry, signature] = token.split('.');
+  const expiresAt = Number(expiry);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt <= now) {
+    return false;
+  }
+  return safeEqual(signature, sign(expiresAt));
+}
+
+/**
+ * Check whether a request carries a valid admin session cookie
+ * @param cookieHeader - Cookie header of the request or socket handshake
+ */
+export function hasAdminSession(cookieHeader: string | undefined): boolean {
+  const cookie = (cookieHeader || '')
+    .split(';')
+    .map(c => c.trim())
+    .find(c => c.startsWith(`${ADMIN_COOKIE_NAME}=`));
+  return verifyAdminToken(cookie?.slice(ADMIN_COOKIE_NAME.length + 1));
+}
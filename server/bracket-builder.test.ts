@@ -0,0 +1,284 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { buildSingleEliminationBracket, buildDoubleEliminationBracket, getStandardSeedPositions, splitIntoHeats } from './bracket-builder';
+import { createMemes } from './test-helpers';
+import { Meme, Match, Round } from '../types';
+
+describe('Bracket Builder - Property-Based Tests', () => {
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  /**
+   * Create n memes with sequential IDs
+   */
+  const allMatches = (bracket: Round[]): Match[] =>
+    bracket.flatMap(round => round.matches);
+
+  // ============================================================================
+  // Property Tests
+  // ============================================================================
+
+  // Feature: double-elimination, Property 1: Standard seed placement
+  it('should place every seed exactly once with top seeds meeting the lowest seeds', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 6 }), (exponent) => {
+        const size = Math.pow(2, exponent);
+        const positions = getStandardSeedPositions(size);
+
+        expect(positions).toHaveLength(size);
+        expect([...positions].sort((a, b) => a - b)).toEqual(
+          Array.from({ length: size }, (_, i) => i + 1)
+        );
+
+        // Each first-round pair adds up to size + 1 (1 vs n, 2 vs n-1, ...)
+        if (size > 1) {
+          for (let i = 0; i < size; i += 2) {
+            expect(positions[i] + positions[i + 1]).toBe(size + 1);
+          }
+        }
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  // Feature: double-elimination, Property 2: Match count
+  it('should generate 2n - 2 matches plus an optional bracket reset', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 2, max: 40 }), fc.boolean(), (memeCount, grandFinalReset) => {
+        const bracket = buildDoubleEliminationBracket(createMemes(memeCount), 30, { grandFinalReset });
+        const expected = 2 * memeCount - 2 + (grandFinalReset ? 1 : 0);
+
+        expect(allMatches(bracket)).toHaveLength(expected);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  // Feature: double-elimination, Property 3: Every meme enters the bracket once
+  it('should seed every meme into exactly one slot', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 2, max: 40 }), (memeCount) => {
+        const memes = createMemes(memeCount);
+        const bracket = buildDoubleEliminationBracket(memes, 30);
+
+        const seededIds = allMatches(bracket)
+          .flatMap(match => [match.leftMeme, match.rightMeme])
+          .filter((meme): meme is Meme => meme != null)
+          .map(meme => meme.id);
+
+        expect([...seededIds].sort()).toEqual(memes.map(m => m.id).sort());
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  // Feature: double-elimination, Property 4: Routing consistency
+  it('should route every open slot from exactly one earlier match', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 2, max: 40 }), fc.boolean(), (memeCount, grandFinalReset) => {
+        const bracket = buildDoubleEliminationBracket(createMemes(memeCount), 30, { grandFinalReset });
+        const matches = allMatches(bracket);
+        const positions = new Map(matches.map(m => [m.id, m.roundIndex]));
+        const incoming = new Map<string, number>();
+
+        for (const match of matches) {
+          for (const link of [match.winnerTo, match.loserTo]) {
+            if (!link) continue;
+
+            // Links always point forward in play order
+            expect(positions.get(link.matchId)).toBeGreaterThan(match.roundIndex);
+            const key = `${link.matchId}:${link.slot}`;
+            incoming.set(key, (incoming.get(key) || 0) + 1);
+          }
+        }
+
+        for (const match of matches) {
+          const leftFed = incoming.get(`${match.id}:left`) || 0;
+          const rightFed = incoming.get(`${match.id}:right`) || 0;
+
+          expect(leftFed + (match.leftMeme ? 1 : 0)).toBe(1);
+          expect(rightFed + (match.rightMeme ? 1 : 0)).toBe(1);
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  // Feature: seeding, Property 1: Single-elimination byes go to the top seeds
+  it('should give single-elimination byes to the top seeds', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 2, max: 40 }), (memeCount) => {
+        const memes = createMemes(memeCount);
+        const bracket = buildSingleEliminationBracket(memes, 30);
+        const size = Math.pow(2, Math.ceil(Math.log2(memeCount)));
+        const byes = size - memeCount;
+
+        expect(allMatches(bracket)).toHaveLength(memeCount - 1);
+
+        // Seeds 1..byes skip the first round, everyone else plays it
+        const firstRoundIds = new Set(bracket[0].matches.flatMap(m => [m.leftMeme!.id, m.rightMeme!.id]));
+        memes.forEach((meme, index) => {
+          expect(firstRoundIds.has(meme.id)).toBe(index >= byes);
+        });
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  // Feature: third-place-match, Property 1: Semifinal losers meet before the final
+  it('should route both semifinal losers into a third-place match played before the final', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 4, max: 40 }), (memeCount) => {
+        const bracket = buildSingleEliminationBracket(createMemes(memeCount), 30, { thirdPlaceMatch: true });
+        const thirdPlaceMatches = allMatches(bracket).filter(m => m.isThirdPlace);
+
+        expect(allMatches(bracket)).toHaveLength(memeCount);
+        expect(thirdPlaceMatches).toHaveLength(1);
+
+        const [thirdPlace] = thirdPlaceMatches;
+        const semifinals = bracket[bracket.length - 3].matches;
+        expect(bracket[bracket.length - 2].matches).toEqual([thirdPlace]);
+        expect(semifinals.map(m => m.loserTo)).toEqual([
+          { matchId: thirdPlace.id, slot: 'left' },
+          { matchId: thirdPlace.id, slot: 'right' }
+        ]);
+        expect(thirdPlace.winnerTo).toBeNull();
+        expect(thirdPlace.loserTo).toBeNull();
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  // Feature: heats, Property 1: Every meme plays in exactly one heat of balanced size
+  it('should deal every meme into one heat with sizes differing by at most one', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 4, max: 40 }), fc.integer({ min: 3, max: 4 }), (memeCount, heatSize) => {
+        const heats = splitIntoHeats(createMemes(memeCount), heatSize);
+        const sizes = heats.map(heat => heat.length);
+
+        expect(heats.flat().map(m => m.id).sort()).toEqual(createMemes(memeCount).map(m => m.id).sort());
+        expect(Math.max(...sizes)).toBeLessThanOrEqual(heatSize);
+        expect(Math.max(...sizes) - Math.min(...sizes)).toBeLessThanOrEqual(1);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  // Feature: heats, Property 2: Each qualifying place of a heat feeds exactly one bracket slot
+  it('should route every qualifying place of every heat into the bracket', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 5, max: 40 }),
+        fc.integer({ min: 3, max: 4 }),
+        fc.integer({ min: 1, max: 2 }),
+        (memeCount, heatSize, heatQualifiers) => {
+          const bracket = buildSingleEliminationBracket(createMemes(memeCount), 30, { heatSize, heatQualifiers });
+          const heats = bracket[0].matches;
+          const targets = heats.flatMap(heat => heat.qualifiersTo!);
+
+          expect(heats.every(heat => heat.entrants!.length >= 2)).toBe(true);
+          expect(heats.every(heat => heat.qualifiersTo!.length === heatQualifiers)).toBe(true);
+          expect(targets.every(Boolean)).toBe(true);
+          expect(new Set(targets.map(t => `${t!.matchId}:${t!.slot}`)).size).toBe(targets.length);
+
+          // The bracket after the heats is a regular single elimination of the qualifiers
+          expect(allMatches(bracket).length - heats.length).toBe(heats.length * heatQualifiers - 1);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  // ============================================================================
+  // Unit Tests
+  // ============================================================================
+
+  it('should pair 16 seeds using standard placement', () => {
+    const bracket = buildSingleEliminationBracket(createMemes(16), 30);
+    const pairs = bracket[0].matches.map(m => [m.leftMeme!.id, m.rightMeme!.id]);
+
+    expect(pairs[0]).toEqual(['meme-1', 'meme-16']);
+    expect(pairs[1]).toEqual(['meme-8', 'meme-9']);
+    expect(bracket[bracket.length - 1].matches).toHaveLength(1);
+    expect(bracket.every(round => round.side === undefined)).toBe(true);
+  });
+
+  it('should keep the top two seeds apart until the final', () => {
+    const bracket = buildSingleEliminationBracket(createMemes(5), 30);
+    const [semifinalA, semifinalB] = bracket[1].matches;
+
+    // 5 memes: seed 1 has a bye into one semifinal, seeds 2 and 3 meet in the other
+    expect(semifinalA.leftMeme!.id).toBe('meme-1');
+    expect(semifinalA.rightMeme).toBeNull();
+    expect([semifinalB.leftMeme!.id, semifinalB.rightMeme!.id]).toEqual(['meme-2', 'meme-3']);
+  });
+
+  it('should split rounds into winners, losers and grand final sides', () => {
+    const bracket = buildDoubleEliminationBracket(createMemes(8), 30, { grandFinalReset: true });
+
+    expect(bracket.filter(r => r.side === 'WINNERS')).toHaveLength(3);
+    expect(bracket.filter(r => r.side === 'LOSERS')).toHaveLength(4);
+    expect(bracket.filter(r => r.side === 'GRAND_FINAL')).toHaveLength(2);
+    expect(bracket[bracket.length - 1].matches[0].isBracketReset).toBe(true);
+  });
+
+  it('should give byes to the top seeds', () => {
+    const memes = createMemes(6);
+    const bracket = buildDoubleEliminationBracket(memes, 30);
+
+    const firstRoundIds = bracket[0].matches.flatMap(m => [m.leftMeme!.id, m.rightMeme!.id]);
+    expect(firstRoundIds).not.toContain('meme-1');
+    expect(firstRoundIds).not.toContain('meme-2');
+    expect(bracket[0].matches).toHaveLength(2);
+  });
+
+  it('should pair the loser of a two-meme final against the winner in the grand final', () => {
+    const bracket = buildDoubleEliminationBracket(createMemes(2), 30);
+
+    expect(bracket).toHaveLength(2);
+    const [opening] = bracket[0].matches;
+    const [grandFinal] = bracket[1].matches;
+    expect(opening.winnerTo).toEqual({ matchId: grandFinal.id, slot: 'left' });
+    expect(opening.loserTo).toEqual({ matchId: grandFinal.id, slot: 'right' });
+  });
+
+  it('should reject fewer than 2 memes', () => {
+    expect(() => buildDoubleEliminationBracket(createMemes(1), 30)).toThrow(
+      'Cannot generate bracket with fewer than 2 memes'
+    );
+  });
+
+  it('should seed heat winners ahead of runners-up', () => {
+    const bracket = buildSingleEliminationBracket(createMemes(16), 30, { heatSize: 4, heatQualifiers: 2 });
+    const [firstHeat] = bracket[0].matches;
+
+    expect(bracket[0].matches).toHaveLength(4);
+    expect(firstHeat.entrants!.map(m => m.id)).toEqual(['meme-1', 'meme-8', 'meme-9', 'meme-16']);
+    expect(firstHeat.entrantVotes).toEqual({ 'meme-1': 0, 'meme-8': 0, 'meme-9': 0, 'meme-16': 0 });
+
+    // Winner of heat 1 (seed 1 of the bracket) meets the runner-up of heat 4 (seed 8)
+    const [winnerSlot] = firstHeat.qualifiersTo!;
+    const opening = bracket[1].matches.find(m => m.id === winnerSlot!.matchId)!;
+    expect(bracket[0].matches[3].qualifiersTo![1]).toEqual({ matchId: opening.id, slot: 'right' });
+  });
+
+  it('should skip heats when every meme fits in one heat', () => {
+    const bracket = buildSingleEliminationBracket(createMemes(4), 30, { heatSize: 4 });
+
+    expect(allMatches(bracket).some(m => m.entrants)).toBe(false);
+    expect(bracket).toHaveLength(2);
+  });
+
+  it('should skip the third-place match when a semifinal is a bye', () => {
+    const bracket = buildSingleEliminationBracket(createMemes(3), 30, { thirdPlaceMatch: true });
+
+    expect(bracket).toHaveLength(2);
+    expect(allMatches(bracket).some(m => m.isThirdPlace)).toBe(false);
+    expect(allMatches(bracket).every(m => m.loserTo === null)).toBe(true);
+  });
+});
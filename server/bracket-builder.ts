@@ -0,0 +1,440 @@
+import { randomUUID } from 'crypto';
+import { Meme, Match, Round, BracketSide } from '../types';
+import { usesHeats, getHeatCount } from '../lib/heats';
+
+/**
+ * Bracket Builder
+ *
+ * Builds elimination brackets from a blueprint where every match slot declares
+ * where its meme comes from (a seeded meme, the winner or loser of an earlier
+ * match, or nothing at all). Matches left with an empty slot are byes: they are
+ * collapsed before the bracket is materialized, so every generated match has two
+ * real competitors and explicit winnerTo/loserTo routing. Heats are matches with
+ * more than two entrants whose top finishers fill the slots of the next round.
+ */
+
+/**
+ * Origin of the meme that will occupy a match slot
+ */
+export type SlotSource =
+  | { kind: 'meme'; meme: Meme }
+  | { kind: 'winner'; key: string }
+  | { kind: 'loser'; key: string }
+  | { kind: 'qualifier'; key: string; place: number }  // place 0 = heat winner
+  | { kind: 'empty' };
+
+/**
+ * Match description used before the bracket is materialized
+ */
+export interface MatchBlueprint {
+  key: string;
+  left: SlotSource;
+  right: SlotSource;
+  isBracketReset?: boolean;
+  isThirdPlace?: boolean;
+  entrants?: Meme[];              // Heats only; left and right hold the first two entrants
+}
+
+/**
+ * Round description used before the bracket is materialized
+ * Rounds must be listed in an order where every source refers to an earlier round
+ */
+export interface RoundBlueprint {
+  side?: BracketSide;             // Omitted for brackets that are not split into sides
+  matches: MatchBlueprint[];
+}
+
+/**
+ * Options for single-elimination brackets
+ */
+export interface SingleEliminationOptions {
+  thirdPlaceMatch?: boolean;
+  heatSize?: number;
+  heatQualifiers?: number;
+}
+
+/**
+ * Options for double-elimination brackets
+ */
+export interface DoubleEliminationOptions {
+  grandFinalReset?: boolean;
+}
+
+const EMPTY: SlotSource = { kind: 'empty' };
+
+/**
+ * Compute standard bracket placement for a power-of-two bracket size
+ * Returns the seed (1-based) occupying each position, so that seed 1 meets
+ * the lowest seed and the top two seeds can only meet in the final
+ * e.g. size 8 → [1, 8, 4, 5, 2, 7, 3, 6]
+ *
+ * @param size - Bracket size (must be a power of two)
+ * @returns Seeds ordered by bracket position
+ */
+export function getStandardSeedPositions(size: number): number[] {
+  let positions = [1];
+
+  while (positions.length < size) {
+    const nextSize = positions.length * 2;
+    const expanded: number[] = [];
+
+    for (const seed of positions) {
+      expanded.push(seed, nextSize + 1 - seed);
+    }
+
+    positions = expanded;
+  }
+
+  return positions;
+}
+
+/**
+ * Build the first-round slot sources for seeded entries
+ * Entries are seeded in array order; positions without an entry become byes
+ *
+ * @param seeds - Slot sources ordered by seed (index 0 = seed 1)
+ * @param size - Bracket size (power of two ≥ number of seeds)
+ */
+function getSeededSlots(seeds: SlotSource[], size: number): SlotSource[] {
+  return getStandardSeedPositions(size).map(seed => seeds[seed - 1] || EMPTY);
+}
+
+/**
+ * Wrap seeded memes as slot sources
+ */
+function toMemeSources(seededMemes: Meme[]): SlotSource[] {
+  return seededMemes.map(meme => ({ kind: 'meme', meme }));
+}
+
+/**
+ * Split seeded memes into heats of at most heatSize memes
+ * Memes are dealt in a snake order (1st heat to last, then back) so every
+ * heat gets a similar mix of seeds and heat sizes differ by at most one
+ *
+ * @param seededMemes - Memes ordered by seed
+ * @param heatSize - Most memes per heat
+ * @returns Heats, each listing its memes in seed order
+ */
+export function splitIntoHeats(seededMemes: Meme[], heatSize: number): Meme[][] {
+  const heatCount = getHeatCount(seededMemes.length, heatSize);
+  const heats: Meme[][] = Array.from({ length: heatCount }, () => []);
+
+  seededMemes.forEach((meme, i) => {
+    const pass = Math.floor(i / heatCount);
+    const position = i % heatCount;
+    heats[pass % 2 === 0 ? position : heatCount - 1 - position].push(meme);
+  });
+
+  return heats;
+}
+
+/**
+ * Create a pending match with empty slots and no votes
+ *
+ * @param roundIndex - Index of the round in the bracket
+ * @param matchIndex - Position within the round
+ * @param votingTimeSeconds - Time allocated for the match
+ */
+export function createPendingMatch(roundIndex: number, matchIndex: number, votingTimeSeconds: number): Match {
+  return {
+    id: randomUUID(),
+    roundIndex,
+    matchIndex,
+    leftMeme: null, // Will be filled by seeding or routing
+    rightMeme: null, // Will be filled by seeding or routing
+    votes: { left: 0, right: 0 },
+    timeRemaining: votingTimeSeconds,
+    totalTime: votingTimeSeconds,
+    status: 'PENDING',
+    winner: null,
+    startedAt: null,
+    completedAt: null
+  };
+}
+
+/**
+ * Materialize a bracket blueprint into rounds of matches
+ * Collapses byes, drops rounds that end up empty, assigns IDs and indices,
+ * fills memes known up front and wires winnerTo/loserTo links
+ *
+ * @param blueprint - Rounds in play order
+ * @param votingTimeSeconds - Time allocated for each match
+ * @returns Array of rounds forming the bracket
+ */
+export function materializeBracket(blueprint: RoundBlueprint[], votingTimeSeconds: number): Round[] {
+  // Key of a collapsed match → source its winner resolves to
+  const passThrough = new Map<string, SlotSource>();
+
+  const resolve = (source: SlotSource): SlotSource => {
+    if (source.kind === 'winner' && passThrough.has(source.key)) {
+      return passThrough.get(source.key)!;
+    }
+    if (source.kind === 'loser' && passThrough.has(source.key)) {
+      // A bye has no loser
+      return EMPTY;
+    }
+    return source;
+  };
+
+  // Resolve sources in play order, collapsing matches that lack an opponent
+  const liveRounds: RoundBlueprint[] = [];
+  for (const round of blueprint) {
+    const liveMatches: MatchBlueprint[] = [];
+
+    for (const matchBlueprint of round.matches) {
+      const left = resolve(matchBlueprint.left);
+      const right = resolve(matchBlueprint.right);
+
+      if (left.kind === 'empty' || right.kind === 'empty') {
+        passThrough.set(matchBlueprint.key, left.kind === 'empty' ? right : left);
+      } else {
+        liveMatches.push({ ...matchBlueprint, left, right });
+      }
+    }
+
+    if (liveMatches.length > 0) {
+      liveRounds.push({ ...round, matches: liveMatches });
+    }
+  }
+
+  // Create match objects
+  const matchesByKey = new Map<string, Match>();
+  const bracket: Round[] = liveRounds.map((round, roundIndex) => ({
+    roundIndex,
+    ...(round.side ? { side: round.side } : {}),
+    completed: false,
+    matches: round.matches.map((matchBlueprint, matchIndex) => {
+      const match = createPendingMatch(roundIndex, matchIndex, votingTimeSeconds);
+      match.winnerTo = null;
+      match.loserTo = null;
+      if (matchBlueprint.isBracketReset) {
+        match.isBracketReset = true;
+      }
+      if (matchBlueprint.isThirdPlace) {
+        match.isThirdPlace = true;
+      }
+      if (matchBlueprint.entrants) {
+        match.entrants = matchBlueprint.entrants;
+        match.entrantVotes = Object.fromEntries(matchBlueprint.entrants.map(meme => [meme.id, 0]));
+        match.qualifiersTo = [];
+      }
+      matchesByKey.set(matchBlueprint.key, match);
+      return match;
+    })
+  }));
+
+  // Fill seeded memes and wire routing links
+  for (const round of liveRounds) {
+    for (const matchBlueprint of round.matches) {
+      const match = matchesByKey.get(matchBlueprint.key)!;
+
+      (['left', 'right'] as const).forEach(slot => {
+        const source = slot === 'left' ? matchBlueprint.left : matchBlueprint.right;
+
+        if (source.kind === 'meme') {
+          if (slot === 'left') {
+            match.leftMeme = source.meme;
+          } else {
+            match.rightMeme = source.meme;
+          }
+        } else if (source.kind === 'winner') {
+          matchesByKey.get(source.key)!.winnerTo = { matchId: match.id, slot };
+        } else if (source.kind === 'loser') {
+          matchesByKey.get(source.key)!.loserTo = { matchId: match.id, slot };
+        } else if (source.kind === 'qualifier') {
+          matchesByKey.get(source.key)!.qualifiersTo![source.place] = { matchId: match.id, slot };
+        }
+      });
+    }
+  }
+
+  return bracket;
+}
+
+/**
+ * Build a single-elimination bracket
+ * Memes are placed using standard seeding, so byes go to the top seeds and
+ * the top two seeds can only meet in the final. With thirdPlaceMatch enabled,
+ * the semifinal losers meet in a round of their own right before the final.
+ * With a heatSize, the first round is played in heats instead, and the top
+ * heatQualifiers memes of each heat are seeded into the bracket: heat winners
+ * first, then runners-up.
+ *
+ * @param seededMemes - Memes ordered by seed (must have at least 2)
+ * @param votingTimeSeconds - Time allocated for each match
+ * @param options - Single-elimination options
+ * @returns Array of rounds forming the bracket, in play order
+ */
+export function buildSingleEliminationBracket(
+  seededMemes: Meme[],
+  votingTimeSeconds: number,
+  options: SingleEliminationOptions = {}
+): Round[] {
+  if (seededMemes.length < 2) {
+    throw new Error('Cannot generate bracket with fewer than 2 memes');
+  }
+
+  const blueprint: RoundBlueprint[] = [];
+  let seeds = toMemeSources(seededMemes);
+
+  if (usesHeats(seededMemes.length, options.heatSize)) {
+    const heats = splitIntoHeats(seededMemes, options.heatSize);
+    const qualifiers = options.heatQualifiers || 1;
+
+    blueprint.push({
+      matches: heats.map((entrants, i) => ({
+        key: `H-${i}`,
+        left: { kind: 'meme', meme: entrants[0] },
+        right: { kind: 'meme', meme: entrants[1] },
+        entrants
+      }))
+    });
+
+    seeds = [];
+    for (let place = 0; place < qualifiers; place++) {
+      heats.forEach((_, i) => seeds.push({ kind: 'qualifier', key: `H-${i}`, place }));
+    }
+  }
+
+  const numRounds = Math.ceil(Math.log2(seeds.length));
+  const size = Math.pow(2, numRounds);
+  const slots = getSeededSlots(seeds, size);
+
+  let previousRound: MatchBlueprint[] = [];
+  for (let i = 0; i < size / 2; i++) {
+    previousRound.push({ key: `R1-${i}`, left: slots[2 * i], right: slots[2 * i + 1] });
+  }
+  blueprint.push({ matches: previousRound });
+
+  for (let round = 2; round <= numRounds; round++) {
+    const matches: MatchBlueprint[] = [];
+    for (let i = 0; i < previousRound.length / 2; i++) {
+      matches.push({
+        key: `R${round}-${i}`,
+        left: { kind: 'winner', key: previousRound[2 * i].key },
+        right: { kind: 'winner', key: previousRound[2 * i + 1].key }
+      });
+    }
+
+    // Semifinal losers play for third place; a semifinal bye leaves the match empty
+    if (round === numRounds && options.thirdPlaceMatch) {
+      blueprint.push({
+        matches: [{
+          key: 'TP',
+          left: { kind: 'loser', key: previousRound[0].key },
+          right: { kind: 'loser', key: previousRound[1].key },
+          isThirdPlace: true
+        }]
+      });
+    }
+
+    blueprint.push({ matches });
+    previousRound = matches;
+  }
+
+  return materializeBracket(blueprint, votingTimeSeconds);
+}
+
+/**
+ * Build a double-elimination bracket
+ * A meme is only eliminated after its second loss: first-time losers drop into
+ * the losers bracket, whose champion meets the winners bracket champion in the
+ * grand final. With grandFinalReset enabled, a rematch is scheduled in case the
+ * losers bracket champion wins the first grand final.
+ *
+ * @param seededMemes - Memes ordered by seed (must have at least 2)
+ * @param votingTimeSeconds - Time allocated for each match
+ * @param options - Double-elimination options
+ * @returns Array of rounds forming the bracket, in play order
+ */
+export function buildDoubleEliminationBracket(
+  seededMemes: Meme[],
+  votingTimeSeconds: number,
+  options: DoubleEliminationOptions = {}
+): Round[] {
+  if (seededMemes.length < 2) {
+    throw new Error('Cannot generate bracket with fewer than 2 memes');
+  }
+
+  const numRounds = Math.ceil(Math.log2(seededMemes.length));
+  const size = Math.pow(2, numRounds);
+  const slots = getSeededSlots(toMemeSources(seededMemes), size);
+  const blueprint: RoundBlueprint[] = [];
+
+  // Winners bracket round 1 pairs adjacent slots
+  const winnersRounds: MatchBlueprint[][] = [[]];
+  for (let i = 0; i < size / 2; i++) {
+    winnersRounds[0].push({ key: `W1-${i}`, left: slots[2 * i], right: slots[2 * i + 1] });
+  }
+  blueprint.push({ side: 'WINNERS', matches: winnersRounds[0] });
+
+  // Losers bracket alternates between rounds among losers bracket survivors
+  // and "drop-in" rounds where they meet the losers of the next winners round
+  let losersRound: MatchBlueprint[] = [];
+
+  for (let round = 2; round <= numRounds; round++) {
+    const previousWinners = winnersRounds[round - 2];
+    const winnersMatches: MatchBlueprint[] = [];
+    for (let i = 0; i < previousWinners.length / 2; i++) {
+      winnersMatches.push({
+        key: `W${round}-${i}`,
+        left: { kind: 'winner', key: previousWinners[2 * i].key },
+        right: { kind: 'winner', key: previousWinners[2 * i + 1].key }
+      });
+    }
+    winnersRounds.push(winnersMatches);
+    blueprint.push({ side: 'WINNERS', matches: winnersMatches });
+
+    // Survivors round: losers of winners round 1, or winners of the previous drop-in round
+    const survivorsMatches: MatchBlueprint[] = [];
+    const survivorSources: SlotSource[] = round === 2
+      ? winnersRounds[0].map(m => ({ kind: 'loser' as const, key: m.key }))
+      : losersRound.map(m => ({ kind: 'winner' as const, key: m.key }));
+    for (let i = 0; i < survivorSources.length / 2; i++) {
+      survivorsMatches.push({
+        key: `L${2 * round - 3}-${i}`,
+        left: survivorSources[2 * i],
+        right: survivorSources[2 * i + 1]
+      });
+    }
+    blueprint.push({ side: 'LOSERS', matches: survivorsMatches });
+
+    // Drop-in round: alternate drop order to avoid immediate rematches
+    const dropInMatches: MatchBlueprint[] = [];
+    for (let i = 0; i < survivorsMatches.length; i++) {
+      const dropIndex = round % 2 === 0 ? winnersMatches.length - 1 - i : i;
+      dropInMatches.push({
+        key: `L${2 * round - 2}-${i}`,
+        left: { kind: 'winner', key: survivorsMatches[i].key },
+        right: { kind: 'loser', key: winnersMatches[dropIndex].key }
+      });
+    }
+    blueprint.push({ side: 'LOSERS', matches: dropInMatches });
+    losersRound = dropInMatches;
+  }
+
+  // Grand final: winners bracket champion (left) vs losers bracket champion (right)
+  const winnersFinal = winnersRounds[winnersRounds.length - 1][0];
+  const grandFinal: MatchBlueprint = {
+    key: 'GF',
+    left: { kind: 'winner', key: winnersFinal.key },
+    right: losersRound.length > 0
+      ? { kind: 'winner', key: losersRound[0].key }
+      : { kind: 'loser', key: winnersFinal.key }
+  };
+  blueprint.push({ side: 'GRAND_FINAL', matches: [grandFinal] });
+
+  if (options.grandFinalReset) {
+    blueprint.push({
+      side: 'GRAND_FINAL',
+      matches: [{
+        key: 'GF-reset',
+        left: { kind: 'winner', key: grandFinal.key },
+        right: { kind: 'loser', key: grandFinal.key },
+        isBracketReset: true
+      }]
+    });
+  }
+
+  return materializeBracket(blueprint, votingTimeSeconds);
+}
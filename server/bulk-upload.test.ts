@@ -0,0 +1,130 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import JSZip from 'jszip';
+import sharp from 'sharp';
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { isZipArchive, uploadMemeArchive } from './bulk-upload';
+import { getUploadLimits } from './upload-config';
+
+describe('Bulk Upload', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    // Images are written to <cwd>/public/uploads
+    rootDir = mkdtempSync(join(tmpdir(), 'bulk-upload-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(rootDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  const createImage = (): Promise<Buffer> =>
+    sharp({ create: { width: 4, height: 4, channels: 3, background: '#663399' } }).png().toBuffer();
+
+  const createZip = async (files: Record<string, string | Buffer>): Promise<Buffer> => {
+    const zip = new JSZip();
+    for (const [name, contents] of Object.entries(files)) {
+      zip.file(name, contents);
+    }
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  };
+
+  // Each image is stored in three sizes, in WebP and in a fallback format
+  const FILES_PER_IMAGE = 6;
+
+  const uploadedFiles = (): string[] => {
+    const uploadsDir = join(rootDir, 'public', 'uploads');
+    return existsSync(uploadsDir) ? readdirSync(uploadsDir) : [];
+  };
+
+  it('should store every image in filename order, captioned from the manifest', async () => {
+    const image = await createImage();
+
+    const archive = await uploadMemeArchive(await createZip({
+      'memes/meme 10.png': image,
+      'memes/meme 2.png': image,
+      'memes/gato.jpg': await sharp(image).jpeg().toBuffer(),
+      'legendas.csv': 'arquivo,legenda\ngato.jpg,Gato surpreso\n'
+    }));
+
+    if (!archive.valid) throw new Error(archive.error);
+    expect(archive.results.map(result => [result.filename, result.meme?.caption])).toEqual([
+      ['memes/gato.jpg', 'Gato surpreso'],
+      ['memes/meme 2.png', 'meme 2'],
+      ['memes/meme 10.png', 'meme 10']
+    ]);
+    expect(archive.results.every(result => result.success)).toBe(true);
+    expect(uploadedFiles()).toHaveLength(3 * FILES_PER_IMAGE);
+  });
+
+  it('should report files that fail validation without stopping the upload', async () => {
+    const image = await createImage();
+
+    const archive = await uploadMemeArchive(await createZip({
+      'bom.png': image,
+      'animado.gif': image,
+      'texto.png': 'not an image',
+      'grande.png': Buffer.alloc(getUploadLimits().maxFileSize + 1)
+    }));
+
+    if (!archive.valid) throw new Error(archive.error);
+    expect(archive.results.map(result => [result.filename, result.success])).toEqual([
+      ['animado.gif', false],
+      ['bom.png', true],
+      ['grande.png', false],
+      ['texto.png', false]
+    ]);
+    expect(archive.results.find(result => result.filename === 'grande.png')?.error)
+      .toBe('File size exceeds maximum allowed size of 5MB');
+    expect(uploadedFiles()).toHaveLength(FILES_PER_IMAGE);
+  });
+
+  it('should refuse entries whose path leaves the archive', async () => {
+    const image = await createImage();
+    const zip = new JSZip();
+    zip.file('../../fora.png', image);
+    zip.file('dentro.png', image);
+
+    const archive = await uploadMemeArchive(await zip.generateAsync({ type: 'nodebuffer' }));
+
+    if (!archive.valid) throw new Error(archive.error);
+    expect(archive.results.find(result => result.filename === '../../fora.png'))
+      .toEqual({ filename: '../../fora.png', success: false, error: 'Invalid path: outside the archive' });
+    expect(uploadedFiles()).toHaveLength(FILES_PER_IMAGE);
+    expect(existsSync(join(rootDir, 'fora.png'))).toBe(false);
+  });
+
+  it('should skip folders and files added by the archiving tool', async () => {
+    const image = await createImage();
+
+    const archive = await uploadMemeArchive(await createZip({
+      'meme.png': image,
+      '__MACOSX/._meme.png': 'resource fork',
+      '.DS_Store': 'finder'
+    }));
+
+    if (!archive.valid) throw new Error(archive.error);
+    expect(archive.results.map(result => result.filename)).toEqual(['meme.png']);
+  });
+
+  it('should reject archives it cannot unpack', async () => {
+    expect(await uploadMemeArchive(Buffer.from('not a zip'))).toEqual({ valid: false, error: 'File is not a zip archive' });
+    expect(await uploadMemeArchive(await createZip({ 'vazia/.keep': '' }))).toEqual({ valid: false, error: 'Archive holds no images' });
+    expect(await uploadMemeArchive(await createZip({ 'captions.json': '{', 'meme.png': await createImage() })))
+      .toMatchObject({ valid: false });
+    expect(uploadedFiles()).toHaveLength(0);
+  });
+
+  it('should recognize zip uploads by MIME type or extension', () => {
+    expect(isZipArchive('memes.zip', null)).toBe(true);
+    expect(isZipArchive('memes', 'application/x-zip-compressed')).toBe(true);
+    expect(isZipArchive('meme.png', 'image/png')).toBe(false);
+  });
+});
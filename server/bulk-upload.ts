@@ -0,0 +1,213 @@
+import JSZip from 'jszip';
+import { randomUUID } from 'crypto';
+import { Meme, UploadResult } from '../types';
+import { CaptionMap, getCaption, isCaptionManifest, parseCaptionManifest } from '../lib/caption-manifest';
+import {
+  getMimeTypeFromFilename,
+  saveUploadedImage,
+  validateFileContents,
+  validateFileType
+} from './image-processing';
+import { getUploadLimits } from './upload-config';
+import { formatFileSize } from '../lib/file-size';
+
+/**
+ * Bulk Upload
+ *
+ * Unpacks a zip of meme images, uploaded in one request instead of one
+ * image at a time. Every image goes through the same validation and
+ * processing as a single upload, and the upload reports the outcome of each
+ * file. An optional caption manifest in the archive names the memes.
+ *
+ * Archives are untrusted: entries are decompressed one at a time and never
+ * past the size limits, and images are stored under fresh names, so entry
+ * paths never reach the filesystem.
+ */
+
+// Maximum number of images in an archive
+export const MAX_ARCHIVE_ENTRIES = 200;
+
+// Everything unpacked from an archive may add up to this many times the archive size limit
+export const MAX_UNPACKED_RATIO = 2;
+
+// Maximum size of a caption manifest: 1MB
+export const MAX_MANIFEST_SIZE = 1024 * 1024;
+
+// MIME types browsers send for zip files
+const ZIP_MIME_TYPES = ['application/zip', 'application/x-zip-compressed', 'application/x-zip'];
+
+/**
+ * Result of unpacking an archive
+ */
+export type ArchiveUploadResult =
+  | { valid: true; results: UploadResult[] }
+  | { valid: false; error: string };
+
+/**
+ * Check whether an uploaded file is a zip archive rather than an image
+ */
+export function isZipArchive(filename: string, mimeType: string | null): boolean {
+  return ZIP_MIME_TYPES.includes(mimeType || '') || filename.toLowerCase().endsWith('.zip');
+}
+
+/**
+ * Check whether an entry path could escape the directory it is unpacked into
+ */
+function isUnsafePath(path: string): boolean {
+  return /^([/\\]|[a-zA-Z]:)/.test(path) || path.split(/[/\\]/).includes('..');
+}
+
+/**
+ * Check whether an entry is clutter added by the tool that made the archive,
+ * like macOS resource forks or hidden files
+ */
+function isClutter(path: string): boolean {
+  return path.split(/[/\\]/).some(segment => segment === '__MACOSX' || segment.startsWith('.'));
+}
+
+/**
+ * Decompress an entry, giving up as soon as it grows past a limit
+ * @returns Contents of the entry, or null if it is larger than the limit
+ */
+export function readArchiveEntry(file: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let settled = false;
+    const stream = file.nodeStream('nodebuffer');
+
+    stream.on('data', (chunk: Buffer) => {
+      if (settled) return;
+      size += chunk.length;
+      if (size > limit) {
+        // Stop decompressing; what remains of the entry is never read
+        settled = true;
+        stream.removeAllListeners('data');
+        stream.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => {
+      if (!settled) {
+        settled = true;
+        resolve(Buffer.concat(chunks));
+      }
+    });
+    stream.on('error', (error: Error) => {
+      if (!settled) {
+        settled = true;
+        reject(error);
+      }
+    });
+  });
+}
+
+/**
+ * Read the caption manifest of an archive, if it has one
+ * A manifest at the top of the archive wins over one in a folder
+ */
+async function readCaptionManifest(files: JSZip.JSZipObject[]): Promise<{ captions: CaptionMap; error?: string }> {
+  const manifest = files
+    .filter(file => isCaptionManifest(file.name))
+    .sort((a, b) => a.name.split('/').length - b.name.split('/').length)[0];
+  if (!manifest) {
+    return { captions: new Map() };
+  }
+
+  const contents = await readArchiveEntry(manifest, MAX_MANIFEST_SIZE);
+  if (!contents) {
+    return { captions: new Map(), error: `Caption manifest exceeds maximum allowed size of 1MB: ${manifest.name}` };
+  }
+
+  try {
+    return { captions: parseCaptionManifest(contents.toString('utf-8'), manifest.name) };
+  } catch (error: any) {
+    return { captions: new Map(), error: `Invalid caption manifest ${manifest.name}: ${error.message}` };
+  }
+}
+
+/**
+ * Unpack the images of an archive and store them as memes
+ * Images are taken in filename order and captioned from the manifest, or
+ * with their filename when the manifest does not mention them
+ *
+ * @param data - Contents of the zip file
+ * @returns The outcome of each image, or why the archive cannot be unpacked
+ */
+export async function uploadMemeArchive(data: Buffer): Promise<ArchiveUploadResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    return { valid: false, error: 'File is not a zip archive' };
+  }
+
+  const files = Object.values(zip.files).filter(file => !file.dir && !isClutter(file.name));
+  const { captions, error } = await readCaptionManifest(files);
+  if (error) {
+    return { valid: false, error };
+  }
+
+  const images = files
+    .filter(file => !isCaptionManifest(file.name))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  if (images.length === 0) {
+    return { valid: false, error: 'Archive holds no images' };
+  }
+  if (images.length > MAX_ARCHIVE_ENTRIES) {
+    return { valid: false, error: `Archive holds more than ${MAX_ARCHIVE_ENTRIES} files` };
+  }
+
+  const { maxFileSize, maxArchiveSize } = getUploadLimits();
+  const maxUnpackedSize = maxArchiveSize * MAX_UNPACKED_RATIO;
+  const results: UploadResult[] = [];
+  let unpackedSize = 0;
+
+  for (const file of images) {
+    const filename = file.unsafeOriginalName || file.name;
+    const fail = (error: string) => results.push({ filename, success: false, error });
+
+    if (isUnsafePath(filename)) {
+      fail('Invalid path: outside the archive');
+      continue;
+    }
+
+    const typeValidation = validateFileType(getMimeTypeFromFilename(filename));
+    if (!typeValidation.valid) {
+      fail(typeValidation.error!);
+      continue;
+    }
+
+    const limit = Math.min(maxFileSize, maxUnpackedSize - unpackedSize);
+    const image = limit > 0 ? await readArchiveEntry(file, limit) : null;
+    if (!image) {
+      fail(limit < maxFileSize
+        ? `Archive exceeds maximum unpacked size of ${formatFileSize(maxUnpackedSize)}`
+        : `File size exceeds maximum allowed size of ${formatFileSize(maxFileSize)}`);
+      continue;
+    }
+    unpackedSize += image.length;
+
+    const contentValidation = validateFileContents(image, getMimeTypeFromFilename(filename));
+    if (!contentValidation.valid) {
+      fail(contentValidation.error!);
+      continue;
+    }
+
+    try {
+      const meme: Meme = {
+        id: randomUUID(),
+        ...await saveUploadedImage(image, filename),
+        caption: getCaption(captions, filename),
+        uploadedAt: new Date()
+      };
+      results.push({ filename, success: true, meme });
+    } catch {
+      fail('Invalid image file');
+    }
+  }
+
+  return { valid: true, results };
+}
@@ -319,4 +319,38 @@ describe('ConnectionMapManager - Property-Based Tests', () => {
       { numRuns: 100 }
     );
   });
+
+  it('should list only session tokens that still have a connection', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(
+          fc.record({
+            sessionToken: sessionTokenArbitrary,
+            socketId: socketIdArbitrary,
+            disconnects: fc.boolean(),
+          }),
+          { minLength: 1, maxLength: 50 }
+        ),
+        async (connections) => {
+          connectionMap.clear();
+
+          for (const { sessionToken, socketId } of connections) {
+            connectionMap.addConnection(sessionToken, socketId);
+          }
+          for (const { socketId, disconnects } of connections) {
+            if (disconnects) {
+              connectionMap.removeConnection(socketId);
+            }
+          }
+
+          const sessionTokens = connectionMap.getSessionTokens();
+          expect(sessionTokens.length).toBe(connectionMap.getSessionCount());
+          for (const sessionToken of sessionTokens) {
+            expect(connectionMap.getSocketIds(sessionToken).length).toBeGreaterThan(0);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
 });
@@ -115,6 +115,14 @@ export class ConnectionMapManager {
     return this.tokenToSockets.size;
   }
 
+  /**
+   * Get every session token with at least one open connection
+   * @returns Array of session tokens
+   */
+  getSessionTokens(): string[] {
+    return Array.from(this.tokenToSockets.keys());
+  }
+
   /**
    * Clear all connections (useful for testing or reset)
    */
@@ -0,0 +1,71 @@
+import { readdirSync, readFileSync } from 'fs';
+import { unlink } from 'fs/promises';
+import { join, resolve } from 'path';
+import { InMemoryTournamentArchive } from './in-memory-archive';
+import { reviveDates } from './file-repository';
+import { writeFileAtomically } from './file-utils';
+import { ArchivedTournament } from '../types';
+
+/**
+ * File-backed implementation of ITournamentArchive.
+ * Keeps each archived tournament in its own JSON file, named after its ID,
+ * in the archive directory, and every one of them in memory.
+ */
+export class FileTournamentArchive extends InMemoryTournamentArchive {
+  private readonly directory: string;
+
+  /**
+   * Open an archive directory, loading the tournaments it holds
+   * @param directory - Directory of the archive; created on the first write
+   */
+  constructor(directory: string) {
+    super();
+    this.directory = resolve(directory);
+    this.load();
+  }
+
+  async addTournament(tournament: ArchivedTournament): Promise<void> {
+    await writeFileAtomically(this.getFilePath(tournament.id), JSON.stringify(tournament));
+    await super.addTournament(tournament);
+  }
+
+  async deleteTournament(id: string): Promise<void> {
+    await super.deleteTournament(id);
+    try {
+      await unlink(this.getFilePath(id));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Load every tournament in the archive directory, if there is one
+   * Runs once, when the archive is created at startup
+   */
+  private load(): void {
+    let files: string[];
+    try {
+      files = readdirSync(this.directory).filter(file => file.endsWith('.json'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    for (const file of files) {
+      const tournament: ArchivedTournament = JSON.parse(readFileSync(join(this.directory, file), 'utf-8'), reviveDates);
+      this.tournaments.set(tournament.id, tournament);
+    }
+  }
+
+  /**
+   * Get the file an archived tournament is kept in
+   * @param id - Archived tournament ID
+   */
+  private getFilePath(id: string): string {
+    return join(this.directory, `${id}.json`);
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileTournamentRepository } from './file-repository';
+import { createMemes } from './test-helpers';
+import { Meme, Match, TournamentState } from '../types';
+
+describe('FileTournamentRepository - Persistence', () => {
+  let dataDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'tournament-repository-'));
+    filePath = join(dataDir, 'tournament.json');
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  // ============================================================================
+  // Arbitraries (Generators) for fast-check
+  // ============================================================================
+
+  const memeArbitrary: fc.Arbitrary<Meme> = fc.record({
+    id: fc.uuid(),
+    imageUrl: fc.webUrl(),
+    caption: fc.string({ minLength: 1, maxLength: 100 }),
+    uploadedAt: fc.date(),
+  });
+
+  /**
+   * Generate a match between two memes with every kind of Date field
+   */
+  const matchArbitrary = (memes: Meme[]): fc.Arbitrary<Match> =>
+    fc.record({
+      id: fc.uuid(),
+      roundIndex: fc.constant(0),
+      matchIndex: fc.nat({ max: 10 }),
+      leftMeme: fc.constantFrom(...memes),
+      rightMeme: fc.constantFrom(...memes),
+      votes: fc.record({ left: fc.nat({ max: 1000 }), right: fc.nat({ max: 1000 }) }),
+      timeRemaining: fc.nat({ max: 300 }),
+      totalTime: fc.integer({ min: 10, max: 300 }),
+      status: fc.constantFrom('PENDING' as const, 'IN_PROGRESS' as const, 'COMPLETED' as const),
+      winner: fc.oneof(fc.constant(null), fc.constantFrom(...memes)),
+      startedAt: fc.oneof(fc.constant(null), fc.date()),
+      completedAt: fc.oneof(fc.constant(null), fc.date()),
+      lastVoteAt: fc.record({
+        left: fc.oneof(fc.constant(null), fc.date()),
+        right: fc.oneof(fc.constant(null), fc.date()),
+      }),
+      override: fc.record({ reason: fc.string({ minLength: 1, maxLength: 50 }), overriddenAt: fc.date() }),
+    });
+
+  const stateArbitrary: fc.Arbitrary<TournamentState> = fc
+    .array(memeArbitrary, { minLength: 2, maxLength: 8 })
+    .chain((memes) =>
+      fc.array(matchArbitrary(memes), { minLength: 1, maxLength: 4 }).map((matches): TournamentState => ({
+        status: 'DUEL_IN_PROGRESS',
+        memes,
+        bracket: [{ roundIndex: 0, matches, completed: false }],
+        currentMatch: matches[0],
+        winner: null,
+        config: { votingTimeSeconds: 30 },
+      }))
+    );
+
+  // ============================================================================
+  // Property Tests
+  // ============================================================================
+
+  // Feature: file-repository, Property 1: A reopened data file holds the same state, dates included
+  it('should restore the stored state, with its dates, after reopening', async () => {
+    await fc.assert(
+      fc.asyncProperty(stateArbitrary, async (state) => {
+        const repository = new FileTournamentRepository(filePath);
+        await repository.setState(state);
+
+        const reopened = new FileTournamentRepository(filePath);
+
+        expect(await reopened.getState()).toEqual(state);
+        expect(await reopened.getMemes()).toEqual(state.memes);
+        expect(await reopened.getMatchById(state.currentMatch!.id)).toEqual(state.currentMatch);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  // ============================================================================
+  // Unit Tests
+  // ============================================================================
+
+  it('should keep only the latest of several changes made at once', async () => {
+    const repository = new FileTournamentRepository(filePath);
+    const memes = createMemes(5);
+
+    await Promise.all(memes.map(meme => repository.addMeme(meme)));
+
+    expect(await new FileTournamentRepository(filePath).getMemes()).toEqual(memes);
+  });
+
+  it('should replace the data file without leaving temporary files', async () => {
+    const repository = new FileTournamentRepository(filePath);
+
+    await repository.addMeme({ id: 'meme-1', imageUrl: '/uploads/meme-1.jpg', caption: 'Meme 1', uploadedAt: new Date() });
+    await repository.clearState();
+
+    expect(readdirSync(dataDir)).toEqual(['tournament.json']);
+    expect(await new FileTournamentRepository(filePath).getState()).toBeNull();
+  });
+
+  it('should create the data directory on the first write', async () => {
+    const nestedPath = join(dataDir, 'nested', 'tournament.json');
+    const repository = new FileTournamentRepository(nestedPath);
+
+    await repository.addMeme({ id: 'meme-1', imageUrl: '/uploads/meme-1.jpg', caption: 'Meme 1', uploadedAt: new Date() });
+
+    expect(await new FileTournamentRepository(nestedPath).getMemeById('meme-1')).not.toBeNull();
+  });
+
+  it('should restore vote locks after reopening', async () => {
+    const locks = { 'match-1': ['session-a'] };
+    await new FileTournamentRepository(filePath).setVoteLocks(locks);
+
+    expect(await new FileTournamentRepository(filePath).getVoteLocks()).toEqual(locks);
+  });
+
+  it('should restore the current match as the match in the bracket', async () => {
+    const memes = createMemes(2);
+    const match: Match = {
+      id: 'match-1',
+      roundIndex: 0,
+      matchIndex: 0,
+      leftMeme: memes[0],
+      rightMeme: memes[1],
+      votes: { left: 0, right: 0 },
+      timeRemaining: 30,
+      totalTime: 30,
+      status: 'IN_PROGRESS',
+      winner: null,
+      startedAt: new Date(),
+      completedAt: null,
+    };
+    await new FileTournamentRepository(filePath).setState({
+      status: 'DUEL_IN_PROGRESS',
+      memes,
+      bracket: [{ roundIndex: 0, matches: [match], completed: false }],
+      currentMatch: match,
+      activeMatches: [match],
+      winner: null,
+      config: { votingTimeSeconds: 30 },
+    });
+
+    const state = (await new FileTournamentRepository(filePath).getState())!;
+
+    expect(state.currentMatch).toBe(state.bracket[0].matches[0]);
+    expect(state.activeMatches![0]).toBe(state.bracket[0].matches[0]);
+  });
+
+  it('should refuse to start from a corrupted data file', () => {
+    writeFileSync(filePath, '{"state": ');
+
+    expect(() => new FileTournamentRepository(filePath)).toThrow();
+  });
+});
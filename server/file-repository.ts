@@ -0,0 +1,180 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { writeFileAtomically } from './file-utils';
+import { TournamentState, Meme, Match, VoteLocks } from '../types';
+
+/**
+ * Contents of the data file
+ */
+interface RepositorySnapshot {
+  state: TournamentState | null;
+  memes: Meme[];
+  matches: Match[];
+  voteLocks?: VoteLocks;
+}
+
+/**
+ * Fields holding a Date, stored as ISO strings in the data file
+ * archivedAt and finishedAt belong to archived tournaments
+ */
+const DATE_FIELDS = ['uploadedAt', 'startedAt', 'completedAt', 'overriddenAt', 'archivedAt', 'finishedAt'];
+
+/**
+ * Turn a stored ISO string back into a Date
+ */
+function reviveDate(value: unknown): unknown {
+  return typeof value === 'string' ? new Date(value) : value;
+}
+
+/**
+ * JSON reviver restoring the Date fields of memes and matches
+ */
+export function reviveDates(key: string, value: unknown): unknown {
+  if (DATE_FIELDS.includes(key)) {
+    return reviveDate(value);
+  }
+  // lastVoteAt holds a Date per side; the sides' names are also used for vote counts
+  if (key === 'lastVoteAt' && value && typeof value === 'object') {
+    const { left, right } = value as { left: unknown; right: unknown };
+    return { left: reviveDate(left), right: reviveDate(right) };
+  }
+  return value;
+}
+
+/**
+ * Point the state's active and revealed matches back at the bracket matches
+ * they were before saving; JSON keeps a separate copy of each
+ */
+function relinkMatches(state: TournamentState): TournamentState {
+  const bracketMatches = new Map(
+    state.bracket.flatMap(round => round.matches).map(match => [match.id, match])
+  );
+  const link = (match: Match): Match => bracketMatches.get(match.id) || match;
+
+  if (state.currentMatch) {
+    state.currentMatch = link(state.currentMatch);
+  }
+  if (state.activeMatches) {
+    state.activeMatches = state.activeMatches.map(link);
+  }
+  if (state.matchResult) {
+    state.matchResult.matches = state.matchResult.matches.map(link);
+  }
+  return state;
+}
+
+/**
+ * File-backed implementation of ITournamentRepository.
+ * Keeps the data in memory like InMemoryTournamentRepository and writes it
+ * to a JSON file after every change, so it survives a server restart.
+ * Each write goes to a temporary file that then replaces the data file, so
+ * a crash mid-write leaves the previous version intact.
+ */
+export class FileTournamentRepository extends InMemoryTournamentRepository {
+  private readonly filePath: string;
+  // Writes run one at a time, in the order the changes were made
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Open a data file, loading what it holds
+   * @param filePath - Path of the JSON data file; created on the first write
+   */
+  constructor(filePath: string) {
+    super();
+    this.filePath = resolve(filePath);
+    this.load();
+  }
+
+  // ============================================================================
+  // State operations
+  // ============================================================================
+
+  async setState(state: TournamentState): Promise<void> {
+    await super.setState(state);
+    await this.persist();
+  }
+
+  async clearState(): Promise<void> {
+    await super.clearState();
+    await this.persist();
+  }
+
+  // ============================================================================
+  // Meme operations
+  // ============================================================================
+
+  async addMeme(meme: Meme): Promise<void> {
+    await super.addMeme(meme);
+    await this.persist();
+  }
+
+  async deleteMeme(id: string): Promise<void> {
+    await super.deleteMeme(id);
+    await this.persist();
+  }
+
+  // ============================================================================
+  // Match operations
+  // ============================================================================
+
+  async updateMatch(match: Match): Promise<void> {
+    await super.updateMatch(match);
+    await this.persist();
+  }
+
+  // ============================================================================
+  // Vote lock operations
+  // ============================================================================
+
+  async setVoteLocks(locks: VoteLocks): Promise<void> {
+    await super.setVoteLocks(locks);
+    await this.persist();
+  }
+
+  // ============================================================================
+  // Persistence
+  // ============================================================================
+
+  /**
+   * Load the data file, if there is one
+   * Runs once, when the repository is created at startup
+   */
+  private load(): void {
+    let contents: string;
+    try {
+      contents = readFileSync(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const snapshot: RepositorySnapshot = JSON.parse(contents, reviveDates);
+    this.state = snapshot.state && relinkMatches(snapshot.state);
+    this.memes = new Map(snapshot.memes.map(meme => [meme.id, meme]));
+    this.matches = new Map(snapshot.matches.map(match => [match.id, match]));
+    this.voteLocks = snapshot.voteLocks || {};
+  }
+
+  /**
+   * Write the current data to the data file
+   * The data is captured when called, so later changes never reach an
+   * earlier write
+   */
+  private persist(): Promise<void> {
+    const snapshot: RepositorySnapshot = {
+      state: this.state,
+      memes: Array.from(this.memes.values()),
+      matches: Array.from(this.matches.values()),
+      voteLocks: this.voteLocks
+    };
+    const contents = JSON.stringify(snapshot);
+
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => writeFileAtomically(this.filePath, contents));
+    return this.writeQueue;
+  }
+}
@@ -1,5 +1,5 @@
-import { unlink } from 'fs/promises';
-import { join, normalize } from 'path';
+import { mkdir, rename, unlink, writeFile } from 'fs/promises';
+import { dirname, join, normalize } from 'path';
 
 /**
  * Result of deleting uploaded images
@@ -76,3 +76,18 @@ export async function deleteUploadedImages(imageUrls: string[]): Promise<DeleteR
 
   return result;
 }
+
+/**
+ * Replace a file with new contents in one step
+ * The contents go to a temporary file that is then renamed over the target,
+ * so a crash mid-write leaves the previous version intact
+ *
+ * @param filePath - File to write; its directory is created if needed
+ * @param contents - New file contents
+ */
+export async function writeFileAtomically(filePath: string, contents: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(tempPath, contents, 'utf-8');
+  await rename(tempPath, filePath);
+}
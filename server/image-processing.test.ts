@@ -0,0 +1,121 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import sharp from 'sharp';
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Meme } from '../types';
+import {
+  detectImageType,
+  saveUploadedImage,
+  validateFileContents,
+  validateFileType
+} from './image-processing';
+import { deleteUploadedImages } from './file-utils';
+import { getMemeImageUrls } from '../lib/meme-images';
+
+describe('Image Processing - File Validation', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const createImage = (format: 'png' | 'jpeg' | 'webp' | 'gif'): Promise<Buffer> =>
+    sharp({ create: { width: 4, height: 4, channels: 3, background: '#663399' } }).toFormat(format).toBuffer();
+
+  it('should recognize each supported image type by its magic bytes', async () => {
+    expect(detectImageType(await createImage('png'))).toBe('image/png');
+    expect(detectImageType(await createImage('jpeg'))).toBe('image/jpeg');
+    expect(detectImageType(await createImage('webp'))).toBe('image/webp');
+    expect(detectImageType(await createImage('gif'))).toBe('image/gif');
+    expect(detectImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+  });
+
+  it('should refuse a file whose contents do not match the type it claims', async () => {
+    const png = await createImage('png');
+
+    expect(validateFileContents(png, 'image/png')).toEqual({ valid: true });
+    expect(validateFileContents(await createImage('jpeg'), 'image/jpg')).toEqual({ valid: true });
+    expect(validateFileContents(png, 'image/jpeg')).toEqual({
+      valid: false,
+      error: 'File contents do not match its type. Expected: image/jpeg. Found: image/png'
+    });
+    expect(validateFileContents(Buffer.from('#!/bin/sh\n'), 'image/png').valid).toBe(false);
+  });
+
+  it('should refuse types left out of the configured list, whatever the contents', async () => {
+    vi.stubEnv('UPLOAD_ALLOWED_TYPES', 'image/png');
+
+    expect(validateFileType('image/webp')).toEqual({
+      valid: false,
+      error: 'Invalid file type. Allowed types: PNG. Received: image/webp'
+    });
+    expect(validateFileContents(await createImage('webp'), 'image/webp').valid).toBe(false);
+  });
+});
+
+describe('Image Processing - Variants', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    // Images are written to <cwd>/public/uploads
+    rootDir = mkdtempSync(join(tmpdir(), 'image-processing-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(rootDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  const uploadedFiles = (): string[] => {
+    const uploadsDir = join(rootDir, 'public', 'uploads');
+    return existsSync(uploadsDir) ? readdirSync(uploadsDir) : [];
+  };
+
+  it('should store a thumbnail, a medium and a large copy in WebP and the original format', async () => {
+    const image = await sharp({ create: { width: 2400, height: 1200, channels: 3, background: '#663399' } }).jpeg().toBuffer();
+
+    const { imageUrl, variants } = await saveUploadedImage(image, 'meme.jpg');
+
+    expect(imageUrl).toBe(variants.large.fallbackUrl);
+    expect([variants.thumbnail, variants.medium, variants.large].map(({ width, height }) => [width, height])).toEqual([
+      [320, 160],
+      [960, 480],
+      [1920, 960]
+    ]);
+    for (const variant of Object.values(variants)) {
+      expect(variant.mimeType).toBe('image/webp');
+      expect(variant.url).toMatch(/\.webp$/);
+      expect(variant.fallbackUrl).toMatch(/\.jpg$/);
+
+      const metadata = await sharp(join(rootDir, 'public', variant.url)).metadata();
+      expect([metadata.format, metadata.width]).toEqual(['webp', variant.width]);
+    }
+    expect(uploadedFiles()).toHaveLength(6);
+  });
+
+  it('should never enlarge an image and fall back to PNG for images that are not JPEG', async () => {
+    vi.stubEnv('UPLOAD_IMAGE_FORMAT', 'avif');
+    const image = await sharp({ create: { width: 100, height: 50, channels: 4, background: '#66339980' } }).webp().toBuffer();
+
+    const { variants } = await saveUploadedImage(image, 'meme.webp');
+
+    expect(variants.thumbnail.mimeType).toBe('image/avif');
+    expect(variants.thumbnail.fallbackUrl).toMatch(/\.png$/);
+    expect([variants.large.width, variants.large.height]).toEqual([100, 50]);
+  });
+
+  it('should delete every stored copy of a meme image', async () => {
+    const image = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#663399' } }).png().toBuffer();
+    const meme: Meme = { id: 'meme-1', caption: 'Meme 1', uploadedAt: new Date(), ...await saveUploadedImage(image, 'meme.png') };
+
+    const result = await deleteUploadedImages(getMemeImageUrls(meme));
+
+    expect(result).toEqual({ deletedCount: 6, errors: [] });
+    expect(uploadedFiles()).toHaveLength(0);
+  });
+});
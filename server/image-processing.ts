@@ -0,0 +1,171 @@
+import sharp from 'sharp';
+import { mkdir } from 'fs/promises';
+import { extname, join } from 'path';
+import { randomUUID } from 'crypto';
+import { ImageVariants, ImageVariantSize } from '../types';
+import { getImageVariantFormat, getUploadLimits, normalizeMimeType } from './upload-config';
+import { formatFileSize } from '../lib/file-size';
+
+/**
+ * Image Processing
+ *
+ * The pipeline every meme image goes through before it is served from
+ * /public/uploads, whether it was uploaded on its own or imported from a
+ * meme package. Each image is stored as a thumbnail, a medium and a large
+ * copy, in WebP or AVIF and in JPEG or PNG for browsers without them.
+ */
+
+// Box each variant is resized to fit in, never enlarging the image
+export const IMAGE_VARIANT_DIMENSIONS: Record<ImageVariantSize, { width: number; height: number }> = {
+  thumbnail: { width: 320, height: 320 },
+  medium: { width: 960, height: 960 },
+  large: { width: 1920, height: 1080 }
+};
+
+// File signature of each supported image type
+const MAGIC_BYTES: Array<{ mimeType: string; matches: (head: Buffer) => boolean }> = [
+  { mimeType: 'image/png', matches: head => head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { mimeType: 'image/jpeg', matches: head => head.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  { mimeType: 'image/webp', matches: head => head.toString('latin1', 0, 4) === 'RIFF' && head.toString('latin1', 8, 12) === 'WEBP' },
+  { mimeType: 'image/gif', matches: head => /^GIF8[79]a$/.test(head.toString('latin1', 0, 6)) }
+];
+
+// Bytes needed to recognize any supported image type
+export const MAGIC_BYTES_LENGTH = 12;
+
+// MIME type of each supported extension, for files that arrive without one
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif'
+};
+
+/**
+ * Describe the allowed types for error messages, e.g. PNG, JPEG, WEBP
+ */
+function describeAllowedTypes(allowedMimeTypes: string[]): string {
+  return allowedMimeTypes.map(type => type.replace('image/', '').toUpperCase()).join(', ');
+}
+
+/**
+ * Validate file size
+ */
+export function validateFileSize(fileSize: number): { valid: boolean; error?: string } {
+  const { maxFileSize } = getUploadLimits();
+  if (fileSize > maxFileSize) {
+    return {
+      valid: false,
+      error: `File size exceeds maximum allowed size of ${formatFileSize(maxFileSize)}. File size: ${(fileSize / 1024 / 1024).toFixed(2)}MB`
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate file MIME type
+ */
+export function validateFileType(mimeType: string | null): { valid: boolean; error?: string } {
+  const { allowedMimeTypes } = getUploadLimits();
+  if (!mimeType || !allowedMimeTypes.includes(normalizeMimeType(mimeType))) {
+    return {
+      valid: false,
+      error: `Invalid file type. Allowed types: ${describeAllowedTypes(allowedMimeTypes)}. Received: ${mimeType || 'unknown'}`
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Recognize an image from the first bytes of its file
+ * @param head - At least the first MAGIC_BYTES_LENGTH bytes of the file
+ * @returns The MIME type of the image, or null if it is not a supported image
+ */
+export function detectImageType(head: Buffer): string | null {
+  return MAGIC_BYTES.find(signature => signature.matches(head))?.mimeType || null;
+}
+
+/**
+ * Validate that the contents of a file are an image of the type it claims to be
+ * The MIME type sent by the client, or derived from a filename, is only a
+ * claim; the file signature shows what the file really holds
+ *
+ * @param head - At least the first MAGIC_BYTES_LENGTH bytes of the file
+ * @param mimeType - Type the file claims to be
+ */
+export function validateFileContents(head: Buffer, mimeType: string | null): { valid: boolean; error?: string } {
+  const detectedType = detectImageType(head);
+  if (!detectedType || !mimeType || detectedType !== normalizeMimeType(mimeType)) {
+    return {
+      valid: false,
+      error: `File contents do not match its type. Expected: ${mimeType || 'unknown'}. Found: ${detectedType || 'unknown'}`
+    };
+  }
+  return validateFileType(detectedType);
+}
+
+/**
+ * Get the MIME type of an image from its filename
+ * @returns The MIME type, or null if the extension is not a supported image type
+ */
+export function getMimeTypeFromFilename(filename: string): string | null {
+  return MIME_TYPES_BY_EXTENSION[extname(filename).toLowerCase()] || null;
+}
+
+/**
+ * Directory the processed images are served from
+ */
+export function getUploadsDir(): string {
+  return join(process.cwd(), 'public', 'uploads');
+}
+
+/**
+ * URLs of a stored image
+ */
+export interface StoredImage {
+  imageUrl: string;        // Large variant in the fallback format
+  variants: ImageVariants;
+}
+
+/**
+ * Resize an image to every variant size and store each copy under a fresh name
+ * @param image - Contents of the image file
+ * @param originalFilename - Name the image came with; JPEG files keep JPEG as
+ *   their fallback format, any other image falls back to PNG to keep its transparency
+ * @returns URLs the stored copies are served from
+ */
+export async function saveUploadedImage(image: Buffer, originalFilename: string): Promise<StoredImage> {
+  // Ensure uploads directory exists
+  const uploadsDir = getUploadsDir();
+  await mkdir(uploadsDir, { recursive: true });
+
+  const id = randomUUID();
+  const format = getImageVariantFormat();
+  const fallbackFormat = getMimeTypeFromFilename(originalFilename) === 'image/jpeg' ? 'jpeg' : 'png';
+  const fallbackExtension = fallbackFormat === 'jpeg' ? '.jpg' : '.png';
+
+  // The image is decoded once; each copy is encoded in turn
+  const source = sharp(image);
+  const variants = {} as ImageVariants;
+
+  for (const size of Object.keys(IMAGE_VARIANT_DIMENSIONS) as ImageVariantSize[]) {
+    const { width, height } = IMAGE_VARIANT_DIMENSIONS[size];
+    const resized = source.clone().resize(width, height, { fit: 'inside', withoutEnlargement: true });
+    const filename = `${id}-${size}.${format}`;
+    const fallbackFilename = `${id}-${size}${fallbackExtension}`;
+
+    const info = await resized.clone().toFormat(format).toFile(join(uploadsDir, filename));
+    await resized.clone().toFormat(fallbackFormat).toFile(join(uploadsDir, fallbackFilename));
+
+    variants[size] = {
+      url: `/uploads/${filename}`,
+      mimeType: `image/${format}`,
+      fallbackUrl: `/uploads/${fallbackFilename}`,
+      width: info.width,
+      height: info.height
+    };
+  }
+
+  return { imageUrl: variants.large.fallbackUrl, variants };
+}
@@ -0,0 +1,26 @@
+import { ITournamentArchive, ArchivedTournament } from '../types';
+
+/**
+ * In-memory implementation of ITournamentArchive.
+ * History is lost on server restart.
+ */
+export class InMemoryTournamentArchive implements ITournamentArchive {
+  protected tournaments: Map<string, ArchivedTournament> = new Map();
+
+  async addTournament(tournament: ArchivedTournament): Promise<void> {
+    this.tournaments.set(tournament.id, tournament);
+  }
+
+  async getTournaments(): Promise<ArchivedTournament[]> {
+    return Array.from(this.tournaments.values())
+      .sort((a, b) => b.archivedAt.getTime() - a.archivedAt.getTime());
+  }
+
+  async getTournamentById(id: string): Promise<ArchivedTournament | null> {
+    return this.tournaments.get(id) || null;
+  }
+
+  async deleteTournament(id: string): Promise<void> {
+    this.tournaments.delete(id);
+  }
+}
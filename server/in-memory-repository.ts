@@ -2,7 +2,8 @@ import {
   ITournamentRepository, 
   TournamentState, 
   Meme, 
-  Match 
+  Match,
+  VoteLocks
 } from '../types';
 
 /**
@@ -11,9 +12,10 @@ import {
  * Data is lost on server restart.
  */
 export class InMemoryTournamentRepository implements ITournamentRepository {
-  private state: TournamentState | null = null;
-  private memes: Map<string, Meme> = new Map();
-  private matches: Map<string, Match> = new Map();
+  protected state: TournamentState | null = null;
+  protected memes: Map<string, Meme> = new Map();
+  protected matches: Map<string, Match> = new Map();
+  protected voteLocks: VoteLocks = {};
 
   // ============================================================================
   // State operations
@@ -45,6 +47,7 @@ export class InMemoryTournamentRepository implements ITournamentRepository {
     this.state = null;
     this.memes.clear();
     this.matches.clear();
+    this.voteLocks = {};
   }
 
   // ============================================================================
@@ -115,4 +118,16 @@ export class InMemoryTournamentRepository implements ITournamentRepository {
   async getMatchById(id: string): Promise<Match | null> {
     return this.matches.get(id) || null;
   }
+
+  // ============================================================================
+  // Vote lock operations
+  // ============================================================================
+
+  async getVoteLocks(): Promise<VoteLocks> {
+    return this.voteLocks;
+  }
+
+  async setVoteLocks(locks: VoteLocks): Promise<void> {
+    this.voteLocks = locks;
+  }
 }
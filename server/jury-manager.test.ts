@@ -0,0 +1,119 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import { JuryManager } from './jury-manager';
+
+describe('JuryManager - Property-Based Tests', () => {
+  let juryManager: JuryManager;
+
+  beforeEach(() => {
+    juryManager = new JuryManager();
+  });
+
+  // ============================================================================
+  // Arbitraries (Generators) for fast-check
+  // ============================================================================
+
+  /**
+   * Generate a random session token (simulating hashed IPv4)
+   */
+  const sessionTokenArbitrary = fc.hexaString({ minLength: 64, maxLength: 64 });
+
+  /**
+   * Generate a list of judge names
+   */
+  const namesArbitrary = fc.array(fc.string({ minLength: 1, maxLength: 40 }), { minLength: 1, maxLength: 12 });
+
+  // ============================================================================
+  // Property Tests
+  // ============================================================================
+
+  // Feature: jury, Property 1: Every judge gets a distinct join code
+  it('should issue a distinct join code to every judge', async () => {
+    await fc.assert(
+      fc.asyncProperty(namesArbitrary, async (names) => {
+        juryManager.clear();
+        const judges = names.map(name => juryManager.addJudge(name));
+
+        expect(new Set(judges.map(judge => judge.joinCode)).size).toBe(names.length);
+        expect(judges.every(judge => /^[A-Z2-9]{6}$/.test(judge.joinCode))).toBe(true);
+        expect(juryManager.getJudges().map(judge => judge.name)).toEqual(names);
+        expect(juryManager.getJudges().every(judge => !judge.joined)).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: jury, Property 2: A session votes as the judge whose code it entered last
+  it('should give a session the role of the last code it entered', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        namesArbitrary,
+        fc.array(fc.tuple(fc.nat(), fc.integer({ min: 0, max: 2 })), { minLength: 1, maxLength: 20 }),
+        fc.array(sessionTokenArbitrary, { minLength: 3, maxLength: 3 }),
+        async (names, claims, sessions) => {
+          fc.pre(new Set(sessions).size === sessions.length);
+          juryManager.clear();
+          const judges = names.map(name => juryManager.addJudge(name));
+          const holders = new Map<string, string>(); // judgeId → session
+
+          for (const [judgeIndex, sessionIndex] of claims) {
+            const judge = judges[judgeIndex % judges.length];
+            const session = sessions[sessionIndex];
+            const claimed = judge.joinCode.toLowerCase();
+
+            expect(juryManager.join(claimed, session)?.id).toBe(judge.id);
+
+            for (const [judgeId, holder] of holders) {
+              if (holder === session) {
+                holders.delete(judgeId);
+              }
+            }
+            holders.set(judge.id, session);
+          }
+
+          for (const session of sessions) {
+            const expected = Array.from(holders).find(([, holder]) => holder === session)?.[0] || null;
+            expect(juryManager.getJudgeForSession(session)?.id ?? null).toBe(expected);
+          }
+          for (const judge of juryManager.getJudges()) {
+            expect(judge.joined).toBe(holders.has(judge.id));
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  // ============================================================================
+  // Unit Tests
+  // ============================================================================
+
+  it('should reject codes that were never issued', () => {
+    juryManager.addJudge('Ana');
+    expect(juryManager.join('NOPE00', 'session-1')).toBeNull();
+    expect(juryManager.getJudgeForSession('session-1')).toBeNull();
+  });
+
+  it('should revoke the role of a removed judge', () => {
+    const judge = juryManager.addJudge('Ana');
+    juryManager.join(judge.joinCode, 'session-1');
+
+    expect(juryManager.removeJudge(judge.id)).toBe('session-1');
+    expect(juryManager.getJudgeForSession('session-1')).toBeNull();
+    expect(juryManager.join(judge.joinCode, 'session-1')).toBeNull();
+    expect(juryManager.removeJudge(judge.id)).toBeNull();
+  });
+
+  it('should tell which session holds the role of a code', () => {
+    const judge = juryManager.addJudge('Ana');
+    expect(juryManager.getSessionForCode(judge.joinCode)).toBeNull();
+
+    juryManager.join(judge.joinCode, 'session-1');
+    expect(juryManager.getSessionForCode(judge.joinCode.toLowerCase())).toBe('session-1');
+    expect(juryManager.getSessionForCode('NOPE00')).toBeNull();
+  });
+});
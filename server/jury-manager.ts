@@ -0,0 +1,153 @@
+import { randomInt, randomUUID } from 'crypto';
+import { Judge } from '../types';
+
+/**
+ * Jury Manager
+ *
+ * Keeps the members of the jury and the join codes the admin issued to them.
+ * A judge takes up the role by entering their code; from then on the session
+ * that entered it votes as that judge. Entering the code again from another
+ * session moves the role there, so a judge can switch devices; the server
+ * refuses the move while the judge's vote in a match is still open.
+ */
+
+/**
+ * Characters join codes are made of, leaving out look-alikes such as 0/O and 1/I
+ */
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+
+interface JudgeRecord {
+  id: string;
+  name: string;
+  joinCode: string;
+  sessionToken: string | null;   // Session holding the role, once the code was entered
+}
+
+export class JuryManager {
+  // Map: judgeId → judge
+  private judges: Map<string, JudgeRecord>;
+
+  constructor() {
+    this.judges = new Map();
+  }
+
+  /**
+   * Add a judge and issue their join code
+   * @param name - Name shown for the judge
+   * @returns The new judge, including the join code
+   */
+  addJudge(name: string): Judge {
+    const record: JudgeRecord = {
+      id: randomUUID(),
+      name,
+      joinCode: this.generateJoinCode(),
+      sessionToken: null
+    };
+    this.judges.set(record.id, record);
+    return this.toJudge(record);
+  }
+
+  /**
+   * Remove a judge, revoking their join code
+   * @param judgeId - Judge ID
+   * @returns Session token that held the role, if any, so it can be told
+   */
+  removeJudge(judgeId: string): string | null {
+    const record = this.judges.get(judgeId);
+    if (!record) {
+      return null;
+    }
+
+    this.judges.delete(judgeId);
+    return record.sessionToken;
+  }
+
+  /**
+   * Claim the judge role with a join code
+   * A session holds at most one role, so claiming a second code gives up the first
+   * @param code - Join code, in any letter case
+   * @param sessionToken - Session claiming the role
+   * @returns The judge, or null if no judge has this code
+   */
+  join(code: string, sessionToken: string): Judge | null {
+    const record = this.findByCode(code);
+    if (!record) {
+      return null;
+    }
+
+    for (const judge of this.judges.values()) {
+      if (judge.sessionToken === sessionToken) {
+        judge.sessionToken = null;
+      }
+    }
+    record.sessionToken = sessionToken;
+    return this.toJudge(record);
+  }
+
+  /**
+   * Get the session holding the role of a join code
+   * @param code - Join code, in any letter case
+   * @returns Session token, or null if no judge has this code or it was not entered yet
+   */
+  getSessionForCode(code: string): string | null {
+    return this.findByCode(code)?.sessionToken ?? null;
+  }
+
+  /**
+   * Get the judge a session votes as
+   * @param sessionToken - User's session token
+   * @returns The judge, or null if the session votes as audience
+   */
+  getJudgeForSession(sessionToken: string): Judge | null {
+    const record = Array.from(this.judges.values()).find(judge => judge.sessionToken === sessionToken);
+    return record ? this.toJudge(record) : null;
+  }
+
+  /**
+   * Get every judge, in the order they were added
+   * @returns Array of judges
+   */
+  getJudges(): Judge[] {
+    return Array.from(this.judges.values()).map(record => this.toJudge(record));
+  }
+
+  /**
+   * Remove every judge
+   */
+  clear(): void {
+    this.judges.clear();
+  }
+
+  /**
+   * Find the judge a join code was issued to
+   */
+  private findByCode(code: string): JudgeRecord | undefined {
+    const normalized = code.trim().toUpperCase();
+    return Array.from(this.judges.values()).find(judge => judge.joinCode === normalized);
+  }
+
+  /**
+   * Generate a join code that no current judge uses
+   */
+  private generateJoinCode(): string {
+    const inUse = new Set(Array.from(this.judges.values()).map(judge => judge.joinCode));
+    let code: string;
+    do {
+      code = Array.from({ length: JOIN_CODE_LENGTH }, () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]).join('');
+    } while (inUse.has(code));
+    return code;
+  }
+
+  /**
+   * Describe a judge without exposing the session holding the role
+   */
+  private toJudge(record: JudgeRecord): Judge {
+    return {
+      id: record.id,
+      name: record.name,
+      joinCode: record.joinCode,
+      joined: record.sessionToken !== null
+    };
+  }
+}
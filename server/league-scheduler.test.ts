@@ -0,0 +1,126 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { buildRoundRobinSchedule, buildSwissRound, getDefaultSwissRounds } from './league-scheduler';
+import { calculateStandings } from './standings';
+import { createMemes } from './test-helpers';
+import { Meme, Round } from '../types';
+
+describe('League Scheduler - Property-Based Tests', () => {
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  const pairingKey = (a: Meme, b: Meme) => [a.id, b.id].sort().join(':');
+
+  /**
+   * Complete every match of a round, the left meme winning
+   */
+  const completeRound = (round: Round): Round => {
+    round.matches.forEach(match => {
+      match.votes = { left: 1, right: 0 };
+      match.winner = match.leftMeme;
+      match.status = 'COMPLETED';
+    });
+    round.completed = true;
+    return round;
+  };
+
+  // ============================================================================
+  // Property Tests
+  // ============================================================================
+
+  // Feature: league-formats, Property 4: Round-robin completeness
+  it('should schedule every pairing exactly once with each meme at most once per round', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 2, max: 20 }), (memeCount) => {
+        const memes = createMemes(memeCount);
+        const schedule = buildRoundRobinSchedule(memes, 30);
+
+        expect(schedule).toHaveLength(memeCount % 2 === 0 ? memeCount - 1 : memeCount);
+
+        const pairings = new Set<string>();
+        for (const round of schedule) {
+          const ids = round.matches.flatMap(m => [m.leftMeme!.id, m.rightMeme!.id]);
+          if (round.bye) ids.push(round.bye.id);
+
+          expect(new Set(ids).size).toBe(ids.length);
+          expect(ids).toHaveLength(memeCount);
+          round.matches.forEach(m => pairings.add(pairingKey(m.leftMeme!, m.rightMeme!)));
+        }
+
+        expect(pairings.size).toBe((memeCount * (memeCount - 1)) / 2);
+      }),
+      { numRuns: 19 }
+    );
+  });
+
+  // Feature: league-formats, Property 5: Swiss rounds avoid rematches and repeat byes
+  it('should pair Swiss rounds without rematches or repeated byes', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 2, max: 16 }), (memeCount) => {
+        const memes = createMemes(memeCount);
+        const bracket: Round[] = [];
+        const pairings = new Set<string>();
+        const byes = new Set<string>();
+
+        for (let i = 0; i < getDefaultSwissRounds(memeCount); i++) {
+          const standings = calculateStandings(memes, bracket, { countByesAsWins: true });
+          const round = buildSwissRound(standings, bracket, 30);
+
+          expect(round.roundIndex).toBe(i);
+          expect(round.matches).toHaveLength(Math.floor(memeCount / 2));
+          for (const match of round.matches) {
+            const key = pairingKey(match.leftMeme!, match.rightMeme!);
+            expect(pairings.has(key)).toBe(false);
+            pairings.add(key);
+          }
+          if (round.bye) {
+            expect(byes.has(round.bye.id)).toBe(false);
+            byes.add(round.bye.id);
+          }
+
+          bracket.push(completeRound(round));
+        }
+      }),
+      { numRuns: 15 }
+    );
+  });
+
+  // ============================================================================
+  // Unit Tests
+  // ============================================================================
+
+  it('should pair the top half against the bottom half in the first Swiss round', () => {
+    const memes = createMemes(6);
+    const round = buildSwissRound(calculateStandings(memes, []), [], 30);
+
+    expect(round.matches.map(m => [m.leftMeme!.id, m.rightMeme!.id])).toEqual([
+      ['meme-1', 'meme-4'],
+      ['meme-2', 'meme-5'],
+      ['meme-3', 'meme-6'],
+    ]);
+  });
+
+  it('should give the first Swiss bye to the lowest-ranked meme', () => {
+    const memes = createMemes(5);
+    const round = buildSwissRound(calculateStandings(memes, []), [], 30);
+
+    expect(round.bye!.id).toBe('meme-5');
+  });
+
+  it('should default to ceil(log2(n)) Swiss rounds', () => {
+    expect(getDefaultSwissRounds(2)).toBe(1);
+    expect(getDefaultSwissRounds(8)).toBe(3);
+    expect(getDefaultSwissRounds(9)).toBe(4);
+  });
+
+  it('should reject fewer than 2 memes', () => {
+    expect(() => buildRoundRobinSchedule(createMemes(1), 30)).toThrow(
+      'Cannot generate schedule with fewer than 2 memes'
+    );
+  });
+});
@@ -0,0 +1,181 @@
+import { Meme, Round, StandingsEntry } from '../types';
+import { hasBothMemes } from '../lib/heats';
+import { createPendingMatch } from './bracket-builder';
+
+/**
+ * League Scheduler
+ *
+ * Builds rounds for league formats: a complete round-robin schedule generated
+ * up front, and Swiss rounds generated one at a time from the current standings.
+ */
+
+/**
+ * Build a complete round-robin schedule using the circle method
+ * Every meme faces every other meme exactly once. With an odd number of
+ * memes, one meme sits out each round (recorded as the round's bye).
+ *
+ * @param memes - Memes in seed order (must have at least 2)
+ * @param votingTimeSeconds - Time allocated for each match
+ * @returns Array of rounds
+ */
+export function buildRoundRobinSchedule(memes: Meme[], votingTimeSeconds: number): Round[] {
+  if (memes.length < 2) {
+    throw new Error('Cannot generate schedule with fewer than 2 memes');
+  }
+
+  // Pad to an even number of slots; null marks the bye slot
+  const slots: (Meme | null)[] = [...memes];
+  if (slots.length % 2 !== 0) {
+    slots.push(null);
+  }
+
+  const numRounds = slots.length - 1;
+  const rounds: Round[] = [];
+
+  for (let roundIndex = 0; roundIndex < numRounds; roundIndex++) {
+    const round: Round = {
+      roundIndex,
+      matches: [],
+      completed: false,
+      bye: null
+    };
+
+    for (let i = 0; i < slots.length / 2; i++) {
+      const home = slots[i];
+      const away = slots[slots.length - 1 - i];
+
+      if (!home || !away) {
+        round.bye = home || away;
+        continue;
+      }
+
+      const match = createPendingMatch(roundIndex, round.matches.length, votingTimeSeconds);
+      // Alternate sides so no meme is always on the left
+      match.leftMeme = roundIndex % 2 === 0 ? home : away;
+      match.rightMeme = roundIndex % 2 === 0 ? away : home;
+      round.matches.push(match);
+    }
+
+    rounds.push(round);
+
+    // Rotate every slot except the first one
+    slots.splice(1, 0, slots.pop()!);
+  }
+
+  return rounds;
+}
+
+/**
+ * Get the default number of Swiss rounds for a meme count
+ * Enough rounds for a single undefeated meme to emerge: ceil(log2(n))
+ *
+ * @param memeCount - Number of memes in the tournament
+ */
+export function getDefaultSwissRounds(memeCount: number): number {
+  return Math.max(1, Math.ceil(Math.log2(memeCount)));
+}
+
+/**
+ * Build the next Swiss round from the current standings
+ * Memes are paired with the closest-ranked opponent they have not faced yet.
+ * With an odd number of memes, the lowest-ranked meme without a previous bye
+ * sits out and is awarded a win.
+ *
+ * @param standings - Current standings, sorted by rank
+ * @param bracket - Rounds played so far
+ * @param votingTimeSeconds - Time allocated for each match
+ * @returns The new round (roundIndex = bracket.length)
+ */
+export function buildSwissRound(
+  standings: StandingsEntry[],
+  bracket: Round[],
+  votingTimeSeconds: number
+): Round {
+  const roundIndex = bracket.length;
+  let ranked = standings.map(entry => entry.meme);
+
+  // Pick the bye
+  let bye: Meme | null = null;
+  if (ranked.length % 2 !== 0) {
+    const previousByes = new Set(bracket.map(round => round.bye?.id).filter(Boolean));
+    bye = [...ranked].reverse().find(meme => !previousByes.has(meme.id)) || ranked[ranked.length - 1];
+    ranked = ranked.filter(meme => meme.id !== bye!.id);
+  }
+
+  // First round: top half meets bottom half (1 vs n/2+1, 2 vs n/2+2, ...)
+  if (roundIndex === 0) {
+    const half = ranked.length / 2;
+    ranked = ranked.slice(0, half).flatMap((meme, i) => [meme, ranked[half + i]]);
+  }
+
+  // Collect previous pairings
+  const opponents = new Map<string, Set<string>>();
+  for (const round of bracket) {
+    for (const match of round.matches) {
+      if (!hasBothMemes(match)) continue;
+      if (!opponents.has(match.leftMeme.id)) opponents.set(match.leftMeme.id, new Set());
+      if (!opponents.has(match.rightMeme.id)) opponents.set(match.rightMeme.id, new Set());
+      opponents.get(match.leftMeme.id)!.add(match.rightMeme.id);
+      opponents.get(match.rightMeme.id)!.add(match.leftMeme.id);
+    }
+  }
+  const havePlayed = (a: Meme, b: Meme) => opponents.get(a.id)?.has(b.id) ?? false;
+
+  // Avoid rematches when possible; fall back to rank order when every pairing is a rematch
+  const pairs = pairWithoutRematches(ranked, havePlayed) || pairInOrder(ranked);
+
+  const round: Round = {
+    roundIndex,
+    matches: [],
+    completed: false,
+    bye
+  };
+
+  pairs.forEach(([left, right], matchIndex) => {
+    const match = createPendingMatch(roundIndex, matchIndex, votingTimeSeconds);
+    match.leftMeme = left;
+    match.rightMeme = right;
+    round.matches.push(match);
+  });
+
+  return round;
+}
+
+/**
+ * Pair memes top-down, backtracking to avoid rematches
+ * @returns Pairs, or null when no rematch-free pairing exists
+ */
+function pairWithoutRematches(
+  memes: Meme[],
+  havePlayed: (a: Meme, b: Meme) => boolean
+): [Meme, Meme][] | null {
+  if (memes.length === 0) {
+    return [];
+  }
+
+  const [first, ...rest] = memes;
+  for (let i = 0; i < rest.length; i++) {
+    if (havePlayed(first, rest[i])) {
+      continue;
+    }
+
+    const remaining = rest.filter((_, index) => index !== i);
+    const pairs = pairWithoutRematches(remaining, havePlayed);
+    if (pairs) {
+      return [[first, rest[i]], ...pairs];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pair memes by adjacent rank
+ */
+function pairInOrder(memes: Meme[]): [Meme, Meme][] {
+  const pairs: [Meme, Meme][] = [];
+  for (let i = 0; i + 1 < memes.length; i += 2) {
+    pairs.push([memes[i], memes[i + 1]]);
+  }
+  return pairs;
+}
@@ -0,0 +1,189 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import JSZip from 'jszip';
+import sharp from 'sharp';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createMemePackage, importMemePackage, readMemePackage, PACKAGE_VERSION } from './meme-package';
+import { MAX_ARCHIVE_ENTRIES } from './bulk-upload';
+import { Meme, TournamentState } from '../types';
+
+describe('Meme Package', () => {
+  let rootDir: string;
+  let uploadsDir: string;
+
+  beforeEach(() => {
+    // Images are read from and written to <cwd>/public/uploads
+    rootDir = mkdtempSync(join(tmpdir(), 'meme-package-'));
+    uploadsDir = join(rootDir, 'public', 'uploads');
+    mkdirSync(uploadsDir, { recursive: true });
+    vi.spyOn(process, 'cwd').mockReturnValue(rootDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  const createImage = (): Promise<Buffer> =>
+    sharp({ create: { width: 4, height: 4, channels: 3, background: '#663399' } }).png().toBuffer();
+
+  /**
+   * Upload memes whose images exist in the uploads directory
+   */
+  const createMemes = async (count: number): Promise<Meme[]> => {
+    const image = await createImage();
+    return Array.from({ length: count }, (_, i) => {
+      writeFileSync(join(uploadsDir, `meme-${i + 1}.png`), image);
+      return {
+        id: `meme-${i + 1}`,
+        imageUrl: `/uploads/meme-${i + 1}.png`,
+        caption: `Meme ${i + 1}`,
+        uploadedAt: new Date('2025-01-01T12:00:00Z')
+      };
+    });
+  };
+
+  /**
+   * Build a package by hand, to test what an importer may receive
+   */
+  const createZip = async (files: Record<string, string | Buffer>): Promise<Buffer> => {
+    const zip = new JSZip();
+    for (const [name, contents] of Object.entries(files)) {
+      zip.file(name, contents);
+    }
+    return zip.generateAsync({ type: 'nodebuffer' });
+  };
+
+  const manifestWith = (memes: unknown[], version = PACKAGE_VERSION): string =>
+    JSON.stringify({ version, exportedAt: new Date().toISOString(), memes });
+
+  it('should import exported memes in order under fresh IDs and image names', async () => {
+    const memes = await createMemes(3);
+
+    const result = await readMemePackage(await createMemePackage(memes));
+    if (!result.valid) throw new Error(result.error);
+    const imported = await importMemePackage(result.memePackage);
+
+    expect(imported.map(meme => meme.caption)).toEqual(['Meme 1', 'Meme 2', 'Meme 3']);
+    for (const meme of imported) {
+      expect(memes.some(original => original.id === meme.id || original.imageUrl === meme.imageUrl)).toBe(false);
+      expect(existsSync(join(rootDir, 'public', meme.imageUrl))).toBe(true);
+      expect(existsSync(join(rootDir, 'public', meme.variants!.thumbnail.url))).toBe(true);
+    }
+  });
+
+  it('should give new IDs each time the same package is imported', async () => {
+    const data = await createMemePackage(await createMemes(2));
+
+    const ids = new Set<string>();
+    for (let i = 0; i < 2; i++) {
+      const result = await readMemePackage(data);
+      if (!result.valid) throw new Error(result.error);
+      (await importMemePackage(result.memePackage)).forEach(meme => ids.add(meme.id));
+    }
+
+    expect(ids.size).toBe(4);
+  });
+
+  it('should describe each meme in the manifest and carry the state only when asked', async () => {
+    const memes = await createMemes(2);
+    const state: TournamentState = {
+      status: 'WAITING',
+      memes,
+      bracket: [],
+      currentMatch: null,
+      winner: null,
+      config: { votingTimeSeconds: 30 }
+    };
+
+    const readManifest = async (data: Buffer) =>
+      JSON.parse(await (await JSZip.loadAsync(data)).file('manifest.json')!.async('string'));
+
+    const withoutState = await readManifest(await createMemePackage(memes));
+    const withState = await readManifest(await createMemePackage(memes, state));
+
+    expect(withoutState.memes).toEqual([
+      { id: 'meme-1', caption: 'Meme 1', uploadedAt: '2025-01-01T12:00:00.000Z', image: 'images/meme-1.png' },
+      { id: 'meme-2', caption: 'Meme 2', uploadedAt: '2025-01-01T12:00:00.000Z', image: 'images/meme-2.png' }
+    ]);
+    expect(withoutState.state).toBeUndefined();
+    expect(withState.state.status).toBe('WAITING');
+  });
+
+  it('should reject a file that is not a zip archive', async () => {
+    expect(await readMemePackage(Buffer.from('not a zip'))).toEqual({ valid: false, error: 'File is not a zip archive' });
+  });
+
+  it('should reject a package without a valid manifest', async () => {
+    const image = await createImage();
+    const entry = { id: 'meme-1', caption: 'Meme 1', uploadedAt: '', image: 'images/meme-1.png' };
+
+    const cases: Array<Record<string, string | Buffer>> = [
+      { 'images/meme-1.png': image },
+      { 'manifest.json': '{"version": ' },
+      { 'manifest.json': manifestWith([entry], 99), 'images/meme-1.png': image },
+      { 'manifest.json': JSON.stringify({ version: PACKAGE_VERSION }) },
+      { 'manifest.json': manifestWith([{ ...entry, caption: undefined }]), 'images/meme-1.png': image },
+      { 'manifest.json': manifestWith([{ ...entry, image: 'images/meme-1.gif' }]), 'images/meme-1.gif': image },
+      { 'manifest.json': manifestWith([entry]) }
+    ];
+
+    for (const files of cases) {
+      const result = await readMemePackage(await createZip(files));
+      expect(result.valid).toBe(false);
+    }
+  });
+
+  it('should reject an image whose contents are not an image', async () => {
+    const entry = { id: 'meme-1', caption: 'Meme 1', uploadedAt: '', image: 'images/meme-1.png' };
+
+    const result = await readMemePackage(await createZip({
+      'manifest.json': manifestWith([entry]),
+      'images/meme-1.png': 'plain text'
+    }));
+
+    expect(result).toEqual({
+      valid: false,
+      error: 'images/meme-1.png: File contents do not match its type. Expected: image/png. Found: unknown'
+    });
+  });
+
+  it('should reject a manifest larger than the manifest size limit', async () => {
+    const result = await readMemePackage(await createZip({
+      'manifest.json': manifestWith([]).replace('"memes"', `"padding":"${'x'.repeat(1024 * 1024)}","memes"`)
+    }));
+
+    expect(result).toEqual({ valid: false, error: 'manifest.json exceeds maximum allowed size of 1MB' });
+  });
+
+  it('should reject a package with more memes than an archive may hold', async () => {
+    const entry = { id: 'meme-1', caption: 'Meme 1', uploadedAt: '', image: 'images/meme-1.png' };
+
+    const result = await readMemePackage(await createZip({
+      'manifest.json': manifestWith(Array.from({ length: MAX_ARCHIVE_ENTRIES + 1 }, () => entry)),
+      'images/meme-1.png': await createImage()
+    }));
+
+    expect(result).toEqual({ valid: false, error: `Package holds more than ${MAX_ARCHIVE_ENTRIES} memes` });
+  });
+
+  it('should stop unpacking once repeated images add up past the unpacked size limit', async () => {
+    const image = await createImage();
+    const entry = { id: 'meme-1', caption: 'Meme 1', uploadedAt: '', image: 'images/meme-1.png' };
+    // Unpacked images may add up to twice the archive limit: room for two copies, not three
+    vi.stubEnv('UPLOAD_MAX_ARCHIVE_SIZE_MB', String((image.length + 1) / 1024 / 1024));
+
+    const files = { 'images/meme-1.png': image };
+    const twice = await readMemePackage(await createZip({ ...files, 'manifest.json': manifestWith([entry, entry]) }));
+    const thrice = await readMemePackage(await createZip({ ...files, 'manifest.json': manifestWith([entry, entry, entry]) }));
+
+    expect(twice.valid).toBe(true);
+    expect(thrice).toEqual({ valid: false, error: expect.stringMatching(/^Package exceeds maximum unpacked size/) });
+  });
+});
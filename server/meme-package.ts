@@ -0,0 +1,226 @@
+import JSZip from 'jszip';
+import { readFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { randomUUID } from 'crypto';
+import { Meme, TournamentState } from '../types';
+import {
+  getMimeTypeFromFilename,
+  getUploadsDir,
+  saveUploadedImage,
+  validateFileContents,
+  validateFileType
+} from './image-processing';
+import { readArchiveEntry, MAX_ARCHIVE_ENTRIES, MAX_MANIFEST_SIZE, MAX_UNPACKED_RATIO } from './bulk-upload';
+import { getUploadLimits } from './upload-config';
+import { formatFileSize } from '../lib/file-size';
+
+/**
+ * Meme Package
+ *
+ * A zip that carries a meme pool from one installation to another, or keeps
+ * it as a backup: a manifest describing each meme, the image files next to
+ * it, and optionally the full tournament state. Importing a package runs the
+ * images through the upload pipeline again and gives the memes fresh IDs, so
+ * the same package can be imported more than once.
+ *
+ * Packages are untrusted and unpacked under the same limits as meme archives.
+ */
+
+export const PACKAGE_VERSION = 1;
+
+const MANIFEST_FILENAME = 'manifest.json';
+const IMAGES_FOLDER = 'images';
+
+/**
+ * A meme as described in the manifest of a package
+ */
+export interface MemePackageEntry {
+  id: string;          // ID in the installation the package came from
+  caption: string;
+  uploadedAt: string;
+  image: string;       // Path of the image file inside the package
+}
+
+/**
+ * Contents of manifest.json
+ */
+export interface MemePackageManifest {
+  version: number;
+  exportedAt: string;
+  memes: MemePackageEntry[];
+  state?: TournamentState;  // Full state, when exported along with the memes
+}
+
+/**
+ * A package whose manifest and images were checked, ready to be imported
+ */
+export interface MemePackage {
+  manifest: MemePackageManifest;
+  images: Buffer[];    // Image of each meme, in manifest order
+}
+
+/**
+ * Result of reading a package
+ */
+export type MemePackageReadResult =
+  | { valid: true; memePackage: MemePackage }
+  | { valid: false; error: string };
+
+/**
+ * Bundle memes and their images into a package
+ * @param memes - Memes to include, in the order they should be imported
+ * @param state - Tournament state to include, if any
+ * @returns Contents of the zip file
+ */
+export async function createMemePackage(memes: Meme[], state?: TournamentState | null): Promise<Buffer> {
+  const zip = new JSZip();
+  const entries: MemePackageEntry[] = [];
+
+  for (const meme of memes) {
+    // Only the filename is kept, so an image URL cannot point outside the uploads directory
+    const filename = basename(meme.imageUrl);
+    const image = await readFile(join(getUploadsDir(), filename));
+    const imagePath = `${IMAGES_FOLDER}/${filename}`;
+
+    zip.file(imagePath, image);
+    entries.push({
+      id: meme.id,
+      caption: meme.caption,
+      uploadedAt: new Date(meme.uploadedAt).toISOString(),
+      image: imagePath
+    });
+  }
+
+  const manifest: MemePackageManifest = {
+    version: PACKAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    memes: entries,
+    ...(state ? { state } : {})
+  };
+  zip.file(MANIFEST_FILENAME, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * Check that a manifest entry describes a meme
+ */
+function validateEntry(entry: unknown, index: number): { valid: boolean; error?: string } {
+  if (!entry || typeof entry !== 'object') {
+    return { valid: false, error: `Meme ${index + 1} is not an object` };
+  }
+  if (!('caption' in entry) || typeof entry.caption !== 'string') {
+    return { valid: false, error: `Meme ${index + 1} has no caption` };
+  }
+  if (!('image' in entry) || typeof entry.image !== 'string') {
+    return { valid: false, error: `Meme ${index + 1} has no image` };
+  }
+
+  const typeValidation = validateFileType(getMimeTypeFromFilename(entry.image));
+  if (!typeValidation.valid) {
+    return { valid: false, error: `${entry.image}: ${typeValidation.error}` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Open a package and check its manifest and every image it references
+ * @param data - Contents of the zip file
+ * @returns The package, or why it cannot be imported
+ */
+export async function readMemePackage(data: Buffer): Promise<MemePackageReadResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    return { valid: false, error: 'File is not a zip archive' };
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILENAME);
+  if (!manifestFile) {
+    return { valid: false, error: `Package has no ${MANIFEST_FILENAME}` };
+  }
+
+  const manifestContents = await readArchiveEntry(manifestFile, MAX_MANIFEST_SIZE);
+  if (!manifestContents) {
+    return { valid: false, error: `${MANIFEST_FILENAME} exceeds maximum allowed size of ${formatFileSize(MAX_MANIFEST_SIZE)}` };
+  }
+
+  let manifest: MemePackageManifest;
+  try {
+    manifest = JSON.parse(manifestContents.toString('utf-8'));
+  } catch {
+    return { valid: false, error: `${MANIFEST_FILENAME} is not valid JSON` };
+  }
+
+  if (manifest?.version !== PACKAGE_VERSION) {
+    return { valid: false, error: `Unsupported package version: ${manifest?.version ?? 'none'}` };
+  }
+  if (!Array.isArray(manifest.memes)) {
+    return { valid: false, error: `${MANIFEST_FILENAME} has no meme list` };
+  }
+  if (manifest.memes.length > MAX_ARCHIVE_ENTRIES) {
+    return { valid: false, error: `Package holds more than ${MAX_ARCHIVE_ENTRIES} memes` };
+  }
+
+  const { maxFileSize, maxArchiveSize } = getUploadLimits();
+  const maxUnpackedSize = maxArchiveSize * MAX_UNPACKED_RATIO;
+  const images: Buffer[] = [];
+  let unpackedSize = 0;
+  for (const [index, entry] of manifest.memes.entries()) {
+    const entryValidation = validateEntry(entry, index);
+    if (!entryValidation.valid) {
+      return { valid: false, error: entryValidation.error! };
+    }
+
+    const imageFile = zip.file(entry.image);
+    if (!imageFile) {
+      return { valid: false, error: `Image not found in package: ${entry.image}` };
+    }
+
+    // Entries may repeat an image, so the running total is what bounds memory
+    const limit = Math.min(maxFileSize, maxUnpackedSize - unpackedSize);
+    const image = limit > 0 ? await readArchiveEntry(imageFile, limit) : null;
+    if (!image) {
+      return {
+        valid: false,
+        error: limit < maxFileSize
+          ? `Package exceeds maximum unpacked size of ${formatFileSize(maxUnpackedSize)}`
+          : `${entry.image}: File size exceeds maximum allowed size of ${formatFileSize(maxFileSize)}`
+      };
+    }
+    unpackedSize += image.length;
+
+    // The extension is only a name; the contents must be an image of that type
+    const contentValidation = validateFileContents(image, getMimeTypeFromFilename(entry.image));
+    if (!contentValidation.valid) {
+      return { valid: false, error: `${entry.image}: ${contentValidation.error}` };
+    }
+
+    images.push(image);
+  }
+
+  return { valid: true, memePackage: { manifest, images } };
+}
+
+/**
+ * Store the images of a package and create its memes under fresh IDs
+ * @param memePackage - Package returned by readMemePackage
+ * @returns The new memes, in manifest order
+ */
+export async function importMemePackage(memePackage: MemePackage): Promise<Meme[]> {
+  const memes: Meme[] = [];
+
+  for (const [index, entry] of memePackage.manifest.memes.entries()) {
+    const { imageUrl, variants } = await saveUploadedImage(memePackage.images[index], entry.image);
+    memes.push({
+      id: randomUUID(),
+      imageUrl,
+      variants,
+      caption: entry.caption,
+      uploadedAt: new Date()
+    });
+  }
+
+  return memes;
+}
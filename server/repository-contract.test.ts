@@ -2,10 +2,15 @@
  * @vitest-environment node
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fc from 'fast-check';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { InMemoryTournamentRepository } from './in-memory-repository';
-import { TournamentState, Meme, Match, Round, MatchStatus, TournamentStatus } from '../types';
+import { FileTournamentRepository } from './file-repository';
+import { createMemes } from './test-helpers';
+import { ITournamentRepository, TournamentState, Meme, Match, Round, MatchStatus, TournamentStatus } from '../types';
 
 /**
  * **Feature: meme-championship, Property 28: Repository Method Substitutability**
@@ -14,13 +19,29 @@ import { TournamentState, Meme, Match, Round, MatchStatus, TournamentStatus } fr
  * and then retrieving it should return an equivalent state object.
  * 
  * **Validates: Requirements 10.4**
+ *
+ * Every implementation runs the same contract suite.
  */
 
-describe('InMemoryTournamentRepository - Property-Based Tests', () => {
-  let repository: InMemoryTournamentRepository;
+/**
+ * Repository implementations under test, each created in its own data directory
+ */
+const implementations: Array<[string, (dataDir: string) => ITournamentRepository]> = [
+  ['InMemoryTournamentRepository', () => new InMemoryTournamentRepository()],
+  ['FileTournamentRepository', (dataDir) => new FileTournamentRepository(join(dataDir, 'tournament.json'))],
+];
+
+describe.each(implementations)('%s - Repository Contract', (_name, createRepository) => {
+  let repository: ITournamentRepository;
+  let dataDir: string;
 
   beforeEach(() => {
-    repository = new InMemoryTournamentRepository();
+    dataDir = mkdtempSync(join(tmpdir(), 'tournament-repository-'));
+    repository = createRepository(dataDir);
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
   });
 
   // ============================================================================
@@ -274,4 +295,70 @@ describe('InMemoryTournamentRepository - Property-Based Tests', () => {
       { numRuns: 100 }
     );
   });
+
+  // ============================================================================
+  // Unit Tests
+  // ============================================================================
+
+  it('should start empty', async () => {
+    expect(await repository.getState()).toBeNull();
+    expect(await repository.getMemes()).toEqual([]);
+    expect(await repository.getMemeById('missing')).toBeNull();
+    expect(await repository.getMatchById('missing')).toBeNull();
+  });
+
+  it('should create a waiting state when a meme is added without one', async () => {
+    const meme: Meme = { id: 'meme-1', imageUrl: '/uploads/meme-1.jpg', caption: 'Meme 1', uploadedAt: new Date() };
+
+    await repository.addMeme(meme);
+
+    const state = await repository.getState();
+    expect(state?.status).toBe('WAITING');
+    expect(state?.memes).toEqual([meme]);
+  });
+
+  it('should update a match in the bracket and as the current match', async () => {
+    const memes = createMemes(2);
+    const match: Match = {
+      id: 'match-1',
+      roundIndex: 0,
+      matchIndex: 0,
+      leftMeme: memes[0],
+      rightMeme: memes[1],
+      votes: { left: 0, right: 0 },
+      timeRemaining: 30,
+      totalTime: 30,
+      status: 'IN_PROGRESS',
+      winner: null,
+      startedAt: new Date(),
+      completedAt: null,
+    };
+    await repository.setState({
+      status: 'DUEL_IN_PROGRESS',
+      memes,
+      bracket: [{ roundIndex: 0, matches: [match], completed: false }],
+      currentMatch: match,
+      winner: null,
+      config: { votingTimeSeconds: 30 },
+    });
+
+    const updatedMatch: Match = { ...match, votes: { left: 3, right: 1 } };
+    await repository.updateMatch(updatedMatch);
+
+    const state = await repository.getState();
+    expect(state?.bracket[0].matches[0]).toEqual(updatedMatch);
+    expect(state?.currentMatch).toEqual(updatedMatch);
+  });
+
+  it('should keep vote locks until the state is cleared', async () => {
+    const locks = { 'match-1': ['session-a', 'session-b'], 'match-2': ['session-a'] };
+
+    expect(await repository.getVoteLocks()).toEqual({});
+
+    await repository.setVoteLocks(locks);
+    expect(await repository.getVoteLocks()).toEqual(locks);
+
+    await repository.clearState();
+    expect(await repository.getVoteLocks()).toEqual({});
+  });
 });
@@ -1,4 +1,28 @@
+import { readdirSync } from 'fs';
+import { unlink } from 'fs/promises';
+import { join } from 'path';
+import { ITournamentRepository, ITournamentArchive } from '../types';
 import { InMemoryTournamentRepository } from './in-memory-repository';
+import { FileTournamentRepository } from './file-repository';
+import { InMemoryTournamentArchive } from './in-memory-archive';
+import { FileTournamentArchive } from './file-archive';
+
+/**
+ * Data file used by the file storage when TOURNAMENT_DATA_FILE is not set
+ */
+const DEFAULT_DATA_FILE = 'data/tournament.json';
+
+/**
+ * Directory used by the file storage for the tournament history when
+ * TOURNAMENT_ARCHIVE_DIR is not set
+ */
+const DEFAULT_ARCHIVE_DIR = 'data/archive';
+
+/**
+ * Directory used by the file storage for rooms, one data file per room, when
+ * TOURNAMENT_ROOMS_DIR is not set
+ */
+const DEFAULT_ROOMS_DIR = 'data/rooms';
 
 /**
  * Singleton instance of the tournament repository
@@ -6,12 +30,105 @@ import { InMemoryTournamentRepository } from './in-memory-repository';
  * Uses global to persist across hot reloads in development
  */
 declare global {
-  var __tournamentRepository: InMemoryTournamentRepository | undefined;
+  var __tournamentRepository: ITournamentRepository | undefined;
+  var __tournamentArchive: ITournamentArchive | undefined;
+}
+
+/**
+ * Create the repository chosen by configuration
+ * TOURNAMENT_STORAGE=file keeps the tournament in a JSON file that survives
+ * restarts; anything else keeps it in memory
+ * @param dataFile - Data file used by the file storage
+ */
+function createRepository(dataFile: string): ITournamentRepository {
+  const storage = process.env.TOURNAMENT_STORAGE || 'memory';
+
+  if (storage === 'file') {
+    return new FileTournamentRepository(dataFile);
+  }
+
+  if (storage !== 'memory') {
+    console.warn(`Unknown TOURNAMENT_STORAGE "${storage}", keeping the tournament in memory`);
+  }
+  return new InMemoryTournamentRepository();
 }
 
-export function getRepositoryInstance(): InMemoryTournamentRepository {
+export function getRepositoryInstance(): ITournamentRepository {
   if (!global.__tournamentRepository) {
-    global.__tournamentRepository = new InMemoryTournamentRepository();
+    global.__tournamentRepository = createRepository(process.env.TOURNAMENT_DATA_FILE || DEFAULT_DATA_FILE);
   }
   return global.__tournamentRepository;
 }
+
+/**
+ * Get the directory holding the data files of rooms
+ */
+function getRoomsDir(): string {
+  return process.env.TOURNAMENT_ROOMS_DIR || DEFAULT_ROOMS_DIR;
+}
+
+/**
+ * Create the repository of a room, kept with the same storage as the
+ * default tournament
+ * @param code - Room code, which names the room's data file
+ */
+export function createRoomRepository(code: string): ITournamentRepository {
+  return createRepository(join(getRoomsDir(), `${code}.json`));
+}
+
+/**
+ * Get the codes of the rooms the file storage holds, so they can be opened
+ * again after a restart
+ * @returns Room codes; none with memory storage
+ */
+export function getStoredRoomCodes(): string[] {
+  if (process.env.TOURNAMENT_STORAGE !== 'file') {
+    return [];
+  }
+
+  try {
+    return readdirSync(getRoomsDir())
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete the data file of a removed room, if the file storage holds one
+ * @param code - Room code
+ */
+export async function deleteRoomData(code: string): Promise<void> {
+  if (process.env.TOURNAMENT_STORAGE !== 'file') {
+    return;
+  }
+
+  try {
+    await unlink(join(getRoomsDir(), `${code}.json`));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Create the tournament history, kept with the same storage as the tournament
+ */
+function createArchive(): ITournamentArchive {
+  if (process.env.TOURNAMENT_STORAGE === 'file') {
+    return new FileTournamentArchive(process.env.TOURNAMENT_ARCHIVE_DIR || DEFAULT_ARCHIVE_DIR);
+  }
+  return new InMemoryTournamentArchive();
+}
+
+export function getArchiveInstance(): ITournamentArchive {
+  if (!global.__tournamentArchive) {
+    global.__tournamentArchive = createArchive();
+  }
+  return global.__tournamentArchive;
+}
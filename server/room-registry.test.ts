@@ -0,0 +1,106 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RoomRegistry, ROOM_CODE_LENGTH, getRoomRepository, getRoomRegistry } from './room-registry';
+import { deleteRoomData, getRepositoryInstance } from './repository-singleton';
+import { createMemes } from './test-helpers';
+
+describe('RoomRegistry', () => {
+  let registry: RoomRegistry;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    registry = new RoomRegistry();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // ============================================================================
+  // Property Tests
+  // ============================================================================
+
+  // Feature: rooms, Property 1: Every room gets a distinct join code and its own repository
+  it('should give every room a distinct code and repository', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 30 }), async (count) => {
+        registry = new RoomRegistry();
+        const rooms = Array.from({ length: count }, () => registry.createRoom());
+
+        expect(new Set(rooms.map(room => room.code)).size).toBe(count);
+        expect(new Set(rooms.map(room => room.repository)).size).toBe(count);
+        expect(rooms.every(room => new RegExp(`^[A-Z2-9]{${ROOM_CODE_LENGTH}}$`).test(room.code))).toBe(true);
+        expect(rooms.every(room => registry.getRoom(room.code.toLowerCase()) === room)).toBe(true);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  // ============================================================================
+  // Unit Tests
+  // ============================================================================
+
+  it('should report a room as idle only after the timeout without activity', () => {
+    const room = registry.createRoom();
+
+    vi.advanceTimersByTime(59_000);
+    expect(registry.getIdleRooms(60_000)).toEqual([]);
+
+    registry.touch(room.code);
+    vi.advanceTimersByTime(59_000);
+    expect(registry.getIdleRooms(60_000)).toEqual([]);
+
+    vi.advanceTimersByTime(1_000);
+    expect(registry.getIdleRooms(60_000)).toEqual([room]);
+  });
+
+  it('should forget a removed room', () => {
+    const room = registry.createRoom();
+
+    registry.removeRoom(room.code);
+
+    expect(registry.getRoom(room.code)).toBeNull();
+    expect(registry.getRoomCount()).toBe(0);
+  });
+
+  it('should resolve repositories by room code, defaulting to the shared one', () => {
+    const room = getRoomRegistry().createRoom();
+
+    expect(getRoomRepository(null)).toBe(getRepositoryInstance());
+    expect(getRoomRepository(room.code)).toBe(room.repository);
+    expect(getRoomRepository('NOPE1')).toBeNull();
+
+    getRoomRegistry().removeRoom(room.code);
+  });
+
+  it('should open rooms kept by the file storage again after a restart', async () => {
+    const roomsDir = mkdtempSync(join(tmpdir(), 'tournament-rooms-'));
+    vi.stubEnv('TOURNAMENT_STORAGE', 'file');
+    vi.stubEnv('TOURNAMENT_ROOMS_DIR', roomsDir);
+
+    try {
+      const room = new RoomRegistry().createRoom();
+      const [meme] = createMemes(1);
+      await room.repository.addMeme(meme);
+
+      // A new registry stands for the server starting again
+      const restarted = new RoomRegistry().getRoom(room.code);
+      expect(restarted).not.toBeNull();
+      expect(await restarted!.repository.getMemes()).toEqual([meme]);
+
+      await deleteRoomData(room.code);
+      expect(existsSync(join(roomsDir, `${room.code}.json`))).toBe(false);
+      expect(new RoomRegistry().getRoomCount()).toBe(0);
+    } finally {
+      vi.unstubAllEnvs();
+      rmSync(roomsDir, { recursive: true, force: true });
+    }
+  });
+});
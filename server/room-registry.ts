@@ -0,0 +1,153 @@
+import { randomInt } from 'crypto';
+import { createRoomRepository, getRepositoryInstance, getStoredRoomCodes } from './repository-singleton';
+import { ITournamentRepository } from '../types';
+
+/**
+ * Room Registry
+ *
+ * Keeps the tournaments created as rooms, each reached by a short join code
+ * and holding its own repository. Room repositories use the same storage as
+ * the default tournament, so with file storage the rooms open again after a
+ * restart. The tournament served at / and /admin-view is not a room: it lives
+ * in the shared repository singleton and is never cleaned up.
+ */
+
+/**
+ * Characters room codes are made of, leaving out look-alikes such as 0/O and 1/I
+ */
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const ROOM_CODE_LENGTH = 5;
+
+export interface RoomEntry {
+  code: string;
+  repository: ITournamentRepository;
+  createdAt: Date;
+  lastActiveAt: number;   // Epoch ms of the last connection, disconnection or upload
+}
+
+export class RoomRegistry {
+  // Map: room code → room
+  private rooms: Map<string, RoomEntry>;
+
+  constructor() {
+    this.rooms = new Map();
+
+    // Stored rooms get a full idle timeout for their clients to reconnect
+    for (const code of getStoredRoomCodes()) {
+      this.openRoom(code);
+    }
+  }
+
+  /**
+   * Create a room with an empty repository
+   * @returns The new room
+   */
+  createRoom(): RoomEntry {
+    return this.openRoom(this.generateRoomCode());
+  }
+
+  /**
+   * Get a room by its code
+   * @param code - Room code, in any letter case
+   * @returns The room, or null if no room has this code
+   */
+  getRoom(code: string): RoomEntry | null {
+    return this.rooms.get(code.trim().toUpperCase()) || null;
+  }
+
+  /**
+   * Record activity in a room, postponing its cleanup
+   * @param code - Room code
+   */
+  touch(code: string): void {
+    const room = this.getRoom(code);
+    if (room) {
+      room.lastActiveAt = Date.now();
+    }
+  }
+
+  /**
+   * Get every room
+   */
+  getRooms(): RoomEntry[] {
+    return Array.from(this.rooms.values());
+  }
+
+  /**
+   * Get the rooms with no activity for a while
+   * @param idleMs - Milliseconds without activity after which a room is idle
+   * @returns Idle rooms
+   */
+  getIdleRooms(idleMs: number): RoomEntry[] {
+    const now = Date.now();
+    return Array.from(this.rooms.values()).filter(room => now - room.lastActiveAt >= idleMs);
+  }
+
+  /**
+   * Remove a room
+   * @param code - Room code
+   */
+  removeRoom(code: string): void {
+    this.rooms.delete(code.trim().toUpperCase());
+  }
+
+  /**
+   * Get the number of rooms
+   */
+  getRoomCount(): number {
+    return this.rooms.size;
+  }
+
+  /**
+   * Register a room and open its repository
+   * @param code - Room code
+   */
+  private openRoom(code: string): RoomEntry {
+    const room: RoomEntry = {
+      code,
+      repository: createRoomRepository(code),
+      createdAt: new Date(),
+      lastActiveAt: Date.now()
+    };
+    this.rooms.set(code, room);
+    return room;
+  }
+
+  /**
+   * Generate a room code that no current room uses
+   */
+  private generateRoomCode(): string {
+    let code: string;
+    do {
+      code = Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)]).join('');
+    } while (this.rooms.has(code));
+    return code;
+  }
+}
+
+/**
+ * Singleton instance of the room registry
+ * Uses global so API routes and the WebSocket server see the same rooms
+ */
+declare global {
+  var __roomRegistry: RoomRegistry | undefined;
+}
+
+export function getRoomRegistry(): RoomRegistry {
+  if (!global.__roomRegistry) {
+    global.__roomRegistry = new RoomRegistry();
+  }
+  return global.__roomRegistry;
+}
+
+/**
+ * Get the repository of a room, or of the default tournament without a code
+ * @param code - Room code, if any
+ * @returns The repository, or null if the code matches no room
+ */
+export function getRoomRepository(code?: string | null): ITournamentRepository | null {
+  if (!code) {
+    return getRepositoryInstance();
+  }
+  return getRoomRegistry().getRoom(code)?.repository || null;
+}
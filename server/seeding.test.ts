@@ -0,0 +1,106 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { seedMemes, getPastResultsRanking, getSeedMap } from './seeding';
+import { createMemes } from './test-helpers';
+import { Meme, Match, TournamentState } from '../types';
+
+describe('Seeding - Property-Based Tests', () => {
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  const ids = (memes: Meme[]) => memes.map(meme => meme.id);
+
+  const completedMatch = (left: Meme, right: Meme, winner: Meme): Match => ({
+    id: `${left.id}-${right.id}`,
+    roundIndex: 0,
+    matchIndex: 0,
+    leftMeme: left,
+    rightMeme: right,
+    votes: { left: winner === left ? 1 : 0, right: winner === right ? 1 : 0 },
+    timeRemaining: 0,
+    totalTime: 30,
+    status: 'COMPLETED',
+    winner,
+    startedAt: new Date(),
+    completedAt: new Date(),
+  });
+
+  // ============================================================================
+  // Property Tests
+  // ============================================================================
+
+  // Feature: seeding, Property 2: Every strategy produces a permutation
+  it('should seed every meme exactly once', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 2, max: 20 }),
+        fc.constantFrom('RANDOM' as const, 'UPLOAD_ORDER' as const, 'MANUAL' as const),
+        fc.array(fc.nat({ max: 25 }), { maxLength: 25 }),
+        (memeCount, strategy, order) => {
+          const memes = createMemes(memeCount);
+          const seeded = seedMemes(memes, strategy, { seedOrder: order.map(i => `meme-${i}`) });
+
+          expect([...ids(seeded)].sort()).toEqual([...ids(memes)].sort());
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  // ============================================================================
+  // Unit Tests
+  // ============================================================================
+
+  it('should keep upload order', () => {
+    const memes = createMemes(4);
+    expect(ids(seedMemes(memes, 'UPLOAD_ORDER'))).toEqual(ids(memes));
+  });
+
+  it('should shuffle using the provided randomness', () => {
+    const memes = createMemes(4);
+    // Always picking index 0 rotates the array one step per swap
+    expect(ids(seedMemes(memes, 'RANDOM', { random: () => 0 }))).toEqual(['meme-2', 'meme-3', 'meme-4', 'meme-1']);
+  });
+
+  it('should follow the manual order and append unlisted memes', () => {
+    const memes = createMemes(4);
+    const seeded = seedMemes(memes, 'MANUAL', { seedOrder: ['meme-3', 'unknown', 'meme-1'] });
+
+    expect(ids(seeded)).toEqual(['meme-3', 'meme-1', 'meme-2', 'meme-4']);
+  });
+
+  it('should rank past results with the champion first', () => {
+    const [a, b, c, d] = createMemes(4);
+    const previousState: TournamentState = {
+      status: 'TOURNAMENT_FINISHED',
+      memes: [a, b, c, d],
+      bracket: [
+        { roundIndex: 0, completed: true, matches: [completedMatch(a, d, d), completedMatch(b, c, c)] },
+        { roundIndex: 1, completed: true, matches: [completedMatch(d, c, c)] },
+      ],
+      currentMatch: null,
+      winner: c,
+      config: { votingTimeSeconds: 30 },
+    };
+
+    expect(getPastResultsRanking(previousState)).toEqual(['meme-3', 'meme-4', 'meme-1', 'meme-2']);
+    expect(ids(seedMemes([a, b, c, d], 'PAST_RESULTS', { previousState }))).toEqual([
+      'meme-3', 'meme-4', 'meme-1', 'meme-2',
+    ]);
+  });
+
+  it('should reject past results seeding without a finished tournament', () => {
+    expect(() => seedMemes(createMemes(2), 'PAST_RESULTS', { previousState: null })).toThrow(
+      'No finished tournament to seed from'
+    );
+  });
+
+  it('should map meme IDs to 1-based seeds', () => {
+    expect(getSeedMap(createMemes(3))).toEqual({ 'meme-1': 1, 'meme-2': 2, 'meme-3': 3 });
+  });
+});
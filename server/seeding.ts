@@ -0,0 +1,129 @@
+import { Meme, SeedingStrategy, TournamentState } from '../types';
+import { calculateStandings } from './standings';
+import { getArchiveInstance } from './repository-singleton';
+
+/**
+ * Seeding
+ *
+ * Orders memes into seeds before a bracket or schedule is generated.
+ * Index 0 of the returned array is seed 1.
+ */
+
+/**
+ * Options for seeding
+ */
+export interface SeedingOptions {
+  seedOrder?: string[];                    // MANUAL: meme IDs from seed 1 downwards
+  previousState?: TournamentState | null;  // PAST_RESULTS: the last finished tournament
+  random?: () => number;                   // RANDOM: source of randomness (defaults to Math.random)
+}
+
+/**
+ * Order memes into seeds using the chosen strategy
+ * Memes missing from a manual order or from past results are seeded
+ * after the ranked ones, in upload order
+ *
+ * @param memes - Memes in upload order
+ * @param strategy - Seeding strategy
+ * @param options - Data required by the strategy
+ * @returns Memes ordered by seed
+ */
+export function seedMemes(
+  memes: Meme[],
+  strategy: SeedingStrategy,
+  options: SeedingOptions = {}
+): Meme[] {
+  switch (strategy) {
+    case 'RANDOM':
+      return shuffle(memes, options.random || Math.random);
+    case 'MANUAL':
+      return orderByIds(memes, options.seedOrder || []);
+    case 'PAST_RESULTS':
+      if (!options.previousState || options.previousState.status !== 'TOURNAMENT_FINISHED') {
+        throw new Error('No finished tournament to seed from');
+      }
+      return orderByIds(memes, getPastResultsRanking(options.previousState));
+    case 'UPLOAD_ORDER':
+    default:
+      return [...memes];
+  }
+}
+
+/**
+ * Find the finished tournament to seed past results from
+ * That is the tournament being replaced if it has finished, else the most
+ * recently archived one, as a reset archives a finished tournament and
+ * clears the live state
+ *
+ * @param currentState - Live state of the tournament being replaced
+ * @returns Final state of the last finished tournament, or null if none has finished
+ */
+export async function getPreviousTournament(currentState: TournamentState | null): Promise<TournamentState | null> {
+  if (currentState?.status === 'TOURNAMENT_FINISHED') {
+    return currentState;
+  }
+
+  const [latest] = await getArchiveInstance().getTournaments();
+  return latest?.state || null;
+}
+
+/**
+ * Rank the memes of a finished tournament
+ * League formats use their final standings; elimination brackets are ranked
+ * with the same table (wins first, then head-to-head) and the champion on top
+ *
+ * @param state - Finished tournament state
+ * @returns Meme IDs from best to worst
+ */
+export function getPastResultsRanking(state: TournamentState): string[] {
+  const standings = state.standings || calculateStandings(state.memes, state.bracket, { jury: state.config });
+  const ranking = standings.map(entry => entry.meme.id);
+
+  if (state.winner) {
+    return [state.winner.id, ...ranking.filter(id => id !== state.winner!.id)];
+  }
+  return ranking;
+}
+
+/**
+ * Build the meme ID → seed map stored on the tournament state
+ *
+ * @param seededMemes - Memes ordered by seed
+ */
+export function getSeedMap(seededMemes: Meme[]): Record<string, number> {
+  const seeds: Record<string, number> = {};
+  seededMemes.forEach((meme, index) => {
+    seeds[meme.id] = index + 1;
+  });
+  return seeds;
+}
+
+/**
+ * Fisher-Yates shuffle returning a new array
+ */
+function shuffle(memes: Meme[], random: () => number): Meme[] {
+  const shuffled = [...memes];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Order memes by a list of IDs, appending unlisted memes in their original order
+ */
+function orderByIds(memes: Meme[], ids: string[]): Meme[] {
+  const byId = new Map(memes.map(meme => [meme.id, meme]));
+  const ordered: Meme[] = [];
+
+  for (const id of ids) {
+    const meme = byId.get(id);
+    if (meme) {
+      ordered.push(meme);
+      byId.delete(id);
+    }
+  }
+
+  return [...ordered, ...memes.filter(meme => byId.has(meme.id))];
+}
@@ -0,0 +1,156 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { calculateStandings, STANDINGS_POINTS } from './standings';
+import { createMemes } from './test-helpers';
+import { Meme, Match, Round } from '../types';
+
+describe('Standings - Property-Based Tests', () => {
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  /**
+   * Create a completed match; the winner follows the votes (null on a tie)
+   */
+  const completedMatch = (left: Meme, right: Meme, leftVotes: number, rightVotes: number): Match => ({
+    id: `${left.id}-${right.id}`,
+    roundIndex: 0,
+    matchIndex: 0,
+    leftMeme: left,
+    rightMeme: right,
+    votes: { left: leftVotes, right: rightVotes },
+    timeRemaining: 0,
+    totalTime: 30,
+    status: 'COMPLETED',
+    winner: leftVotes === rightVotes ? null : leftVotes > rightVotes ? left : right,
+    startedAt: new Date(),
+    completedAt: new Date(),
+  });
+
+  const round = (matches: Match[], bye: Meme | null = null, completed = true): Round => ({
+    roundIndex: 0,
+    matches,
+    completed,
+    bye,
+  });
+
+  // ============================================================================
+  // Property Tests
+  // ============================================================================
+
+  // Feature: league-formats, Property 3: Standings conservation
+  it('should balance wins with losses and votes for with votes against', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 2, max: 8 }),
+        fc.array(fc.tuple(fc.nat(), fc.nat(), fc.nat({ max: 5 }), fc.nat({ max: 5 })), { maxLength: 20 }),
+        (memeCount, results) => {
+          const memes = createMemes(memeCount);
+          const matches = results
+            .map(([a, b, leftVotes, rightVotes]) => [memes[a % memeCount], memes[b % memeCount], leftVotes, rightVotes] as const)
+            .filter(([left, right]) => left.id !== right.id)
+            .map(([left, right, leftVotes, rightVotes]) => completedMatch(left, right, leftVotes, rightVotes));
+
+          const standings = calculateStandings(memes, [round(matches)]);
+          const total = (key: 'wins' | 'losses' | 'draws' | 'votesFor' | 'votesAgainst' | 'played') =>
+            standings.reduce((sum, entry) => sum + entry[key], 0);
+
+          expect(total('wins')).toBe(total('losses'));
+          expect(total('votesFor')).toBe(total('votesAgainst'));
+          expect(total('played')).toBe(matches.length * 2);
+          expect(total('draws') % 2).toBe(0);
+          expect(standings.map(entry => entry.rank)).toEqual(standings.map((_, i) => i + 1));
+
+          // Points never increase down the table
+          for (let i = 1; i < standings.length; i++) {
+            expect(standings[i].points).toBeLessThanOrEqual(standings[i - 1].points);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  // ============================================================================
+  // Unit Tests
+  // ============================================================================
+
+  it('should award points for wins and draws', () => {
+    const [a, b, c] = createMemes(3);
+    const standings = calculateStandings([a, b, c], [
+      round([completedMatch(a, b, 3, 1), completedMatch(b, c, 2, 2)]),
+    ]);
+
+    const points = Object.fromEntries(standings.map(entry => [entry.meme.id, entry.points]));
+    expect(points).toEqual({
+      [a.id]: STANDINGS_POINTS.win,
+      [b.id]: STANDINGS_POINTS.loss + STANDINGS_POINTS.draw,
+      [c.id]: STANDINGS_POINTS.draw,
+    });
+  });
+
+  it('should break ties on points by head-to-head before vote differential', () => {
+    const [a, b, c, d] = createMemes(4);
+    // a and b both have 3 points; b beat a head-to-head but a has the better differential
+    const standings = calculateStandings([a, b, c, d], [
+      round([
+        completedMatch(a, c, 10, 0),
+        completedMatch(b, a, 2, 1),
+        completedMatch(d, b, 1, 0),
+        completedMatch(c, d, 1, 1),
+      ]),
+    ]);
+
+    expect(standings.map(entry => entry.meme.id)).toEqual([d.id, b.id, a.id, c.id]);
+  });
+
+  it('should break remaining ties by vote differential, then votes received', () => {
+    const [a, b, c, d] = createMemes(4);
+    const standings = calculateStandings([a, b, c, d], [
+      round([completedMatch(a, c, 3, 2), completedMatch(b, d, 5, 1)]),
+    ]);
+
+    expect(standings.map(entry => entry.meme.id)).toEqual([b.id, a.id, c.id, d.id]);
+  });
+
+  it('should only count byes as wins when requested and the round is completed', () => {
+    const [a, b, c] = createMemes(3);
+    const bracket = [round([completedMatch(a, b, 1, 0)], c)];
+
+    expect(calculateStandings([a, b, c], bracket).find(e => e.meme.id === c.id)!.points).toBe(0);
+    expect(
+      calculateStandings([a, b, c], bracket, { countByesAsWins: true }).find(e => e.meme.id === c.id)!.points
+    ).toBe(STANDINGS_POINTS.win);
+    expect(
+      calculateStandings([a, b, c], [round([], c, false)], { countByesAsWins: true })
+        .find(e => e.meme.id === c.id)!.points
+    ).toBe(0);
+  });
+
+  it('should ignore matches that are not completed', () => {
+    const [a, b] = createMemes(2);
+    const pending = { ...completedMatch(a, b, 4, 0), status: 'IN_PROGRESS' as const, winner: null };
+
+    const standings = calculateStandings([a, b], [round([pending])]);
+    expect(standings.every(entry => entry.played === 0)).toBe(true);
+    expect(standings.map(entry => entry.meme.id)).toEqual([a.id, b.id]);
+  });
+
+  it('should count judge votes the way the match scores them', () => {
+    const [a, b, c, d] = createMemes(4);
+    // a wins on the jury, c on the audience alone: a's jury-weighted margin is the larger one
+    const juryWin = { ...completedMatch(a, b, 1, 3), winner: a, juryVotes: { left: 2, right: 0 } };
+    const audienceWin = completedMatch(c, d, 3, 1);
+
+    const standings = calculateStandings([c, d, a, b], [round([juryWin, audienceWin])], {
+      jury: { juryScoring: 'WEIGHTED', juryWeight: 3 }
+    });
+
+    expect(standings.map(entry => entry.meme.id)).toEqual([a.id, c.id, d.id, b.id]);
+    expect(standings[0]).toMatchObject({ votesFor: 7, votesAgainst: 3, voteDifferential: 4 });
+  });
+});
@@ -0,0 +1,176 @@
+import { Meme, Round, StandingsEntry } from '../types';
+import { hasBothMemes } from '../lib/heats';
+import { getMatchScore, roundScore, JurySettings } from '../lib/jury';
+
+/**
+ * Standings
+ *
+ * Builds the standings table for league formats (round-robin and Swiss) from
+ * the completed matches of the bracket.
+ */
+
+/**
+ * Points awarded per result
+ */
+export const STANDINGS_POINTS = {
+  win: 3,
+  draw: 1,
+  loss: 0
+};
+
+/**
+ * Options for standings calculation
+ */
+export interface StandingsOptions {
+  countByesAsWins?: boolean;   // Swiss awards a win for a bye; round-robin byes are neutral
+  jury?: JurySettings;         // How judge votes count; without it only audience votes do
+}
+
+/**
+ * Calculate standings from the completed matches of a bracket
+ * Ranking order: points, head-to-head points among tied memes,
+ * vote differential, votes received, then the original meme order
+ * Votes are counted as match scores, so judge votes weigh here as they did
+ * in deciding each match
+ *
+ * @param memes - Memes in the tournament, in seed order
+ * @param bracket - Rounds played so far
+ * @param options - Standings options
+ * @returns Standings entries sorted by rank
+ */
+export function calculateStandings(
+  memes: Meme[],
+  bracket: Round[],
+  options: StandingsOptions = {}
+): StandingsEntry[] {
+  const entries = new Map<string, StandingsEntry>();
+  memes.forEach(meme => {
+    entries.set(meme.id, {
+      meme,
+      rank: 0,
+      played: 0,
+      wins: 0,
+      draws: 0,
+      losses: 0,
+      points: 0,
+      votesFor: 0,
+      votesAgainst: 0,
+      voteDifferential: 0
+    });
+  });
+
+  for (const round of bracket) {
+    if (options.countByesAsWins && round.bye && round.completed) {
+      const entry = entries.get(round.bye.id);
+      if (entry) {
+        entry.wins += 1;
+        entry.points += STANDINGS_POINTS.win;
+      }
+    }
+
+    for (const match of round.matches) {
+      if (match.status !== 'COMPLETED' || !hasBothMemes(match)) {
+        continue;
+      }
+
+      const left = entries.get(match.leftMeme.id);
+      const right = entries.get(match.rightMeme.id);
+      if (!left || !right) {
+        continue;
+      }
+
+      const leftScore = getMatchScore(match, match.leftMeme, options.jury || {});
+      const rightScore = getMatchScore(match, match.rightMeme, options.jury || {});
+      applyResult(left, leftScore, rightScore, match.winner, match.leftMeme.id);
+      applyResult(right, rightScore, leftScore, match.winner, match.rightMeme.id);
+    }
+  }
+
+  const seedOrder = new Map(memes.map((meme, index) => [meme.id, index]));
+  const headToHead = (a: StandingsEntry, b: StandingsEntry, tied: StandingsEntry[]) =>
+    getHeadToHeadPoints(b.meme.id, tied, bracket) - getHeadToHeadPoints(a.meme.id, tied, bracket);
+
+  const sorted = Array.from(entries.values()).sort((a, b) => b.points - a.points);
+
+  // Resolve ties within each group of equal points
+  const ranked: StandingsEntry[] = [];
+  let groupStart = 0;
+  while (groupStart < sorted.length) {
+    let groupEnd = groupStart;
+    while (groupEnd < sorted.length && sorted[groupEnd].points === sorted[groupStart].points) {
+      groupEnd++;
+    }
+
+    const tied = sorted.slice(groupStart, groupEnd);
+    tied.sort((a, b) =>
+      headToHead(a, b, tied) ||
+      b.voteDifferential - a.voteDifferential ||
+      b.votesFor - a.votesFor ||
+      seedOrder.get(a.meme.id)! - seedOrder.get(b.meme.id)!
+    );
+    ranked.push(...tied);
+    groupStart = groupEnd;
+  }
+
+  ranked.forEach((entry, index) => {
+    entry.rank = index + 1;
+  });
+
+  return ranked;
+}
+
+/**
+ * Record a completed match on one meme's standings entry
+ */
+function applyResult(
+  entry: StandingsEntry,
+  votesFor: number,
+  votesAgainst: number,
+  winner: Meme | null,
+  memeId: string
+): void {
+  entry.played += 1;
+  entry.votesFor = roundScore(entry.votesFor + votesFor);
+  entry.votesAgainst = roundScore(entry.votesAgainst + votesAgainst);
+  entry.voteDifferential = roundScore(entry.votesFor - entry.votesAgainst);
+
+  if (!winner) {
+    entry.draws += 1;
+    entry.points += STANDINGS_POINTS.draw;
+  } else if (winner.id === memeId) {
+    entry.wins += 1;
+    entry.points += STANDINGS_POINTS.win;
+  } else {
+    entry.losses += 1;
+    entry.points += STANDINGS_POINTS.loss;
+  }
+}
+
+/**
+ * Points a meme earned in completed matches against the other tied memes
+ */
+function getHeadToHeadPoints(memeId: string, tied: StandingsEntry[], bracket: Round[]): number {
+  const tiedIds = new Set(tied.map(entry => entry.meme.id));
+  let points = 0;
+
+  for (const round of bracket) {
+    for (const match of round.matches) {
+      if (match.status !== 'COMPLETED' || !hasBothMemes(match)) {
+        continue;
+      }
+
+      const ids = [match.leftMeme.id, match.rightMeme.id];
+      if (!ids.includes(memeId) || !ids.every(id => tiedIds.has(id))) {
+        continue;
+      }
+
+      if (!match.winner) {
+        points += STANDINGS_POINTS.draw;
+      } else if (match.winner.id === memeId) {
+        points += STANDINGS_POINTS.win;
+      }
+    }
+  }
+
+  return points;
+}
@@ -0,0 +1,141 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { projectStateForVoters } from './state-projection';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { createMemes } from './test-helpers';
+import { Match, TournamentState } from '../types';
+
+describe('State Projection - Blind Voting', () => {
+  let repository: InMemoryTournamentRepository;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    tournamentManager = new TournamentManager(repository);
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  const allMatches = (state: TournamentState): Match[] => [
+    ...state.bracket.flatMap(round => round.matches),
+    ...(state.activeMatches || []),
+    ...(state.currentMatch ? [state.currentMatch] : []),
+  ];
+
+  /**
+   * Play a tournament part of the way: vote on every active match, then
+   * complete the first few of them
+   */
+  const playTournament = async (
+    memeCount: number,
+    settings: Parameters<TournamentManager['initializeTournament']>[2],
+    votes: number[],
+    completions: number
+  ): Promise<TournamentState> => {
+    await tournamentManager.initializeTournament(createMemes(memeCount), 30, settings);
+
+    for (let step = 0; step <= completions; step++) {
+      const state = (await repository.getState())!;
+      if (state.status !== 'DUEL_IN_PROGRESS') {
+        break;
+      }
+      for (const match of state.activeMatches!) {
+        for (let i = 0; i < votes[step % votes.length]; i++) {
+          const target = match.entrants ? { memeId: match.entrants[i % match.entrants.length].id } : i % 3 === 0 ? 'RIGHT' : 'LEFT';
+          await tournamentManager.processVote(match.id, target, i % 4 === 3);
+        }
+      }
+      if (step < completions) {
+        await tournamentManager.completeCurrentMatch();
+      }
+    }
+
+    return (await repository.getState())!;
+  };
+
+  // Feature: blind-voting, Property 1: Voters never receive the tally of a match that has not ended
+  it('should hide the votes of unfinished matches and keep finished ones', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 12 }),
+        fc.integer({ min: 1, max: 3 }),
+        fc.constantFrom(undefined, 4),
+        fc.array(fc.integer({ min: 1, max: 5 }), { minLength: 1, maxLength: 4 }),
+        fc.integer({ min: 0, max: 4 }),
+        async (memeCount, parallelMatches, heatSize, votes, completions) => {
+          const state = await playTournament(memeCount, { blindVoting: true, parallelMatches, heatSize, juryScoring: 'WEIGHTED' }, votes, completions);
+          const original = structuredClone(state);
+          const projected = projectStateForVoters(state);
+
+          for (const match of allMatches(projected)) {
+            if (match.status === 'COMPLETED') {
+              const full = state.bracket[match.roundIndex].matches[match.matchIndex];
+              expect(match.votes).toEqual(full.votes);
+              expect(match.entrantVotes).toEqual(full.entrantVotes);
+              expect(match.votesHidden).toBeUndefined();
+            } else {
+              expect(match.votes).toEqual({ left: 0, right: 0 });
+              expect(Object.values(match.entrantVotes || {}).every(count => count === 0)).toBe(true);
+              expect(match.lastVoteAt?.left ?? null).toBeNull();
+              expect(match.lastVoteAt?.right ?? null).toBeNull();
+              expect(match.votesHidden).toBe(true);
+              expect(match.juryVotes).toBeUndefined();
+              expect(match.juryEntrantVotes).toBeUndefined();
+            }
+          }
+
+          // The state kept by the server is left untouched
+          expect(state).toEqual(original);
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should send the state unchanged when blind voting is off', async () => {
+    const state = await playTournament(4, {}, [3], 1);
+    expect(projectStateForVoters(state)).toBe(state);
+  });
+
+  it('should reveal the full tally once a match completes', async () => {
+    const state = await playTournament(4, { blindVoting: true }, [4], 1);
+    const projected = projectStateForVoters(state);
+
+    const completed = projected.bracket[0].matches[0];
+    expect(completed.status).toBe('COMPLETED');
+    expect(completed.votes).toEqual({ left: 2, right: 2 });
+    expect(projected.currentMatch!.votesHidden).toBe(true);
+    expect(projected.currentMatch!.votes).toEqual({ left: 0, right: 0 });
+    expect(state.currentMatch!.votes).toEqual({ left: 2, right: 2 });
+  });
+
+  it('should not tell voters that a match went to overtime or a tie-break', async () => {
+    const state = await playTournament(4, { blindVoting: true }, [2], 0);
+    const overtime = { ...state.currentMatch!, extensions: 2 };
+    const suddenDeath = { ...state.currentMatch!, tieBreakPhase: 'SUDDEN_DEATH' as const };
+
+    const projectedOvertime = projectStateForVoters({ ...state, currentMatch: overtime }).currentMatch!;
+    expect(projectedOvertime.extensions).toBeUndefined();
+    expect(projectedOvertime.votingRound).toBe(1);
+
+    // Voters only learn that voting reopened, not why
+    const projectedSuddenDeath = projectStateForVoters({ ...state, currentMatch: suddenDeath }).currentMatch!;
+    expect(projectedSuddenDeath.tieBreakPhase).toBeUndefined();
+    expect(projectedSuddenDeath.votingRound).toBe(2);
+  });
+});
@@ -0,0 +1,53 @@
+import { Match, TournamentState } from '../types';
+import { getVotingRound } from '../lib/tie-break';
+
+/**
+ * Hide the tally of a match that is still being played
+ * The time of the latest vote per side is hidden too, as it tells which
+ * meme is being voted for, and so is the jury tally. Overtime and tie-break
+ * phases would tell that the match is close or tied, so voters only learn
+ * which voting round is open. Completed matches are returned unchanged
+ *
+ * @param match - Any match of the tournament
+ * @returns The match as voters may see it
+ */
+function hideLiveVotes(match: Match): Match {
+  if (match.status === 'COMPLETED') {
+    return match;
+  }
+
+  return {
+    ...match,
+    votes: { left: 0, right: 0 },
+    entrantVotes: match.entrantVotes && Object.fromEntries(Object.keys(match.entrantVotes).map(id => [id, 0])),
+    juryVotes: undefined,
+    juryEntrantVotes: undefined,
+    lastVoteAt: match.lastVoteAt && { left: null, right: null },
+    extensions: undefined,
+    tieBreakPhase: undefined,
+    votingRound: getVotingRound(match),
+    votesHidden: true
+  };
+}
+
+/**
+ * Project the tournament state for voters and displays
+ * With blind voting on, every match that has not ended loses its tally, so
+ * the numbers never leave the server; the full tally goes out once the
+ * match completes. Without blind voting the state is returned as is
+ *
+ * @param state - Full tournament state
+ * @returns State safe to send to non-admin clients
+ */
+export function projectStateForVoters(state: TournamentState): TournamentState {
+  if (!state.config.blindVoting) {
+    return state;
+  }
+
+  return {
+    ...state,
+    bracket: state.bracket.map(round => ({ ...round, matches: round.matches.map(hideLiveVotes) })),
+    currentMatch: state.currentMatch && hideLiveVotes(state.currentMatch),
+    activeMatches: state.activeMatches?.map(hideLiveVotes)
+  };
+}
@@ -0,0 +1,23 @@
+import { Meme } from '../types';
+
+/**
+ * Test Helpers
+ *
+ * Fixtures shared by the test files. Only tests import this module, so it is
+ * left out of the server build.
+ */
+
+/**
+ * Create memes numbered from 1, each with its own image
+ * @param count - Number of memes
+ * @param prefix - Prefix of their IDs and image names
+ * @returns Memes with IDs `${prefix}-1`, `${prefix}-2`, ...
+ */
+export function createMemes(count: number, prefix: string = 'meme'): Meme[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${prefix}-${i + 1}`,
+    imageUrl: `/uploads/${prefix}-${i + 1}.jpg`,
+    caption: `Meme ${i + 1}`,
+    uploadedAt: new Date(),
+  }));
+}
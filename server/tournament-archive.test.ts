@@ -0,0 +1,171 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InMemoryTournamentArchive } from './in-memory-archive';
+import { FileTournamentArchive } from './file-archive';
+import { createArchivedTournament, summarizeArchivedTournament } from './tournament-archive';
+import { ITournamentArchive, Match, Meme, TournamentState } from '../types';
+
+/**
+ * Archive implementations under test, each created in its own directory
+ */
+const implementations: Array<[string, (dataDir: string) => ITournamentArchive]> = [
+  ['InMemoryTournamentArchive', () => new InMemoryTournamentArchive()],
+  ['FileTournamentArchive', (dataDir) => new FileTournamentArchive(join(dataDir, 'archive'))],
+];
+
+const memes: Meme[] = [1, 2].map(i => ({
+  id: `meme-${i}`,
+  imageUrl: `/uploads/meme-${i}.jpg`,
+  caption: `Meme ${i}`,
+  uploadedAt: new Date('2024-05-01T10:00:00Z'),
+}));
+
+/**
+ * Build the final state of a one-match tournament
+ */
+function createFinishedState(startedAt: Date, completedAt: Date): TournamentState {
+  const final: Match = {
+    id: 'match-1',
+    roundIndex: 0,
+    matchIndex: 0,
+    leftMeme: memes[0],
+    rightMeme: memes[1],
+    votes: { left: 7, right: 3 },
+    timeRemaining: 0,
+    totalTime: 30,
+    status: 'COMPLETED',
+    winner: memes[0],
+    startedAt,
+    completedAt,
+  };
+  return {
+    status: 'TOURNAMENT_FINISHED',
+    memes,
+    bracket: [{ roundIndex: 0, matches: [final], completed: true }],
+    currentMatch: null,
+    winner: memes[0],
+    config: { votingTimeSeconds: 30, format: 'SINGLE_ELIMINATION' },
+  };
+}
+
+describe.each(implementations)('%s - Archive Contract', (_name, createArchive) => {
+  let archive: ITournamentArchive;
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'tournament-archive-'));
+    archive = createArchive(dataDir);
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should start empty', async () => {
+    expect(await archive.getTournaments()).toEqual([]);
+    expect(await archive.getTournamentById('missing')).toBeNull();
+  });
+
+  it('should list archived tournaments, most recently archived first', async () => {
+    const older = { ...createArchivedTournament(createFinishedState(new Date(), new Date()), null), archivedAt: new Date('2024-05-01T12:00:00Z') };
+    const newer = { ...createArchivedTournament(createFinishedState(new Date(), new Date()), 'ABCDE'), archivedAt: new Date('2024-05-02T12:00:00Z') };
+
+    await archive.addTournament(older);
+    await archive.addTournament(newer);
+
+    expect((await archive.getTournaments()).map(tournament => tournament.id)).toEqual([newer.id, older.id]);
+    expect(await archive.getTournamentById(older.id)).toEqual(older);
+  });
+
+  it('should delete an archived tournament', async () => {
+    const tournament = createArchivedTournament(createFinishedState(new Date(), new Date()), null);
+    await archive.addTournament(tournament);
+
+    await archive.deleteTournament(tournament.id);
+
+    expect(await archive.getTournamentById(tournament.id)).toBeNull();
+    expect(await archive.getTournaments()).toEqual([]);
+  });
+});
+
+describe('FileTournamentArchive - Persistence', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'tournament-archive-'));
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should restore archived tournaments, with their dates, after reopening', async () => {
+    const directory = join(dataDir, 'archive');
+    const tournament = createArchivedTournament(
+      createFinishedState(new Date('2024-05-01T10:00:00Z'), new Date('2024-05-01T10:00:30Z')),
+      'ABCDE'
+    );
+    await new FileTournamentArchive(directory).addTournament(tournament);
+
+    expect(await new FileTournamentArchive(directory).getTournaments()).toEqual([tournament]);
+  });
+
+  it('should remove the file of a deleted tournament', async () => {
+    const directory = join(dataDir, 'archive');
+    const archive = new FileTournamentArchive(directory);
+    const tournament = createArchivedTournament(createFinishedState(new Date(), new Date()), null);
+    await archive.addTournament(tournament);
+
+    await archive.deleteTournament(tournament.id);
+
+    expect(readdirSync(directory)).toEqual([]);
+  });
+});
+
+describe('Tournament Archive - Records', () => {
+  it('should take the start and end times from the first and last matches', () => {
+    const state = createFinishedState(new Date('2024-05-01T10:00:00Z'), new Date('2024-05-01T10:00:30Z'));
+    const tournament = createArchivedTournament(state, null);
+
+    expect(tournament.startedAt).toEqual(new Date('2024-05-01T10:00:00Z'));
+    expect(tournament.finishedAt).toEqual(new Date('2024-05-01T10:00:30Z'));
+    expect(tournament.state).toEqual(state);
+  });
+
+  it('should keep the archived state unchanged when the live state changes afterwards', () => {
+    // Copied so that the shared memes are left alone
+    const state = structuredClone(createFinishedState(new Date('2024-05-01T10:00:00Z'), new Date('2024-05-01T10:00:30Z')));
+    const tournament = createArchivedTournament(state, null);
+    const archived = structuredClone(tournament.state);
+
+    // A rematch reuses the memes and starts a new bracket on the live state
+    state.memes.push({ ...memes[0], id: 'meme-3' });
+    state.memes[0].caption = 'Renamed';
+    state.bracket[0].matches[0].votes.left = 0;
+    state.status = 'DUEL_IN_PROGRESS';
+    state.winner = null;
+
+    expect(tournament.state).toEqual(archived);
+  });
+
+  it('should summarize an archived tournament for the history list', () => {
+    const tournament = createArchivedTournament(createFinishedState(new Date(), new Date()), 'ABCDE');
+
+    expect(summarizeArchivedTournament(tournament)).toEqual({
+      id: tournament.id,
+      roomCode: 'ABCDE',
+      startedAt: tournament.startedAt,
+      finishedAt: tournament.finishedAt,
+      archivedAt: tournament.archivedAt,
+      format: 'SINGLE_ELIMINATION',
+      memeCount: 2,
+      winner: memes[0],
+    });
+  });
+});
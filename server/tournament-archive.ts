@@ -0,0 +1,85 @@
+import { randomUUID } from 'crypto';
+import { getArchiveInstance, getRepositoryInstance } from './repository-singleton';
+import { getRoomRegistry } from './room-registry';
+import { ArchivedTournament, ArchivedTournamentSummary, TournamentState } from '../types';
+import { getMemeImageUrls } from '../lib/meme-images';
+
+/**
+ * Tournament Archive
+ *
+ * Finished tournaments are archived before their live state is cleared, by a
+ * reset, a rematch or the cleanup of an idle room. Their images stay in
+ * /public/uploads until the archived tournament is deleted.
+ */
+
+/**
+ * Get when a tournament was played: when its first match started and its
+ * last match ended
+ * @param state - Tournament state
+ * @returns Start and end times, null before any match started or ended
+ */
+export function getPlayedTimes(state: TournamentState): { startedAt: Date | null; finishedAt: Date | null } {
+  const matches = state.bracket.flatMap(round => round.matches);
+  const startTimes = matches.flatMap(match => match.startedAt ? [match.startedAt.getTime()] : []);
+  const endTimes = matches.flatMap(match => match.completedAt ? [match.completedAt.getTime()] : []);
+
+  return {
+    startedAt: startTimes.length > 0 ? new Date(Math.min(...startTimes)) : null,
+    finishedAt: endTimes.length > 0 ? new Date(Math.max(...endTimes)) : null
+  };
+}
+
+/**
+ * Build the archive record of a finished tournament
+ * The state is copied, as a rematch goes on to reuse the live one
+ * @param state - Final state of the tournament
+ * @param roomCode - Room it was played in, null for the default tournament
+ * @returns Archived tournament, with a new ID
+ */
+export function createArchivedTournament(state: TournamentState, roomCode: string | null): ArchivedTournament {
+  return {
+    id: randomUUID(),
+    roomCode,
+    ...getPlayedTimes(state),
+    archivedAt: new Date(),
+    state: structuredClone(state)
+  };
+}
+
+/**
+ * Summarize an archived tournament for the history list
+ * @param tournament - Archived tournament
+ */
+export function summarizeArchivedTournament(tournament: ArchivedTournament): ArchivedTournamentSummary {
+  return {
+    id: tournament.id,
+    roomCode: tournament.roomCode,
+    startedAt: tournament.startedAt,
+    finishedAt: tournament.finishedAt,
+    archivedAt: tournament.archivedAt,
+    format: tournament.state.config.format,
+    memeCount: tournament.state.memes.length,
+    winner: tournament.state.winner
+  };
+}
+
+/**
+ * Get the images that must stay on disk: those of archived tournaments and
+ * of the live tournaments, including every room. A rematch shares its images
+ * with the tournament archived before it.
+ * @returns Image URLs in use
+ */
+export async function getImageUrlsInUse(): Promise<Set<string>> {
+  const imageUrls = new Set<string>();
+
+  for (const tournament of await getArchiveInstance().getTournaments()) {
+    tournament.state.memes.flatMap(getMemeImageUrls).forEach(url => imageUrls.add(url));
+  }
+
+  const repositories = [getRepositoryInstance(), ...getRoomRegistry().getRooms().map(room => room.repository)];
+  for (const repository of repositories) {
+    (await repository.getMemes()).flatMap(getMemeImageUrls).forEach(url => imageUrls.add(url));
+  }
+
+  return imageUrls;
+}
@@ -0,0 +1,112 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { exportTournament, exportTournamentCsv, exportTournamentMarkdown } from './tournament-export';
+import { createMemes } from './test-helpers';
+import { Meme, TournamentState, TournamentSettings } from '../types';
+
+describe('Tournament Export', () => {
+  let repository: InMemoryTournamentRepository;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-05-01T10:00:00Z'));
+    repository = new InMemoryTournamentRepository();
+    tournamentManager = new TournamentManager(repository);
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  const createCaptionedMemes = (captions: string[]): Meme[] =>
+    createMemes(captions.length).map((meme, i) => ({ ...meme, caption: captions[i] }));
+
+  /**
+   * Play a tournament to the end, the left meme of every match winning 3 to 1
+   */
+  const playTournament = async (
+    memes: Meme[],
+    settings: Omit<TournamentSettings, 'votingTimeSeconds'> = {}
+  ): Promise<TournamentState> => {
+    await tournamentManager.initializeTournament(memes, 30, settings);
+    let state = (await repository.getState())!;
+    while (state.status !== 'TOURNAMENT_FINISHED') {
+      const matchId = state.currentMatch!.id;
+      for (const side of ['LEFT', 'LEFT', 'LEFT', 'RIGHT'] as const) {
+        await tournamentManager.processVote(matchId, side);
+      }
+      vi.advanceTimersByTime(5000);
+      state = await tournamentManager.completeCurrentMatch(matchId);
+    }
+    return state;
+  };
+
+  it('should export the full state as JSON', async () => {
+    const state = await playTournament(createCaptionedMemes(['A', 'B', 'C', 'D']));
+
+    const file = exportTournament(state, 'json');
+
+    expect(file.contentType).toBe('application/json; charset=utf-8');
+    expect(file.filename).toBe('torneio-2024-05-01.json');
+    expect(JSON.parse(file.contents)).toEqual(JSON.parse(JSON.stringify(state)));
+  });
+
+  it('should export one CSV row per played match', async () => {
+    const state = await playTournament(createCaptionedMemes(['A', 'B', 'C', 'D']));
+
+    const lines = exportTournamentCsv(state).replace(/^\uFEFF/, '').trim().split('\r\n');
+
+    expect(lines).toHaveLength(1 + 3);
+    expect(lines[0]).toMatch(/^Rodada,Duelo,Meme 1,Votos 1/);
+    const final = lines[3].split(',');
+    expect(final.slice(0, 8)).toEqual(['Final', '1', 'A', '3', '0', 'B', '1', '0']);
+    expect(final[9]).toBe('A');
+    expect(final[13]).toBe(state.bracket[1].matches[0].startedAt!.toISOString());
+  });
+
+  it('should quote CSV fields and neutralize formulas in captions', async () => {
+    const state = await playTournament(createCaptionedMemes(['=HYPERLINK("x")', 'Sim, "não"']));
+
+    const csv = exportTournamentCsv(state);
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(csv).toContain('"Sim, ""não"""');
+  });
+
+  it('should summarize the champion, podium and rounds in Markdown', async () => {
+    const state = await playTournament(createCaptionedMemes(['A', 'B', 'C', 'D']), { thirdPlaceMatch: true });
+
+    const markdown = exportTournamentMarkdown(state);
+
+    expect(markdown).toContain('# Campeonato de Memes — 01/05/2024');
+    expect(markdown).toContain('**Campeão:** A');
+    expect(markdown).toContain('- 🥈 2º lugar: B');
+    expect(markdown).toContain('- 🥉 3º lugar: D');
+    expect(markdown).toContain('### Semifinal');
+    expect(markdown).toContain('### Disputa de 3º lugar\n\n- **D (3)** × C (1)');
+    expect(markdown).toContain('### Final\n\n- **A (3)** × B (1)');
+  });
+
+  it('should list the final standings of a league in Markdown', async () => {
+    const state = await playTournament(createCaptionedMemes(['A', 'B', 'C']), { format: 'ROUND_ROBIN' });
+
+    const markdown = exportTournamentMarkdown(state);
+
+    expect(markdown).toContain('## Classificação final');
+    expect(markdown).toContain('| 1 | ');
+    expect(markdown).toContain('### Rodada 1');
+  });
+
+  it('should escape Markdown in captions', async () => {
+    const state = await playTournament(createCaptionedMemes(['*bold* | [link]', 'B']));
+
+    expect(exportTournamentMarkdown(state)).toContain('**Campeão:** \\*bold\\* \\| \\[link\\]');
+  });
+});
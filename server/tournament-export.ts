@@ -0,0 +1,229 @@
+import { ExportFormat, Match, Meme, Round, TournamentState } from '../types';
+import { getPodium } from '../lib/podium';
+import { BRACKET_SIDE_LABELS, getRoundLabel } from '../lib/round-labels';
+import { getEntrants, getEntrantVotes, isHeat } from '../lib/heats';
+import { getJuryVotes, getTotalJuryVotes } from '../lib/jury';
+import { TIE_BREAK_LABELS } from '../lib/tie-break';
+import { END_REASON_LABELS } from '../lib/match-ending';
+import { getPlayedTimes } from './tournament-archive';
+
+/**
+ * Tournament Export
+ *
+ * Renders a finished tournament for use outside the app: JSON with the full
+ * state, CSV with one row per played match, and a Markdown summary ready to
+ * paste into a wiki page.
+ */
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'md'];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  md: 'text/markdown; charset=utf-8'
+};
+
+/**
+ * An exported tournament, ready to be sent as a file download
+ */
+export interface TournamentExport {
+  contents: string;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * Check whether a value names an export format
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+/**
+ * Export a finished tournament
+ * @param state - Final state of the tournament
+ * @param format - File format
+ * @returns File contents, content type and a filename dated by the end of the tournament
+ */
+export function exportTournament(state: TournamentState, format: ExportFormat): TournamentExport {
+  const { finishedAt } = getPlayedTimes(state);
+  const date = (finishedAt || new Date()).toISOString().slice(0, 10);
+  const contents = format === 'json'
+    ? JSON.stringify(state, null, 2)
+    : format === 'csv'
+    ? exportTournamentCsv(state)
+    : exportTournamentMarkdown(state);
+
+  return {
+    contents,
+    contentType: CONTENT_TYPES[format],
+    filename: `torneio-${date}.${format}`
+  };
+}
+
+/**
+ * Name a round, along with its side of a double-elimination bracket
+ */
+function getExportRoundLabel(state: TournamentState, round: Round): string {
+  const label = getRoundLabel(state.bracket, round, state.config.format);
+  const side = round.side || 'WINNERS';
+  return state.config.format === 'DOUBLE_ELIMINATION' && side !== 'GRAND_FINAL'
+    ? `${BRACKET_SIDE_LABELS[side]} — ${label}`
+    : label;
+}
+
+/**
+ * Get the matches of a round that were played
+ */
+function getPlayedMatches(round: Round): Match[] {
+  return round.matches.filter(match => match.status === 'COMPLETED');
+}
+
+/**
+ * Get the memes that advanced from a match: the qualifiers of a heat, or the winner of a duel
+ */
+function getAdvancing(match: Match): Meme[] {
+  if (isHeat(match)) {
+    return match.qualifiers || [];
+  }
+  return match.winner ? [match.winner] : [];
+}
+
+/**
+ * Format a stored date; states loaded from JSON may hold it as a string
+ */
+function formatTimestamp(value: Date | string | null): string {
+  return value ? new Date(value).toISOString() : '';
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+const CSV_HEADER = [
+  'Rodada', 'Duelo',
+  'Meme 1', 'Votos 1', 'Júri 1',
+  'Meme 2', 'Votos 2', 'Júri 2',
+  'Outros participantes', 'Vencedor', 'Desempate', 'Encerramento', 'Resultado forçado',
+  'Início', 'Fim'
+];
+
+/**
+ * Quote a CSV field when needed
+ * Captions are user input, so a leading formula character is neutralized
+ * before a spreadsheet can run it
+ */
+function toCsvField(value: string | number): string {
+  let field = String(value);
+  if (/^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+  return /[",\n\r]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Render the played matches as CSV, one row per match
+ * Heats list their entrants past the first two in a single column
+ */
+export function exportTournamentCsv(state: TournamentState): string {
+  const rows = state.bracket.flatMap(round => getPlayedMatches(round).map(match => {
+    const [first, second, ...others] = getEntrants(match);
+    return [
+      getExportRoundLabel(state, round),
+      match.matchIndex + 1,
+      first.caption, getEntrantVotes(match, first), getJuryVotes(match, first),
+      second.caption, getEntrantVotes(match, second), getJuryVotes(match, second),
+      others.map(meme => `${meme.caption} (${getEntrantVotes(match, meme)})`).join('; '),
+      getAdvancing(match).map(meme => meme.caption).join('; '),
+      match.decidedBy ? TIE_BREAK_LABELS[match.decidedBy] : '',
+      match.endReason ? END_REASON_LABELS[match.endReason] : '',
+      match.override?.reason || '',
+      formatTimestamp(match.startedAt),
+      formatTimestamp(match.completedAt)
+    ];
+  }));
+
+  // The byte order mark lets spreadsheets read the accents as UTF-8
+  return '\uFEFF' + [CSV_HEADER, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+/**
+ * Escape the characters a caption could use to change the Markdown around it
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|~])/g, '\\$1').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Render one played match as a list item, with the advancing memes in bold
+ */
+function formatMatchLine(match: Match): string {
+  const advancing = new Set(getAdvancing(match).map(meme => meme.id));
+  const hasJury = getTotalJuryVotes(match) > 0;
+  const entrants = getEntrants(match).map(meme => {
+    const caption = escapeMarkdown(meme.caption);
+    const jury = hasJury ? ` + ${getJuryVotes(match, meme)} do júri` : '';
+    const score = `${caption} (${getEntrantVotes(match, meme)}${jury})`;
+    return advancing.has(meme.id) ? `**${score}**` : score;
+  });
+
+  const notes = [
+    match.decidedBy && `desempate: ${TIE_BREAK_LABELS[match.decidedBy].toLowerCase()}`,
+    match.override && `resultado definido pelo admin: ${escapeMarkdown(match.override.reason)}`,
+    !match.winner && !isHeat(match) && 'empate'
+  ].filter(Boolean);
+
+  return `- ${entrants.join(' × ')}${notes.length > 0 ? ` — ${notes.join('; ')}` : ''}`;
+}
+
+/**
+ * Render a summary of the tournament: champion, podium, final standings of
+ * league formats, and the scores of every round
+ */
+export function exportTournamentMarkdown(state: TournamentState): string {
+  const { finishedAt } = getPlayedTimes(state);
+  const podium = getPodium(state);
+  const champion = podium.first || state.winner;
+  const lines: string[] = [
+    `# Campeonato de Memes${finishedAt ? ` — ${finishedAt.toLocaleDateString('pt-BR', { timeZone: 'UTC' })}` : ''}`,
+    '',
+    `**Campeão:** ${champion ? escapeMarkdown(champion.caption) : 'sem campeão'}`,
+    ''
+  ];
+
+  const places = [
+    { label: '🏆 1º lugar', meme: champion },
+    { label: '🥈 2º lugar', meme: podium.second },
+    { label: '🥉 3º lugar', meme: podium.third }
+  ].filter(place => place.meme);
+  if (places.length > 0) {
+    lines.push('## Pódio', '', ...places.map(place => `- ${place.label}: ${escapeMarkdown(place.meme!.caption)}`), '');
+  }
+
+  if (state.standings && state.standings.length > 0) {
+    lines.push(
+      '## Classificação final',
+      '',
+      '| # | Meme | Pts | V | E | D | Saldo |',
+      '|---|------|-----|---|---|---|-------|',
+      ...state.standings.map(entry =>
+        `| ${entry.rank} | ${escapeMarkdown(entry.meme.caption)} | ${entry.points} | ${entry.wins} | ${entry.draws} | ${entry.losses} | ${entry.voteDifferential > 0 ? '+' : ''}${entry.voteDifferential} |`
+      ),
+      ''
+    );
+  }
+
+  lines.push('## Rodadas');
+  for (const round of state.bracket) {
+    const matches = getPlayedMatches(round);
+    if (matches.length > 0) {
+      lines.push('', `### ${getExportRoundLabel(state, round)}`, '', ...matches.map(formatMatchLine));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
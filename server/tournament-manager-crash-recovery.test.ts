@@ -0,0 +1,202 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TournamentManager } from './tournament-manager';
+import { VoteLockManager } from './vote-lock-manager';
+import { FileTournamentRepository } from './file-repository';
+import * as fileUtils from './file-utils';
+import { getTimeRemaining } from '../lib/match-clock';
+import { createMemes } from './test-helpers';
+import { TournamentState, Match } from '../types';
+
+describe('TournamentManager - Crash Recovery', () => {
+  let dataDir: string;
+  let filePath: string;
+  let repository: FileTournamentRepository;
+  let voteLockManager: VoteLockManager;
+  let tournamentManager: TournamentManager;
+  let lockWrites: Promise<void>[];
+
+  /**
+   * Start a manager on the data file, as the server does on boot
+   */
+  const boot = () => {
+    repository = new FileTournamentRepository(filePath);
+    voteLockManager = new VoteLockManager(locks => {
+      const write = repository.setVoteLocks(locks);
+      lockWrites.push(write);
+      return write;
+    });
+    tournamentManager = new TournamentManager(repository, undefined, voteLockManager);
+  };
+
+  /**
+   * Drop the running manager and its timer without letting it clean up, then boot again
+   */
+  const restart = async () => {
+    await Promise.all(lockWrites);
+    // Clearing the fake timers also rewinds the fake clock
+    const now = Date.now();
+    vi.clearAllTimers();
+    vi.setSystemTime(now);
+    boot();
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    dataDir = mkdtempSync(join(tmpdir(), 'tournament-recovery-'));
+    filePath = join(dataDir, 'tournament.json');
+    lockWrites = [];
+    boot();
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    await Promise.all(lockWrites);
+    vi.useRealTimers();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const findMatch = (state: TournamentState, matchId: string): Match =>
+    state.bracket.flatMap(round => round.matches).find(m => m.id === matchId)!;
+
+  it('should resume the running match with the time it had left', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    const state = (await repository.getState())!;
+    const matchId = state.currentMatch!.id;
+    await tournamentManager.processVote(matchId, 'LEFT');
+    vi.advanceTimersByTime(10000);
+
+    await restart();
+
+    expect(await tournamentManager.resumeInterruptedTournament()).toBe(true);
+    const resumed = (await repository.getState())!;
+    expect(resumed.currentMatch!.id).toBe(matchId);
+    expect(resumed.currentMatch!.votes.left).toBe(1);
+    expect(getTimeRemaining(resumed.currentMatch!)).toBe(20);
+
+    await vi.advanceTimersByTimeAsync(20000);
+
+    const completed = findMatch((await repository.getState())!, matchId);
+    expect(completed.status).toBe('COMPLETED');
+    expect(completed.endReason).toBe('TIME_EXPIRED');
+  });
+
+  it('should complete a match whose time ran out while the server was down', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    const state = (await repository.getState())!;
+    const matchId = state.currentMatch!.id;
+
+    await restart();
+    vi.advanceTimersByTime(45000);
+
+    expect(await tournamentManager.resumeInterruptedTournament()).toBe(true);
+    const resumed = (await repository.getState())!;
+    expect(findMatch(resumed, matchId).status).toBe('COMPLETED');
+    expect(findMatch(resumed, matchId).endReason).toBe('TIME_EXPIRED');
+    expect(resumed.currentMatch!.id).not.toBe(matchId);
+  });
+
+  it('should keep the vote locks of the running match', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    const state = (await repository.getState())!;
+    const matchId = state.currentMatch!.id;
+    voteLockManager.recordVote('session-a', matchId);
+    voteLockManager.recordVote('session-b', 'finished-match');
+
+    await restart();
+    await tournamentManager.resumeInterruptedTournament();
+
+    expect(voteLockManager.hasVoted('session-a', matchId)).toBe(true);
+    expect(voteLockManager.hasVoted('session-b', 'finished-match')).toBe(false);
+  });
+
+  it('should save a vote lock before the vote it guards', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    const matchId = (await repository.getState())!.currentMatch!.id;
+
+    const writes: string[] = [];
+    const writeFile = fileUtils.writeFileAtomically;
+    const spy = vi.spyOn(fileUtils, 'writeFileAtomically').mockImplementation((path, contents) => {
+      writes.push(contents);
+      return writeFile(path, contents);
+    });
+    try {
+      await tournamentManager.castVote('session-a', matchId, 'LEFT');
+      await Promise.all(lockWrites);
+    } finally {
+      spy.mockRestore();
+    }
+
+    // No write ever holds the vote without its lock
+    const snapshots = writes.map(contents => JSON.parse(contents));
+    const locked = (snapshot: any) => (snapshot.voteLocks?.[matchId] || []).includes('session-a');
+    const counted = (snapshot: any) => snapshot.state.currentMatch.votes.left === 1;
+    expect(snapshots.some(counted)).toBe(true);
+    expect(snapshots.every(snapshot => !counted(snapshot) || locked(snapshot))).toBe(true);
+
+    // The server stopping right after the lock was saved costs the vote, not the lock
+    const crashedAt = writes.find((_, i) => locked(snapshots[i]) && !counted(snapshots[i]))!;
+    expect(crashedAt).toBeDefined();
+    writeFileSync(filePath, crashedAt);
+    await restart();
+    await tournamentManager.resumeInterruptedTournament();
+
+    expect(voteLockManager.hasVoted('session-a', matchId)).toBe(true);
+    expect((await repository.getState())!.currentMatch!.votes.left).toBe(0);
+  });
+
+  it('should take back the lock of a refused vote', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    const matchId = (await repository.getState())!.currentMatch!.id;
+    await tournamentManager.pauseTournament();
+
+    await expect(tournamentManager.castVote('session-a', matchId, 'LEFT')).rejects.toThrow('Tournament is paused');
+    expect(voteLockManager.hasVoted('session-a', matchId)).toBe(false);
+
+    await restart();
+    await tournamentManager.resumeInterruptedTournament();
+    expect(voteLockManager.hasVoted('session-a', matchId)).toBe(false);
+  });
+
+  it('should keep a paused tournament paused', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    await tournamentManager.pauseTournament();
+
+    await restart();
+    expect(await tournamentManager.resumeInterruptedTournament()).toBe(true);
+    await vi.advanceTimersByTimeAsync(60000);
+
+    const resumed = (await repository.getState())!;
+    expect(resumed.status).toBe('PAUSED');
+    expect(resumed.currentMatch!.status).toBe('IN_PROGRESS');
+  });
+
+  it('should drop the undo history, which does not survive a restart', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    const matchId = (await repository.getState())!.currentMatch!.id;
+    await tournamentManager.completeCurrentMatch(matchId);
+    expect((await repository.getState())!.undoableMatchId).toBe(matchId);
+
+    await restart();
+    await tournamentManager.resumeInterruptedTournament();
+
+    expect((await repository.getState())!.undoableMatchId ?? null).toBeNull();
+  });
+
+  it('should not resume a tournament that is not running', async () => {
+    expect(await tournamentManager.resumeInterruptedTournament()).toBe(false);
+
+    await tournamentManager.initializeTournament(createMemes(2), 30);
+    await tournamentManager.completeCurrentMatch((await repository.getState())!.currentMatch!.id);
+    expect((await repository.getState())!.status).toBe('TOURNAMENT_FINISHED');
+
+    await restart();
+    expect(await tournamentManager.resumeInterruptedTournament()).toBe(false);
+  });
+});
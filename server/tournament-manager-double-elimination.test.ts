@@ -0,0 +1,129 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { createMemes } from './test-helpers';
+import { Match } from '../types';
+
+describe('TournamentManager - Double Elimination', () => {
+  let repository: InMemoryTournamentRepository;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    tournamentManager = new TournamentManager(repository);
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  /**
+   * Play the tournament to the end, voting for the side chosen by pickLeft
+   * @returns Number of losses per meme ID
+   */
+  const playTournament = async (pickLeft: (match: Match) => boolean): Promise<Map<string, number>> => {
+    const losses = new Map<string, number>();
+    let state = await repository.getState();
+
+    while (state && state.status === 'DUEL_IN_PROGRESS' && state.currentMatch) {
+      const match = state.currentMatch;
+      const votedLeft = pickLeft(match);
+      await tournamentManager.processVote(match.id, votedLeft ? 'LEFT' : 'RIGHT');
+
+      const loser = votedLeft ? match.rightMeme : match.leftMeme;
+      losses.set(loser!.id, (losses.get(loser!.id) || 0) + 1);
+
+      state = await tournamentManager.completeCurrentMatch();
+    }
+
+    return losses;
+  };
+
+  // Feature: double-elimination, Property 5: Elimination after two losses
+  it('should only eliminate memes after two losses when the bracket reset is enabled', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 12 }),
+        fc.array(fc.boolean(), { minLength: 64, maxLength: 64 }),
+        async (memeCount, choices) => {
+          let turn = 0;
+          await tournamentManager.initializeTournament(createMemes(memeCount), 30, {
+            format: 'DOUBLE_ELIMINATION',
+            grandFinalReset: true,
+          });
+
+          const losses = await playTournament(() => choices[turn++ % choices.length]);
+          const state = await repository.getState();
+
+          expect(state!.status).toBe('TOURNAMENT_FINISHED');
+          expect(state!.winner).not.toBeNull();
+          expect(losses.get(state!.winner!.id) || 0).toBeLessThanOrEqual(1);
+
+          for (const meme of state!.memes) {
+            if (meme.id !== state!.winner!.id) {
+              expect(losses.get(meme.id)).toBe(2);
+            }
+          }
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should skip the bracket reset when the winners bracket champion wins the grand final', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30, {
+      format: 'DOUBLE_ELIMINATION',
+      grandFinalReset: true,
+    });
+
+    // Left side always wins, so the winners bracket champion takes the grand final
+    await playTournament(() => true);
+    const state = await repository.getState();
+
+    expect(state!.status).toBe('TOURNAMENT_FINISHED');
+    expect(state!.bracket.some(r => r.matches.some(m => m.isBracketReset))).toBe(false);
+    expect(state!.bracket.every(r => r.matches.every(m => m.status === 'COMPLETED'))).toBe(true);
+  });
+
+  it('should play the bracket reset when the losers bracket champion wins the grand final', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30, {
+      format: 'DOUBLE_ELIMINATION',
+      grandFinalReset: true,
+    });
+
+    // Opening match: left wins; grand final: right (losers bracket champion) wins
+    let played = 0;
+    await playTournament(() => played++ === 0);
+    const state = await repository.getState();
+
+    expect(played).toBe(3);
+    expect(state!.bracket[state!.bracket.length - 1].matches[0].isBracketReset).toBe(true);
+    expect(state!.bracket.every(r => r.matches.every(m => m.status === 'COMPLETED'))).toBe(true);
+  });
+
+  it('should store the chosen format in the tournament config', async () => {
+    await tournamentManager.initializeTournament(createMemes(3), 45, {
+      format: 'DOUBLE_ELIMINATION',
+    });
+
+    const state = await repository.getState();
+    expect(state!.config).toEqual({
+      votingTimeSeconds: 45,
+      format: 'DOUBLE_ELIMINATION',
+      grandFinalReset: false,
+      thirdPlaceMatch: false,
+      seeding: 'UPLOAD_ORDER',
+      parallelMatches: 1,
+      tieBreak: 'RANDOM',
+    });
+  });
+});
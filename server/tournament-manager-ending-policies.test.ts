@@ -0,0 +1,189 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { VoteLockManager } from './vote-lock-manager';
+import { getTimeRemaining } from '../lib/match-clock';
+import { createMemes } from './test-helpers';
+import { Match, VoteChoice } from '../types';
+
+describe('TournamentManager - Ending Policies', () => {
+  let repository: InMemoryTournamentRepository;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    tournamentManager = new TournamentManager(repository, undefined, new VoteLockManager());
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  const sessions = (count: number): string[] => Array.from({ length: count }, (_, i) => `session-${i + 1}`);
+
+  // Votes the way the WebSocket server does: lock the session, then count the vote
+  const vote = (matchId: string, sessionToken: string, choice: VoteChoice) =>
+    tournamentManager.castVote(sessionToken, matchId, choice);
+
+  const getMatch = async (matchId: string): Promise<Match> =>
+    (await repository.getState())!.bracket.flatMap(r => r.matches).find(m => m.id === matchId)!;
+
+  // Feature: ending-policies, Property 1: A decisive lead only ends matches the remaining voters cannot turn
+  it('should end a match early only when its lead exceeds the remaining voters', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 0, max: 8 }),
+        fc.integer({ min: 0, max: 8 }),
+        fc.integer({ min: 0, max: 8 }),
+        async (leftVotes, rightVotes, undecided) => {
+          await tournamentManager.initializeTournament(createMemes(2), 30, { endingPolicies: ['DECISIVE_LEAD'] });
+          const matchId = (await repository.getState())!.currentMatch!.id;
+          const connected = sessions(leftVotes + rightVotes + undecided);
+
+          for (let i = 0; i < leftVotes + rightVotes; i++) {
+            await vote(matchId, connected[i], i < leftVotes ? 'LEFT' : 'RIGHT');
+          }
+          await tournamentManager.applyEndingPolicies(connected);
+
+          const match = await getMatch(matchId);
+          const isDecided = Math.abs(leftVotes - rightVotes) > undecided;
+          expect(match.status).toBe(isDecided ? 'COMPLETED' : 'IN_PROGRESS');
+          if (isDecided) {
+            expect(match.endReason).toBe('DECISIVE_LEAD');
+            expect(match.winner!.id).toBe(leftVotes > rightVotes ? 'meme-1' : 'meme-2');
+          }
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should end a match once every connected session has voted', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30, { endingPolicies: ['ALL_VOTED'] });
+    const matchId = (await repository.getState())!.currentMatch!.id;
+    const connected = sessions(3);
+
+    await vote(matchId, connected[0], 'LEFT');
+    await vote(matchId, connected[1], 'RIGHT');
+    await tournamentManager.applyEndingPolicies(connected);
+    expect((await getMatch(matchId)).status).toBe('IN_PROGRESS');
+
+    // A session that leaves without voting no longer holds the match open
+    await tournamentManager.applyEndingPolicies(connected.slice(0, 2));
+    const match = await getMatch(matchId);
+    expect(match.status).toBe('COMPLETED');
+    expect(match.endReason).toBe('ALL_VOTED');
+  });
+
+  it('should not end a match without votes or without an ending policy', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30, { endingPolicies: ['ALL_VOTED'] });
+    const matchId = (await repository.getState())!.currentMatch!.id;
+    await tournamentManager.applyEndingPolicies([]);
+    expect((await getMatch(matchId)).status).toBe('IN_PROGRESS');
+
+    await tournamentManager.initializeTournament(createMemes(2), 30);
+    const otherId = (await repository.getState())!.currentMatch!.id;
+    await vote(otherId, 'session-1', 'LEFT');
+    await tournamentManager.applyEndingPolicies(['session-1']);
+    expect((await getMatch(otherId)).status).toBe('IN_PROGRESS');
+  });
+
+  it('should not end matches early while the tournament is paused', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30, { endingPolicies: ['ALL_VOTED'] });
+    const matchId = (await repository.getState())!.currentMatch!.id;
+    await vote(matchId, 'session-1', 'LEFT');
+    await tournamentManager.pauseTournament();
+
+    await tournamentManager.applyEndingPolicies(['session-1']);
+    expect((await getMatch(matchId)).status).toBe('IN_PROGRESS');
+  });
+
+  it('should record why each match ended', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 5);
+    const firstId = (await repository.getState())!.currentMatch!.id;
+    await vote(firstId, 'session-1', 'LEFT');
+    await vi.advanceTimersByTimeAsync(5000);
+    expect((await getMatch(firstId)).endReason).toBe('TIME_EXPIRED');
+
+    const secondId = (await repository.getState())!.currentMatch!.id;
+    await vote(secondId, 'session-1', 'RIGHT');
+    await tournamentManager.endCurrentMatch(secondId);
+    expect((await getMatch(secondId)).endReason).toBe('ENDED_BY_ADMIN');
+  });
+
+  it('should add overtime when a late vote arrives in a close match', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 10, { endingPolicies: ['AUTO_EXTEND'] });
+    const matchId = (await repository.getState())!.currentMatch!.id;
+
+    // An early vote never extends the match
+    await vote(matchId, 'session-1', 'LEFT');
+    expect((await getMatch(matchId)).timeRemaining).toBe(10);
+
+    await vi.advanceTimersByTimeAsync(7000);
+    await vote(matchId, 'session-2', 'RIGHT');
+    let match = await getMatch(matchId);
+    expect(getTimeRemaining(match)).toBe(13);
+    expect(match.extensions).toBe(1);
+
+    // A late vote that leaves a clear lead does not
+    await vote(matchId, 'session-3', 'RIGHT');
+    await vi.advanceTimersByTimeAsync(9000);
+    await vote(matchId, 'session-4', 'RIGHT');
+    match = await getMatch(matchId);
+    expect(getTimeRemaining(match)).toBe(4);
+    expect(match.extensions).toBe(1);
+  });
+
+  it('should judge how close a match is by its score with judge votes', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 10, {
+      endingPolicies: ['AUTO_EXTEND'],
+      juryScoring: 'WEIGHTED',
+      juryWeight: 3,
+    });
+    const matchId = (await repository.getState())!.currentMatch!.id;
+
+    // Two judge votes put the left meme 6 points ahead
+    await tournamentManager.castVote('judge-1', matchId, 'LEFT', true);
+    await tournamentManager.castVote('judge-2', matchId, 'LEFT', true);
+    await vi.advanceTimersByTimeAsync(7000);
+
+    // A late audience vote leaves the audience tally one apart, but not the score
+    await vote(matchId, 'session-1', 'RIGHT');
+    let match = await getMatch(matchId);
+    expect(getTimeRemaining(match)).toBe(3);
+    expect(match.extensions ?? 0).toBe(0);
+
+    // Once a single judge vote could turn the match, a late vote extends it
+    await tournamentManager.castVote('judge-3', matchId, 'RIGHT', true);
+    match = await getMatch(matchId);
+    expect(getTimeRemaining(match)).toBe(13);
+    expect(match.extensions).toBe(1);
+  });
+
+  it('should stop extending a match after the overtime limit', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 10, { endingPolicies: ['AUTO_EXTEND'] });
+    const matchId = (await repository.getState())!.currentMatch!.id;
+
+    // Alternating votes two seconds before the end keep the match close
+    for (let i = 0; i < 5; i++) {
+      const timeRemaining = getTimeRemaining(await getMatch(matchId));
+      await vi.advanceTimersByTimeAsync((timeRemaining - 2) * 1000);
+      await vote(matchId, `session-${i + 1}`, i % 2 === 0 ? 'LEFT' : 'RIGHT');
+    }
+    await vi.advanceTimersByTimeAsync(2000);
+
+    const match = await getMatch(matchId);
+    expect(match.extensions).toBe(3);
+    expect(match.status).toBe('COMPLETED');
+    expect(match.endReason).toBe('TIME_EXPIRED');
+  });
+});
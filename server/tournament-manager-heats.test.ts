@@ -0,0 +1,152 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { createMemes } from './test-helpers';
+import { Match } from '../types';
+
+describe('TournamentManager - Heats', () => {
+  let repository: InMemoryTournamentRepository;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    tournamentManager = new TournamentManager(repository);
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  const getCurrentMatch = async (): Promise<Match> => (await repository.getState())!.currentMatch!;
+
+  // Feature: heats, Property 3: The qualifiers of every heat play on in the bracket
+  it('should advance the most voted entrants of each heat', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 5, max: 16 }),
+        fc.integer({ min: 3, max: 4 }),
+        fc.integer({ min: 1, max: 2 }),
+        async (memeCount, heatSize, heatQualifiers) => {
+          await tournamentManager.initializeTournament(createMemes(memeCount), 30, { heatSize, heatQualifiers });
+
+          let state = (await repository.getState())!;
+          while (state.currentMatch?.entrants) {
+            // The last entrant of each heat gets the most votes
+            const heat = state.currentMatch;
+            const favourite = heat.entrants![heat.entrants!.length - 1];
+            await tournamentManager.processVote(heat.id, { memeId: favourite.id });
+            state = await tournamentManager.completeCurrentMatch();
+
+            const completed = state.bracket[0].matches[heat.matchIndex];
+            expect(completed.winner!.id).toBe(favourite.id);
+            expect(completed.qualifiers).toHaveLength(heatQualifiers);
+          }
+
+          const qualifiers = state.bracket[0].matches.flatMap(heat => heat.qualifiers!.map(m => m.id));
+          const bracketMemes = state.bracket.slice(1).flatMap(r => r.matches)
+            .flatMap(m => [m.leftMeme?.id, m.rightMeme?.id])
+            .filter(Boolean);
+          expect(new Set(bracketMemes)).toEqual(new Set(qualifiers));
+
+          while (state.status === 'DUEL_IN_PROGRESS') {
+            state = await tournamentManager.completeCurrentMatch();
+          }
+          expect(qualifiers).toContain(state.winner!.id);
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should count votes for any entrant of a heat by meme ID', async () => {
+    await tournamentManager.initializeTournament(createMemes(8), 30, { heatSize: 4 });
+
+    const heat = await getCurrentMatch();
+    expect(heat.entrants).toHaveLength(4);
+
+    await tournamentManager.processVote(heat.id, { memeId: heat.entrants![2].id });
+    await tournamentManager.processVote(heat.id, { memeId: heat.entrants![2].id });
+    await tournamentManager.processVote(heat.id, { memeId: heat.entrants![3].id });
+
+    const voted = await getCurrentMatch();
+    expect(voted.entrantVotes![heat.entrants![2].id]).toBe(2);
+    expect(voted.entrantVotes![heat.entrants![3].id]).toBe(1);
+    expect(voted.votes).toEqual({ left: 0, right: 0 });
+  });
+
+  it('should reject side votes and unknown memes in a heat', async () => {
+    await tournamentManager.initializeTournament(createMemes(8), 30, { heatSize: 4 });
+    const heat = await getCurrentMatch();
+
+    await expect(tournamentManager.processVote(heat.id, 'LEFT')).rejects.toThrow('Invalid vote choice');
+    await expect(tournamentManager.processVote(heat.id, { memeId: 'meme-99' })).rejects.toThrow('Invalid vote choice');
+  });
+
+  it('should accept meme ID votes in a two-meme duel', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    const match = await getCurrentMatch();
+
+    await tournamentManager.processVote(match.id, { memeId: match.rightMeme!.id });
+
+    expect((await getCurrentMatch()).votes).toEqual({ left: 0, right: 1 });
+  });
+
+  it('should break ties within a heat by seed', async () => {
+    await tournamentManager.initializeTournament(createMemes(6), 30, { heatSize: 3, heatQualifiers: 2 });
+    const heat = await getCurrentMatch();
+    const [first, second, third] = heat.entrants!;
+
+    await tournamentManager.processVote(heat.id, { memeId: third.id });
+    await tournamentManager.processVote(heat.id, { memeId: second.id });
+    const state = await tournamentManager.completeCurrentMatch();
+
+    expect(state.bracket[0].matches[0].qualifiers!.map(m => m.id)).toEqual([second.id, third.id]);
+    expect(state.bracket[0].matches[0].qualifiers!.map(m => m.id)).not.toContain(first.id);
+  });
+
+  it('should not allow overriding a heat', async () => {
+    await tournamentManager.initializeTournament(createMemes(8), 30, { heatSize: 4 });
+    const heat = await getCurrentMatch();
+
+    await expect(tournamentManager.overrideMatch(heat.id, 'LEFT', 'Jury decision')).rejects.toThrow(
+      'Heat results cannot be overridden'
+    );
+  });
+
+  it('should take the qualifiers back out of the bracket when a heat is undone', async () => {
+    await tournamentManager.initializeTournament(createMemes(6), 30, { heatSize: 3, heatQualifiers: 2 });
+    const heat = await getCurrentMatch();
+    await tournamentManager.processVote(heat.id, { memeId: heat.entrants![1].id });
+    await tournamentManager.completeCurrentMatch();
+
+    const state = await tournamentManager.undoLastResult(heat.id);
+    const replayed = state.currentMatch!;
+
+    expect(replayed.id).toBe(heat.id);
+    expect(replayed.qualifiers).toBeUndefined();
+    expect(replayed.entrantVotes![heat.entrants![1].id]).toBe(1);
+    expect(state.bracket[1].matches.every(m => !m.leftMeme && !m.rightMeme)).toBe(true);
+  });
+
+  it('should only use heats for single elimination pools larger than one heat', async () => {
+    await tournamentManager.initializeTournament(createMemes(8), 30, { format: 'ROUND_ROBIN', heatSize: 4 });
+    expect((await repository.getState())!.config.heatSize).toBeUndefined();
+
+    await tournamentManager.initializeTournament(createMemes(3), 30, { heatSize: 4 });
+    expect((await repository.getState())!.config.heatSize).toBeUndefined();
+
+    await tournamentManager.initializeTournament(createMemes(8), 30, { heatSize: 4, heatQualifiers: 5 });
+    const config = (await repository.getState())!.config;
+    expect(config.heatSize).toBe(4);
+    expect(config.heatQualifiers).toBe(2);
+  });
+});
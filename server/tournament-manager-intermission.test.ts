@@ -0,0 +1,135 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { VoteLockManager } from './vote-lock-manager';
+import { estimateTournamentDuration } from '../lib/round-times';
+import { getTimeRemaining } from '../lib/match-clock';
+import { createMemes } from './test-helpers';
+import { Match } from '../types';
+
+describe('TournamentManager - Match Result Intermission', () => {
+  let repository: InMemoryTournamentRepository;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    tournamentManager = new TournamentManager(repository, undefined, new VoteLockManager());
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  // Feature: match-result, Property 1: Every result but the last is revealed before play goes on
+  it('should reveal each result before the next match is played', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 12 }),
+        fc.constantFrom('SINGLE_ELIMINATION' as const, 'DOUBLE_ELIMINATION' as const, 'ROUND_ROBIN' as const),
+        async (memeCount, format) => {
+          await tournamentManager.initializeTournament(createMemes(memeCount), 30, { format, intermissionSeconds: 5 });
+
+          let state = (await repository.getState())!;
+          while (state.status === 'DUEL_IN_PROGRESS') {
+            const matchId = state.currentMatch!.id;
+            await tournamentManager.processVote(matchId, 'LEFT');
+            state = await tournamentManager.completeCurrentMatch(matchId);
+
+            if (state.status === 'TOURNAMENT_FINISHED') {
+              expect(state.matchResult).toBeNull();
+              break;
+            }
+
+            expect(state.status).toBe('MATCH_RESULT');
+            expect(state.matchResult!.matches.map(m => m.id)).toEqual([matchId]);
+            expect(state.matchResult!.matches[0].status).toBe('COMPLETED');
+            state = await tournamentManager.continueTournament();
+            expect(state.matchResult).toBeNull();
+          }
+
+          expect(state.status).toBe('TOURNAMENT_FINISHED');
+          expect(state.winner).not.toBeNull();
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should count down the intermission instead of the next match', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 10, { intermissionSeconds: 5 });
+    await vi.advanceTimersByTimeAsync(10000);
+
+    let state = (await repository.getState())!;
+    expect(state.status).toBe('MATCH_RESULT');
+    expect(state.currentMatch!.matchIndex).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(3000);
+    state = (await repository.getState())!;
+    expect(getTimeRemaining(state.matchResult!)).toBe(2);
+    expect(state.currentMatch!.timeRemaining).toBe(10);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    state = (await repository.getState())!;
+    expect(state.status).toBe('DUEL_IN_PROGRESS');
+    expect(state.matchResult).toBeNull();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getTimeRemaining((await repository.getState())!.currentMatch!)).toBe(9);
+  });
+
+  it('should reject votes while a result is being shown', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30, { intermissionSeconds: 5 });
+    await tournamentManager.completeCurrentMatch();
+
+    const nextMatchId = (await repository.getState())!.currentMatch!.id;
+    await expect(tournamentManager.processVote(nextMatchId, 'LEFT')).rejects.toThrow('Voting resumes after the match result');
+    await expect(tournamentManager.pauseTournament()).rejects.toThrow();
+  });
+
+  it('should reveal parallel matches that end together at once', async () => {
+    await tournamentManager.initializeTournament(createMemes(8), 10, { intermissionSeconds: 5, parallelMatches: 2 });
+    await vi.advanceTimersByTimeAsync(10000);
+
+    const state = (await repository.getState())!;
+    expect(state.status).toBe('MATCH_RESULT');
+    expect(state.matchResult!.matches.map(m => m.matchIndex)).toEqual([0, 1]);
+    expect(state.activeMatches!.map(m => m.matchIndex)).toEqual([2, 3]);
+  });
+
+  it('should only continue while a result is being shown', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    await expect(tournamentManager.continueTournament()).rejects.toThrow('No match result is being shown');
+
+    const state = await tournamentManager.completeCurrentMatch();
+    expect(state.status).toBe('DUEL_IN_PROGRESS');
+    expect(state.matchResult).toBeUndefined();
+  });
+
+  it('should drop the result reveal when the result is undone', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30, { intermissionSeconds: 5 });
+    const matchId = (await repository.getState())!.currentMatch!.id;
+    await tournamentManager.completeCurrentMatch(matchId);
+
+    const state = await tournamentManager.undoLastResult(matchId);
+    expect(state.status).toBe('DUEL_IN_PROGRESS');
+    expect(state.matchResult).toBeNull();
+    expect(state.currentMatch!.id).toBe(matchId);
+  });
+
+  it('should add the result reveals to the estimated duration', () => {
+    const base = estimateTournamentDuration({ votingTimeSeconds: 30 }, 8);
+    expect(base).toBe(7 * 30);
+    expect(estimateTournamentDuration({ votingTimeSeconds: 30, intermissionSeconds: 10 }, 8)).toBe(base + 6 * 10);
+    expect(estimateTournamentDuration({ votingTimeSeconds: 30, intermissionSeconds: 10, parallelMatches: 4 }, 8))
+      .toBe(3 * 30 + 2 * 10);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { VoteLockManager } from './vote-lock-manager';
+import { createMemes } from './test-helpers';
+import { Match } from '../types';
+
+describe('TournamentManager - Jury', () => {
+  let repository: InMemoryTournamentRepository;
+  let voteLockManager: VoteLockManager;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    voteLockManager = new VoteLockManager();
+    tournamentManager = new TournamentManager(repository, undefined, voteLockManager);
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  /**
+   * Cast audience and judge votes on the current match, then complete it
+   */
+  const playMatch = async (audience: [number, number], jury: [number, number]): Promise<Match> => {
+    const matchId = (await repository.getState())!.currentMatch!.id;
+    for (const [index, side] of (['LEFT', 'RIGHT'] as const).entries()) {
+      for (let i = 0; i < audience[index]; i++) {
+        await tournamentManager.processVote(matchId, side);
+      }
+      for (let i = 0; i < jury[index]; i++) {
+        await tournamentManager.processVote(matchId, side, true);
+      }
+    }
+    const state = await tournamentManager.completeCurrentMatch(matchId);
+    return state.bracket.flatMap(round => round.matches).find(m => m.id === matchId)!;
+  };
+
+  // Feature: jury, Property 1: Weighted judge votes count juryWeight times next to the audience
+  it('should decide a weighted match by audience votes plus weighted judge votes', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.tuple(fc.nat({ max: 15 }), fc.nat({ max: 15 })),
+        fc.tuple(fc.nat({ max: 4 }), fc.nat({ max: 4 })),
+        fc.integer({ min: 1, max: 10 }),
+        async (audience, jury, juryWeight) => {
+          await tournamentManager.initializeTournament(createMemes(2), 30, { juryScoring: 'WEIGHTED', juryWeight });
+          const match = await playMatch(audience, jury);
+
+          expect(match.votes).toEqual({ left: audience[0], right: audience[1] });
+          expect(match.juryVotes ?? { left: 0, right: 0 }).toEqual({ left: jury[0], right: jury[1] });
+
+          const left = audience[0] + jury[0] * juryWeight;
+          const right = audience[1] + jury[1] * juryWeight;
+          if (left === right) {
+            expect(match.decidedBy).toBe('RANDOM');
+          } else {
+            expect(match.winner!.id).toBe(left > right ? match.leftMeme!.id : match.rightMeme!.id);
+            expect(match.decidedBy).toBeUndefined();
+          }
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  // Feature: jury, Property 2: Under SHARE the jury decides a fixed part of the result
+  it('should blend the audience and jury percentages under share scoring', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.tuple(fc.nat({ max: 15 }), fc.nat({ max: 15 })),
+        fc.tuple(fc.nat({ max: 4 }), fc.nat({ max: 4 })),
+        fc.constantFrom(0.25, 0.5, 0.75),
+        async (audience, jury, juryShare) => {
+          await tournamentManager.initializeTournament(createMemes(2), 30, { juryScoring: 'SHARE', juryShare });
+          const match = await playMatch(audience, jury);
+
+          // Compare leads rather than scores to stay clear of rounding
+          const audienceTotal = audience[0] + audience[1];
+          const juryTotal = jury[0] + jury[1];
+          const audienceLead = audienceTotal > 0 ? (audience[0] - audience[1]) / audienceTotal : 0;
+          const juryLead = juryTotal > 0 ? (jury[0] - jury[1]) / juryTotal : 0;
+          const lead = (1 - juryShare) * audienceLead + juryShare * juryLead;
+
+          if (Math.abs(lead) < 1e-9) {
+            expect(match.decidedBy).toBe('RANDOM');
+          } else {
+            expect(match.winner!.id).toBe(lead > 0 ? match.leftMeme!.id : match.rightMeme!.id);
+          }
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should let a small jury outweigh a larger audience under share scoring', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30, { juryScoring: 'SHARE', juryShare: 0.75 });
+    const match = await playMatch([10, 6], [0, 2]);
+
+    expect(match.winner!.id).toBe('meme-2');
+  });
+
+  it('should count judges as audience when the tournament has no jury', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30);
+    const match = await playMatch([1, 0], [0, 2]);
+
+    expect(match.votes).toEqual({ left: 1, right: 2 });
+    expect(match.juryVotes).toBeUndefined();
+    expect(match.winner!.id).toBe('meme-2');
+  });
+
+  it('should rank heat entrants by their combined score', async () => {
+    await tournamentManager.initializeTournament(createMemes(8), 30, {
+      heatSize: 4,
+      heatQualifiers: 2,
+      juryScoring: 'WEIGHTED',
+      juryWeight: 3
+    });
+    const heat = (await repository.getState())!.currentMatch!;
+    const [first, second, third, fourth] = heat.entrants!;
+
+    for (let i = 0; i < 4; i++) {
+      await tournamentManager.processVote(heat.id, { memeId: first.id });
+    }
+    await tournamentManager.processVote(heat.id, { memeId: second.id });
+    await tournamentManager.processVote(heat.id, { memeId: fourth.id }, true);
+    await tournamentManager.processVote(heat.id, { memeId: third.id }, true);
+    await tournamentManager.processVote(heat.id, { memeId: third.id }, true);
+
+    const state = await tournamentManager.completeCurrentMatch(heat.id);
+    const completed = state.bracket[0].matches[0];
+
+    expect(completed.entrantVotes![third.id]).toBe(0);
+    expect(completed.juryEntrantVotes).toEqual({ [third.id]: 2, [fourth.id]: 1 });
+    expect(completed.qualifiers!.map(m => m.id)).toEqual([third.id, first.id]);
+  });
+
+  it('should only end on a decisive lead that every remaining judge vote could not overturn', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30, {
+      endingPolicies: ['DECISIVE_LEAD'],
+      juryScoring: 'WEIGHTED',
+      juryWeight: 5
+    });
+    const matchId = (await repository.getState())!.currentMatch!.id;
+
+    for (const voter of ['a', 'b', 'c']) {
+      await tournamentManager.processVote(matchId, 'LEFT');
+      voteLockManager.recordVote(voter, matchId);
+    }
+
+    // A 3-vote lead would be decisive with one voter left, but not if that voter is a judge
+    await tournamentManager.applyEndingPolicies(['a', 'b', 'c', 'd']);
+    expect((await repository.getState())!.currentMatch!.id).toBe(matchId);
+
+    await tournamentManager.processVote(matchId, 'LEFT', true);
+    voteLockManager.recordVote('e', matchId);
+    await tournamentManager.applyEndingPolicies(['a', 'b', 'c', 'd', 'e']);
+
+    const state = (await repository.getState())!;
+    expect(state.bracket[0].matches[0].endReason).toBe('DECISIVE_LEAD');
+    expect(state.winner!.id).toBe('meme-1');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { createMemes } from './test-helpers';
+import { Match, Round } from '../types';
+
+describe('TournamentManager - League Formats', () => {
+  let repository: InMemoryTournamentRepository;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    tournamentManager = new TournamentManager(repository);
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  /**
+   * Play the tournament to the end; choose returns the side to vote for, or null for no votes
+   * @returns Number of matches played
+   */
+  const playTournament = async (choose: (match: Match) => 'LEFT' | 'RIGHT' | null): Promise<number> => {
+    let played = 0;
+    let state = await repository.getState();
+
+    while (state && state.status === 'DUEL_IN_PROGRESS' && state.currentMatch) {
+      const choice = choose(state.currentMatch);
+      if (choice) {
+        await tournamentManager.processVote(state.currentMatch.id, choice);
+      }
+      played++;
+      state = await tournamentManager.completeCurrentMatch();
+    }
+
+    return played;
+  };
+
+  // Feature: league-formats, Property 1: Round-robin plays every pairing once
+  it('should play every pairing exactly once in a round-robin', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 8 }),
+        fc.array(fc.constantFrom<'LEFT' | 'RIGHT' | null>('LEFT', 'RIGHT', null), { minLength: 32, maxLength: 32 }),
+        async (memeCount, choices) => {
+          let turn = 0;
+          await tournamentManager.initializeTournament(createMemes(memeCount), 30, { format: 'ROUND_ROBIN' });
+
+          const played = await playTournament(() => choices[turn++ % choices.length]);
+          const state = await repository.getState();
+
+          expect(played).toBe((memeCount * (memeCount - 1)) / 2);
+          expect(state!.status).toBe('TOURNAMENT_FINISHED');
+          expect(state!.standings).toHaveLength(memeCount);
+          expect(state!.standings!.every(entry => entry.played === memeCount - 1)).toBe(true);
+          expect(state!.winner!.id).toBe(state!.standings![0].meme.id);
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  // Feature: league-formats, Property 2: Swiss plays the configured number of rounds
+  it('should play the configured number of Swiss rounds without rematches when possible', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 4, max: 10 }),
+        fc.array(fc.boolean(), { minLength: 32, maxLength: 32 }),
+        async (memeCount, choices) => {
+          let turn = 0;
+          await tournamentManager.initializeTournament(createMemes(memeCount), 30, {
+            format: 'SWISS',
+            swissRounds: 3,
+          });
+
+          await playTournament(() => (choices[turn++ % choices.length] ? 'LEFT' : 'RIGHT'));
+          const state = await repository.getState();
+
+          expect(state!.status).toBe('TOURNAMENT_FINISHED');
+          expect(state!.bracket).toHaveLength(3);
+
+          const pairings = state!.bracket.flatMap(round =>
+            round.matches.map(m => [m.leftMeme!.id, m.rightMeme!.id].sort().join(':'))
+          );
+          expect(new Set(pairings).size).toBe(pairings.length);
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should record a draw when a league match ends tied', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30, { format: 'ROUND_ROBIN' });
+
+    await playTournament(() => null);
+    const state = await repository.getState();
+
+    expect(state!.bracket[0].matches[0].winner).toBeNull();
+    expect(state!.standings!.map(entry => entry.draws)).toEqual([1, 1]);
+    expect(state!.standings!.map(entry => entry.points)).toEqual([1, 1]);
+  });
+
+  it('should award Swiss byes as wins', async () => {
+    await tournamentManager.initializeTournament(createMemes(3), 30, {
+      format: 'SWISS',
+      swissRounds: 2,
+    });
+
+    const initial = await repository.getState();
+    const bye = initial!.bracket[0].bye!;
+    expect(bye).toBeDefined();
+
+    await tournamentManager.completeCurrentMatch();
+    const state = await repository.getState();
+
+    const byeEntry = state!.standings!.find(entry => entry.meme.id === bye.id)!;
+    expect(byeEntry.wins).toBe(1);
+    expect(byeEntry.played).toBe(0);
+    expect(state!.bracket).toHaveLength(2);
+    expect(state!.bracket[1].bye!.id).not.toBe(bye.id);
+  });
+
+  it('should clamp the number of Swiss rounds to the number of opponents', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30, {
+      format: 'SWISS',
+      swissRounds: 10,
+    });
+
+    const state = await repository.getState();
+    expect(state!.config.swissRounds).toBe(3);
+  });
+
+  it('should default the number of Swiss rounds to log2 of the meme count', async () => {
+    await tournamentManager.initializeTournament(createMemes(8), 30, { format: 'SWISS' });
+
+    const state = await repository.getState();
+    expect(state!.config.swissRounds).toBe(3);
+    expect(state!.bracket[0].matches).toHaveLength(4);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { VoteLockManager } from './vote-lock-manager';
+import { getTimeRemaining } from '../lib/match-clock';
+import { createMemes } from './test-helpers';
+import { Match } from '../types';
+
+describe('TournamentManager - Parallel Matches', () => {
+  let repository: InMemoryTournamentRepository;
+  let voteLockManager: VoteLockManager;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    voteLockManager = new VoteLockManager();
+    tournamentManager = new TournamentManager(repository, undefined, voteLockManager);
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  const getActiveMatches = async (): Promise<Match[]> => (await repository.getState())!.activeMatches!;
+
+  // Feature: parallel-matches, Property 1: Active matches never exceed the limit and share a round
+  it('should only run matches of the same round in parallel, up to the limit', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 16 }),
+        fc.integer({ min: 1, max: 4 }),
+        fc.constantFrom('SINGLE_ELIMINATION' as const, 'DOUBLE_ELIMINATION' as const, 'ROUND_ROBIN' as const),
+        async (memeCount, parallelMatches, format) => {
+          await tournamentManager.initializeTournament(createMemes(memeCount), 30, { format, parallelMatches });
+
+          let state = await repository.getState();
+          let completed = 0;
+          while (state!.status === 'DUEL_IN_PROGRESS') {
+            const active = state!.activeMatches!;
+            expect(active.length).toBeGreaterThan(0);
+            expect(active.length).toBeLessThanOrEqual(parallelMatches);
+            expect(new Set(active.map(m => m.roundIndex)).size).toBe(1);
+            expect(state!.currentMatch).toBe(active[0]);
+
+            // Complete the last active match to exercise out-of-order results
+            await tournamentManager.processVote(active[active.length - 1].id, 'LEFT');
+            state = await tournamentManager.completeCurrentMatch(active[active.length - 1].id);
+            completed++;
+          }
+
+          const playable = state!.bracket.flatMap(r => r.matches).filter(m => m.status === 'COMPLETED');
+          expect(completed).toBe(playable.length);
+          expect(state!.activeMatches).toEqual([]);
+          expect(state!.currentMatch).toBeNull();
+          expect(state!.winner).not.toBeNull();
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should start several matches of the first round at once', async () => {
+    await tournamentManager.initializeTournament(createMemes(8), 30, { parallelMatches: 3 });
+
+    const active = await getActiveMatches();
+    expect(active.map(m => m.matchIndex)).toEqual([0, 1, 2]);
+    expect(active.every(m => m.status === 'IN_PROGRESS')).toBe(true);
+    expect((await repository.getState())!.bracket[0].matches[3].status).toBe('PENDING');
+  });
+
+  it('should count down every active match on the same clock', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30, { parallelMatches: 2 });
+    const [first] = await getActiveMatches();
+    await tournamentManager.adjustMatchTime(first.id, 10);
+
+    await vi.advanceTimersByTimeAsync(5000);
+
+    const active = await getActiveMatches();
+    expect(active.map(m => getTimeRemaining(m))).toEqual([35, 25]);
+  });
+
+  it('should complete each match when its own time runs out', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30, { parallelMatches: 2 });
+    const [first, second] = await getActiveMatches();
+    await tournamentManager.adjustMatchTime(first.id, -20);
+
+    await vi.advanceTimersByTimeAsync(10000);
+
+    let state = await repository.getState();
+    expect(state!.bracket[0].matches[0].status).toBe('COMPLETED');
+    expect(state!.activeMatches!.map(m => m.id)).toEqual([second.id]);
+
+    await vi.advanceTimersByTimeAsync(20000);
+
+    // Both semi-finals are done: the final starts on its own
+    state = await repository.getState();
+    expect(state!.bracket[0].matches[1].status).toBe('COMPLETED');
+    expect(state!.activeMatches!.map(m => m.roundIndex)).toEqual([1]);
+    expect(state!.currentMatch!.timeRemaining).toBe(30);
+  });
+
+  it('should accept votes and keep vote locks per active match', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30, { parallelMatches: 2 });
+    const [first, second] = await getActiveMatches();
+
+    await tournamentManager.processVote(second.id, 'RIGHT');
+    voteLockManager.recordVote('voter-1', first.id);
+    voteLockManager.recordVote('voter-1', second.id);
+
+    const state = await tournamentManager.completeCurrentMatch(first.id);
+
+    expect(state.bracket[0].matches[1].votes).toEqual({ left: 0, right: 1 });
+    expect(voteLockManager.hasVoted('voter-1', first.id)).toBe(false);
+    expect(voteLockManager.hasVoted('voter-1', second.id)).toBe(true);
+  });
+
+  it('should keep a tie-break on one match from holding up the others', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30, { parallelMatches: 2, tieBreak: 'ADMIN_DECISION' });
+    const [first, second] = await getActiveMatches();
+
+    await tournamentManager.completeCurrentMatch(first.id);
+    await vi.advanceTimersByTimeAsync(3000);
+
+    const active = await getActiveMatches();
+    expect(active[0].tieBreakPhase).toBe('AWAITING_ADMIN');
+    expect(active[0].timeRemaining).toBe(0);
+    expect(active[1].id).toBe(second.id);
+    expect(getTimeRemaining(active[1])).toBe(27);
+  });
+
+  it('should keep the progress of other parallel matches when a result is undone', async () => {
+    await tournamentManager.initializeTournament(createMemes(6), 30, { format: 'ROUND_ROBIN', parallelMatches: 2 });
+    const [first, second] = await getActiveMatches();
+
+    await tournamentManager.processVote(first.id, 'LEFT');
+    await tournamentManager.completeCurrentMatch(first.id);
+    const [, started] = await getActiveMatches();
+    voteLockManager.recordVote('voter-2', started.id);
+    await tournamentManager.processVote(second.id, 'RIGHT');
+
+    const state = await tournamentManager.undoLastResult(first.id);
+
+    const active = state.activeMatches!;
+    expect(active.map(m => m.id)).toEqual([first.id, second.id]);
+    expect(active[0].votes).toEqual({ left: 1, right: 0 });
+    expect(active[1].votes).toEqual({ left: 0, right: 1 });
+    expect(voteLockManager.hasVoted('voter-2', started.id)).toBe(false);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { VoteLockManager } from './vote-lock-manager';
+import { getTimeRemaining } from '../lib/match-clock';
+import { createMemes } from './test-helpers';
+import { Match } from '../types';
+
+describe('TournamentManager - Result Corrections', () => {
+  let repository: InMemoryTournamentRepository;
+  let voteLockManager: VoteLockManager;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    voteLockManager = new VoteLockManager();
+    tournamentManager = new TournamentManager(repository, undefined, voteLockManager);
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  const getCurrentMatch = async (): Promise<Match> => (await repository.getState())!.currentMatch!;
+
+  // Feature: result-corrections, Property 1: Undoing every result restores the opening state
+  it('should restore the first match after undoing every result', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 8 }),
+        fc.array(fc.constantFrom('LEFT' as const, 'RIGHT' as const), { minLength: 1, maxLength: 7 }),
+        async (memeCount, choices) => {
+          await tournamentManager.initializeTournament(createMemes(memeCount), 30);
+          const opening = structuredClone((await repository.getState())!);
+
+          let completed = 0;
+          for (const choice of choices) {
+            const state = await repository.getState();
+            if (state!.status !== 'DUEL_IN_PROGRESS') {
+              break;
+            }
+            await tournamentManager.processVote(state!.currentMatch!.id, choice);
+            await tournamentManager.completeCurrentMatch();
+            completed++;
+          }
+
+          for (let i = 0; i < completed; i++) {
+            const state = await repository.getState();
+            await tournamentManager.undoLastResult(state!.undoableMatchId!);
+          }
+
+          const state = await repository.getState();
+          expect(state!.undoableMatchId).toBeNull();
+          expect(state!.status).toBe('DUEL_IN_PROGRESS');
+          expect(state!.currentMatch!.id).toBe(opening.currentMatch!.id);
+          expect(state!.bracket.map(r => r.matches.map(m => [m.leftMeme?.id, m.rightMeme?.id, m.status])))
+            .toEqual(opening.bracket.map(r => r.matches.map(m => [m.leftMeme?.id, m.rightMeme?.id, m.status])));
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should take the winner back out of the next round and replay the match with its votes', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    const first = await getCurrentMatch();
+    voteLockManager.recordVote('voter-1', first.id);
+    await tournamentManager.processVote(first.id, 'LEFT');
+    await tournamentManager.processVote(first.id, 'LEFT');
+
+    let state = await tournamentManager.completeCurrentMatch();
+    const second = state.currentMatch!;
+    expect(state.undoableMatchId).toBe(first.id);
+    expect(state.bracket[1].matches[0].leftMeme!.id).toBe(first.leftMeme!.id);
+    await tournamentManager.processVote(second.id, 'RIGHT');
+
+    state = await tournamentManager.undoLastResult(first.id);
+
+    const replayed = state.bracket[0].matches[0];
+    expect(state.currentMatch!.id).toBe(first.id);
+    expect(replayed.status).toBe('IN_PROGRESS');
+    expect(replayed.winner).toBeNull();
+    expect(replayed.votes).toEqual({ left: 2, right: 0 });
+    expect(replayed.timeRemaining).toBe(30);
+    expect(state.bracket[1].matches[0].leftMeme).toBeNull();
+    expect(state.bracket[0].matches[1].status).toBe('PENDING');
+    expect(state.bracket[0].matches[1].votes).toEqual({ left: 0, right: 0 });
+
+    // Voters keep their lock on the replayed match
+    expect(voteLockManager.hasVoted('voter-1', first.id)).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getTimeRemaining(await getCurrentMatch())).toBe(29);
+  });
+
+  it('should reopen a finished tournament when the final is undone', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30);
+    const final = await getCurrentMatch();
+    await tournamentManager.processVote(final.id, 'RIGHT');
+    await tournamentManager.completeCurrentMatch();
+
+    const state = await tournamentManager.undoLastResult(final.id);
+
+    expect(state.status).toBe('DUEL_IN_PROGRESS');
+    expect(state.winner).toBeNull();
+    expect(state.currentMatch!.votes).toEqual({ left: 0, right: 1 });
+  });
+
+  it('should only undo the last result', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    await expect(tournamentManager.undoLastResult('any-match')).rejects.toThrow('No result to undo');
+
+    const first = await getCurrentMatch();
+    await tournamentManager.completeCurrentMatch();
+    await tournamentManager.completeCurrentMatch();
+
+    await expect(tournamentManager.undoLastResult(first.id)).rejects.toThrow(
+      'Only the last completed match can be undone'
+    );
+  });
+
+  it('should force the winner of the current match and record the reason', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    const match = await getCurrentMatch();
+    await tournamentManager.processVote(match.id, 'LEFT');
+    await tournamentManager.processVote(match.id, 'LEFT');
+
+    const state = await tournamentManager.overrideMatch(match.id, 'RIGHT', '  Double-submitted votes  ');
+
+    const overridden = state.bracket[0].matches[0];
+    expect(overridden.status).toBe('COMPLETED');
+    expect(overridden.winner!.id).toBe(match.rightMeme!.id);
+    expect(overridden.override!.reason).toBe('Double-submitted votes');
+    expect(overridden.votes).toEqual({ left: 2, right: 0 });
+    expect(state.bracket[1].matches[0].leftMeme!.id).toBe(match.rightMeme!.id);
+    expect(state.currentMatch!.id).not.toBe(match.id);
+  });
+
+  it('should override a match awaiting a tie-break decision', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30, { tieBreak: 'ADMIN_DECISION' });
+    const match = await getCurrentMatch();
+    await tournamentManager.completeCurrentMatch();
+
+    const state = await tournamentManager.overrideMatch(match.id, 'LEFT', 'Host decided on stage');
+
+    expect(state.winner!.id).toBe(match.leftMeme!.id);
+    expect(state.bracket[0].matches[0].decidedBy).toBeUndefined();
+    expect(state.bracket[0].matches[0].override).toBeDefined();
+  });
+
+  it('should require a reason to override a match', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30);
+    const match = await getCurrentMatch();
+
+    await expect(tournamentManager.overrideMatch(match.id, 'LEFT', '   ')).rejects.toThrow(
+      'An override requires a reason'
+    );
+    expect((await getCurrentMatch()).status).toBe('IN_PROGRESS');
+  });
+
+  it('should clear the override when an overridden result is undone', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30);
+    const match = await getCurrentMatch();
+    await tournamentManager.overrideMatch(match.id, 'LEFT', 'Wrong side');
+
+    const state = await tournamentManager.undoLastResult(match.id);
+
+    expect(state.currentMatch!.override).toBeUndefined();
+    expect(state.currentMatch!.status).toBe('IN_PROGRESS');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { getRoundVotingTime, getRoundKind, getRoundStages, estimateRounds, estimateRoundSizes, estimateTournamentDuration } from '../lib/round-times';
+import { createMemes } from './test-helpers';
+import { TournamentState, Round } from '../types';
+
+describe('TournamentManager - Round Times', () => {
+  let repository: InMemoryTournamentRepository;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    tournamentManager = new TournamentManager(repository);
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  const getRoundTimes = (state: TournamentState): number[] =>
+    state.bracket.map(round => round.matches[0].totalTime);
+
+  // Feature: round-times, Property 1: Every match of a round gets the round's scheduled time
+  it('should give every match the time scheduled for its round', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 32 }),
+        fc.array(fc.integer({ min: 5, max: 300 }), { minLength: 1, maxLength: 6 }),
+        fc.constantFrom('SINGLE_ELIMINATION' as const, 'DOUBLE_ELIMINATION' as const, 'ROUND_ROBIN' as const),
+        async (memeCount, roundTimeSchedule, format) => {
+          await tournamentManager.initializeTournament(createMemes(memeCount), 30, { format, roundTimeSchedule });
+          const state = (await repository.getState())!;
+
+          const finalRound = state.bracket[state.bracket.length - 1];
+          expect(finalRound.matches[0].totalTime).toBe(roundTimeSchedule[roundTimeSchedule.length - 1]);
+
+          const { stages, stageCount } = getRoundStages(state.bracket.map(getRoundKind));
+          for (const round of state.bracket) {
+            const expected = getRoundVotingTime(state.config, stages[round.roundIndex], stageCount);
+            expect(round.matches.every(m => m.totalTime === expected && m.timeRemaining === expected)).toBe(true);
+          }
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  // Feature: round-times, Property 2: The duration preview counts the rounds that are actually played
+  it('should estimate the round sizes of the generated bracket', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 32 }),
+        fc.constantFrom('SINGLE_ELIMINATION' as const, 'ROUND_ROBIN' as const),
+        fc.boolean(),
+        fc.option(fc.integer({ min: 3, max: 4 }), { nil: undefined }),
+        fc.integer({ min: 1, max: 2 }),
+        async (memeCount, format, thirdPlaceMatch, heatSize, heatQualifiers) => {
+          const options = { thirdPlaceMatch, heatSize, heatQualifiers };
+          await tournamentManager.initializeTournament(createMemes(memeCount), 30, { format, ...options });
+          const state = (await repository.getState())!;
+
+          expect(estimateRoundSizes(format, memeCount, options))
+            .toEqual(state.bracket.map(round => round.matches.length));
+          expect(estimateRounds(format, memeCount, options).map(round => round.kind))
+            .toEqual(state.bracket.map(getRoundKind));
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should align the schedule to the final when there are fewer rounds than entries', async () => {
+    await tournamentManager.initializeTournament(createMemes(16), 30, { roundTimeSchedule: [15, 15, 30, 60] });
+    expect(getRoundTimes((await repository.getState())!)).toEqual([15, 15, 30, 60]);
+
+    await tournamentManager.initializeTournament(createMemes(8), 30, { roundTimeSchedule: [15, 15, 30, 60] });
+    expect(getRoundTimes((await repository.getState())!)).toEqual([15, 30, 60]);
+
+    await tournamentManager.initializeTournament(createMemes(32), 30, { roundTimeSchedule: [30, 60] });
+    expect(getRoundTimes((await repository.getState())!)).toEqual([30, 30, 30, 30, 60]);
+  });
+
+  it('should keep the schedule aligned to the bracket depth when extra rounds are played', async () => {
+    const roundTimeSchedule = [15, 30, 60];
+
+    // The third-place match is played at the final's time without taking a step
+    await tournamentManager.initializeTournament(createMemes(8), 30, { roundTimeSchedule, thirdPlaceMatch: true });
+    expect(getRoundTimes((await repository.getState())!)).toEqual([15, 30, 60, 60]);
+
+    // Heats are played at the time of the bracket round they open
+    await tournamentManager.initializeTournament(createMemes(16), 30, { roundTimeSchedule, heatSize: 4, heatQualifiers: 2 });
+    expect(getRoundTimes((await repository.getState())!)).toEqual([15, 15, 30, 60]);
+
+    // Losers bracket rounds are played at the time of the winners round before them
+    await tournamentManager.initializeTournament(createMemes(8), 30, {
+      format: 'DOUBLE_ELIMINATION',
+      roundTimeSchedule: [10, 20, 30, 60],
+      grandFinalReset: true
+    });
+    const state = (await repository.getState())!;
+    expect(state.bracket.map(round => [round.side, round.matches[0].totalTime])).toEqual([
+      ['WINNERS', 10],
+      ['WINNERS', 20],
+      ['LOSERS', 20],
+      ['LOSERS', 20],
+      ['WINNERS', 30],
+      ['LOSERS', 30],
+      ['LOSERS', 30],
+      ['GRAND_FINAL', 60],
+      ['GRAND_FINAL', 60]
+    ]);
+
+    // The duration preview times the same rounds the same way
+    expect(estimateTournamentDuration({ votingTimeSeconds: 30, roundTimeSchedule, thirdPlaceMatch: true }, 8))
+      .toBe(4 * 15 + 2 * 30 + 60 + 60);
+  });
+
+  it('should grow the voting time along a multiplier curve', async () => {
+    await tournamentManager.initializeTournament(createMemes(8), 10, { roundTimeMultiplier: 2 });
+
+    const state = (await repository.getState())!;
+    expect(getRoundTimes(state)).toEqual([10, 20, 40]);
+    expect(state.config.roundTimeMultiplier).toBe(2);
+    expect(state.currentMatch!.timeRemaining).toBe(10);
+  });
+
+  it('should prefer the schedule over the multiplier and store it in the config', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30, {
+      roundTimeSchedule: [20, 45],
+      roundTimeMultiplier: 2
+    });
+
+    const state = (await repository.getState())!;
+    expect(state.config.roundTimeSchedule).toEqual([20, 45]);
+    expect(state.config.roundTimeMultiplier).toBeUndefined();
+    expect(getRoundTimes(state)).toEqual([20, 45]);
+  });
+
+  it('should time Swiss rounds by their place in the schedule as they are generated', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30, {
+      format: 'SWISS',
+      swissRounds: 2,
+      roundTimeSchedule: [15, 60]
+    });
+
+    let state = (await repository.getState())!;
+    expect(getRoundTimes(state)).toEqual([15]);
+
+    while (state.bracket.length < 2) {
+      await tournamentManager.processVote(state.currentMatch!.id, 'LEFT');
+      state = await tournamentManager.completeCurrentMatch();
+    }
+
+    expect(getRoundTimes(state)).toEqual([15, 60]);
+    expect(state.currentMatch!.timeRemaining).toBe(60);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { getArchiveInstance } from './repository-singleton';
+import { createArchivedTournament } from './tournament-archive';
+import { createMemes } from './test-helpers';
+
+describe('TournamentManager - Seeding', () => {
+  let repository: InMemoryTournamentRepository;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    tournamentManager = new TournamentManager(repository);
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  /**
+   * Play the tournament to the end with the left meme always winning
+   */
+  const playTournament = async (): Promise<void> => {
+    let state = await repository.getState();
+
+    while (state && state.status === 'DUEL_IN_PROGRESS' && state.currentMatch) {
+      await tournamentManager.processVote(state.currentMatch.id, 'LEFT');
+      state = await tournamentManager.completeCurrentMatch();
+    }
+  };
+
+  it('should store each meme seed on the tournament state', async () => {
+    await tournamentManager.initializeTournament(createMemes(3), 30, {
+      seeding: 'MANUAL',
+      seedOrder: ['meme-3', 'meme-1', 'meme-2'],
+    });
+
+    const state = await repository.getState();
+    expect(state!.seeds).toEqual({ 'meme-3': 1, 'meme-1': 2, 'meme-2': 3 });
+
+    // The top seed gets the bye, so the first match is seeds 2 and 3
+    const firstMatch = state!.bracket[0].matches[0];
+    expect([firstMatch.leftMeme!.id, firstMatch.rightMeme!.id]).toEqual(['meme-1', 'meme-2']);
+  });
+
+  it('should complete a single-elimination tournament with byes', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 2, max: 17 }), async (memeCount) => {
+        await tournamentManager.initializeTournament(createMemes(memeCount), 30, { seeding: 'UPLOAD_ORDER' });
+        await playTournament();
+
+        const state = await repository.getState();
+        expect(state!.status).toBe('TOURNAMENT_FINISHED');
+        expect(state!.bracket.every(r => r.matches.every(m => m.status === 'COMPLETED'))).toBe(true);
+        expect(state!.winner).not.toBeNull();
+
+        await tournamentManager.resetTournament();
+      }),
+      { numRuns: 16 }
+    );
+  });
+
+  it('should seed a new tournament from the results of the finished one', async () => {
+    const memes = createMemes(4);
+    await tournamentManager.initializeTournament(memes, 30, { seeding: 'UPLOAD_ORDER' });
+    await playTournament();
+
+    const finished = await repository.getState();
+    const champion = finished!.winner!;
+
+    await tournamentManager.initializeTournament(memes, 30, { seeding: 'PAST_RESULTS' });
+    const state = await repository.getState();
+
+    expect(state!.seeds![champion.id]).toBe(1);
+  });
+
+  it('should seed from the archived tournament once the finished one has been reset', async () => {
+    const memes = createMemes(4);
+    await tournamentManager.initializeTournament(memes, 30, { seeding: 'UPLOAD_ORDER' });
+    await playTournament();
+
+    // Resetting archives the finished tournament and clears the live state
+    const archived = createArchivedTournament((await repository.getState())!, null);
+    await getArchiveInstance().addTournament(archived);
+    await tournamentManager.resetTournament();
+
+    try {
+      await tournamentManager.initializeTournament(memes, 30, { seeding: 'PAST_RESULTS' });
+      const state = await repository.getState();
+
+      expect(state!.seeds![archived.state.winner!.id]).toBe(1);
+    } finally {
+      await getArchiveInstance().deleteTournament(archived.id);
+    }
+  });
+
+  it('should reject past results seeding when no tournament has finished', async () => {
+    await expect(
+      tournamentManager.initializeTournament(createMemes(4), 30, { seeding: 'PAST_RESULTS' })
+    ).rejects.toThrow('No finished tournament to seed from');
+  });
+});
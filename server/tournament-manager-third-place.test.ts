@@ -0,0 +1,82 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { getPodium } from '../lib/podium';
+import { createMemes } from './test-helpers';
+import { TournamentState, Match } from '../types';
+
+describe('TournamentManager - Third-place Match', () => {
+  let repository: InMemoryTournamentRepository;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    tournamentManager = new TournamentManager(repository);
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  const playCurrentMatch = async (choice: 'LEFT' | 'RIGHT'): Promise<TournamentState> => {
+    const state = (await repository.getState())!;
+    await tournamentManager.processVote(state.currentMatch!.id, choice);
+    return tournamentManager.completeCurrentMatch();
+  };
+
+  it('should play the third-place match between the semifinal losers before the final', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30, { thirdPlaceMatch: true });
+
+    // Semifinals: seed 1 vs 4 and seed 2 vs 3, won by seeds 4 and 2
+    await playCurrentMatch('RIGHT');
+    let state = await playCurrentMatch('LEFT');
+
+    expect(state.currentMatch!.isThirdPlace).toBe(true);
+    expect([state.currentMatch!.leftMeme!.id, state.currentMatch!.rightMeme!.id]).toEqual(['meme-1', 'meme-3']);
+    expect(state.bracket[2].matches[0].status).toBe('PENDING');
+
+    state = await playCurrentMatch('RIGHT');
+    expect(state.currentMatch!.isThirdPlace).toBeUndefined();
+    expect(state.status).toBe('DUEL_IN_PROGRESS');
+
+    state = await playCurrentMatch('LEFT');
+    expect(state.status).toBe('TOURNAMENT_FINISHED');
+    expect(state.winner!.id).toBe('meme-4');
+
+    const podium = getPodium(state);
+    expect(podium.first!.id).toBe('meme-4');
+    expect(podium.second!.id).toBe('meme-2');
+    expect(podium.third!.id).toBe('meme-3');
+  });
+
+  it('should only add the third-place match to single elimination', async () => {
+    await tournamentManager.initializeTournament(createMemes(8), 30, {
+      format: 'DOUBLE_ELIMINATION',
+      thirdPlaceMatch: true
+    });
+
+    const state = (await repository.getState())!;
+    expect(state.config.thirdPlaceMatch).toBe(false);
+    expect(state.bracket.flatMap(r => r.matches).some(m => m.isThirdPlace)).toBe(false);
+  });
+
+  it('should leave third place empty without a third-place match', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+
+    let state = (await repository.getState())!;
+    while (state.status === 'DUEL_IN_PROGRESS') {
+      state = await playCurrentMatch('LEFT');
+    }
+
+    const podium = getPodium(state);
+    expect(podium.first).toEqual(state.winner);
+    expect(podium.second).not.toBeNull();
+    expect(podium.third).toBeNull();
+  });
+});
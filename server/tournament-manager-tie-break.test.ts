@@ -0,0 +1,139 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { createMemes } from './test-helpers';
+import { Match } from '../types';
+
+describe('TournamentManager - Tie-break Policies', () => {
+  let repository: InMemoryTournamentRepository;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    tournamentManager = new TournamentManager(repository);
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  const getCurrentMatch = async (): Promise<Match> => (await repository.getState())!.currentMatch!;
+
+  // Feature: tie-break, Property 1: Every tied elimination match is eventually decided
+  it('should record the deciding policy on every tied match', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom('SUDDEN_DEATH' as const, 'REVOTE' as const, 'FIRST_TO_FINAL_COUNT' as const, 'RANDOM' as const),
+        async (tieBreak) => {
+          await tournamentManager.initializeTournament(createMemes(2), 30, { tieBreak });
+
+          // Nobody votes: every voting round ends tied
+          let state = await repository.getState();
+          while (state!.status === 'DUEL_IN_PROGRESS') {
+            state = await tournamentManager.completeCurrentMatch();
+          }
+
+          const [match] = state!.bracket[0].matches;
+          expect(match.status).toBe('COMPLETED');
+          expect(match.winner).not.toBeNull();
+          expect(match.decidedBy).toBe('RANDOM');
+          expect(match.tieBreakPhase).toBeUndefined();
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 8 }
+    );
+  });
+
+  it('should start a short overtime where the first vote wins', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30, { tieBreak: 'SUDDEN_DEATH' });
+
+    await tournamentManager.completeCurrentMatch();
+    const overtime = await getCurrentMatch();
+    expect(overtime.tieBreakPhase).toBe('SUDDEN_DEATH');
+    expect(overtime.status).toBe('IN_PROGRESS');
+    expect(overtime.timeRemaining).toBe(10);
+
+    await tournamentManager.processVote(overtime.id, 'RIGHT');
+    const state = await repository.getState();
+
+    expect(state!.status).toBe('TOURNAMENT_FINISHED');
+    expect(state!.winner!.id).toBe(overtime.rightMeme!.id);
+    expect(state!.bracket[0].matches[0].decidedBy).toBe('SUDDEN_DEATH');
+  });
+
+  it('should clear the votes and reopen voting for a re-vote', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30, { tieBreak: 'REVOTE' });
+
+    const match = await getCurrentMatch();
+    await tournamentManager.processVote(match.id, 'LEFT');
+    await tournamentManager.processVote(match.id, 'RIGHT');
+    await tournamentManager.completeCurrentMatch();
+
+    const revote = await getCurrentMatch();
+    expect(revote.tieBreakPhase).toBe('REVOTE');
+    expect(revote.votes).toEqual({ left: 0, right: 0 });
+    expect(revote.timeRemaining).toBe(30);
+
+    await tournamentManager.processVote(revote.id, 'LEFT');
+    const state = await tournamentManager.completeCurrentMatch();
+
+    expect(state.winner!.id).toBe(revote.leftMeme!.id);
+    expect(state.bracket[0].matches[0].decidedBy).toBe('REVOTE');
+  });
+
+  it('should award the tie to the meme that reached its final count first', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30, { tieBreak: 'FIRST_TO_FINAL_COUNT' });
+
+    const match = await getCurrentMatch();
+    await tournamentManager.processVote(match.id, 'RIGHT');
+    vi.setSystemTime(Date.now() + 1000);
+    await tournamentManager.processVote(match.id, 'LEFT');
+    const state = await tournamentManager.completeCurrentMatch();
+
+    expect(state.winner!.id).toBe(match.rightMeme!.id);
+    expect(state.bracket[0].matches[0].decidedBy).toBe('FIRST_TO_FINAL_COUNT');
+  });
+
+  it('should wait for the admin to decide a tie', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30, { tieBreak: 'ADMIN_DECISION' });
+
+    const match = await getCurrentMatch();
+    await tournamentManager.completeCurrentMatch();
+
+    const awaiting = await getCurrentMatch();
+    expect(awaiting.tieBreakPhase).toBe('AWAITING_ADMIN');
+    await expect(tournamentManager.processVote(match.id, 'LEFT')).rejects.toThrow('Voting time has expired');
+
+    const state = await tournamentManager.decideTie(match.id, 'RIGHT');
+    expect(state.winner!.id).toBe(match.rightMeme!.id);
+    expect(state.bracket[0].matches[0].decidedBy).toBe('ADMIN_DECISION');
+  });
+
+  it('should reject admin decisions for matches that are not tied', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30, { tieBreak: 'ADMIN_DECISION' });
+
+    const match = await getCurrentMatch();
+    await expect(tournamentManager.decideTie(match.id, 'LEFT')).rejects.toThrow(
+      'Match is not awaiting a tie-break decision'
+    );
+  });
+
+  it('should not record a tie-break when the votes decide the match', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30, { tieBreak: 'SUDDEN_DEATH' });
+
+    const match = await getCurrentMatch();
+    await tournamentManager.processVote(match.id, 'LEFT');
+    const state = await tournamentManager.completeCurrentMatch();
+
+    expect(state.bracket[0].matches[0].decidedBy).toBeUndefined();
+  });
+});
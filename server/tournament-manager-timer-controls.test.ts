@@ -0,0 +1,208 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { TournamentManager } from './tournament-manager';
+import { InMemoryTournamentRepository } from './in-memory-repository';
+import { getTimeRemaining } from '../lib/match-clock';
+import { createMemes } from './test-helpers';
+import { Match } from '../types';
+
+describe('TournamentManager - Timer Controls', () => {
+  let repository: InMemoryTournamentRepository;
+  let tournamentManager: TournamentManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    repository = new InMemoryTournamentRepository();
+    tournamentManager = new TournamentManager(repository);
+  });
+
+  afterEach(async () => {
+    await tournamentManager.resetTournament();
+    vi.useRealTimers();
+  });
+
+  const getCurrentMatch = async (): Promise<Match> => (await repository.getState())!.currentMatch!;
+
+  // Feature: timer-controls, Property 1: Time never runs while the tournament is paused
+  it('should freeze the remaining time while paused', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 0, max: 20 }),
+        fc.integer({ min: 1, max: 60 }),
+        async (elapsedBeforePause, pausedSeconds) => {
+          await tournamentManager.initializeTournament(createMemes(2), 30);
+          await vi.advanceTimersByTimeAsync(elapsedBeforePause * 1000);
+
+          await tournamentManager.pauseTournament();
+          await vi.advanceTimersByTimeAsync(pausedSeconds * 1000);
+
+          const state = await repository.getState();
+          expect(state!.status).toBe('PAUSED');
+          expect(state!.currentMatch!.timeRemaining).toBe(30 - elapsedBeforePause);
+
+          await tournamentManager.resetTournament();
+        }
+      ),
+      { numRuns: 10 }
+    );
+  });
+
+  it('should resume the timer where it stopped', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30);
+    await vi.advanceTimersByTimeAsync(5000);
+    await tournamentManager.pauseTournament();
+    await vi.advanceTimersByTimeAsync(10000);
+
+    const resumed = await tournamentManager.resumeTournament();
+    expect(resumed.status).toBe('DUEL_IN_PROGRESS');
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(getTimeRemaining(await getCurrentMatch())).toBe(23);
+  });
+
+  it('should reject votes while paused', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30);
+    const match = await getCurrentMatch();
+    await tournamentManager.pauseTournament();
+
+    await expect(tournamentManager.processVote(match.id, 'LEFT')).rejects.toThrow('Tournament is paused');
+    expect((await getCurrentMatch()).votes).toEqual({ left: 0, right: 0 });
+  });
+
+  it('should only pause a running duel and only resume a paused one', async () => {
+    await tournamentManager.initializeEmptyState();
+    await expect(tournamentManager.pauseTournament()).rejects.toThrow('No duel in progress to pause');
+
+    await tournamentManager.initializeTournament(createMemes(2), 30);
+    await expect(tournamentManager.resumeTournament()).rejects.toThrow('Tournament is not paused');
+  });
+
+  it('should add and remove seconds on the current match', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30);
+    const match = await getCurrentMatch();
+
+    let state = await tournamentManager.adjustMatchTime(match.id, 15);
+    expect(state.currentMatch!.timeRemaining).toBe(45);
+    expect(state.currentMatch!.totalTime).toBe(45);
+    expect(state.bracket[0].matches[0].timeRemaining).toBe(45);
+
+    state = await tournamentManager.adjustMatchTime(match.id, -20);
+    expect(state.currentMatch!.timeRemaining).toBe(25);
+    expect(state.currentMatch!.totalTime).toBe(45);
+
+    // Removing more time than is left leaves one last second
+    state = await tournamentManager.adjustMatchTime(match.id, -60);
+    expect(state.currentMatch!.timeRemaining).toBe(1);
+    expect(state.status).toBe('DUEL_IN_PROGRESS');
+  });
+
+  it('should adjust the time of a paused match without resuming it', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30);
+    const match = await getCurrentMatch();
+    await tournamentManager.pauseTournament();
+
+    const state = await tournamentManager.adjustMatchTime(match.id, 10);
+    expect(state.status).toBe('PAUSED');
+    expect(state.currentMatch!.timeRemaining).toBe(40);
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect((await getCurrentMatch()).timeRemaining).toBe(40);
+  });
+
+  it('should reject time adjustments for stale matches or zero seconds', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30);
+    const match = await getCurrentMatch();
+
+    await expect(tournamentManager.adjustMatchTime('stale-match', 10)).rejects.toThrow('Invalid match ID');
+    await expect(tournamentManager.adjustMatchTime(match.id, 0)).rejects.toThrow(
+      'Time adjustment must be a non-zero whole number of seconds'
+    );
+  });
+
+  it('should end the current match early using the votes cast so far', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    const match = await getCurrentMatch();
+    await tournamentManager.processVote(match.id, 'RIGHT');
+
+    const state = await tournamentManager.endCurrentMatch(match.id);
+
+    expect(state.bracket[0].matches[0].status).toBe('COMPLETED');
+    expect(state.bracket[0].matches[0].winner!.id).toBe(match.rightMeme!.id);
+    expect(state.currentMatch!.id).not.toBe(match.id);
+    expect(state.currentMatch!.timeRemaining).toBe(30);
+  });
+
+  it('should resume the tournament when a paused match is ended', async () => {
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    const match = await getCurrentMatch();
+    await tournamentManager.processVote(match.id, 'LEFT');
+    await tournamentManager.pauseTournament();
+
+    const state = await tournamentManager.endCurrentMatch(match.id);
+
+    expect(state.status).toBe('DUEL_IN_PROGRESS');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getTimeRemaining(await getCurrentMatch())).toBe(29);
+  });
+
+  it('should send an ended tied match through the tie-break policy', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30, { tieBreak: 'ADMIN_DECISION' });
+    const match = await getCurrentMatch();
+
+    const state = await tournamentManager.endCurrentMatch(match.id);
+    expect(state.currentMatch!.tieBreakPhase).toBe('AWAITING_ADMIN');
+
+    // Only the admin decision can close the match now
+    await expect(tournamentManager.endCurrentMatch(match.id)).rejects.toThrow(
+      'Match is awaiting a tie-break decision'
+    );
+  });
+
+  it('should publish a deadline once instead of a state every second', async () => {
+    const onStateChange = vi.fn();
+    tournamentManager = new TournamentManager(repository, onStateChange);
+    await tournamentManager.initializeTournament(createMemes(4), 30);
+    const match = await getCurrentMatch();
+    expect(match.endsAt).toBe(Date.now() + 30000);
+
+    await vi.advanceTimersByTimeAsync(29000);
+    expect(onStateChange).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onStateChange).toHaveBeenCalledTimes(2);
+    expect((await repository.getState())!.bracket[0].matches[0].endReason).toBe('TIME_EXPIRED');
+  });
+
+  it('should hold the deadline while paused and set a new one on resume', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30);
+    await vi.advanceTimersByTimeAsync(10000);
+
+    await tournamentManager.pauseTournament();
+    let match = await getCurrentMatch();
+    expect(match.endsAt).toBeNull();
+    expect(match.timeRemaining).toBe(20);
+
+    await vi.advanceTimersByTimeAsync(60000);
+    await tournamentManager.resumeTournament();
+    match = await getCurrentMatch();
+    expect(match.endsAt).toBe(Date.now() + 20000);
+
+    await vi.advanceTimersByTimeAsync(20000);
+    expect((await repository.getState())!.status).toBe('TOURNAMENT_FINISHED');
+  });
+
+  it('should move the deadline when time is removed', async () => {
+    await tournamentManager.initializeTournament(createMemes(2), 30);
+    const match = await getCurrentMatch();
+
+    await tournamentManager.adjustMatchTime(match.id, -25);
+    expect((await getCurrentMatch()).endsAt).toBe(Date.now() + 5000);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect((await repository.getState())!.status).toBe('TOURNAMENT_FINISHED');
+  });
+});
@@ -6,6 +6,7 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import * as fc from 'fast-check';
 import { TournamentManager } from './tournament-manager';
 import { InMemoryTournamentRepository } from './in-memory-repository';
+import { getTimeRemaining } from '../lib/match-clock';
 import { TournamentState, Meme, Match, Round, MatchStatus, TournamentStatus } from '../types';
 
 describe('TournamentManager - Reset Functionality', () => {
@@ -291,7 +292,7 @@ describe('TournamentManager - Reset Functionality', () => {
     // Advance time to verify timer is running
     await vi.advanceTimersByTimeAsync(1000);
     const stateAfterTick = await repository.getState();
-    expect(stateAfterTick!.currentMatch!.timeRemaining).toBe(29);
+    expect(getTimeRemaining(stateAfterTick!.currentMatch!)).toBe(29);
 
     // Reset tournament
     await tournamentManager.resetTournament();
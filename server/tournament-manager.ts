@@ -1,13 +1,61 @@
-import { randomUUID } from 'crypto';
 import { 
   ITournamentRepository, 
   TournamentState, 
   Meme, 
   Match, 
+  FilledMatch,
   Round,
-  TournamentStatus 
+  TournamentStatus,
+  TournamentSettings,
+  TournamentFormat,
+  TieBreakPolicy,
+  TieBreakPhase,
+  VoteChoice,
+  VoteTarget,
+  MatchSlot,
+  MatchEndingPolicy,
+  MatchEndReason
 } from '../types';
 import { VoteLockManager } from './vote-lock-manager';
+import { buildSingleEliminationBracket, buildDoubleEliminationBracket } from './bracket-builder';
+import { buildRoundRobinSchedule, buildSwissRound, getDefaultSwissRounds } from './league-scheduler';
+import { calculateStandings } from './standings';
+import { seedMemes, getSeedMap, getPreviousTournament } from './seeding';
+import { getRoundKind, getRoundStages, getRoundVotingTime } from '../lib/round-times';
+import { usesHeats, rankEntrants, hasBothMemes, MAX_HEAT_QUALIFIERS } from '../lib/heats';
+import { getDecidingMargin } from '../lib/match-ending';
+import { getMatchScore, getMaxVoteValue, JurySettings, DEFAULT_JURY_WEIGHT, DEFAULT_JURY_SHARE } from '../lib/jury';
+import { getTimeRemaining } from '../lib/match-clock';
+import { getMemeImageUrls } from '../lib/meme-images';
+
+/**
+ * Length of a sudden-death overtime round in seconds
+ */
+const SUDDEN_DEATH_SECONDS = 10;
+
+/**
+ * Auto-extension: a vote this close to the end of a match this close
+ * adds overtime, at most a few times per match. The margin is counted in
+ * match score, in units of the most a single vote is worth
+ */
+const LATE_VOTE_WINDOW_SECONDS = 5;
+const CLOSE_MATCH_MARGIN = 1;
+const AUTO_EXTENSION_SECONDS = 10;
+const MAX_AUTO_EXTENSIONS = 3;
+
+/**
+ * Number of match results the admin can undo in a row
+ */
+const MAX_UNDO_DEPTH = 20;
+
+/**
+ * Tournament state captured just before a match result was recorded
+ */
+interface ResultSnapshot {
+  matchId: string;
+  state: TournamentState;
+  voters: string[];  // Session tokens locked on the match at the time
+}
 
 /**
  * Tournament Manager handles all tournament business logic.
@@ -15,9 +63,10 @@ import { VoteLockManager } from './vote-lock-manager';
  */
 export class TournamentManager {
   private repository: ITournamentRepository;
-  private timerInterval: NodeJS.Timeout | null = null;
+  private deadlineTimer: NodeJS.Timeout | null = null;
   private onStateChange?: (state: TournamentState) => void;
   private voteLockManager?: VoteLockManager;
+  private resultHistory: ResultSnapshot[] = [];
 
   /**
    * Constructor accepts ITournamentRepository for dependency injection
@@ -68,116 +117,98 @@ export class TournamentManager {
   }
 
   /**
-   * Generate single-elimination bracket for n memes (n≥2)
-   * Calculates number of rounds: ceil(log2(n))
-   * Creates Match objects with proper pairings
-   * Handles odd number of memes with byes
-   * 
-   * @param memes - Array of memes to create bracket for (must have at least 2)
-   * @param votingTimeSeconds - Time allocated for each match
-   * @returns Array of rounds forming the bracket
+   * Pick up a tournament that was interrupted by a server restart
+   * Running clocks keep their recorded deadlines: the timer is scheduled for
+   * them, and matches whose deadline passed while the server was down are
+   * completed as if their time had run out. The vote locks of the active
+   * matches are loaded back from the repository.
+   * Results recorded before the restart can no longer be undone.
+   *
+   * @returns true if a tournament in progress was resumed
    */
-  private generateBracket(memes: Meme[], votingTimeSeconds: number): Round[] {
-    if (memes.length < 2) {
-      throw new Error('Cannot generate bracket with fewer than 2 memes');
+  async resumeInterruptedTournament(): Promise<boolean> {
+    const state = await this.repository.getState();
+    if (!state || !['DUEL_IN_PROGRESS', 'PAUSED', 'MATCH_RESULT'].includes(state.status)) {
+      return false;
     }
 
-    const bracket: Round[] = [];
-    const numRounds = Math.ceil(Math.log2(memes.length));
-    
-    // Calculate the number of first-round matches needed
-    // If we have n memes, we need to get down to the next power of 2
-    const nextPowerOf2 = Math.pow(2, numRounds - 1);
-    const firstRoundMatches = memes.length - nextPowerOf2;
-    
-    let memeIndex = 0;
-    let roundIndex = 0;
-    
-    // Create first round with actual matches (if needed)
-    if (firstRoundMatches > 0) {
-      const matches: Match[] = [];
-      
-      for (let i = 0; i < firstRoundMatches; i++) {
-        const match: Match = {
-          id: randomUUID(),
-          roundIndex: roundIndex,
-          matchIndex: i,
-          leftMeme: memes[memeIndex],
-          rightMeme: memes[memeIndex + 1],
-          votes: { left: 0, right: 0 },
-          timeRemaining: votingTimeSeconds,
-          totalTime: votingTimeSeconds,
-          status: 'PENDING',
-          winner: null,
-          startedAt: null,
-          completedAt: null
-        };
-        matches.push(match);
-        memeIndex += 2;
+    if (this.voteLockManager) {
+      const locks = await this.repository.getVoteLocks();
+      for (const match of this.getActiveMatches(state)) {
+        for (const sessionToken of locks[match.id] || []) {
+          await this.voteLockManager.recordVote(sessionToken, match.id);
+        }
       }
-      
-      bracket.push({
-        roundIndex: roundIndex,
-        matches: matches,
-        completed: false
-      });
-      roundIndex++;
     }
-    
-    // Calculate how many competitors advance to the next round
-    // This includes winners from first round + memes with byes
-    const winnersFromFirstRound = firstRoundMatches;
-    const memesWithByes = memes.length - (firstRoundMatches * 2);
-    const round2Competitors = winnersFromFirstRound + memesWithByes;
-    
-    let numMatchesInNextRound = round2Competitors;
-    
-    // Create remaining rounds with placeholder matches
-    while (numMatchesInNextRound > 1) {
-      const roundMatches: Match[] = [];
-      const numMatches = Math.floor(numMatchesInNextRound / 2);
-      
-      for (let i = 0; i < numMatches; i++) {
-        const match: Match = {
-          id: randomUUID(),
-          roundIndex: roundIndex,
-          matchIndex: i,
-          leftMeme: null as any, // Will be filled by winners or byes
-          rightMeme: null as any, // Will be filled by winners or byes
-          votes: { left: 0, right: 0 },
-          timeRemaining: votingTimeSeconds,
-          totalTime: votingTimeSeconds,
-          status: 'PENDING',
-          winner: null,
-          startedAt: null,
-          completedAt: null
-        };
-        roundMatches.push(match);
-      }
-      
-      bracket.push({
-        roundIndex: roundIndex,
-        matches: roundMatches,
-        completed: false
-      });
-      
-      numMatchesInNextRound = numMatches;
-      roundIndex++;
+
+    if (state.undoableMatchId) {
+      state.undoableMatchId = null;
+      await this.repository.setState(state);
     }
-    
-    return bracket;
+
+    // Completes expired matches or ends an expired result reveal, and
+    // otherwise schedules the timer for the earliest deadline
+    await this.handleDeadline();
+
+    return true;
+  }
+
+  /**
+   * Give every match of a round the voting time its stage in the tournament calls for
+   * 
+   * @param round - Round whose matches have not started yet
+   * @param config - Tournament settings holding the round time schedule or curve
+   * @param stage - Elimination stage the round is played at
+   * @param stageCount - Number of stages in the tournament
+   */
+  private applyRoundTime(round: Round, config: TournamentSettings, stage: number, stageCount: number): void {
+    const seconds = getRoundVotingTime(config, stage, stageCount);
+    for (const match of round.matches) {
+      match.timeRemaining = seconds;
+      match.totalTime = seconds;
+    }
+  }
+
+  /**
+   * Check whether a format is a league format (matches can be drawn, champion decided by standings)
+   * 
+   * @param format - Tournament format
+   */
+  private isLeagueFormat(format: TournamentFormat | undefined): boolean {
+    return format === 'ROUND_ROBIN' || format === 'SWISS';
+  }
+
+  /**
+   * Calculate standings for a league tournament
+   * 
+   * @param state - Current tournament state
+   */
+  private getStandings(state: TournamentState) {
+    // Seed order is the final tie-breaker
+    const seeds = state.seeds || {};
+    const memes = [...state.memes].sort((a, b) => (seeds[a.id] || 0) - (seeds[b.id] || 0));
+
+    return calculateStandings(memes, state.bracket, {
+      countByesAsWins: state.config.format === 'SWISS',
+      jury: state.config
+    });
   }
 
   /**
    * Calculate the winner of a match based on vote counts
-   * Returns meme with higher votes, or randomly selects winner in case of tie
+   * Returns meme with higher votes. Ties are settled by breakTie under the
+   * tournament's tie-break policy, which may first run a tie-break round
+   * (tracked in tieBreakPhase); only a tie that policy leaves to chance gets
+   * here, and either meme is then picked with equal odds.
+   * With a jury, audience and judge votes are combined first
    * 
    * @param match - The match to calculate winner for
+   * @param jury - Jury settings of the tournament
    * @returns The winning meme
    */
-  private calculateWinner(match: Match): Meme {
-    const leftVotes = match.votes.left;
-    const rightVotes = match.votes.right;
+  private calculateWinner(match: FilledMatch, jury: JurySettings): Meme {
+    const leftVotes = getMatchScore(match, match.leftMeme, jury);
+    const rightVotes = getMatchScore(match, match.rightMeme, jury);
     
     // If left has more votes, left wins
     if (leftVotes > rightVotes) {
@@ -189,45 +220,124 @@ export class TournamentManager {
       return match.rightMeme;
     }
     
-    // Tie: randomly select winner
-    // Use Math.random() < 0.5 for 50/50 chance
+    // Tie that breakTie left to chance, by policy or as its last resort
     return Math.random() < 0.5 ? match.leftMeme : match.rightMeme;
   }
 
   /**
    * Advance the winner of a match to the next round
-   * Places winner in the appropriate match in the next round
-   * Updates bracket structure
+   * Follows the match's winnerTo link, and its loserTo link when the loser
+   * stays in the tournament (double elimination). Heats advance each of
+   * their qualifiers instead
    * 
    * @param state - Current tournament state
    * @param completedMatch - The match that was just completed
    * @param winner - The winning meme from the completed match
    */
   private advanceWinner(state: TournamentState, completedMatch: Match, winner: Meme): void {
-    const currentRoundIndex = completedMatch.roundIndex;
-    const nextRoundIndex = currentRoundIndex + 1;
-    
-    // Check if there is a next round
-    if (nextRoundIndex >= state.bracket.length) {
-      // This was the final match, no advancement needed
+    // Heats send their top finishers on, each to its own slot
+    if (completedMatch.qualifiersTo) {
+      completedMatch.qualifiersTo.forEach((target, place) => {
+        const qualifier = completedMatch.qualifiers?.[place];
+        if (qualifier) {
+          this.placeInSlot(state, target, qualifier);
+        }
+      });
       return;
     }
-    
-    const nextRound = state.bracket[nextRoundIndex];
-    
-    // Determine which match in the next round this winner advances to
-    // In a single-elimination bracket, match i in round n feeds into match floor(i/2) in round n+1
-    const nextMatchIndex = Math.floor(completedMatch.matchIndex / 2);
-    const nextMatch = nextRound.matches[nextMatchIndex];
-    
-    // Determine if winner goes to left or right side of next match
-    // Even-indexed matches (0, 2, 4...) feed left side
-    // Odd-indexed matches (1, 3, 5...) feed right side
-    if (completedMatch.matchIndex % 2 === 0) {
-      nextMatch.leftMeme = winner;
+
+    const loser = winner.id === completedMatch.leftMeme?.id
+      ? completedMatch.rightMeme
+      : completedMatch.leftMeme;
+
+    // Grand final won by the winners bracket champion: the bracket reset is not needed
+    if (this.isBracketResetSkipped(state, completedMatch, winner)) {
+      this.removeBracketReset(state);
+      return;
+    }
+
+    this.placeInSlot(state, completedMatch.winnerTo, winner);
+    if (loser) {
+      this.placeInSlot(state, completedMatch.loserTo, loser);
+    }
+  }
+
+  /**
+   * Place a meme in a match slot referenced by a routing link
+   * 
+   * @param state - Current tournament state
+   * @param target - Slot to fill (null/undefined means the meme has nowhere to go)
+   * @param meme - Meme to place
+   */
+  private placeInSlot(state: TournamentState, target: MatchSlot | null | undefined, meme: Meme): void {
+    if (!target) {
+      return;
+    }
+
+    const targetMatch = this.findMatchInBracket(state, target.matchId);
+    if (!targetMatch) {
+      return;
+    }
+
+    if (target.slot === 'left') {
+      targetMatch.leftMeme = meme;
     } else {
-      nextMatch.rightMeme = winner;
+      targetMatch.rightMeme = meme;
+    }
+  }
+
+  /**
+   * Check whether a completed grand final makes the bracket reset unnecessary
+   * The winners bracket champion plays on the left side of the grand final;
+   * if they win, the losers bracket champion has taken their second loss
+   * 
+   * @param state - Current tournament state
+   * @param completedMatch - The match that was just completed
+   * @param winner - The winning meme from the completed match
+   */
+  private isBracketResetSkipped(state: TournamentState, completedMatch: Match, winner: Meme): boolean {
+    if (!completedMatch.winnerTo) {
+      return false;
+    }
+
+    const nextMatch = this.findMatchInBracket(state, completedMatch.winnerTo.matchId);
+    return !!nextMatch?.isBracketReset && winner.id === completedMatch.leftMeme?.id;
+  }
+
+  /**
+   * Remove the bracket reset round from a double-elimination bracket
+   * 
+   * @param state - Current tournament state
+   */
+  private removeBracketReset(state: TournamentState): void {
+    state.bracket = state.bracket.filter(round => !round.matches.some(m => m.isBracketReset));
+
+    // The grand final no longer feeds anything
+    for (const round of state.bracket) {
+      for (const match of round.matches) {
+        if (match.winnerTo && !this.findMatchInBracket(state, match.winnerTo.matchId)) {
+          match.winnerTo = null;
+          match.loserTo = null;
+        }
+      }
+    }
+  }
+
+  /**
+   * Find a match in the bracket by ID
+   * 
+   * @param state - Current tournament state
+   * @param matchId - ID of the match to find
+   * @returns The match stored in the bracket, or null if not found
+   */
+  private findMatchInBracket(state: TournamentState, matchId: string): Match | null {
+    for (const round of state.bracket) {
+      const match = round.matches.find(m => m.id === matchId);
+      if (match) {
+        return match;
+      }
     }
+    return null;
   }
 
   /**
@@ -236,92 +346,138 @@ export class TournamentManager {
    * 
    * @param memes - Array of memes to compete (must have at least 2)
    * @param votingTimeSeconds - Time allocated for each match in seconds
+   * @param settings - Optional tournament settings (format, seeding, format-specific options)
    */
-  async initializeTournament(memes: Meme[], votingTimeSeconds: number): Promise<void> {
+  async initializeTournament(
+    memes: Meme[],
+    votingTimeSeconds: number,
+    settings: Omit<TournamentSettings, 'votingTimeSeconds'> = {}
+  ): Promise<void> {
     if (memes.length < 2) {
       throw new Error('Tournament requires at least 2 memes');
     }
 
+    const format = settings.format || 'SINGLE_ELIMINATION';
+    const seeding = settings.seeding || 'UPLOAD_ORDER';
+    const config: TournamentSettings = {
+      votingTimeSeconds: votingTimeSeconds,
+      format: format,
+      grandFinalReset: format === 'DOUBLE_ELIMINATION' ? !!settings.grandFinalReset : false,
+      thirdPlaceMatch: format === 'SINGLE_ELIMINATION' ? !!settings.thirdPlaceMatch : false,
+      seeding: seeding,
+      parallelMatches: Math.max(1, Math.floor(settings.parallelMatches || 1))
+    };
+
+    // Heats only open single-elimination pools too big for a single heat
+    if (format === 'SINGLE_ELIMINATION' && usesHeats(memes.length, settings.heatSize)) {
+      config.heatSize = settings.heatSize;
+      config.heatQualifiers = Math.min(Math.max(1, settings.heatQualifiers || 1), MAX_HEAT_QUALIFIERS);
+    }
+
+    // A schedule takes precedence over a multiplier curve
+    if (settings.roundTimeSchedule && settings.roundTimeSchedule.length > 0) {
+      config.roundTimeSchedule = [...settings.roundTimeSchedule];
+    } else if (settings.roundTimeMultiplier && settings.roundTimeMultiplier !== 1) {
+      config.roundTimeMultiplier = settings.roundTimeMultiplier;
+    }
+
+    if (settings.blindVoting) {
+      config.blindVoting = true;
+    }
+
+    // Without a scoring mode judges simply vote with the audience
+    if (settings.juryScoring === 'WEIGHTED') {
+      config.juryScoring = 'WEIGHTED';
+      config.juryWeight = settings.juryWeight ?? DEFAULT_JURY_WEIGHT;
+    } else if (settings.juryScoring === 'SHARE') {
+      config.juryScoring = 'SHARE';
+      config.juryShare = settings.juryShare ?? DEFAULT_JURY_SHARE;
+    }
+
+    if (settings.intermissionSeconds && settings.intermissionSeconds > 0) {
+      config.intermissionSeconds = Math.floor(settings.intermissionSeconds);
+    }
+
+    if (settings.endingPolicies && settings.endingPolicies.length > 0) {
+      config.endingPolicies = Array.from(new Set(settings.endingPolicies));
+    }
+
+    // League formats record draws instead of breaking ties
+    if (!this.isLeagueFormat(format)) {
+      config.tieBreak = settings.tieBreak || 'RANDOM';
+    }
+
+    // Order memes into seeds (past results come from the last finished tournament)
+    const previousState = seeding === 'PAST_RESULTS'
+      ? await getPreviousTournament(await this.repository.getState())
+      : null;
+    const seededMemes = seedMemes(memes, seeding, {
+      seedOrder: settings.seedOrder,
+      previousState
+    });
+
+    if (format === 'SWISS') {
+      const defaultRounds = getDefaultSwissRounds(memes.length);
+      const requestedRounds = settings.swissRounds || defaultRounds;
+      // A Swiss tournament cannot have more rounds than distinct opponents
+      config.swissRounds = Math.min(Math.max(1, requestedRounds), memes.length - 1);
+    }
+
     // Generate the bracket
-    const bracket = this.generateBracket(memes, votingTimeSeconds);
-    
-    // Handle memes with byes - they advance to the next round automatically
-    const numRounds = Math.ceil(Math.log2(memes.length));
-    const nextPowerOf2 = Math.pow(2, numRounds - 1);
-    const firstRoundMatches = memes.length - nextPowerOf2;
-    const memesInFirstRound = firstRoundMatches * 2;
-    const memesWithByes = memes.slice(memesInFirstRound);
-    
-    // If there are byes, we need to populate the appropriate round with those memes
-    if (memesWithByes.length > 0) {
-      // Determine which round to populate (round 1 if no first round matches, otherwise the next round)
-      const targetRoundIndex = firstRoundMatches > 0 ? 1 : 0;
-      
-      if (targetRoundIndex < bracket.length) {
-        const targetRound = bracket[targetRoundIndex];
-        const winnersFromPreviousRound = firstRoundMatches;
-        
-        // Strategy: We have winnersFromPreviousRound winners + memesWithByes.length byes
-        // Total competitors in this round: winnersFromPreviousRound + memesWithByes.length
-        // We need to pair them up into matches
-        
-        // Create a list of all competitors for this round
-        // First slots are reserved for winners (null for now)
-        // Remaining slots are filled with bye memes
-        const competitors: (Meme | null)[] = [];
-        
-        // Add placeholders for winners
-        for (let i = 0; i < winnersFromPreviousRound; i++) {
-          competitors.push(null);
-        }
-        
-        // Add bye memes
-        for (const byeMeme of memesWithByes) {
-          competitors.push(byeMeme);
-        }
-        
-        // Now distribute competitors into matches
-        let competitorIndex = 0;
-        for (let matchIndex = 0; matchIndex < targetRound.matches.length; matchIndex++) {
-          const match = targetRound.matches[matchIndex];
-          
-          // Assign left meme
-          if (competitorIndex < competitors.length) {
-            match.leftMeme = competitors[competitorIndex] as any;
-            competitorIndex++;
-          }
-          
-          // Assign right meme
-          if (competitorIndex < competitors.length) {
-            match.rightMeme = competitors[competitorIndex] as any;
-            competitorIndex++;
-          }
-        }
-      }
+    let bracket: Round[];
+    if (format === 'DOUBLE_ELIMINATION') {
+      bracket = buildDoubleEliminationBracket(seededMemes, votingTimeSeconds, {
+        grandFinalReset: settings.grandFinalReset
+      });
+    } else if (format === 'ROUND_ROBIN') {
+      bracket = buildRoundRobinSchedule(seededMemes, votingTimeSeconds);
+    } else if (format === 'SWISS') {
+      bracket = [buildSwissRound(calculateStandings(seededMemes, []), [], votingTimeSeconds)];
+    } else {
+      bracket = buildSingleEliminationBracket(seededMemes, votingTimeSeconds, {
+        thirdPlaceMatch: settings.thirdPlaceMatch,
+        heatSize: config.heatSize,
+        heatQualifiers: config.heatQualifiers
+      });
+    }
+
+    // Swiss rounds are generated one at a time, the rest of the schedule is already known;
+    // third-place, heat and losers bracket rounds share the stage of the round they go with
+    if (format === 'SWISS') {
+      bracket.forEach(round => this.applyRoundTime(round, config, round.roundIndex, config.swissRounds || 1));
+    } else {
+      const { stages, stageCount } = getRoundStages(bracket.map(getRoundKind));
+      bracket.forEach((round, i) => this.applyRoundTime(round, config, stages[i], stageCount));
     }
-    
-    // Get the first match to start
-    const firstMatch = bracket[0].matches[0];
-    firstMatch.status = 'IN_PROGRESS';
-    firstMatch.startedAt = new Date();
     
     // Create the tournament state
     const state: TournamentState = {
       status: 'DUEL_IN_PROGRESS',
       memes: memes,
       bracket: bracket,
-      currentMatch: firstMatch,
+      currentMatch: null,
       winner: null,
-      config: {
-        votingTimeSeconds: votingTimeSeconds
-      }
+      config,
+      seeds: getSeedMap(seededMemes)
     };
     
+    // Start the first matches
+    this.setActiveMatches(state, this.startReadyMatches(state, [], bracket[0]));
+
+    if (this.isLeagueFormat(format)) {
+      state.standings = this.getStandings(state);
+    }
+    
+    // Results of the previous tournament can no longer be undone
+    this.resultHistory = [];
+    this.stopTimer();
+    this.syncClocks(state);
+    
     // Store state via repository
     await this.repository.setState(state);
     
     // Start the timer for the first match
-    this.startTimer();
+    this.scheduleDeadline(state);
     
     // Notify listeners of initial state
     if (this.onStateChange) {
@@ -330,70 +486,145 @@ export class TournamentManager {
   }
 
   /**
-   * Start the timer for the current match
-   * Decrements timeRemaining every second and triggers match completion when time reaches 0
-   * Cleans up timer on match end
+   * Start and stop the clocks of the active matches to match the tournament status
+   * A running clock is a deadline (endsAt) that clients count down to on their
+   * own; a stopped one keeps the seconds it had left in timeRemaining. Clocks
+   * only run while the tournament is in DUEL_IN_PROGRESS, so pausing and
+   * revealing a result hold every active match where it is.
+   * Call before saving a state whose status or active matches changed
+   *
+   * @param state - Tournament state about to be saved
+   */
+  private syncClocks(state: TournamentState): void {
+    const now = Date.now();
+
+    for (const match of this.getActiveMatches(state)) {
+      const shouldRun = state.status === 'DUEL_IN_PROGRESS' && this.isCountingDown(match, now);
+
+      if (shouldRun && match.endsAt == null) {
+        match.endsAt = now + match.timeRemaining * 1000;
+      } else if (!shouldRun && match.endsAt != null) {
+        // A clock stopped right at its deadline keeps a second, so the match still ends on time
+        match.timeRemaining = Math.max(1, getTimeRemaining(match, now));
+        match.endsAt = null;
+      }
+      this.syncMatchToBracket(state, match);
+    }
+  }
+
+  /**
+   * Set the seconds left on an active match, moving its deadline if the clock runs
+   *
+   * @param match - An active match
+   * @param seconds - Seconds left from now
+   */
+  private setTimeRemaining(match: Match, seconds: number): void {
+    match.timeRemaining = seconds;
+    if (match.endsAt != null) {
+      match.endsAt = Date.now() + seconds * 1000;
+    }
+  }
+
+  /**
+   * Schedule the clock to wake up at the next deadline
+   * One timeout covers every parallel match, and the result reveal while one
+   * is on show; nothing is saved or broadcast until a deadline is reached.
+   * Call after saving a state whose deadlines may have moved
+   *
+   * @param state - Saved tournament state
    */
-  private startTimer(): void {
-    // Clean up any existing timer
+  private scheduleDeadline(state: TournamentState): void {
     this.stopTimer();
-    
-    // Create interval that decrements timeRemaining every second
-    this.timerInterval = setInterval(async () => {
-      try {
-        const state = await this.repository.getState();
-        
-        if (!state || !state.currentMatch || state.currentMatch.status !== 'IN_PROGRESS') {
-          this.stopTimer();
-          return;
-        }
-        
-        // Decrement time remaining
-        state.currentMatch.timeRemaining -= 1;
-        
-        // Update the match in the bracket as well
-        const currentRound = state.bracket[state.currentMatch.roundIndex];
-        const matchInBracket = currentRound.matches[state.currentMatch.matchIndex];
-        matchInBracket.timeRemaining = state.currentMatch.timeRemaining;
-        
-        // Save updated state
-        await this.repository.setState(state);
-        
-        // Notify listeners of state change
-        if (this.onStateChange) {
-          this.onStateChange(state);
-        }
-        
-        // Check if time has expired
-        if (state.currentMatch.timeRemaining <= 0) {
-          this.stopTimer();
-          await this.completeCurrentMatch();
+
+    const deadlines = state.status === 'MATCH_RESULT'
+      ? [state.matchResult?.endsAt]
+      : this.getActiveMatches(state).map(match => match.endsAt);
+    const running = deadlines.filter((endsAt): endsAt is number => endsAt != null);
+
+    if (running.length === 0) {
+      return;
+    }
+
+    const delay = Math.max(0, Math.min(...running) - Date.now());
+    this.deadlineTimer = setTimeout(() => this.handleDeadline(), delay);
+  }
+
+  /**
+   * Complete the matches whose time has run out, or end the result reveal
+   */
+  private async handleDeadline(): Promise<void> {
+    this.deadlineTimer = null;
+
+    try {
+      const state = await this.repository.getState();
+      const now = Date.now();
+
+      if (!state) {
+        return;
+      }
+
+      if (state.status === 'MATCH_RESULT') {
+        if (!state.matchResult || getTimeRemaining(state.matchResult, now) <= 0) {
+          await this.continueTournament();
+        } else {
+          this.scheduleDeadline(state);
         }
-      } catch (error) {
-        console.error('Error in timer:', error);
-        this.stopTimer();
+        return;
+      }
+
+      if (state.status !== 'DUEL_IN_PROGRESS') {
+        return;
+      }
+
+      const expired = this.getActiveMatches(state).filter(m => m.endsAt != null && m.endsAt <= now);
+      if (expired.length === 0) {
+        // Overtime moved the deadline since the clock was scheduled
+        this.scheduleDeadline(state);
+        return;
+      }
+
+      for (const match of expired) {
+        await this.completeCurrentMatch(match.id, 'TIME_EXPIRED');
       }
-    }, 1000); // Run every second
+    } catch (error) {
+      console.error('Error in timer:', error);
+    }
+  }
+
+  /**
+   * Check whether an active match has time left to count down
+   * 
+   * @param match - An active match
+   * @param now - Current time in epoch milliseconds
+   */
+  private isCountingDown(match: Match, now: number = Date.now()): boolean {
+    return match.status === 'IN_PROGRESS' &&
+      match.tieBreakPhase !== 'AWAITING_ADMIN' &&
+      getTimeRemaining(match, now) > 0;
   }
 
   /**
    * Stop the timer and clean up
    */
   private stopTimer(): void {
-    if (this.timerInterval) {
-      clearInterval(this.timerInterval);
-      this.timerInterval = null;
+    if (this.deadlineTimer) {
+      clearTimeout(this.deadlineTimer);
+      this.deadlineTimer = null;
     }
   }
 
   /**
-   * Complete the current match and progress the tournament
+   * Complete an active match and progress the tournament
    * Calculates winner, advances them to next round, and starts next match
+   * Tied elimination matches go through the tournament's tie-break policy,
+   * which may keep the match running (overtime, re-vote or admin decision)
    * Sets status to TOURNAMENT_FINISHED if this was the final match
    * 
+   * @param matchId - ID of the active match to complete (defaults to the current match)
+   * @param endReason - Why voting ended, recorded on the match once it has a result
    * @returns Updated tournament state
    */
-  async completeCurrentMatch(): Promise<TournamentState> {
+  async completeCurrentMatch(matchId?: string, endReason?: MatchEndReason): Promise<TournamentState> {
     const state = await this.repository.getState();
     
     if (!state) {
@@ -404,159 +635,851 @@ export class TournamentManager {
       throw new Error('No current match to complete');
     }
     
-    const currentMatch = state.currentMatch;
-    
-    // Calculate the winner
-    const winner = this.calculateWinner(currentMatch);
-    
-    // Update the match
-    currentMatch.winner = winner;
-    currentMatch.status = 'COMPLETED';
-    currentMatch.completedAt = new Date();
-    
-    // Update the match in the bracket
-    const currentRound = state.bracket[currentMatch.roundIndex];
-    const matchInBracket = currentRound.matches[currentMatch.matchIndex];
-    matchInBracket.winner = winner;
-    matchInBracket.status = 'COMPLETED';
-    matchInBracket.completedAt = currentMatch.completedAt;
-    
-    // Clear vote locks for the completed match
-    if (this.voteLockManager) {
-      this.voteLockManager.clearMatchLocks(currentMatch.id);
+    const currentMatch = matchId ? this.findActiveMatch(state, matchId) : state.currentMatch;
+    if (!currentMatch) {
+      throw new Error('Invalid match ID');
     }
-    
-    // Advance winner to next round
-    this.advanceWinner(state, currentMatch, winner);
-    
-    // Determine if there are more matches in the current round
-    const allMatchesInRoundComplete = currentRound.matches.every(m => m.status === 'COMPLETED');
-    
-    if (allMatchesInRoundComplete) {
-      currentRound.completed = true;
+
+    // Heats rank every entrant; ties go to the better seed instead of a tie-break
+    if (currentMatch.entrants) {
+      const ranking = rankEntrants(currentMatch, meme => getMatchScore(currentMatch, meme, state.config));
+      currentMatch.qualifiers = ranking.slice(0, currentMatch.qualifiersTo?.length || 1);
+      return this.finishMatch(state, currentMatch, ranking[0], endReason);
     }
+
+    if (!hasBothMemes(currentMatch)) {
+      throw new Error('Match is still waiting for a meme');
+    }
+
+    const isTied = getMatchScore(currentMatch, currentMatch.leftMeme, state.config) ===
+      getMatchScore(currentMatch, currentMatch.rightMeme, state.config);
     
-    // Find the next match to start
-    let nextMatch: Match | null = null;
-    
-    // Strategy: Look for ready matches across ALL rounds, not just current or next
-    // This handles the case where matches in later rounds are ready due to byes
-    // while earlier rounds are still waiting for winners
-    
-    // First, check if there are more matches in the current round that can start
-    if (!allMatchesInRoundComplete) {
-      // Find the next pending match in the current round that has both memes assigned
-      nextMatch = currentRound.matches.find(m => 
-        m.status === 'PENDING' && m.leftMeme && m.rightMeme
-      ) || null;
+    // League matches with tied votes end in a draw
+    if (this.isLeagueFormat(state.config.format)) {
+      return this.finishMatch(state, currentMatch, isTied ? null : this.calculateWinner(currentMatch, state.config), endReason);
     }
     
-    // If no match found in current round, search ALL subsequent rounds for ready matches
-    if (!nextMatch) {
-      for (let roundIndex = currentMatch.roundIndex + 1; roundIndex < state.bracket.length; roundIndex++) {
-        const round = state.bracket[roundIndex];
-        
-        // Find the first match in this round that has both memes assigned
-        nextMatch = round.matches.find(m => 
-          m.leftMeme && m.rightMeme && m.status === 'PENDING'
-        ) || null;
-        
-        if (nextMatch) {
-          break;
-        }
+    if (!isTied) {
+      // An overtime or re-vote that produced a winner
+      if (currentMatch.tieBreakPhase === 'SUDDEN_DEATH' || currentMatch.tieBreakPhase === 'REVOTE') {
+        currentMatch.decidedBy = currentMatch.tieBreakPhase;
       }
+      return this.finishMatch(state, currentMatch, this.calculateWinner(currentMatch, state.config), endReason);
     }
     
-    // Update tournament state
-    if (nextMatch) {
-      // Start the next match
-      nextMatch.status = 'IN_PROGRESS';
-      nextMatch.startedAt = new Date();
-      state.currentMatch = nextMatch;
-      state.status = 'DUEL_IN_PROGRESS';
-      
-      // Save updated state
-      await this.repository.setState(state);
-      
-      // Notify listeners of state change
-      if (this.onStateChange) {
-        this.onStateChange(state);
-      }
-      
-      // Start the timer for the next match
-      this.startTimer();
-    } else {
-      // No more matches - tournament is finished
-      state.currentMatch = null;
-      state.winner = winner;
-      state.status = 'TOURNAMENT_FINISHED';
-      
-      // Clear all vote locks when tournament ends
-      if (this.voteLockManager) {
-        this.voteLockManager.clearAllLocks();
-      }
-      
-      // Save updated state
-      await this.repository.setState(state);
-      
-      // Notify listeners of state change
-      if (this.onStateChange) {
-        this.onStateChange(state);
-      }
+    const winner = this.breakTie(currentMatch, state.config.tieBreak || 'RANDOM', state.config);
+    if (winner) {
+      return this.finishMatch(state, currentMatch, winner, endReason);
+    }
+    
+    // The tie-break keeps the match running
+    this.syncClocks(state);
+    await this.repository.setState(state);
+    
+    if (this.onStateChange) {
+      this.onStateChange(state);
     }
     
+    // Overtime and re-votes count down again; a match awaiting the admin does not
+    this.scheduleDeadline(state);
+    
     return state;
   }
 
   /**
-   * Process a vote for the current match
-   * Validates match is IN_PROGRESS and timeRemaining > 0
-   * Increments vote count for chosen side
-   * Updates match via repository
+   * Resolve a match awaiting an admin tie-break decision
    * 
-   * @param matchId - ID of the match being voted on
-   * @param choice - Which side to vote for ('LEFT' or 'RIGHT')
-   * @throws Error if match is not in progress or time has expired
+   * @param matchId - ID of the tied match
+   * @param choice - Side chosen by the admin
+   * @returns Updated tournament state
    */
-  async processVote(matchId: string, choice: 'LEFT' | 'RIGHT'): Promise<void> {
+  async decideTie(matchId: string, choice: VoteChoice): Promise<TournamentState> {
     const state = await this.repository.getState();
     
-    if (!state) {
-      throw new Error('No tournament state found');
-    }
-    
-    if (!state.currentMatch) {
+    if (!state || !state.currentMatch) {
       throw new Error('No active match');
     }
     
-    // Validate match ID
-    if (state.currentMatch.id !== matchId) {
+    const match = this.findActiveMatch(state, matchId);
+    if (!match) {
       throw new Error('Invalid match ID');
     }
     
-    // Validate match is IN_PROGRESS
-    if (state.currentMatch.status !== 'IN_PROGRESS') {
-      throw new Error('Match is not in progress');
+    if (match.tieBreakPhase !== 'AWAITING_ADMIN') {
+      throw new Error('Match is not awaiting a tie-break decision');
     }
     
-    // Validate timeRemaining > 0
-    if (state.currentMatch.timeRemaining <= 0) {
-      throw new Error('Voting time has expired');
+    if (choice !== 'LEFT' && choice !== 'RIGHT') {
+      throw new Error('Invalid choice');
     }
     
-    // Increment vote count for chosen side
-    if (choice === 'LEFT') {
-      state.currentMatch.votes.left += 1;
-    } else if (choice === 'RIGHT') {
-      state.currentMatch.votes.right += 1;
+    match.decidedBy = 'ADMIN_DECISION';
+    const winner = choice === 'LEFT' ? match.leftMeme : match.rightMeme;
+    return this.finishMatch(state, match, winner);
+  }
+
+  /**
+   * Pause the tournament
+   * Stops the clock of every active match; votes are rejected until the
+   * tournament is resumed
+   *
+   * @returns Updated tournament state
+   */
+  async pauseTournament(): Promise<TournamentState> {
+    const state = await this.repository.getState();
+
+    if (!state || state.status !== 'DUEL_IN_PROGRESS' || !state.currentMatch) {
+      throw new Error('No duel in progress to pause');
+    }
+
+    this.stopTimer();
+    state.status = 'PAUSED';
+    this.syncClocks(state);
+
+    await this.repository.setState(state);
+
+    if (this.onStateChange) {
+      this.onStateChange(state);
+    }
+
+    return state;
+  }
+
+  /**
+   * Resume a paused tournament
+   * Restarts the clock from where it stopped; matches waiting for an admin
+   * tie-break decision stay on hold
+   *
+   * @returns Updated tournament state
+   */
+  async resumeTournament(): Promise<TournamentState> {
+    const state = await this.repository.getState();
+
+    if (!state || state.status !== 'PAUSED') {
+      throw new Error('Tournament is not paused');
+    }
+
+    state.status = 'DUEL_IN_PROGRESS';
+    this.syncClocks(state);
+
+    await this.repository.setState(state);
+
+    if (this.onStateChange) {
+      this.onStateChange(state);
+    }
+
+    this.scheduleDeadline(state);
+
+    return state;
+  }
+
+  /**
+   * End the result reveal and go on with the tournament
+   * Called by the clock when the intermission runs out, or by the admin to
+   * move on straight away
+   *
+   * @returns Updated tournament state
+   */
+  async continueTournament(): Promise<TournamentState> {
+    const state = await this.repository.getState();
+
+    if (!state || state.status !== 'MATCH_RESULT') {
+      throw new Error('No match result is being shown');
+    }
+
+    state.status = 'DUEL_IN_PROGRESS';
+    state.matchResult = null;
+    this.syncClocks(state);
+
+    await this.repository.setState(state);
+
+    if (this.onStateChange) {
+      this.onStateChange(state);
+    }
+
+    this.scheduleDeadline(state);
+
+    return state;
+  }
+
+  /**
+   * Add or remove seconds on an active match
+   * The remaining time never drops below one second; use endCurrentMatch to
+   * stop voting immediately. The total time grows with the remaining time so
+   * the timer bar stays within bounds
+   *
+   * @param matchId - ID of the active match
+   * @param deltaSeconds - Seconds to add (positive) or remove (negative)
+   * @returns Updated tournament state
+   */
+  async adjustMatchTime(matchId: string, deltaSeconds: number): Promise<TournamentState> {
+    const state = await this.repository.getState();
+
+    if (!state) {
+      throw new Error('No tournament state found');
+    }
+
+    const match = this.getRunningMatch(state, matchId);
+
+    if (!Number.isInteger(deltaSeconds) || deltaSeconds === 0) {
+      throw new Error('Time adjustment must be a non-zero whole number of seconds');
+    }
+
+    if (match.tieBreakPhase === 'AWAITING_ADMIN') {
+      throw new Error('Match is awaiting a tie-break decision');
+    }
+
+    this.setTimeRemaining(match, Math.max(1, getTimeRemaining(match) + deltaSeconds));
+    match.totalTime = Math.max(match.totalTime, match.timeRemaining);
+    this.syncMatchToBracket(state, match);
+
+    await this.repository.setState(state);
+
+    if (this.onStateChange) {
+      this.onStateChange(state);
+    }
+
+    this.scheduleDeadline(state);
+
+    return state;
+  }
+
+  /**
+   * End an active match before its timer runs out
+   * The result is decided from the votes cast so far, exactly as if time had
+   * expired; ending a match while paused resumes the tournament
+   *
+   * @param matchId - ID of the active match
+   * @returns Updated tournament state
+   */
+  async endCurrentMatch(matchId: string): Promise<TournamentState> {
+    const state = await this.repository.getState();
+
+    if (!state) {
+      throw new Error('No tournament state found');
+    }
+
+    const match = this.getRunningMatch(state, matchId);
+
+    if (match.tieBreakPhase === 'AWAITING_ADMIN') {
+      throw new Error('Match is awaiting a tie-break decision');
+    }
+
+    if (state.status === 'PAUSED') {
+      state.status = 'DUEL_IN_PROGRESS';
+      this.syncClocks(state);
+      await this.repository.setState(state);
+    }
+
+    return this.completeCurrentMatch(match.id, 'ENDED_BY_ADMIN');
+  }
+
+  /**
+   * Look up the running match targeted by an admin timer control
+   *
+   * @param state - Current tournament state
+   * @param matchId - ID the admin acted on
+   * @returns The active match
+   * @throws Error if there is no running match or the ID is stale
+   */
+  private getRunningMatch(state: TournamentState, matchId: string): Match {
+    if ((state.status !== 'DUEL_IN_PROGRESS' && state.status !== 'PAUSED') || !state.currentMatch) {
+      throw new Error('No active match');
+    }
+
+    const match = this.findActiveMatch(state, matchId);
+    if (!match) {
+      throw new Error('Invalid match ID');
+    }
+
+    if (match.status !== 'IN_PROGRESS') {
+      throw new Error('Match is not in progress');
+    }
+
+    return match;
+  }
+
+  /**
+   * Force the winner of an active match
+   * The match is closed immediately whatever the votes or tie-break phase,
+   * and the reason is stored with the result
+   *
+   * @param matchId - ID of the active match
+   * @param choice - Side the admin declares the winner
+   * @param reason - Why the result was overridden
+   * @returns Updated tournament state
+   */
+  async overrideMatch(matchId: string, choice: VoteChoice, reason: string): Promise<TournamentState> {
+    const state = await this.repository.getState();
+
+    if (!state) {
+      throw new Error('No tournament state found');
+    }
+
+    const match = this.getRunningMatch(state, matchId);
+
+    if (match.entrants) {
+      throw new Error('Heat results cannot be overridden');
+    }
+
+    if (choice !== 'LEFT' && choice !== 'RIGHT') {
+      throw new Error('Invalid choice');
+    }
+
+    const trimmedReason = (reason || '').trim();
+    if (!trimmedReason) {
+      throw new Error('An override requires a reason');
+    }
+
+    match.override = { reason: trimmedReason, overriddenAt: new Date() };
+    match.decidedBy = undefined;
+    const winner = choice === 'LEFT' ? match.leftMeme : match.rightMeme;
+    return this.finishMatch(state, match, winner);
+  }
+
+  /**
+   * Undo the last recorded match result
+   * Restores the tournament to the moment before the result: the winner is
+   * taken back out of the next round, any match started since goes back to
+   * PENDING, and the undone match is played again with its votes and vote
+   * locks, on a fresh timer. Parallel matches that kept running since then
+   * keep their votes and remaining time
+   *
+   * @param matchId - ID of the match being undone (must be the last result)
+   * @returns Updated tournament state
+   */
+  async undoLastResult(matchId: string): Promise<TournamentState> {
+    const snapshot = this.resultHistory[this.resultHistory.length - 1];
+
+    if (!snapshot) {
+      throw new Error('No result to undo');
+    }
+
+    if (snapshot.matchId !== matchId) {
+      throw new Error('Only the last completed match can be undone');
+    }
+
+    this.stopTimer();
+    this.resultHistory.pop();
+
+    const liveState = await this.repository.getState();
+    const liveMatches = liveState ? this.getActiveMatches(liveState) : [];
+    const state = snapshot.state;
+    const restoredMatches = this.getActiveMatches(state);
+
+    const match = restoredMatches.find(m => m.id === snapshot.matchId)!;
+    match.status = 'IN_PROGRESS';
+    match.timeRemaining = match.tieBreakPhase === 'AWAITING_ADMIN' ? 0 : match.totalTime;
+    match.endsAt = null;
+    match.decidedBy = undefined;
+    match.override = undefined;
+    match.qualifiers = undefined;
+    this.syncMatchToBracket(state, match);
+
+    // Parallel matches played on in the meantime keep their progress
+    for (const restored of restoredMatches) {
+      const live = liveMatches.find(m => m.id === restored.id);
+      if (restored !== match && live) {
+        restored.votes = { ...live.votes };
+        restored.entrantVotes = live.entrantVotes;
+        restored.juryVotes = live.juryVotes;
+        restored.juryEntrantVotes = live.juryEntrantVotes;
+        restored.lastVoteAt = live.lastVoteAt;
+        restored.timeRemaining = live.timeRemaining;
+        restored.endsAt = live.endsAt;
+        restored.totalTime = live.totalTime;
+        restored.tieBreakPhase = live.tieBreakPhase;
+        this.syncMatchToBracket(state, restored);
+      }
+    }
+
+    state.status = 'DUEL_IN_PROGRESS';
+    state.matchResult = null;
+    state.undoableMatchId = this.resultHistory[this.resultHistory.length - 1]?.matchId || null;
+    this.syncClocks(state);
+
+    // Matches started after the undone result go back to PENDING without locks
+    if (this.voteLockManager) {
+      for (const live of liveMatches) {
+        if (!restoredMatches.some(m => m.id === live.id)) {
+          this.voteLockManager.clearMatchLocks(live.id);
+        }
+      }
+      for (const sessionToken of snapshot.voters) {
+        await this.voteLockManager.recordVote(sessionToken, match.id);
+      }
+    }
+
+    await this.repository.setState(state);
+
+    if (this.onStateChange) {
+      this.onStateChange(state);
+    }
+
+    this.scheduleDeadline(state);
+
+    return state;
+  }
+
+  /**
+   * Save a copy of the state before a match result is recorded
+   *
+   * @param state - Current tournament state
+   * @param matchId - ID of the match about to be completed
+   */
+  private recordResultSnapshot(state: TournamentState, matchId: string): void {
+    this.resultHistory.push({
+      matchId,
+      state: structuredClone(state),
+      voters: this.voteLockManager ? this.voteLockManager.getVotersForMatch(matchId) : []
+    });
+
+    if (this.resultHistory.length > MAX_UNDO_DEPTH) {
+      this.resultHistory.shift();
+    }
+  }
+
+  /**
+   * Apply a tie-break policy to a tied match
+   * Overtime and re-vote policies start a new voting round and return null;
+   * if that round ends tied again, the tie is broken randomly
+   * 
+   * @param match - The tied match
+   * @param policy - Tie-break policy of the tournament
+   * @param jury - Jury settings of the tournament
+   * @returns The winning meme, or null when the match continues
+   */
+  private breakTie(match: FilledMatch, policy: TieBreakPolicy, jury: JurySettings): Meme | null {
+    switch (policy) {
+      case 'SUDDEN_DEATH':
+        if (match.tieBreakPhase !== 'SUDDEN_DEATH') {
+          this.startTieBreakRound(match, 'SUDDEN_DEATH', SUDDEN_DEATH_SECONDS);
+          return null;
+        }
+        break;
+
+      case 'REVOTE':
+        if (match.tieBreakPhase !== 'REVOTE') {
+          match.votes = { left: 0, right: 0 };
+          match.juryVotes = undefined;
+          match.lastVoteAt = { left: null, right: null };
+          this.startTieBreakRound(match, 'REVOTE', match.totalTime);
+          return null;
+        }
+        break;
+
+      case 'FIRST_TO_FINAL_COUNT': {
+        const winner = this.getFirstToFinalCount(match);
+        if (winner) {
+          match.decidedBy = 'FIRST_TO_FINAL_COUNT';
+          return winner;
+        }
+        break;
+      }
+
+      case 'ADMIN_DECISION':
+        match.tieBreakPhase = 'AWAITING_ADMIN';
+        match.timeRemaining = 0;
+        match.endsAt = null;
+        return null;
+    }
+
+    match.decidedBy = 'RANDOM';
+    return this.calculateWinner(match, jury);
+  }
+
+  /**
+   * Reopen voting on a tied match for a tie-break round
+   * Vote locks are cleared so everyone can vote again
+   * 
+   * @param match - The tied match
+   * @param phase - Tie-break phase to enter
+   * @param seconds - Length of the tie-break round
+   */
+  private startTieBreakRound(match: Match, phase: TieBreakPhase, seconds: number): void {
+    match.tieBreakPhase = phase;
+    this.setTimeRemaining(match, seconds);
+    match.totalTime = seconds;
+
+    if (this.voteLockManager) {
+      this.voteLockManager.clearMatchLocks(match.id);
+    }
+  }
+
+  /**
+   * Find the meme that reached its final vote count first
+   * 
+   * @param match - The tied match
+   * @returns The meme whose last vote came first, or null if it cannot be told
+   */
+  private getFirstToFinalCount(match: FilledMatch): Meme | null {
+    const left = match.lastVoteAt?.left;
+    const right = match.lastVoteAt?.right;
+    if (!left || !right) {
+      return null;
+    }
+
+    const leftTime = new Date(left).getTime();
+    const rightTime = new Date(right).getTime();
+    if (leftTime === rightTime) {
+      return null;
+    }
+    return leftTime < rightTime ? match.leftMeme : match.rightMeme;
+  }
+
+  /**
+   * Get the matches currently being voted on
+   * 
+   * @param state - Current tournament state
+   */
+  private getActiveMatches(state: TournamentState): Match[] {
+    if (state.activeMatches) {
+      return state.activeMatches;
+    }
+    return state.currentMatch ? [state.currentMatch] : [];
+  }
+
+  /**
+   * Replace the active matches; the first one is exposed as the current match
+   * 
+   * @param state - Current tournament state
+   * @param matches - Matches being voted on
+   */
+  private setActiveMatches(state: TournamentState, matches: Match[]): void {
+    state.activeMatches = matches;
+    state.currentMatch = matches[0] || null;
+  }
+
+  /**
+   * Find an active match by ID
+   * 
+   * @param state - Current tournament state
+   * @param matchId - ID of the match to find
+   * @returns The active match, or null if the match is not being played
+   */
+  private findActiveMatch(state: TournamentState, matchId: string): Match | null {
+    return this.getActiveMatches(state).find(m => m.id === matchId) || null;
+  }
+
+  /**
+   * Copy an active match into its slot in the bracket
+   * 
+   * @param state - Current tournament state
+   * @param match - The active match
+   */
+  private syncMatchToBracket(state: TournamentState, match: Match): void {
+    const matchInBracket = state.bracket[match.roundIndex].matches[match.matchIndex];
+    if (matchInBracket !== match) {
+      Object.assign(matchInBracket, match);
+    }
+  }
+
+  /**
+   * Start pending matches until the parallel match limit is reached
+   * Matches played in parallel always belong to the same round
+   * 
+   * @param state - Current tournament state
+   * @param active - Matches that are still being played
+   * @param preferredRound - Round to look in first when nothing is being played
+   * @returns The matches that were started
+   */
+  private startReadyMatches(state: TournamentState, active: Match[], preferredRound: Round | null): Match[] {
+    const limit = state.config.parallelMatches || 1;
+    const isReady = (m: Match) => m.status === 'PENDING' && hasBothMemes(m);
+    const started: Match[] = [];
+
+    while (active.length + started.length < limit) {
+      const playing = [...active, ...started];
+      let nextMatch: Match | null = null;
+
+      if (playing.length > 0) {
+        nextMatch = state.bracket[playing[0].roundIndex].matches.find(isReady) || null;
+      } else {
+        // First, check if there are more matches in the round that was being played
+        if (preferredRound) {
+          nextMatch = preferredRound.matches.find(isReady) || null;
+        }
+
+        // If no match found in that round, search ALL rounds for ready matches
+        // This handles the case where matches in later rounds are ready due to byes
+        // while earlier rounds are still waiting for winners; double-elimination
+        // brackets also interleave winners and losers rounds, so a ready match
+        // may sit in a round listed before the current one
+        if (!nextMatch) {
+          for (const round of state.bracket) {
+            nextMatch = round.matches.find(isReady) || null;
+            if (nextMatch) {
+              break;
+            }
+          }
+        }
+
+        // Swiss rounds are paired from the standings once the previous round is over
+        if (!nextMatch && state.config.format === 'SWISS' && state.bracket.length < (state.config.swissRounds || 0)) {
+          const nextRound = buildSwissRound(state.standings || [], state.bracket, state.config.votingTimeSeconds);
+          this.applyRoundTime(nextRound, state.config, nextRound.roundIndex, state.config.swissRounds || 0);
+          state.bracket.push(nextRound);
+          nextMatch = nextRound.matches.find(isReady) || null;
+        }
+      }
+
+      if (!nextMatch) {
+        break;
+      }
+
+      nextMatch.status = 'IN_PROGRESS';
+      nextMatch.startedAt = new Date();
+      started.push(nextMatch);
+    }
+
+    return started;
+  }
+
+  /**
+   * Record the result of an active match and start the matches that follow
+   * 
+   * @param state - Current tournament state
+   * @param match - The active match being completed
+   * @param winner - The winning meme, or null for a draw (league formats only)
+   * @returns Updated tournament state
+   */
+  private async finishMatch(
+    state: TournamentState,
+    match: Match,
+    winner: Meme | null,
+    endReason?: MatchEndReason
+  ): Promise<TournamentState> {
+    const isLeague = this.isLeagueFormat(state.config.format);
+    
+    // Keep the state from before the result so the admin can undo it
+    this.recordResultSnapshot(state, match.id);
+    state.undoableMatchId = match.id;
+    
+    // Update the match
+    match.winner = winner;
+    match.status = 'COMPLETED';
+    match.completedAt = new Date();
+    match.tieBreakPhase = undefined;
+    match.endReason = endReason;
+    match.timeRemaining = getTimeRemaining(match);
+    match.endsAt = null;
+    
+    // Update the match in the bracket
+    this.syncMatchToBracket(state, match);
+    const matchRound = state.bracket[match.roundIndex];
+    
+    // Clear vote locks for the completed match
+    if (this.voteLockManager) {
+      this.voteLockManager.clearMatchLocks(match.id);
+    }
+    
+    // Advance winner to next round (league formats have no advancement)
+    if (winner && !isLeague) {
+      this.advanceWinner(state, match, winner);
+    }
+    
+    // Determine if all matches in the round are complete
+    if (matchRound.matches.every(m => m.status === 'COMPLETED')) {
+      matchRound.completed = true;
+    }
+
+    if (isLeague) {
+      state.standings = this.getStandings(state);
+    }
+    
+    // Keep the other parallel matches running and fill the freed slot
+    const stillActive = this.getActiveMatches(state).filter(m => m.id !== match.id);
+    const started = this.startReadyMatches(state, stillActive, matchRound);
+    this.setActiveMatches(state, [...stillActive, ...started]);
+    
+    // Update tournament state
+    if (state.currentMatch) {
+      // Reveal the result before play goes on, alongside any result already on show
+      const intermissionSeconds = state.config.intermissionSeconds || 0;
+      if (intermissionSeconds > 0 && state.status === 'MATCH_RESULT' && state.matchResult) {
+        state.matchResult.matches.push(match);
+      } else if (intermissionSeconds > 0) {
+        state.status = 'MATCH_RESULT';
+        state.matchResult = {
+          matches: [match],
+          timeRemaining: intermissionSeconds,
+          totalTime: intermissionSeconds,
+          endsAt: Date.now() + intermissionSeconds * 1000
+        };
+      } else {
+        state.status = 'DUEL_IN_PROGRESS';
+      }
+      this.syncClocks(state);
+      
+      // Save updated state
+      await this.repository.setState(state);
+      
+      // Notify listeners of state change
+      if (this.onStateChange) {
+        this.onStateChange(state);
+      }
+      
+      // Wake the clock for the intermission or the next match deadline
+      this.scheduleDeadline(state);
     } else {
+      // No more matches - tournament is finished (the winner screen is the reveal)
+      // League champions are decided by the standings, not the last match
+      state.matchResult = null;
+      state.winner = isLeague ? state.standings?.[0]?.meme || null : winner;
+      state.status = 'TOURNAMENT_FINISHED';
+      this.stopTimer();
+      
+      // Clear all vote locks when tournament ends
+      if (this.voteLockManager) {
+        this.voteLockManager.clearAllLocks();
+      }
+      
+      // Save updated state
+      await this.repository.setState(state);
+      
+      // Notify listeners of state change
+      if (this.onStateChange) {
+        this.onStateChange(state);
+      }
+    }
+    
+    return state;
+  }
+
+  /**
+   * Cast a session's vote for an active match
+   * The session's vote lock is saved before the vote: should the server stop
+   * between the two writes, the voter loses the vote but cannot vote twice.
+   * The lock is taken back if the vote is refused
+   *
+   * @param sessionToken - Session casting the vote
+   * @param matchId - ID of the match being voted on
+   * @param target - Side ('LEFT' or 'RIGHT') or meme ID to vote for
+   * @param fromJudge - Whether the vote was cast by a member of the jury
+   * @throws Error if the lock cannot be saved or the vote is refused
+   */
+  async castVote(sessionToken: string, matchId: string, target: VoteTarget, fromJudge: boolean = false): Promise<void> {
+    if (!this.voteLockManager) {
+      return this.processVote(matchId, target, fromJudge);
+    }
+
+    await this.voteLockManager.recordVote(sessionToken, matchId);
+    try {
+      await this.processVote(matchId, target, fromJudge);
+    } catch (error) {
+      await this.voteLockManager.releaseVote(sessionToken, matchId);
+      throw error;
+    }
+  }
+
+  /**
+   * Process a vote for an active match
+   * Validates match is IN_PROGRESS and timeRemaining > 0
+   * Increments vote count for chosen side, or for the chosen entrant of a heat
+   * Judge votes go to the jury tally when the tournament has a jury
+   * Updates match via repository
+   * 
+   * @param matchId - ID of the match being voted on
+   * @param target - Side ('LEFT' or 'RIGHT') or meme ID to vote for; heats only take a meme ID
+   * @param fromJudge - Whether the vote was cast by a member of the jury
+   * @throws Error if match is not in progress or time has expired
+   */
+  async processVote(matchId: string, target: VoteTarget, fromJudge: boolean = false): Promise<void> {
+    const state = await this.repository.getState();
+    
+    if (!state) {
+      throw new Error('No tournament state found');
+    }
+    
+    if (!state.currentMatch) {
+      throw new Error('No active match');
+    }
+
+    if (state.status === 'PAUSED') {
+      throw new Error('Tournament is paused');
+    }
+
+    if (state.status === 'MATCH_RESULT') {
+      throw new Error('Voting resumes after the match result');
+    }
+
+    // Validate match ID
+    const match = this.findActiveMatch(state, matchId);
+    if (!match) {
+      throw new Error('Invalid match ID');
+    }
+    
+    // Validate match is IN_PROGRESS
+    if (match.status !== 'IN_PROGRESS') {
+      throw new Error('Match is not in progress');
+    }
+    
+    // Validate time remaining > 0
+    if (getTimeRemaining(match) <= 0) {
+      throw new Error('Voting time has expired');
+    }
+    
+    const isJuryVote = fromJudge && !!state.config.juryScoring;
+
+    // Heats count votes per entrant
+    if (match.entrantVotes) {
+      const memeId = typeof target === 'object' ? target.memeId : null;
+      if (!memeId || !(memeId in match.entrantVotes)) {
+        throw new Error('Invalid vote choice');
+      }
+      if (isJuryVote) {
+        const juryVotes = match.juryEntrantVotes || {};
+        match.juryEntrantVotes = { ...juryVotes, [memeId]: (juryVotes[memeId] || 0) + 1 };
+      } else {
+        match.entrantVotes = { ...match.entrantVotes, [memeId]: match.entrantVotes[memeId] + 1 };
+      }
+      this.extendCloseMatch(state, match);
+      this.syncMatchToBracket(state, match);
+      await this.repository.setState(state);
+
+      if (this.onStateChange) {
+        this.onStateChange(state);
+      }
+      return;
+    }
+
+    // A meme ID votes for the side that meme is on
+    let choice = target;
+    if (typeof target === 'object') {
+      choice = target.memeId === match.leftMeme?.id ? 'LEFT' : target.memeId === match.rightMeme?.id ? 'RIGHT' : target;
+    }
+
+    if (choice !== 'LEFT' && choice !== 'RIGHT') {
       throw new Error('Invalid vote choice');
     }
+
+    // Increment vote count for chosen side; the vote times follow the audience tally
+    const lastVoteAt = match.lastVoteAt || { left: null, right: null };
+    if (isJuryVote) {
+      const juryVotes = match.juryVotes || { left: 0, right: 0 };
+      match.juryVotes = choice === 'LEFT'
+        ? { ...juryVotes, left: juryVotes.left + 1 }
+        : { ...juryVotes, right: juryVotes.right + 1 };
+    } else if (choice === 'LEFT') {
+      match.votes.left += 1;
+      lastVoteAt.left = new Date();
+    } else {
+      match.votes.right += 1;
+      lastVoteAt.right = new Date();
+    }
+    match.lastVoteAt = lastVoteAt;
+    this.extendCloseMatch(state, match);
     
     // Update the match in the bracket as well
-    const currentRound = state.bracket[state.currentMatch.roundIndex];
-    const matchInBracket = currentRound.matches[state.currentMatch.matchIndex];
-    matchInBracket.votes = { ...state.currentMatch.votes };
+    const currentRound = state.bracket[match.roundIndex];
+    const matchInBracket = currentRound.matches[match.matchIndex];
+    matchInBracket.votes = { ...match.votes };
+    matchInBracket.juryVotes = match.juryVotes;
+    matchInBracket.lastVoteAt = { ...lastVoteAt };
+    matchInBracket.timeRemaining = match.timeRemaining;
+    matchInBracket.endsAt = match.endsAt;
+    matchInBracket.totalTime = match.totalTime;
+    matchInBracket.extensions = match.extensions;
     
     // Update match via repository
     await this.repository.setState(state);
@@ -565,6 +1488,93 @@ export class TournamentManager {
     if (this.onStateChange) {
       this.onStateChange(state);
     }
+    
+    // Sudden death: the first overtime vote decides the match
+    if (match.tieBreakPhase === 'SUDDEN_DEATH') {
+      await this.completeCurrentMatch(match.id);
+    }
+  }
+
+  /**
+   * Add overtime to a close match that just received a late vote
+   * Only applies when the tournament uses the AUTO_EXTEND policy
+   *
+   * @param state - Current tournament state
+   * @param match - The active match that was voted on
+   */
+  private extendCloseMatch(state: TournamentState, match: Match): void {
+    const timeRemaining = getTimeRemaining(match);
+    const isLateVote = timeRemaining <= LATE_VOTE_WINDOW_SECONDS;
+    const extensions = match.extensions || 0;
+
+    if (!this.hasEndingPolicy(state, 'AUTO_EXTEND') ||
+        !isLateVote ||
+        extensions >= MAX_AUTO_EXTENSIONS ||
+        match.tieBreakPhase === 'SUDDEN_DEATH' ||
+        getDecidingMargin(match, meme => getMatchScore(match, meme, state.config)) >
+          CLOSE_MATCH_MARGIN * getMaxVoteValue(state.config)) {
+      return;
+    }
+
+    this.setTimeRemaining(match, timeRemaining + AUTO_EXTENSION_SECONDS);
+    match.totalTime = Math.max(match.totalTime, match.timeRemaining);
+    match.extensions = extensions + 1;
+  }
+
+  /**
+   * End active matches early under the tournament's ending policies
+   * ALL_VOTED ends a match once every connected voter holds a vote lock on
+   * it; DECISIVE_LEAD ends it once the sessions that have not voted yet could
+   * not change the result even if they all voted for the same meme.
+   * Called after every vote and whenever a session disconnects
+   *
+   * @param connectedVoters - Connected sessions expected to vote, admin-only ones left out
+   */
+  async applyEndingPolicies(connectedVoters: string[]): Promise<void> {
+    const state = await this.repository.getState();
+
+    if (!state || state.status !== 'DUEL_IN_PROGRESS' || !this.voteLockManager) {
+      return;
+    }
+
+    const endsWhenAllVoted = this.hasEndingPolicy(state, 'ALL_VOTED');
+    const endsOnDecisiveLead = this.hasEndingPolicy(state, 'DECISIVE_LEAD');
+    if (!endsWhenAllVoted && !endsOnDecisiveLead) {
+      return;
+    }
+
+    for (const match of this.getActiveMatches(state).filter(m => this.isCountingDown(m))) {
+      const voters = new Set(this.voteLockManager.getVotersForMatch(match.id));
+      const remainingVoters = connectedVoters.filter(token => !voters.has(token)).length;
+
+      if (endsWhenAllVoted && voters.size > 0 && remainingVoters === 0) {
+        await this.completeCurrentMatch(match.id, 'ALL_VOTED');
+      } else if (endsOnDecisiveLead && this.hasDecisiveLead(state, match, remainingVoters)) {
+        await this.completeCurrentMatch(match.id, 'DECISIVE_LEAD');
+      }
+    }
+  }
+
+  /**
+   * Check whether the votes still to come cannot change a match's result
+   * Every remaining voter is assumed to be able to cast the most valuable
+   * vote, as the manager does not know which of them are judges
+   *
+   * @param state - Current tournament state
+   * @param match - An active match
+   * @param remainingVoters - Connected sessions that have not voted yet
+   */
+  private hasDecisiveLead(state: TournamentState, match: Match, remainingVoters: number): boolean {
+    const margin = getDecidingMargin(match, meme => getMatchScore(match, meme, state.config));
+    const swing = remainingVoters > 0 ? remainingVoters * getMaxVoteValue(state.config) : 0;
+    return margin > swing;
+  }
+
+  /**
+   * Check whether the tournament uses an adaptive ending policy
+   */
+  private hasEndingPolicy(state: TournamentState, policy: MatchEndingPolicy): boolean {
+    return !!state.config.endingPolicies?.includes(policy);
   }
 
   /**
@@ -576,14 +1586,15 @@ export class TournamentManager {
   async resetTournament(): Promise<string[]> {
     // Stop active timers first
     this.stopTimer();
+    this.resultHistory = [];
     
     // Get current state to extract image URLs before clearing
     const state = await this.repository.getState();
     const imageUrls: string[] = [];
     
     if (state && state.memes) {
-      // Extract all image URLs from memes
-      imageUrls.push(...state.memes.map(meme => meme.imageUrl));
+      // Extract the URLs of every stored copy of the meme images
+      imageUrls.push(...state.memes.flatMap(getMemeImageUrls));
     }
     
     // Clear all tournament state from repository
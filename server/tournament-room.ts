@@ -0,0 +1,57 @@
+import { TournamentManager } from './tournament-manager';
+import { ConnectionMapManager } from './connection-map';
+import { VoteLockManager } from './vote-lock-manager';
+import { JuryManager } from './jury-manager';
+import { ITournamentRepository, TournamentState } from '../types';
+
+/**
+ * Clients that receive the same version of the state: admins, and everyone
+ * else (voters and displays), who may see it projected
+ */
+export type StateAudience = 'admins' | 'voters';
+
+/**
+ * Tournament Room
+ *
+ * Everything the WebSocket server keeps for one tournament: its manager and
+ * timer, the sessions connected to it, their vote locks, its jury, and the
+ * versions of the state last sent to its clients. Its clients join their own
+ * Socket.IO rooms, so broadcasts never reach another tournament.
+ */
+export class TournamentRoom {
+  readonly code: string | null;   // Join code, null for the default tournament
+  readonly channel: string;       // Socket.IO room every client of the tournament joins
+  readonly adminChannel: string;  // Socket.IO room its admin clients also join
+  readonly tournamentManager: TournamentManager;
+  readonly connectionMap: ConnectionMapManager;
+  readonly voteLockManager: VoteLockManager;
+  readonly juryManager: JuryManager;
+  stateRevision = 0;
+  restoredAt: number | null = null;  // When a tournament interrupted by a restart was resumed
+  // Last state sent to each audience, in wire form; patches are diffed against it
+  sentStates: Record<StateAudience, TournamentState | null> = { admins: null, voters: null };
+
+  /**
+   * @param code - Join code, or null for the default tournament
+   * @param repository - Repository holding the tournament
+   * @param onStateChange - Called with this room whenever its state changes
+   */
+  constructor(
+    code: string | null,
+    repository: ITournamentRepository,
+    onStateChange: (room: TournamentRoom, state: TournamentState) => void
+  ) {
+    this.code = code;
+    this.channel = code ? `room:${code}` : 'tournament';
+    this.adminChannel = code ? `room:${code}:admins` : 'admins';
+    this.connectionMap = new ConnectionMapManager();
+    // Vote locks are saved with the tournament, so they survive a restart
+    this.voteLockManager = new VoteLockManager(locks => repository.setVoteLocks(locks));
+    this.juryManager = new JuryManager();
+    this.tournamentManager = new TournamentManager(
+      repository,
+      (state: TournamentState) => onStateChange(this, state),
+      this.voteLockManager
+    );
+  }
+}
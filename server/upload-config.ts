@@ -0,0 +1,98 @@
+/**
+ * Upload Configuration
+ *
+ * Limits on uploaded files, read from the environment:
+ * - UPLOAD_MAX_FILE_SIZE_MB: largest image, 5 by default
+ * - UPLOAD_MAX_ARCHIVE_SIZE_MB: largest zip archive or meme package, 100 by default
+ * - UPLOAD_ALLOWED_TYPES: comma-separated image MIME types accepted, PNG, JPEG and WEBP by default
+ * - UPLOAD_IMAGE_FORMAT: format the resized copies of each image are served in, webp (default) or avif
+ *
+ * Values are read on every call, so a change takes effect on the next upload.
+ */
+
+import { ImageVariantFormat, UploadLimits } from '../types';
+
+const MB = 1024 * 1024;
+
+const DEFAULT_MAX_FILE_SIZE_MB = 5;
+const DEFAULT_MAX_ARCHIVE_SIZE_MB = 100;
+
+// Image types the upload pipeline can recognize from their contents
+export const SUPPORTED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+const DEFAULT_ALLOWED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const IMAGE_VARIANT_FORMATS: ImageVariantFormat[] = ['webp', 'avif'];
+
+/**
+ * Normalize a MIME type; some browsers send image/jpg for JPEG files
+ */
+export function normalizeMimeType(mimeType: string): string {
+  const normalized = mimeType.trim().toLowerCase();
+  return normalized === 'image/jpg' ? 'image/jpeg' : normalized;
+}
+
+/**
+ * Read a size in megabytes from the environment
+ */
+function readMegabytes(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return fallback * MB;
+  }
+
+  const megabytes = Number(value);
+  if (!Number.isFinite(megabytes) || megabytes <= 0) {
+    console.warn(`Ignoring invalid ${name}: ${value}`);
+    return fallback * MB;
+  }
+  return Math.floor(megabytes * MB);
+}
+
+/**
+ * Read the allowed image types from the environment
+ * Types the pipeline cannot recognize are left out
+ */
+function readAllowedMimeTypes(): string[] {
+  const value = process.env.UPLOAD_ALLOWED_TYPES;
+  if (!value) {
+    return DEFAULT_ALLOWED_MIME_TYPES;
+  }
+
+  const types = value.split(',').map(normalizeMimeType).filter(Boolean);
+  const unsupported = types.filter(type => !SUPPORTED_MIME_TYPES.includes(type));
+  if (unsupported.length > 0) {
+    console.warn(`Ignoring unsupported UPLOAD_ALLOWED_TYPES: ${unsupported.join(', ')}`);
+  }
+
+  const allowed = types.filter(type => SUPPORTED_MIME_TYPES.includes(type));
+  return allowed.length > 0 ? Array.from(new Set(allowed)) : DEFAULT_ALLOWED_MIME_TYPES;
+}
+
+/**
+ * Get the current upload limits
+ */
+export function getUploadLimits(): UploadLimits {
+  return {
+    maxFileSize: readMegabytes('UPLOAD_MAX_FILE_SIZE_MB', DEFAULT_MAX_FILE_SIZE_MB),
+    maxArchiveSize: readMegabytes('UPLOAD_MAX_ARCHIVE_SIZE_MB', DEFAULT_MAX_ARCHIVE_SIZE_MB),
+    allowedMimeTypes: readAllowedMimeTypes()
+  };
+}
+
+/**
+ * Get the format the resized copies of uploaded images are stored in
+ */
+export function getImageVariantFormat(): ImageVariantFormat {
+  const value = process.env.UPLOAD_IMAGE_FORMAT;
+  if (!value) {
+    return 'webp';
+  }
+
+  const format = value.trim().toLowerCase() as ImageVariantFormat;
+  if (!IMAGE_VARIANT_FORMATS.includes(format)) {
+    console.warn(`Ignoring invalid UPLOAD_IMAGE_FORMAT: ${value}`);
+    return 'webp';
+  }
+  return format;
+}
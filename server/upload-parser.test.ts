@@ -0,0 +1,162 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { existsSync, readFileSync, unlinkSync } from 'fs';
+import formidable from 'formidable';
+import { parseUpload, toIncomingMessage, isFileSizeLimitError } from './upload-parser';
+import { getUploadLimits } from './upload-config';
+
+describe('Upload Parser', () => {
+  const BOUNDARY = 'upload-parser-test';
+  const MB = 1024 * 1024;
+  const CHUNK_SIZE = 64 * 1024;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  /**
+   * Build an upload whose file is generated one chunk at a time, as the
+   * parser asks for it, and count how much of it was read
+   */
+  const createStreamedUpload = (filename: string, mimeType: string, fileSize: number) => {
+    const head = Buffer.from(
+      `--${BOUNDARY}\r\n` +
+      `Content-Disposition: form-data; name="file"; filename="${filename}"\r\n` +
+      `Content-Type: ${mimeType}\r\n\r\n`
+    );
+    const tail = Buffer.from(`\r\n--${BOUNDARY}--\r\n`);
+    const progress = { bytesRead: 0 };
+    let sent = 0;
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(head);
+      },
+      pull(controller) {
+        if (sent >= fileSize) {
+          controller.enqueue(tail);
+          controller.close();
+          return;
+        }
+        const chunk = Buffer.alloc(Math.min(CHUNK_SIZE, fileSize - sent), 0x61);
+        sent += chunk.length;
+        progress.bytesRead = sent;
+        controller.enqueue(chunk);
+      }
+    });
+
+    const request = new Request('http://localhost/api/upload', {
+      method: 'POST',
+      headers: { 'content-type': `multipart/form-data; boundary=${BOUNDARY}` },
+      body,
+      duplex: 'half'
+    } as RequestInit);
+
+    return { request, progress };
+  };
+
+  const getFile = (files: formidable.Files): formidable.File => {
+    const file = files.file!;
+    return Array.isArray(file) ? file[0] : file;
+  };
+
+  it('should stream a file within its limit to a temporary file', async () => {
+    const { request } = createStreamedUpload('meme.png', 'image/png', 300 * 1024);
+
+    const { files } = await parseUpload(toIncomingMessage(request));
+    const file = getFile(files);
+
+    expect(file.originalFilename).toBe('meme.png');
+    expect(readFileSync(file.filepath).length).toBe(300 * 1024);
+    unlinkSync(file.filepath);
+  });
+
+  it('should stop reading an image as soon as it passes the image limit', async () => {
+    vi.stubEnv('UPLOAD_MAX_FILE_SIZE_MB', '1');
+    const { request, progress } = createStreamedUpload('meme.png', 'image/png', 20 * MB);
+
+    const error = await parseUpload(toIncomingMessage(request)).catch(error => error);
+
+    expect(isFileSizeLimitError(error)).toBe(true);
+    expect(error.message).toBe('File size exceeds maximum allowed size of 1MB');
+    expect(progress.bytesRead).toBeLessThan(2 * MB);
+  });
+
+  it('should give zip archives the archive limit when archives are allowed', async () => {
+    vi.stubEnv('UPLOAD_MAX_FILE_SIZE_MB', '1');
+    vi.stubEnv('UPLOAD_MAX_ARCHIVE_SIZE_MB', '3');
+
+    const { request: archive } = createStreamedUpload('memes.zip', 'application/zip', 2 * MB);
+    const { files } = await parseUpload(toIncomingMessage(archive), { allowArchives: true });
+    const file = getFile(files);
+    expect(existsSync(file.filepath)).toBe(true);
+    unlinkSync(file.filepath);
+
+    const { request: tooLarge, progress } = createStreamedUpload('memes.zip', 'application/zip', 20 * MB);
+    const error = await parseUpload(toIncomingMessage(tooLarge), { allowArchives: true }).catch(error => error);
+    expect(error.message).toBe('File size exceeds maximum allowed size of 3MB');
+    expect(progress.bytesRead).toBeLessThan(4 * MB);
+
+    const { request: notAllowed } = createStreamedUpload('memes.zip', 'application/zip', 2 * MB);
+    expect(isFileSizeLimitError(await parseUpload(toIncomingMessage(notAllowed)).catch(error => error))).toBe(true);
+  });
+
+  it('should refuse a request announcing more than any file may hold before reading it', async () => {
+    const { request, progress } = createStreamedUpload('meme.png', 'image/png', MB);
+    const incomingMessage = toIncomingMessage(request);
+    incomingMessage.headers['content-length'] = String(50 * MB);
+
+    const error = await parseUpload(incomingMessage).catch(error => error);
+
+    expect(isFileSizeLimitError(error)).toBe(true);
+    expect(progress.bytesRead).toBe(0);
+  });
+});
+
+describe('Upload Configuration', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should default to 5MB images, 100MB archives and PNG, JPEG and WEBP', () => {
+    vi.stubEnv('UPLOAD_MAX_FILE_SIZE_MB', '');
+    vi.stubEnv('UPLOAD_MAX_ARCHIVE_SIZE_MB', '');
+    vi.stubEnv('UPLOAD_ALLOWED_TYPES', '');
+
+    expect(getUploadLimits()).toEqual({
+      maxFileSize: 5 * 1024 * 1024,
+      maxArchiveSize: 100 * 1024 * 1024,
+      allowedMimeTypes: ['image/png', 'image/jpeg', 'image/webp']
+    });
+  });
+
+  it('should read the limits and allowed types from the environment', () => {
+    vi.stubEnv('UPLOAD_MAX_FILE_SIZE_MB', '0.5');
+    vi.stubEnv('UPLOAD_MAX_ARCHIVE_SIZE_MB', '20');
+    vi.stubEnv('UPLOAD_ALLOWED_TYPES', 'image/gif, image/JPG');
+
+    expect(getUploadLimits()).toEqual({
+      maxFileSize: 512 * 1024,
+      maxArchiveSize: 20 * 1024 * 1024,
+      allowedMimeTypes: ['image/gif', 'image/jpeg']
+    });
+  });
+
+  it('should fall back to the defaults for invalid values', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('UPLOAD_MAX_FILE_SIZE_MB', 'lots');
+    vi.stubEnv('UPLOAD_MAX_ARCHIVE_SIZE_MB', '-1');
+    vi.stubEnv('UPLOAD_ALLOWED_TYPES', 'application/pdf');
+
+    expect(getUploadLimits()).toEqual({
+      maxFileSize: 5 * 1024 * 1024,
+      maxArchiveSize: 100 * 1024 * 1024,
+      allowedMimeTypes: ['image/png', 'image/jpeg', 'image/webp']
+    });
+    expect(console.warn).toHaveBeenCalledTimes(3);
+  });
+});
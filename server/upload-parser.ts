@@ -0,0 +1,165 @@
+import formidable from 'formidable';
+import { createWriteStream } from 'fs';
+import { open, unlink } from 'fs/promises';
+import { IncomingMessage } from 'http';
+import { Readable, Writable } from 'stream';
+import { ReadableStream } from 'stream/web';
+import { getUploadLimits } from './upload-config';
+import { formatFileSize } from '../lib/file-size';
+import { isZipArchive } from './bulk-upload';
+import { MAGIC_BYTES_LENGTH } from './image-processing';
+
+/**
+ * Upload Parser
+ *
+ * Parses multipart uploads as they arrive: each file is written to a
+ * temporary file while the request is still being received, and cut off as
+ * soon as it grows past its size limit, so an oversized upload is refused
+ * without being read in full.
+ */
+
+// Room left in a request for the multipart boundaries and form fields around its file
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+/**
+ * Error raised when an uploaded file grows past its size limit
+ */
+export interface FileSizeLimitError extends Error {
+  code: 'LIMIT_FILE_SIZE';
+}
+
+/**
+ * Parsed multipart form data
+ */
+export interface ParsedUpload {
+  fields: formidable.Fields;
+  files: formidable.Files;
+}
+
+/**
+ * Create the error raised when a file grows past its size limit
+ */
+function createFileSizeLimitError(limit: number): FileSizeLimitError {
+  const error = new Error(`File size exceeds maximum allowed size of ${formatFileSize(limit)}`) as FileSizeLimitError;
+  error.code = 'LIMIT_FILE_SIZE';
+  return error;
+}
+
+/**
+ * Check whether an error was raised by a file growing past its size limit
+ */
+export function isFileSizeLimitError(error: any): error is FileSizeLimitError {
+  return error?.code === 'LIMIT_FILE_SIZE';
+}
+
+/**
+ * Write an uploaded file to its temporary path, failing as soon as it
+ * grows past its limit; the partial file is then removed
+ */
+function createLimitedWriteStream(filepath: string, limit: number): Writable {
+  const output = createWriteStream(filepath);
+  let size = 0;
+
+  return new Writable({
+    write(chunk: Buffer, encoding, callback) {
+      size += chunk.length;
+      if (size > limit) {
+        output.destroy();
+        unlink(filepath).catch(() => {});
+        callback(createFileSizeLimitError(limit));
+        return;
+      }
+      output.write(chunk, callback);
+    },
+    final(callback) {
+      output.end(callback);
+    },
+    destroy(error, callback) {
+      output.destroy();
+      callback(error);
+    }
+  });
+}
+
+/**
+ * Expose the body of a request as the Node.js IncomingMessage formidable reads
+ * The body is streamed as it arrives, never buffered
+ */
+export function toIncomingMessage(request: Request): IncomingMessage {
+  const headers: Record<string, string> = {};
+  request.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  // Without a length, formidable only reads a body marked as chunked
+  if (!headers['content-length'] && !headers['transfer-encoding']) {
+    headers['transfer-encoding'] = 'chunked';
+  }
+
+  const readable = request.body
+    ? Readable.fromWeb(request.body as ReadableStream<Uint8Array>)
+    : Readable.from([]);
+  const incomingMessage = readable as unknown as IncomingMessage;
+  incomingMessage.headers = headers;
+
+  return incomingMessage;
+}
+
+/**
+ * Parse a multipart upload holding a single file
+ * @param req - Request to read the upload from
+ * @param options.allowArchives - Whether the file may be a zip archive, which has the larger archive limit
+ * @returns The form fields and the file, stored in a temporary file
+ * @throws FileSizeLimitError as soon as the file grows past its limit
+ */
+export function parseUpload(req: IncomingMessage, options: { allowArchives?: boolean } = {}): Promise<ParsedUpload> {
+  const limits = getUploadLimits();
+  const maxFileSize = options.allowArchives ? Math.max(limits.maxArchiveSize, limits.maxFileSize) : limits.maxFileSize;
+
+  // A request announcing more than any file may hold is refused before it is read
+  const contentLength = Number(req.headers['content-length']);
+  if (contentLength > maxFileSize + MULTIPART_OVERHEAD) {
+    req.destroy();
+    return Promise.reject(createFileSizeLimitError(maxFileSize));
+  }
+
+  const form = formidable({
+    maxFiles: 1,
+    // Sizes are enforced by the write stream, with the limit of each kind of file
+    maxFileSize: Infinity,
+    maxTotalFileSize: Infinity,
+    keepExtensions: true,
+    fileWriteStreamHandler: (volatileFile) => {
+      const file = volatileFile as unknown as formidable.File;
+      const limit = options.allowArchives && isZipArchive(file.originalFilename || '', file.mimetype)
+        ? limits.maxArchiveSize
+        : limits.maxFileSize;
+      return createLimitedWriteStream(file.filepath, limit);
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    form.parse(req, (err, fields, files) => {
+      if (err) {
+        // Stop receiving the rest of the upload
+        req.destroy();
+        reject(err);
+      } else {
+        resolve({ fields, files });
+      }
+    });
+  });
+}
+
+/**
+ * Read the first bytes of an uploaded file, enough to recognize its type
+ */
+export async function readFileHead(filepath: string): Promise<Buffer> {
+  const handle = await open(filepath, 'r');
+  try {
+    const head = Buffer.alloc(MAGIC_BYTES_LENGTH);
+    const { bytesRead } = await handle.read(head, 0, MAGIC_BYTES_LENGTH, 0);
+    return head.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
@@ -291,6 +291,30 @@ describe('VoteLockManager - Property-Based Tests', () => {
     );
   });
 
+  it('should release one voter\'s lock without affecting the others', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        matchIdArbitrary,
+        fc.uniqueArray(sessionTokenArbitrary, { minLength: 1, maxLength: 10 }),
+        async (matchId, sessionTokens) => {
+          for (const sessionToken of sessionTokens) {
+            await voteLockManager.recordVote(sessionToken, matchId);
+          }
+
+          const [released, ...kept] = sessionTokens;
+          await voteLockManager.releaseVote(released, matchId);
+
+          expect(voteLockManager.hasVoted(released, matchId)).toBe(false);
+          expect(voteLockManager.getVotersForMatch(matchId).sort()).toEqual([...kept].sort());
+          expect(matchId in voteLockManager.getAllLocks()).toBe(kept.length > 0);
+
+          voteLockManager.clearAllLocks();
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
   it('should handle clearing non-existent match locks gracefully', async () => {
     await fc.assert(
       fc.asyncProperty(
@@ -5,12 +5,19 @@
  * Uses session tokens to identify users across browser sessions and refreshes.
  */
 
+import { VoteLocks } from '../types';
+
 export class VoteLockManager {
   // Map: matchId → Set<sessionToken>
   private matchVotes: Map<string, Set<string>>;
+  private onChange?: (locks: VoteLocks) => Promise<void> | void;
 
-  constructor() {
+  /**
+   * @param onChange - Optional callback receiving every lock after each change (used for persisting them)
+   */
+  constructor(onChange?: (locks: VoteLocks) => Promise<void> | void) {
     this.matchVotes = new Map();
+    this.onChange = onChange;
   }
 
   /**
@@ -26,10 +33,11 @@ export class VoteLockManager {
 
   /**
    * Record that a user has voted in a match
+   * The lock holds at once; the returned promise tells when it is saved
    * @param sessionToken - User's session token
    * @param matchId - Match ID
    */
-  recordVote(sessionToken: string, matchId: string): void {
+  recordVote(sessionToken: string, matchId: string): Promise<void> {
     let voters = this.matchVotes.get(matchId);
     
     if (!voters) {
@@ -38,6 +46,24 @@ export class VoteLockManager {
     }
     
     voters.add(sessionToken);
+    return this.notifyChange();
+  }
+
+  /**
+   * Take back a lock recorded for a vote that could not be counted
+   * @param sessionToken - User's session token
+   * @param matchId - Match ID
+   */
+  releaseVote(sessionToken: string, matchId: string): Promise<void> {
+    const voters = this.matchVotes.get(matchId);
+    if (!voters?.delete(sessionToken)) {
+      return Promise.resolve();
+    }
+
+    if (voters.size === 0) {
+      this.matchVotes.delete(matchId);
+    }
+    return this.notifyChange();
   }
 
   /**
@@ -46,6 +72,7 @@ export class VoteLockManager {
    */
   clearMatchLocks(matchId: string): void {
     this.matchVotes.delete(matchId);
+    this.notifyChange().catch(error => console.error('Error saving vote locks:', error));
   }
 
   /**
@@ -53,10 +80,11 @@ export class VoteLockManager {
    */
   clearAllLocks(): void {
     this.matchVotes.clear();
+    this.notifyChange().catch(error => console.error('Error saving vote locks:', error));
   }
 
   /**
-   * Get all users who voted in a match (for debugging)
+   * Get all users who voted in a match (for debugging and for restoring locks on undo)
    * @param matchId - Match ID
    * @returns Array of session tokens
    */
@@ -64,4 +92,26 @@ export class VoteLockManager {
     const voters = this.matchVotes.get(matchId);
     return voters ? Array.from(voters) : [];
   }
+
+  /**
+   * Get every lock, keyed by match ID
+   * @returns Session tokens that voted in each match
+   */
+  getAllLocks(): VoteLocks {
+    const locks: VoteLocks = {};
+    this.matchVotes.forEach((voters, matchId) => {
+      locks[matchId] = Array.from(voters);
+    });
+    return locks;
+  }
+
+  /**
+   * Pass the locks to the change callback, if any
+   * @returns Promise resolved once the callback has saved them
+   */
+  private async notifyChange(): Promise<void> {
+    if (this.onChange) {
+      await this.onChange(this.getAllLocks());
+    }
+  }
 }
@@ -0,0 +1,237 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, Server as HTTPServer } from 'http';
+import { WebSocketServer } from './websocket';
+import { getRoomRegistry, RoomEntry } from './room-registry';
+import { ADMIN_COOKIE_NAME, issueAdminToken } from './admin-auth';
+import { io as ioClient, Socket as ClientSocket } from 'socket.io-client';
+import { createMemes } from './test-helpers';
+
+/**
+ * Unit tests for admin sockets
+ *
+ * These tests verify that admin commands are only taken from sockets with a
+ * signed admin session cookie, whatever the client claims in its handshake,
+ * that jury join codes only reach the admin that issued them, and that a
+ * judge cannot carry their role to a second session to vote twice.
+ */
+
+describe('WebSocket Admin - Unit Tests', () => {
+  let httpServer: HTTPServer;
+  let wsServer: WebSocketServer;
+  let port: number;
+  let clients: ClientSocket[];
+  let room: RoomEntry;
+
+  beforeEach(async () => {
+    clients = [];
+    httpServer = createServer();
+    wsServer = new WebSocketServer(httpServer);
+    room = getRoomRegistry().createRoom();
+    for (const meme of createMemes(4)) {
+      await room.repository.addMeme(meme);
+    }
+
+    await new Promise<void>((resolve) => {
+      httpServer.listen(0, () => {
+        const address = httpServer.address();
+        if (address && typeof address === 'object') {
+          port = address.port;
+          resolve();
+        }
+      });
+    });
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    getRoomRegistry().removeRoom(room.code);
+
+    await new Promise<void>((resolve) => {
+      wsServer.getIO().close(() => {
+        httpServer.close(() => {
+          resolve();
+        });
+      });
+    });
+  });
+
+  /**
+   * Helper to connect a client claiming to be the room's admin
+   * @param cookie - Cookie header sent with the handshake
+   */
+  function connectAdmin(cookie?: string): ClientSocket {
+    const client = ioClient(`http://localhost:${port}`, {
+      auth: { role: 'admin', room: room.code },
+      extraHeaders: cookie ? { cookie } : {}
+    });
+    clients.push(client);
+    return client;
+  }
+
+  /**
+   * Helper to wait for an event with timeout
+   */
+  function waitForEvent(client: ClientSocket, event: string, timeout: number = 3000): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new Error(`Timeout waiting for event: ${event}`));
+      }, timeout);
+
+      client.once(event, (data) => {
+        clearTimeout(timer);
+        resolve(data);
+      });
+    });
+  }
+
+  // ============================================================================
+  // Unit Tests
+  // ============================================================================
+
+  it('should refuse admin commands from a client that only claims to be admin', async () => {
+    const client = connectAdmin();
+    const connectError = await waitForEvent(client, 'error');
+    expect(connectError.code).toBe('ADMIN_UNAUTHORIZED');
+
+    const refused = waitForEvent(client, 'error');
+    client.emit('admin:start', { votingTimeSeconds: 30 });
+    expect((await refused).code).toBe('ADMIN_UNAUTHORIZED');
+
+    const state = await wsServer.getRoom(room.code)!.tournamentManager.getState();
+    expect(state?.status ?? 'WAITING').toBe('WAITING');
+  });
+
+  it('should refuse admin commands signed with a forged session', async () => {
+    const client = connectAdmin(`${ADMIN_COOKIE_NAME}=${Date.now() + 60000}.forged`);
+    await waitForEvent(client, 'error');
+
+    const refused = waitForEvent(client, 'error');
+    client.emit('admin:start', { votingTimeSeconds: 30 });
+    expect((await refused).code).toBe('ADMIN_UNAUTHORIZED');
+  });
+
+  it('should take admin commands from a signed-in admin', async () => {
+    const client = connectAdmin(`${ADMIN_COOKIE_NAME}=${issueAdminToken()}`);
+    await waitForEvent(client, 'state:update');
+
+    const started = waitForEvent(client, 'state:patch');
+    client.emit('admin:start', { votingTimeSeconds: 30 });
+    await started;
+
+    const state = await wsServer.getRoom(room.code)!.tournamentManager.getState();
+    expect(state?.status).toBe('DUEL_IN_PROGRESS');
+  });
+
+  it('should not let a non-admin client add judges or see their codes', async () => {
+    const voter = connectAdmin();
+    await waitForEvent(voter, 'error');
+
+    let juryUpdates = 0;
+    voter.on('jury:update', () => juryUpdates++);
+    const refused = waitForEvent(voter, 'error');
+    voter.emit('admin:add-judge', { name: 'Intruder' });
+    expect((await refused).code).toBe('ADMIN_UNAUTHORIZED');
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(wsServer.getRoom(room.code)!.juryManager.getJudges()).toEqual([]);
+    expect(juryUpdates).toBe(0);
+  });
+
+  it('should not let a non-admin client remove judges', async () => {
+    const voter = connectAdmin();
+    await waitForEvent(voter, 'error');
+    const judge = wsServer.getRoom(room.code)!.juryManager.addJudge('Judge');
+
+    const refused = waitForEvent(voter, 'error');
+    voter.emit('admin:remove-judge', { judgeId: judge.id });
+    expect((await refused).code).toBe('ADMIN_UNAUTHORIZED');
+
+    expect(wsServer.getRoom(room.code)!.juryManager.getJudges().map(j => j.id)).toEqual([judge.id]);
+  });
+
+  it('should send the join code only to the admin that added the judge', async () => {
+    const voter = ioClient(`http://localhost:${port}`, { auth: { room: room.code } });
+    clients.push(voter);
+    await waitForEvent(voter, 'state:update');
+    const admin = connectAdmin(`${ADMIN_COOKIE_NAME}=${issueAdminToken()}`);
+    await waitForEvent(admin, 'jury:update');
+
+    let voterJuryUpdates = 0;
+    voter.on('jury:update', () => voterJuryUpdates++);
+    const update = waitForEvent(admin, 'jury:update');
+    admin.emit('admin:add-judge', { name: 'Judge' });
+    const { judges } = await update;
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(judges).toHaveLength(1);
+    expect(judges[0].joinCode).toBeTruthy();
+    expect(voterJuryUpdates).toBe(0);
+  });
+
+  it('should not wait for the admin to vote before ending a match under ALL_VOTED', async () => {
+    const admin = ioClient(`http://localhost:${port}`, {
+      auth: { role: 'admin', room: room.code, sessionToken: 'admin-session' },
+      extraHeaders: { cookie: `${ADMIN_COOKIE_NAME}=${issueAdminToken()}` }
+    });
+    const voter = ioClient(`http://localhost:${port}`, { auth: { room: room.code, sessionToken: 'voter-session' } });
+    clients.push(admin, voter);
+    await Promise.all([waitForEvent(admin, 'state:update'), waitForEvent(voter, 'state:update')]);
+
+    const started = waitForEvent(voter, 'state:patch');
+    admin.emit('admin:start', { votingTimeSeconds: 30, endingPolicies: ['ALL_VOTED'] });
+    await started;
+
+    const { tournamentManager } = wsServer.getRoom(room.code)!;
+    const match = (await tournamentManager.getState())!.currentMatch!;
+    const locked = waitForEvent(voter, 'vote:locked');
+    voter.emit('vote:cast', { matchId: match.id, choice: 'LEFT' });
+    await locked;
+
+    // The only voter has voted, so the admin being connected does not hold the match open
+    await vi.waitFor(async () => {
+      const state = await tournamentManager.getState();
+      expect(state!.bracket[match.roundIndex].matches[match.matchIndex].status).toBe('COMPLETED');
+    });
+  });
+
+  it('should not move a judge role away from a session whose vote is still open', async () => {
+    const admin = connectAdmin(`${ADMIN_COOKIE_NAME}=${issueAdminToken()}`);
+    const first = ioClient(`http://localhost:${port}`, { auth: { room: room.code, sessionToken: 'judge-first' } });
+    const second = ioClient(`http://localhost:${port}`, { auth: { room: room.code, sessionToken: 'judge-second' } });
+    clients.push(first, second);
+    await Promise.all([waitForEvent(admin, 'jury:update'), waitForEvent(first, 'state:update'), waitForEvent(second, 'state:update')]);
+
+    const added = waitForEvent(admin, 'jury:update');
+    admin.emit('admin:add-judge', { name: 'Judge' });
+    const { joinCode } = (await added).judges[0];
+
+    // Before any vote the role moves freely, and the session that lost it is told
+    const joined = waitForEvent(first, 'jury:status');
+    first.emit('jury:join', { code: joinCode });
+    expect((await joined).judge).not.toBeNull();
+    const revoked = waitForEvent(first, 'jury:status');
+    second.emit('jury:join', { code: joinCode });
+    expect((await revoked).judge).toBeNull();
+
+    const started = waitForEvent(second, 'state:patch');
+    admin.emit('admin:start', { votingTimeSeconds: 30 });
+    await started;
+
+    const { tournamentManager, juryManager } = wsServer.getRoom(room.code)!;
+    const match = (await tournamentManager.getState())!.currentMatch!;
+    const locked = waitForEvent(second, 'vote:locked');
+    second.emit('vote:cast', { matchId: match.id, choice: 'LEFT' });
+    await locked;
+
+    const refused = waitForEvent(first, 'error');
+    first.emit('jury:join', { code: joinCode });
+
+    expect((await refused).code).toBe('JUDGE_VOTE_PENDING');
+    expect(juryManager.getJudgeForSession('judge-second')).not.toBeNull();
+    expect(juryManager.getJudgeForSession('judge-first')).toBeNull();
+  });
+});
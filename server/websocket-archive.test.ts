@@ -0,0 +1,195 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, Server as HTTPServer } from 'http';
+import { WebSocketServer } from './websocket';
+import { getRoomRegistry, RoomEntry } from './room-registry';
+import { getArchiveInstance } from './repository-singleton';
+import { ADMIN_COOKIE_NAME, issueAdminToken } from './admin-auth';
+import * as fileUtils from './file-utils';
+import { io as ioClient, Socket as ClientSocket } from 'socket.io-client';
+import { createMemes } from './test-helpers';
+
+/**
+ * Unit tests for the tournament history
+ *
+ * These tests verify that a finished tournament is archived, images and all,
+ * before a reset or a rematch clears it, while an unfinished one is still
+ * discarded along with its images.
+ */
+
+describe('WebSocket Tournament Archive - Unit Tests', () => {
+  let httpServer: HTTPServer;
+  let wsServer: WebSocketServer;
+  let port: number;
+  let clients: ClientSocket[];
+  let room: RoomEntry;
+
+  beforeEach(async () => {
+    clients = [];
+    httpServer = createServer();
+    wsServer = new WebSocketServer(httpServer);
+    room = getRoomRegistry().createRoom();
+    for (const meme of createMemes(2, 'archive-meme')) {
+      await room.repository.addMeme(meme);
+    }
+
+    vi.spyOn(fileUtils, 'deleteUploadedImages').mockResolvedValue({ deletedCount: 0, errors: [] });
+
+    await new Promise<void>((resolve) => {
+      httpServer.listen(0, () => {
+        const address = httpServer.address();
+        if (address && typeof address === 'object') {
+          port = address.port;
+          resolve();
+        }
+      });
+    });
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+    vi.restoreAllMocks();
+    getRoomRegistry().removeRoom(room.code);
+
+    const archive = getArchiveInstance();
+    for (const tournament of await getArchivedTournaments()) {
+      await archive.deleteTournament(tournament.id);
+    }
+
+    await new Promise<void>((resolve) => {
+      wsServer.getIO().close(() => {
+        httpServer.close(() => {
+          resolve();
+        });
+      });
+    });
+  });
+
+  /**
+   * Helper to connect the room's admin, waiting for its first state
+   */
+  async function createAdmin(): Promise<ClientSocket> {
+    return new Promise((resolve, reject) => {
+      const client = ioClient(`http://localhost:${port}`, {
+        auth: { role: 'admin', room: room.code },
+        extraHeaders: { cookie: `${ADMIN_COOKIE_NAME}=${issueAdminToken()}` }
+      });
+      clients.push(client);
+
+      client.once('state:update', () => resolve(client));
+      client.once('error', (error) => reject(new Error(error.message)));
+
+      setTimeout(() => reject(new Error('Connection timeout')), 5000);
+    });
+  }
+
+  /**
+   * Helper to wait for an event with timeout
+   */
+  function waitForEvent(client: ClientSocket, event: string, timeout: number = 3000): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new Error(`Timeout waiting for event: ${event}`));
+      }, timeout);
+
+      client.once(event, (data) => {
+        clearTimeout(timer);
+        resolve(data);
+      });
+    });
+  }
+
+  /**
+   * Helper to start the room's tournament and play it to the end
+   */
+  async function playTournament(admin: ClientSocket): Promise<void> {
+    const started = waitForEvent(admin, 'state:patch');
+    admin.emit('admin:start', { votingTimeSeconds: 30 });
+    await started;
+
+    const { tournamentManager } = wsServer.getRoom(room.code)!;
+    const state = await tournamentManager.getState();
+    await tournamentManager.completeCurrentMatch(state!.currentMatch!.id);
+  }
+
+  async function getArchivedTournaments() {
+    return (await getArchiveInstance().getTournaments()).filter(tournament => tournament.roomCode === room.code);
+  }
+
+  // ============================================================================
+  // Unit Tests
+  // ============================================================================
+
+  it('should archive a finished tournament on reset and keep its images', async () => {
+    const admin = await createAdmin();
+    await playTournament(admin);
+
+    const success = waitForEvent(admin, 'admin:reset:success');
+    admin.emit('admin:reset', {});
+    const response = await success;
+
+    const archived = await getArchivedTournaments();
+    expect(archived).toHaveLength(1);
+    expect(response.archivedTournamentId).toBe(archived[0].id);
+    expect(archived[0].state.status).toBe('TOURNAMENT_FINISHED');
+    expect(archived[0].state.winner).not.toBeNull();
+    expect(archived[0].state.bracket[0].matches[0].completedAt).toBeInstanceOf(Date);
+    expect(archived[0].finishedAt).toEqual(archived[0].state.bracket[0].matches[0].completedAt);
+    expect(fileUtils.deleteUploadedImages).toHaveBeenCalledWith([]);
+  });
+
+  it('should refuse to reset an unfinished tournament', async () => {
+    const admin = await createAdmin();
+    const started = waitForEvent(admin, 'state:patch');
+    admin.emit('admin:start', { votingTimeSeconds: 30 });
+    await started;
+
+    const refused = waitForEvent(admin, 'error');
+    admin.emit('admin:reset', {});
+    expect((await refused).code).toBe('TOURNAMENT_IN_PROGRESS');
+
+    expect((await wsServer.getRoom(room.code)!.tournamentManager.getState())?.status).toBe('DUEL_IN_PROGRESS');
+    expect(await getArchivedTournaments()).toHaveLength(0);
+    expect(fileUtils.deleteUploadedImages).not.toHaveBeenCalled();
+  });
+
+  it('should only delete an unfinished tournament, images included, once confirmed', async () => {
+    const admin = await createAdmin();
+    const started = waitForEvent(admin, 'state:patch');
+    admin.emit('admin:start', { votingTimeSeconds: 30 });
+    await started;
+
+    const refused = waitForEvent(admin, 'error');
+    admin.emit('admin:delete-tournament', {});
+    expect((await refused).code).toBe('INVALID_DELETE');
+    expect((await wsServer.getRoom(room.code)!.tournamentManager.getState())?.status).toBe('DUEL_IN_PROGRESS');
+
+    const success = waitForEvent(admin, 'admin:reset:success');
+    admin.emit('admin:delete-tournament', { confirm: true });
+    const response = await success;
+
+    expect(response.archivedTournamentId).toBeNull();
+    expect(await getArchivedTournaments()).toHaveLength(0);
+    expect(fileUtils.deleteUploadedImages).toHaveBeenCalledWith(createMemes(2, 'archive-meme').map(meme => meme.imageUrl));
+  });
+
+  it('should archive a finished tournament when a rematch replaces it', async () => {
+    const admin = await createAdmin();
+    await playTournament(admin);
+    const finished = await wsServer.getRoom(room.code)!.tournamentManager.getState();
+
+    admin.emit('admin:start', { votingTimeSeconds: 30 });
+    await vi.waitFor(async () => {
+      expect(await getArchivedTournaments()).toHaveLength(1);
+    });
+
+    const archived = await getArchivedTournaments();
+    expect(archived[0].state).toEqual(finished);
+    await vi.waitFor(async () => {
+      expect((await wsServer.getRoom(room.code)!.tournamentManager.getState())?.status).toBe('DUEL_IN_PROGRESS');
+    });
+  });
+});
@@ -6,6 +6,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fc from 'fast-check';
 import { createServer, Server as HTTPServer } from 'http';
 import { WebSocketServer } from './websocket';
+import { ADMIN_COOKIE_NAME, issueAdminToken } from './admin-auth';
 import { io as ioClient, Socket as ClientSocket } from 'socket.io-client';
 
 /**
@@ -55,10 +56,13 @@ describe('WebSocket Reset Broadcast - Property-Based Tests', () => {
 
   /**
    * Helper to create a client connection
+   * Clients sign in as admin so that any of them can trigger the reset
    */
   async function createClient(): Promise<ClientSocket> {
     return new Promise((resolve, reject) => {
-      const client = ioClient(`http://localhost:${port}`);
+      const client = ioClient(`http://localhost:${port}`, {
+        extraHeaders: { cookie: `${ADMIN_COOKIE_NAME}=${issueAdminToken()}` }
+      });
 
       client.on('connect', () => {
         resolve(client);
@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { createServer, Server as HTTPServer } from 'http';
 import { WebSocketServer } from './websocket';
+import { ADMIN_COOKIE_NAME, issueAdminToken } from './admin-auth';
 import { io as ioClient, Socket as ClientSocket } from 'socket.io-client';
 import * as fileUtils from './file-utils';
 
@@ -57,10 +58,13 @@ describe('WebSocket Reset Error Handling - Unit Tests', () => {
 
   /**
    * Helper to create a client connection
+   * @param admin - Whether the client signs in as admin
    */
-  async function createClient(): Promise<ClientSocket> {
+  async function createClient(admin: boolean = false): Promise<ClientSocket> {
     return new Promise((resolve, reject) => {
-      const client = ioClient(`http://localhost:${port}`);
+      const client = ioClient(`http://localhost:${port}`, {
+        extraHeaders: admin ? { cookie: `${ADMIN_COOKIE_NAME}=${issueAdminToken()}` } : {}
+      });
 
       client.on('connect', () => {
         resolve(client);
@@ -109,7 +113,7 @@ describe('WebSocket Reset Error Handling - Unit Tests', () => {
     });
 
     // Create test clients
-    const client1 = await createClient();
+    const client1 = await createClient(true);
     const client2 = await createClient();
 
     try {
@@ -158,7 +162,7 @@ describe('WebSocket Reset Error Handling - Unit Tests', () => {
     });
 
     // Create test client
-    const client = await createClient();
+    const client = await createClient(true);
 
     try {
       // Wait for connection
@@ -210,7 +214,7 @@ describe('WebSocket Reset Error Handling - Unit Tests', () => {
     });
 
     // Create admin client
-    const adminClient = await createClient();
+    const adminClient = await createClient(true);
 
     try {
       // Wait for connection
@@ -244,7 +248,7 @@ describe('WebSocket Reset Error Handling - Unit Tests', () => {
     mockDeleteUploadedImages.mockRejectedValue(new Error('File system error'));
 
     // Create test clients
-    const adminClient = await createClient();
+    const adminClient = await createClient(true);
     const userClient = await createClient();
 
     try {
@@ -0,0 +1,143 @@
+/**
+ * @vitest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, Server as HTTPServer } from 'http';
+import { WebSocketServer } from './websocket';
+import { getRoomRegistry } from './room-registry';
+import { ADMIN_COOKIE_NAME, issueAdminToken } from './admin-auth';
+import { io as ioClient, Socket as ClientSocket } from 'socket.io-client';
+import { createMemes } from './test-helpers';
+
+/**
+ * Unit tests for tournament rooms
+ *
+ * These tests verify that each room runs its own tournament: its clients
+ * only hear about their own room, and unknown room codes are turned away.
+ */
+
+describe('WebSocket Rooms - Unit Tests', () => {
+  let httpServer: HTTPServer;
+  let wsServer: WebSocketServer;
+  let port: number;
+  let clients: ClientSocket[];
+
+  beforeEach(async () => {
+    clients = [];
+    httpServer = createServer();
+    wsServer = new WebSocketServer(httpServer);
+
+    await new Promise<void>((resolve) => {
+      httpServer.listen(0, () => {
+        const address = httpServer.address();
+        if (address && typeof address === 'object') {
+          port = address.port;
+          resolve();
+        }
+      });
+    });
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.disconnect());
+
+    await new Promise<void>((resolve) => {
+      wsServer.getIO().close(() => {
+        httpServer.close(() => {
+          resolve();
+        });
+      });
+    });
+  });
+
+  /**
+   * Helper to connect a client to a room, waiting for its first state
+   * Admins also send a signed admin session cookie
+   */
+  async function createClient(auth: Record<string, string> = {}): Promise<ClientSocket> {
+    return new Promise((resolve, reject) => {
+      const extraHeaders: Record<string, string> = auth.role === 'admin'
+        ? { cookie: `${ADMIN_COOKIE_NAME}=${issueAdminToken()}` }
+        : {};
+      const client = ioClient(`http://localhost:${port}`, { auth, extraHeaders });
+      clients.push(client);
+
+      client.once('state:update', () => resolve(client));
+      client.once('error', (error) => reject(new Error(error.message)));
+
+      setTimeout(() => reject(new Error('Connection timeout')), 5000);
+    });
+  }
+
+  /**
+   * Helper to wait for an event with timeout
+   */
+  function waitForEvent(client: ClientSocket, event: string, timeout: number = 3000): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new Error(`Timeout waiting for event: ${event}`));
+      }, timeout);
+
+      client.once(event, (data) => {
+        clearTimeout(timer);
+        resolve(data);
+      });
+    });
+  }
+
+  // ============================================================================
+  // Unit Tests
+  // ============================================================================
+
+  it('should run a separate tournament in each room', async () => {
+    const room = getRoomRegistry().createRoom();
+    for (const meme of createMemes(4)) {
+      await room.repository.addMeme(meme);
+    }
+
+    try {
+      const roomAdmin = await createClient({ role: 'admin', room: room.code });
+      const roomVoter = await createClient({ room: room.code.toLowerCase() });
+      const defaultVoter = await createClient();
+
+      let defaultUpdates = 0;
+      defaultVoter.on('state:update', () => defaultUpdates++);
+      defaultVoter.on('state:patch', () => defaultUpdates++);
+
+      const started = waitForEvent(roomVoter, 'state:patch');
+      roomAdmin.emit('admin:start', { votingTimeSeconds: 30 });
+      await started;
+
+      const roomState = await wsServer.getRoom(room.code)!.tournamentManager.getState();
+      const defaultState = await wsServer.getTournamentManager().getState();
+      expect(roomState?.status).toBe('DUEL_IN_PROGRESS');
+      expect(defaultState?.status).toBe('WAITING');
+
+      // A reset only reaches the room it was sent to
+      let defaultReset = false;
+      defaultVoter.on('tournament:reset', () => { defaultReset = true; });
+      const reset = waitForEvent(roomVoter, 'tournament:reset');
+      roomAdmin.emit('admin:delete-tournament', { confirm: true });
+      await reset;
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(defaultUpdates).toBe(0);
+      expect(defaultReset).toBe(false);
+    } finally {
+      getRoomRegistry().removeRoom(room.code);
+    }
+  });
+
+  it('should turn away clients with an unknown room code', async () => {
+    const client = ioClient(`http://localhost:${port}`, { auth: { room: 'NOPE1' } });
+    clients.push(client);
+
+    const [error, reason] = await Promise.all([
+      waitForEvent(client, 'error'),
+      waitForEvent(client, 'disconnect')
+    ]);
+    expect(error.code).toBe('ROOM_NOT_FOUND');
+    expect(reason).toBe('io server disconnect');
+  });
+});
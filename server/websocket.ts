@@ -1,33 +1,95 @@
 import { Server as HTTPServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { TournamentManager } from './tournament-manager';
-import { getRepositoryInstance } from './repository-singleton';
+import { getRepositoryInstance, getArchiveInstance, deleteRoomData } from './repository-singleton';
+import { getRoomRegistry } from './room-registry';
+import { TournamentRoom, StateAudience } from './tournament-room';
 import { ConnectionMapManager } from './connection-map';
 import { VoteLockManager } from './vote-lock-manager';
+import { JuryManager } from './jury-manager';
 import { SessionTokenGenerator } from './session-token';
-import { deleteUploadedImages } from './file-utils';
+import { hasAdminSession } from './admin-auth';
+import { deleteUploadedImages, DeleteResult } from './file-utils';
+import { createArchivedTournament, getImageUrlsInUse } from './tournament-archive';
+import { projectStateForVoters } from './state-projection';
+import { toWireState, diffState } from '../lib/state-patch';
+import { getActiveMatches } from '../lib/active-matches';
+import { getMemeImageUrls } from '../lib/meme-images';
+import { isValidRoundTime, MIN_ROUND_TIME_MULTIPLIER, MAX_ROUND_TIME_MULTIPLIER } from '../lib/round-times';
+import { MIN_HEAT_SIZE, MAX_HEAT_SIZE, MAX_HEAT_QUALIFIERS } from '../lib/heats';
+import { MAX_JURY_WEIGHT, MIN_JURY_SHARE, MAX_JURY_SHARE, MAX_JUDGE_NAME_LENGTH } from '../lib/jury';
 import { 
   TournamentState, 
+  ITournamentRepository,
+  ArchivedTournament,
   VoteCastMessage, 
   StartTournamentMessage,
   ErrorMessage,
   VoteLockedMessage,
   VoteRejectedMessage,
   ResetTournamentMessage,
-  TournamentResetMessage
+  DeleteTournamentMessage,
+  TournamentResetMessage,
+  TournamentFormat,
+  SeedingStrategy,
+  TieBreakPolicy,
+  MatchEndingPolicy,
+  JuryScoring,
+  DecideTieMessage,
+  PauseTournamentMessage,
+  ResumeTournamentMessage,
+  ContinueTournamentMessage,
+  AdjustTimeMessage,
+  EndMatchMessage,
+  UndoResultMessage,
+  OverrideMatchMessage,
+  AddJudgeMessage,
+  RemoveJudgeMessage,
+  JoinJuryMessage,
+  JuryUpdateMessage,
+  JudgeStatusMessage,
+  ClockPingMessage,
+  ClockPongMessage,
+  SessionRestoredMessage,
+  StatePatchMessage,
+  ResyncStateMessage
 } from '../types';
 
+const VALID_FORMATS: TournamentFormat[] = ['SINGLE_ELIMINATION', 'DOUBLE_ELIMINATION', 'ROUND_ROBIN', 'SWISS'];
+const VALID_SEEDINGS: SeedingStrategy[] = ['RANDOM', 'UPLOAD_ORDER', 'MANUAL', 'PAST_RESULTS'];
+const VALID_TIE_BREAKS: TieBreakPolicy[] = ['SUDDEN_DEATH', 'REVOTE', 'FIRST_TO_FINAL_COUNT', 'ADMIN_DECISION', 'RANDOM'];
+const VALID_ENDING_POLICIES: MatchEndingPolicy[] = ['ALL_VOTED', 'DECISIVE_LEAD', 'AUTO_EXTEND'];
+const VALID_JURY_SCORINGS: JuryScoring[] = ['WEIGHTED', 'SHARE'];
+const MAX_OVERRIDE_REASON_LENGTH = 200;
+const MAX_PARALLEL_MATCHES = 8;
+const MAX_ROUND_TIME_SCHEDULE_LENGTH = 32;
+const MAX_INTERMISSION_SECONDS = 60;
+
+/**
+ * A room with nobody connected is removed, with its memes, once it has had
+ * no activity for this long
+ */
+const ROOM_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const ROOM_CLEANUP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Clients connecting this long after an interrupted tournament was resumed
+ * are told it was restored; later ones did not see it stop
+ */
+const SESSION_RESTORED_NOTICE_MS = 5 * 60 * 1000;
+
 /**
  * WebSocket server for real-time tournament communication
  * Handles connection/disconnection events and tracks connected clients
  */
 export class WebSocketServer {
   private io: SocketIOServer;
-  private tournamentManager: TournamentManager;
   private connectedClients: Set<string> = new Set();
-  private connectionMap: ConnectionMapManager;
-  private voteLockManager: VoteLockManager;
   private sessionTokenGenerator: SessionTokenGenerator;
+  // Tournament served to clients that connect without a room code
+  private defaultRoom: TournamentRoom;
+  // Map: room code → room, created when its first client connects
+  private rooms: Map<string, TournamentRoom> = new Map();
 
   /**
    * Initialize WebSocket server with HTTP server
@@ -42,24 +104,126 @@ export class WebSocketServer {
       }
     });
 
-    // Initialize session tracking components
-    this.connectionMap = new ConnectionMapManager();
-    this.voteLockManager = new VoteLockManager();
     this.sessionTokenGenerator = new SessionTokenGenerator();
 
-    // Initialize tournament manager with singleton repository, state change callback, and vote lock manager
-    const repository = getRepositoryInstance();
-    this.tournamentManager = new TournamentManager(
-      repository,
-      (state: TournamentState) => this.broadcastState(state),
-      this.voteLockManager
-    );
-
-    // Initialize empty tournament state
-    this.tournamentManager.initializeEmptyState();
+    // The default tournament uses the singleton repository shared with the API routes
+    this.defaultRoom = this.createRoom(null, getRepositoryInstance());
 
     // Set up event handlers
     this.setupEventHandlers();
+
+    // Remove rooms nobody uses anymore
+    setInterval(() => this.cleanupIdleRooms(), ROOM_CLEANUP_INTERVAL_MS).unref();
+  }
+
+  /**
+   * Create the runtime of a tournament and load its state
+   * @param code - Room code, or null for the default tournament
+   * @param repository - Repository holding the tournament
+   * @returns The room
+   */
+  private createRoom(code: string | null, repository: ITournamentRepository): TournamentRoom {
+    const room = new TournamentRoom(code, repository, (room, state) => this.broadcastState(room, state));
+    this.loadRoomState(room);
+    return room;
+  }
+
+  /**
+   * Resume the tournament the server was running when it stopped, or start
+   * from an empty state when there is none
+   * @param room - Room whose repository was just opened
+   */
+  private async loadRoomState(room: TournamentRoom): Promise<void> {
+    try {
+      if (await room.tournamentManager.resumeInterruptedTournament()) {
+        room.restoredAt = Date.now();
+        console.log(`Resumed interrupted tournament${room.code ? ` in room ${room.code}` : ''}`);
+      }
+      await room.tournamentManager.initializeEmptyState();
+    } catch (error) {
+      console.error('Error loading tournament state:', error);
+    }
+  }
+
+  /**
+   * Find the tournament a connecting socket asked for
+   * Sockets without a room code get the default tournament
+   * @param socket - Connecting socket
+   * @returns The room, or null if the code matches no room
+   */
+  private resolveRoom(socket: Socket): TournamentRoom | null {
+    const code = socket.handshake.auth?.room;
+    if (!code) {
+      return this.defaultRoom;
+    }
+
+    const entry = typeof code === 'string' ? getRoomRegistry().getRoom(code) : null;
+    if (!entry) {
+      return null;
+    }
+
+    let room = this.rooms.get(entry.code);
+    if (!room) {
+      room = this.createRoom(entry.code, entry.repository);
+      this.rooms.set(entry.code, room);
+    }
+    return room;
+  }
+
+  /**
+   * Get the tournament a socket belongs to
+   * @param socket - Socket instance
+   * @returns The room the socket joined on connection
+   */
+  private getSocketRoom(socket: Socket): TournamentRoom {
+    return socket.data.room;
+  }
+
+  /**
+   * Record activity in a room so it is not cleaned up
+   * @param room - The room
+   */
+  private touchRoom(room: TournamentRoom): void {
+    if (room.code) {
+      getRoomRegistry().touch(room.code);
+    }
+  }
+
+  /**
+   * Remove rooms that nobody is connected to and that have been idle too long
+   * Their tournament is reset and its uploaded images and data file deleted;
+   * errors are logged, as no client is there to report them to
+   */
+  private async cleanupIdleRooms(): Promise<void> {
+    const registry = getRoomRegistry();
+
+    for (const entry of registry.getIdleRooms(ROOM_IDLE_TIMEOUT_MS)) {
+      const room = this.rooms.get(entry.code);
+      if (room && room.connectionMap.getConnectionCount() > 0) {
+        continue;
+      }
+
+      registry.removeRoom(entry.code);
+      this.rooms.delete(entry.code);
+
+      try {
+        let imageUrls: string[];
+        if (room) {
+          await this.archiveFinishedTournament(room);
+          imageUrls = await room.tournamentManager.resetTournament();
+        } else {
+          imageUrls = ((await entry.repository.getState())?.memes || []).flatMap(getMemeImageUrls);
+        }
+        const deleteResult = await this.deleteUnusedImages(imageUrls);
+        if (deleteResult.errors.length > 0) {
+          console.error(`File deletion errors in room ${entry.code}:`, deleteResult.errors);
+        }
+        await deleteRoomData(entry.code);
+        console.log(`Removed idle room: ${entry.code}`);
+      } catch (error) {
+        console.error(`Error removing idle room ${entry.code}:`, error);
+      }
+    }
   }
 
   /**
@@ -68,27 +232,59 @@ export class WebSocketServer {
   private setupEventHandlers(): void {
     this.io.on('connection', (socket: Socket) => {
       console.log(`Client connected: ${socket.id}`);
+
+      // Join the tournament the client asked for
+      const room = this.resolveRoom(socket);
+      if (!room) {
+        this.sendError(socket, 'Room not found', 'ROOM_NOT_FOUND');
+        socket.disconnect(true);
+        return;
+      }
+      socket.data.room = room;
+      socket.join(room.channel);
+      this.touchRoom(room);
+
+      // Only a signed-in admin session gets the admin audience
+      socket.data.isAdmin = hasAdminSession(socket.handshake.headers.cookie);
+      if (socket.handshake.auth?.role === 'admin' && !socket.data.isAdmin) {
+        this.sendError(socket, 'Admin sign-in required', 'ADMIN_UNAUTHORIZED');
+      }
       
       // Extract or generate session token
       const sessionToken = this.getSessionTokenFromSocket(socket);
       
       // Add socket to connection map
-      this.connectionMap.addConnection(sessionToken, socket.id);
+      room.connectionMap.addConnection(sessionToken, socket.id);
+
+      if (this.isAdminSocket(socket)) {
+        socket.join(room.adminChannel);
+        socket.emit('jury:update', this.getJuryUpdate(room));
+      }
+
+      // Judges reconnecting keep their role
+      const judge = room.juryManager.getJudgeForSession(sessionToken);
+      if (judge) {
+        socket.emit('jury:status', this.getJudgeStatus(judge));
+      }
       
       // Track connected client
       this.connectedClients.add(socket.id);
 
       // Send current state to newly connected client
-      this.sendStateToClient(socket);
+      this.sendStateToClient(socket).then(() => this.notifySessionRestored(socket, sessionToken));
 
       // Handle disconnection
       socket.on('disconnect', () => {
         console.log(`Client disconnected: ${socket.id}`);
         
         // Remove socket from connection map
-        this.connectionMap.removeConnection(socket.id);
+        room.connectionMap.removeConnection(socket.id);
         
         this.connectedClients.delete(socket.id);
+        this.touchRoom(room);
+
+        // The voters left may now all have voted
+        this.applyEndingPolicies(room);
       });
 
       // Register event handlers for this socket
@@ -115,12 +311,13 @@ export class WebSocketServer {
 
   /**
    * Emit event to all sockets belonging to a session token
+   * @param room - Tournament the sockets are connected to
    * @param sessionToken - Target user's session token
    * @param event - Event name
    * @param data - Event payload
    */
-  private emitToUser(sessionToken: string, event: string, data: any): void {
-    const socketIds = this.connectionMap.getSocketIds(sessionToken);
+  private emitToUser(room: TournamentRoom, sessionToken: string, event: string, data: any): void {
+    const socketIds = room.connectionMap.getSocketIds(sessionToken);
     
     socketIds.forEach(socketId => {
       const socket = this.io.sockets.sockets.get(socketId);
@@ -135,6 +332,14 @@ export class WebSocketServer {
    * @param socket - Socket instance to register handlers for
    */
   private registerSocketHandlers(socket: Socket): void {
+    // Admin events are only taken from signed-in admin sessions
+    socket.use(([event], next) => {
+      if (event.startsWith('admin:') && !this.requireAdmin(socket, event)) {
+        return;
+      }
+      next();
+    });
+
     // Vote cast handler
     socket.on('vote:cast', async (message: VoteCastMessage['payload']) => {
       await this.handleVoteCast(socket, message);
@@ -149,17 +354,84 @@ export class WebSocketServer {
     socket.on('admin:reset', async (message: ResetTournamentMessage['payload']) => {
       await this.handleAdminReset(socket, message);
     });
+
+    // Admin delete tournament handler
+    socket.on('admin:delete-tournament', async (message: DeleteTournamentMessage['payload']) => {
+      await this.handleAdminDeleteTournament(socket, message);
+    });
+
+    // Admin tie decision handler
+    socket.on('admin:decide-tie', async (message: DecideTieMessage['payload']) => {
+      await this.handleAdminDecideTie(socket, message);
+    });
+
+    // Admin timer control handlers
+    socket.on('admin:pause', async (message: PauseTournamentMessage['payload']) => {
+      await this.handleAdminPause(socket, message);
+    });
+
+    socket.on('admin:resume', async (message: ResumeTournamentMessage['payload']) => {
+      await this.handleAdminResume(socket, message);
+    });
+
+    socket.on('admin:next', async (message: ContinueTournamentMessage['payload']) => {
+      await this.handleAdminNext(socket, message);
+    });
+
+    socket.on('admin:adjust-time', async (message: AdjustTimeMessage['payload']) => {
+      await this.handleAdminAdjustTime(socket, message);
+    });
+
+    socket.on('admin:end-match', async (message: EndMatchMessage['payload']) => {
+      await this.handleAdminEndMatch(socket, message);
+    });
+
+    // Admin result correction handlers
+    socket.on('admin:undo', async (message: UndoResultMessage['payload']) => {
+      await this.handleAdminUndo(socket, message);
+    });
+
+    socket.on('admin:override', async (message: OverrideMatchMessage['payload']) => {
+      await this.handleAdminOverride(socket, message);
+    });
+
+    // Jury handlers
+    socket.on('admin:add-judge', (message: AddJudgeMessage['payload']) => {
+      this.handleAdminAddJudge(socket, message);
+    });
+
+    socket.on('admin:remove-judge', (message: RemoveJudgeMessage['payload']) => {
+      this.handleAdminRemoveJudge(socket, message);
+    });
+
+    socket.on('jury:join', async (message: JoinJuryMessage['payload']) => {
+      await this.handleJuryJoin(socket, message);
+    });
+
+    // Clock handshake handler
+    socket.on('clock:ping', (message: ClockPingMessage['payload']) => {
+      this.handleClockPing(socket, message);
+    });
+
+    // State resync handler - the client missed a patch
+    socket.on('state:resync', (message: ResyncStateMessage['payload']) => {
+      this.sendStateToClient(socket);
+    });
   }
 
   /**
    * Send current tournament state to a specific client
+   * Other clients are caught up first, so the snapshot is the revision that
+   * later patches build on
    * @param socket - Socket to send state to
    */
   private async sendStateToClient(socket: Socket): Promise<void> {
     try {
-      const state = await this.tournamentManager.getState();
+      const room = this.getSocketRoom(socket);
+      const state = await room.tournamentManager.getState();
       if (state) {
-        socket.emit('state:update', state);
+        this.broadcastState(room, state);
+        socket.emit('state:update', room.sentStates[this.isAdminSocket(socket) ? 'admins' : 'voters']);
       }
     } catch (error) {
       console.error('Error sending state to client:', error);
@@ -168,18 +440,107 @@ export class WebSocketServer {
   }
 
   /**
-   * Broadcast tournament state to all connected clients
-   * Called whenever tournament state changes
+   * Tell a client connecting shortly after a restart that its tournament was
+   * resumed, along with the active matches its session already voted in
+   * @param socket - Newly connected socket
+   * @param sessionToken - The socket's session token
+   */
+  private async notifySessionRestored(socket: Socket, sessionToken: string): Promise<void> {
+    const room = this.getSocketRoom(socket);
+    if (room.restoredAt === null || Date.now() - room.restoredAt > SESSION_RESTORED_NOTICE_MS) {
+      return;
+    }
+
+    const state = await room.tournamentManager.getState();
+    const restored: SessionRestoredMessage['payload'] = {
+      restoredAt: room.restoredAt,
+      votedMatchIds: getActiveMatches(state)
+        .filter(match => room.voteLockManager.hasVoted(sessionToken, match.id))
+        .map(match => match.id)
+    };
+    socket.emit('session:restored', restored);
+  }
+
+  /**
+   * Broadcast tournament state to the clients of its room
+   * Called whenever tournament state changes; each change gets a new revision
+   * @param room - Tournament whose state changed
    * @param state - Tournament state to broadcast
    */
-  private broadcastState(state: TournamentState): void {
-    this.io.emit('state:update', state);
+  private broadcastState(room: TournamentRoom, state: TournamentState): void {
+    room.stateRevision += 1;
+
+    // Blind voting: only admins see the tally of matches still being played
+    this.broadcastToAudience(room, 'admins', state);
+    this.broadcastToAudience(room, 'voters', projectStateForVoters(state));
+  }
+
+  /**
+   * Send an audience what changed since the state it last received
+   * The change goes out as a patch when it can be described as one, and as
+   * a full snapshot otherwise; a change the audience cannot see sends nothing
+   * @param room - Tournament the clients are connected to
+   * @param audience - Clients to send to
+   * @param state - Tournament state as this audience may see it
+   */
+  private broadcastToAudience(room: TournamentRoom, audience: StateAudience, state: TournamentState): void {
+    const target = audience === 'admins'
+      ? this.io.to(room.adminChannel)
+      : this.io.to(room.channel).except(room.adminChannel);
+    const previous = room.sentStates[audience];
+    const next = toWireState(state, room.stateRevision);
+    const ops = previous ? diffState(previous, next) : null;
+
+    if (ops && ops.length === 0) {
+      return;
+    }
+    room.sentStates[audience] = next;
+
+    if (!previous || !ops) {
+      target.emit('state:update', next);
+      return;
+    }
+
+    const patch: StatePatchMessage['payload'] = {
+      baseRevision: previous.revision!,
+      revision: room.stateRevision,
+      ops
+    };
+    target.emit('state:patch', patch);
+  }
+
+  /**
+   * Check whether a socket belongs to a signed-in admin
+   * Decided on connection from the admin session cookie; the role a client
+   * claims in its handshake grants nothing
+   * @param socket - Socket instance
+   * @returns true if the socket belongs to an admin session
+   */
+  private isAdminSocket(socket: Socket): boolean {
+    return socket.data.isAdmin === true;
+  }
+
+  /**
+   * Refuse an admin command from a socket without an admin session
+   * @param socket - Socket that sent the command
+   * @param event - Name of the command
+   * @returns true if the socket may send admin commands
+   */
+  private requireAdmin(socket: Socket, event: string): boolean {
+    if (this.isAdminSocket(socket)) {
+      return true;
+    }
+
+    // Security logging: admin commands from other clients (socket ID logged, not raw IP)
+    console.warn(`[SECURITY] Unauthorized admin event ${event} - Socket: ${socket.id}`);
+    this.sendError(socket, 'Admin sign-in required', 'ADMIN_UNAUTHORIZED');
+    return false;
   }
 
   /**
    * Handle vote:cast event from client
    * Checks vote locks before processing, emits vote:rejected if already voted,
-   * records vote lock and emits vote:locked after successful vote
+   * saves the vote lock before the vote and emits vote:locked after successful vote
    * @param socket - Socket that sent the vote
    * @param payload - Vote payload containing matchId and choice
    */
@@ -188,24 +549,25 @@ export class WebSocketServer {
     payload: VoteCastMessage['payload']
   ): Promise<void> {
     try {
-      const { matchId, choice } = payload;
+      const { matchId, choice, memeId } = payload;
 
       // Validate payload
-      if (!matchId || !choice) {
+      if (!matchId || (!choice && !memeId)) {
         this.sendError(socket, 'Invalid vote payload', 'INVALID_VOTE');
         return;
       }
 
-      if (choice !== 'LEFT' && choice !== 'RIGHT') {
+      if (memeId !== undefined ? typeof memeId !== 'string' : choice !== 'LEFT' && choice !== 'RIGHT') {
         this.sendError(socket, 'Invalid vote choice', 'INVALID_CHOICE');
         return;
       }
 
       // Extract session token from socket
       const sessionToken = this.getSessionTokenFromSocket(socket);
+      const room = this.getSocketRoom(socket);
 
       // Check if user has already voted in this match
-      if (this.voteLockManager.hasVoted(sessionToken, matchId)) {
+      if (room.voteLockManager.hasVoted(sessionToken, matchId)) {
         // Security logging: Duplicate vote attempt (session token logged, not raw IP)
         console.warn(`[SECURITY] Duplicate vote attempt - Session: ${sessionToken.substring(0, 8)}..., Match: ${matchId}, Socket: ${socket.id}`);
         
@@ -217,15 +579,13 @@ export class WebSocketServer {
             reason: 'ALREADY_VOTED'
           }
         };
-        this.emitToUser(sessionToken, 'vote:rejected', rejectedMessage.payload);
+        this.emitToUser(room, sessionToken, 'vote:rejected', rejectedMessage.payload);
         return;
       }
 
-      // Process vote through tournament manager
-      await this.tournamentManager.processVote(matchId, choice);
-
-      // Record vote lock for this user
-      this.voteLockManager.recordVote(sessionToken, matchId);
+      // Cast the vote, locking it for this user first; judges vote into the jury tally
+      const isJudge = room.juryManager.getJudgeForSession(sessionToken) !== null;
+      await room.tournamentManager.castVote(sessionToken, matchId, memeId !== undefined ? { memeId } : choice!, isJudge);
 
       // Emit vote:locked event to user's sockets only
       const lockedMessage: VoteLockedMessage = {
@@ -234,7 +594,10 @@ export class WebSocketServer {
           matchId
         }
       };
-      this.emitToUser(sessionToken, 'vote:locked', lockedMessage.payload);
+      this.emitToUser(room, sessionToken, 'vote:locked', lockedMessage.payload);
+
+      // This vote may be the last one needed to settle the match
+      await this.applyEndingPolicies(room);
 
       // State will be broadcast automatically via onStateChange callback
     } catch (error) {
@@ -244,18 +607,74 @@ export class WebSocketServer {
     }
   }
 
+  /**
+   * End active matches that the tournament's ending policies consider settled
+   * Errors are logged rather than reported, as no single client caused them
+   * @param room - Tournament to check
+   */
+  private async applyEndingPolicies(room: TournamentRoom): Promise<void> {
+    try {
+      await room.tournamentManager.applyEndingPolicies(await this.getVotingSessions(room));
+    } catch (error) {
+      console.error('Error applying match ending policies:', error);
+    }
+  }
+
+  /**
+   * Get the connected sessions of a room expected to vote
+   * Sessions connected only through the admin view do not vote, so they
+   * would keep ALL_VOTED from ever ending a match. A judge is expected to
+   * vote from any device while the jury is scoring
+   * @param room - Tournament whose sessions are counted
+   * @returns Session tokens of the room's voters
+   */
+  private async getVotingSessions(room: TournamentRoom): Promise<string[]> {
+    const state = await room.tournamentManager.getState();
+    const juryScoring = !!state?.config.juryScoring;
+
+    return room.connectionMap.getSessionTokens().filter(sessionToken => {
+      if (juryScoring && room.juryManager.getJudgeForSession(sessionToken)) {
+        return true;
+      }
+      return room.connectionMap.getSocketIds(sessionToken).some(socketId => {
+        const socket = this.io.sockets.sockets.get(socketId);
+        return socket !== undefined && !this.isAdminSocket(socket);
+      });
+    });
+  }
+
   /**
    * Handle admin:start event from client
    * Parses start message, calls TournamentManager.initializeTournament, broadcasts initial state
    * @param socket - Socket that sent the start command
-   * @param payload - Start payload containing votingTimeSeconds
+   * @param payload - Start payload containing votingTimeSeconds and optional format settings
    */
   private async handleAdminStart(
     socket: Socket,
     payload: StartTournamentMessage['payload']
   ): Promise<void> {
     try {
-      const { votingTimeSeconds } = payload;
+      const {
+        votingTimeSeconds,
+        format,
+        grandFinalReset,
+        thirdPlaceMatch,
+        heatSize,
+        heatQualifiers,
+        swissRounds,
+        seeding,
+        seedOrder,
+        tieBreak,
+        parallelMatches,
+        roundTimeSchedule,
+        roundTimeMultiplier,
+        endingPolicies,
+        intermissionSeconds,
+        blindVoting,
+        juryScoring,
+        juryWeight,
+        juryShare
+      } = payload;
 
       // Validate payload
       if (!votingTimeSeconds || votingTimeSeconds <= 0) {
@@ -263,8 +682,100 @@ export class WebSocketServer {
         return;
       }
 
+      if (format && !VALID_FORMATS.includes(format)) {
+        this.sendError(socket, 'Invalid tournament format', 'INVALID_FORMAT');
+        return;
+      }
+
+      if (swissRounds !== undefined && (!Number.isInteger(swissRounds) || swissRounds < 1)) {
+        this.sendError(socket, 'Invalid number of Swiss rounds', 'INVALID_SWISS_ROUNDS');
+        return;
+      }
+
+      if (tieBreak && !VALID_TIE_BREAKS.includes(tieBreak)) {
+        this.sendError(socket, 'Invalid tie-break policy', 'INVALID_TIE_BREAK');
+        return;
+      }
+
+      if (seeding && !VALID_SEEDINGS.includes(seeding)) {
+        this.sendError(socket, 'Invalid seeding strategy', 'INVALID_SEEDING');
+        return;
+      }
+
+      if (seedOrder !== undefined && (!Array.isArray(seedOrder) || seedOrder.some(id => typeof id !== 'string'))) {
+        this.sendError(socket, 'Invalid seed order', 'INVALID_SEEDING');
+        return;
+      }
+
+      if (parallelMatches !== undefined && (!Number.isInteger(parallelMatches) || parallelMatches < 1 || parallelMatches > MAX_PARALLEL_MATCHES)) {
+        this.sendError(socket, `Parallel matches must be between 1 and ${MAX_PARALLEL_MATCHES}`, 'INVALID_PARALLEL_MATCHES');
+        return;
+      }
+
+      if (heatSize !== undefined && (!Number.isInteger(heatSize) || heatSize < MIN_HEAT_SIZE || heatSize > MAX_HEAT_SIZE)) {
+        this.sendError(socket, `Heats must have between ${MIN_HEAT_SIZE} and ${MAX_HEAT_SIZE} memes`, 'INVALID_HEATS');
+        return;
+      }
+
+      if (heatQualifiers !== undefined && (!Number.isInteger(heatQualifiers) || heatQualifiers < 1 || heatQualifiers > MAX_HEAT_QUALIFIERS)) {
+        this.sendError(socket, `Between 1 and ${MAX_HEAT_QUALIFIERS} memes can advance from each heat`, 'INVALID_HEATS');
+        return;
+      }
+
+      if (roundTimeSchedule !== undefined && (
+        !Array.isArray(roundTimeSchedule) ||
+        roundTimeSchedule.length > MAX_ROUND_TIME_SCHEDULE_LENGTH ||
+        !roundTimeSchedule.every(isValidRoundTime)
+      )) {
+        this.sendError(socket, 'Invalid round time schedule', 'INVALID_ROUND_TIMES');
+        return;
+      }
+
+      if (roundTimeMultiplier !== undefined && (
+        typeof roundTimeMultiplier !== 'number' ||
+        roundTimeMultiplier < MIN_ROUND_TIME_MULTIPLIER ||
+        roundTimeMultiplier > MAX_ROUND_TIME_MULTIPLIER
+      )) {
+        this.sendError(socket, `Round time multiplier must be between ${MIN_ROUND_TIME_MULTIPLIER} and ${MAX_ROUND_TIME_MULTIPLIER}`, 'INVALID_ROUND_TIMES');
+        return;
+      }
+
+      if (endingPolicies !== undefined && (
+        !Array.isArray(endingPolicies) ||
+        !endingPolicies.every(policy => VALID_ENDING_POLICIES.includes(policy))
+      )) {
+        this.sendError(socket, 'Invalid match ending policy', 'INVALID_ENDING_POLICIES');
+        return;
+      }
+
+      if (intermissionSeconds !== undefined && (
+        !Number.isInteger(intermissionSeconds) ||
+        intermissionSeconds < 0 ||
+        intermissionSeconds > MAX_INTERMISSION_SECONDS
+      )) {
+        this.sendError(socket, `Intermission must be between 0 and ${MAX_INTERMISSION_SECONDS} seconds`, 'INVALID_INTERMISSION');
+        return;
+      }
+
+      if (juryScoring !== undefined && !VALID_JURY_SCORINGS.includes(juryScoring)) {
+        this.sendError(socket, 'Invalid jury scoring', 'INVALID_JURY');
+        return;
+      }
+
+      if (juryWeight !== undefined && (!Number.isInteger(juryWeight) || juryWeight < 1 || juryWeight > MAX_JURY_WEIGHT)) {
+        this.sendError(socket, `Jury vote weight must be between 1 and ${MAX_JURY_WEIGHT}`, 'INVALID_JURY');
+        return;
+      }
+
+      if (juryShare !== undefined && (typeof juryShare !== 'number' || juryShare < MIN_JURY_SHARE || juryShare > MAX_JURY_SHARE)) {
+        this.sendError(socket, `Jury share must be between ${MIN_JURY_SHARE} and ${MAX_JURY_SHARE}`, 'INVALID_JURY');
+        return;
+      }
+
       // Get memes from repository
-      const state = await this.tournamentManager.getState();
+      const room = this.getSocketRoom(socket);
+      const { tournamentManager } = room;
+      const state = await tournamentManager.getState();
       if (!state) {
         this.sendError(socket, 'No tournament state found', 'STATE_ERROR');
         return;
@@ -278,8 +789,30 @@ export class WebSocketServer {
         return;
       }
 
+      // A rematch replaces the finished tournament, which goes to the history
+      await this.archiveFinishedTournament(room);
+
       // Initialize tournament
-      await this.tournamentManager.initializeTournament(memes, votingTimeSeconds);
+      await tournamentManager.initializeTournament(memes, votingTimeSeconds, {
+        format,
+        grandFinalReset,
+        thirdPlaceMatch,
+        heatSize,
+        heatQualifiers,
+        swissRounds,
+        seeding,
+        seedOrder,
+        tieBreak,
+        parallelMatches,
+        roundTimeSchedule,
+        roundTimeMultiplier,
+        endingPolicies,
+        intermissionSeconds,
+        blindVoting,
+        juryScoring,
+        juryWeight,
+        juryShare
+      });
 
       // State will be broadcast automatically via onStateChange callback
     } catch (error) {
@@ -289,9 +822,362 @@ export class WebSocketServer {
     }
   }
 
+  /**
+   * Handle admin:decide-tie event from client
+   * Resolves a tied match awaiting the admin's decision
+   * @param socket - Socket that sent the decision
+   * @param payload - Decision payload containing matchId and the chosen side
+   */
+  private async handleAdminDecideTie(
+    socket: Socket,
+    payload: DecideTieMessage['payload']
+  ): Promise<void> {
+    try {
+      const { matchId, choice } = payload || {};
+
+      // Validate payload
+      if (!matchId || (choice !== 'LEFT' && choice !== 'RIGHT')) {
+        this.sendError(socket, 'Invalid tie decision payload', 'INVALID_TIE_DECISION');
+        return;
+      }
+
+      // State will be broadcast automatically via onStateChange callback
+      await this.getSocketRoom(socket).tournamentManager.decideTie(matchId, choice);
+    } catch (error) {
+      console.error('Error deciding tie:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to decide tie';
+      this.sendError(socket, errorMessage, 'TIE_DECISION_ERROR');
+    }
+  }
+
+  /**
+   * Handle admin:pause event from client
+   * Pauses the running duel; the paused state is broadcast to all clients
+   * @param socket - Socket that sent the pause command
+   * @param payload - Pause payload (empty object)
+   */
+  private async handleAdminPause(
+    socket: Socket,
+    payload: PauseTournamentMessage['payload']
+  ): Promise<void> {
+    try {
+      // State will be broadcast automatically via onStateChange callback
+      await this.getSocketRoom(socket).tournamentManager.pauseTournament();
+    } catch (error) {
+      console.error('Error pausing tournament:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to pause tournament';
+      this.sendError(socket, errorMessage, 'PAUSE_ERROR');
+    }
+  }
+
+  /**
+   * Handle admin:resume event from client
+   * Resumes a paused duel with the time it had left
+   * @param socket - Socket that sent the resume command
+   * @param payload - Resume payload (empty object)
+   */
+  private async handleAdminResume(
+    socket: Socket,
+    payload: ResumeTournamentMessage['payload']
+  ): Promise<void> {
+    try {
+      // State will be broadcast automatically via onStateChange callback
+      await this.getSocketRoom(socket).tournamentManager.resumeTournament();
+    } catch (error) {
+      console.error('Error resuming tournament:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to resume tournament';
+      this.sendError(socket, errorMessage, 'RESUME_ERROR');
+    }
+  }
+
+  /**
+   * Handle admin:next event from client
+   * Ends the result reveal and starts the next match
+   * @param socket - Socket that sent the next command
+   * @param payload - Next payload (empty object)
+   */
+  private async handleAdminNext(
+    socket: Socket,
+    payload: ContinueTournamentMessage['payload']
+  ): Promise<void> {
+    try {
+      // State will be broadcast automatically via onStateChange callback
+      await this.getSocketRoom(socket).tournamentManager.continueTournament();
+    } catch (error) {
+      console.error('Error continuing tournament:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to continue tournament';
+      this.sendError(socket, errorMessage, 'NEXT_ERROR');
+    }
+  }
+
+  /**
+   * Handle admin:adjust-time event from client
+   * Adds or removes seconds on the current match
+   * @param socket - Socket that sent the adjustment
+   * @param payload - Adjustment payload containing matchId and deltaSeconds
+   */
+  private async handleAdminAdjustTime(
+    socket: Socket,
+    payload: AdjustTimeMessage['payload']
+  ): Promise<void> {
+    try {
+      const { matchId, deltaSeconds } = payload || {};
+
+      // Validate payload
+      if (!matchId || typeof deltaSeconds !== 'number' || !Number.isInteger(deltaSeconds) || deltaSeconds === 0) {
+        this.sendError(socket, 'Invalid time adjustment payload', 'INVALID_TIME_ADJUSTMENT');
+        return;
+      }
+
+      // State will be broadcast automatically via onStateChange callback
+      await this.getSocketRoom(socket).tournamentManager.adjustMatchTime(matchId, deltaSeconds);
+    } catch (error) {
+      console.error('Error adjusting match time:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to adjust match time';
+      this.sendError(socket, errorMessage, 'TIME_ADJUSTMENT_ERROR');
+    }
+  }
+
+  /**
+   * Handle admin:end-match event from client
+   * Closes voting on the current match and decides it from the votes so far
+   * @param socket - Socket that sent the command
+   * @param payload - Payload containing the matchId to end
+   */
+  private async handleAdminEndMatch(
+    socket: Socket,
+    payload: EndMatchMessage['payload']
+  ): Promise<void> {
+    try {
+      const { matchId } = payload || {};
+
+      // Validate payload
+      if (!matchId) {
+        this.sendError(socket, 'Invalid end match payload', 'INVALID_END_MATCH');
+        return;
+      }
+
+      // State will be broadcast automatically via onStateChange callback
+      await this.getSocketRoom(socket).tournamentManager.endCurrentMatch(matchId);
+    } catch (error) {
+      console.error('Error ending match:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to end match';
+      this.sendError(socket, errorMessage, 'END_MATCH_ERROR');
+    }
+  }
+
+  /**
+   * Handle admin:undo event from client
+   * Rolls back the last match result and replays the match
+   * @param socket - Socket that sent the command
+   * @param payload - Payload containing the matchId of the last result
+   */
+  private async handleAdminUndo(
+    socket: Socket,
+    payload: UndoResultMessage['payload']
+  ): Promise<void> {
+    try {
+      const { matchId } = payload || {};
+
+      // Validate payload
+      if (!matchId) {
+        this.sendError(socket, 'Invalid undo payload', 'INVALID_UNDO');
+        return;
+      }
+
+      // State will be broadcast automatically via onStateChange callback
+      await this.getSocketRoom(socket).tournamentManager.undoLastResult(matchId);
+    } catch (error) {
+      console.error('Error undoing result:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to undo result';
+      this.sendError(socket, errorMessage, 'UNDO_ERROR');
+    }
+  }
+
+  /**
+   * Handle admin:override event from client
+   * Forces the winner of the current match with a stated reason
+   * @param socket - Socket that sent the override
+   * @param payload - Override payload containing matchId, the chosen side and the reason
+   */
+  private async handleAdminOverride(
+    socket: Socket,
+    payload: OverrideMatchMessage['payload']
+  ): Promise<void> {
+    try {
+      const { matchId, choice, reason } = payload || {};
+
+      // Validate payload
+      if (!matchId || (choice !== 'LEFT' && choice !== 'RIGHT')) {
+        this.sendError(socket, 'Invalid override payload', 'INVALID_OVERRIDE');
+        return;
+      }
+
+      if (typeof reason !== 'string' || !reason.trim() || reason.length > MAX_OVERRIDE_REASON_LENGTH) {
+        this.sendError(socket, `Override reason must be 1-${MAX_OVERRIDE_REASON_LENGTH} characters`, 'INVALID_OVERRIDE');
+        return;
+      }
+
+      // State will be broadcast automatically via onStateChange callback
+      await this.getSocketRoom(socket).tournamentManager.overrideMatch(matchId, choice, reason);
+    } catch (error) {
+      console.error('Error overriding match:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to override match';
+      this.sendError(socket, errorMessage, 'OVERRIDE_ERROR');
+    }
+  }
+
+  /**
+   * Handle admin:add-judge event from client
+   * Issues a join code for a new judge and sends the jury list, codes
+   * included, back to the admin that asked for it
+   * @param socket - Socket that sent the command
+   * @param payload - Payload containing the judge's name
+   */
+  private handleAdminAddJudge(
+    socket: Socket,
+    payload: AddJudgeMessage['payload']
+  ): void {
+    const name = typeof payload?.name === 'string' ? payload.name.trim() : '';
+
+    // Validate payload
+    if (!name || name.length > MAX_JUDGE_NAME_LENGTH) {
+      this.sendError(socket, `Judge name must be 1-${MAX_JUDGE_NAME_LENGTH} characters`, 'INVALID_JUDGE');
+      return;
+    }
+
+    const room = this.getSocketRoom(socket);
+    room.juryManager.addJudge(name);
+    socket.emit('jury:update', this.getJuryUpdate(room));
+  }
+
+  /**
+   * Handle admin:remove-judge event from client
+   * Revokes a judge's code; their session goes back to voting as audience
+   * and the jury list goes back to the admin that asked for it
+   * @param socket - Socket that sent the command
+   * @param payload - Payload containing the judgeId to remove
+   */
+  private handleAdminRemoveJudge(
+    socket: Socket,
+    payload: RemoveJudgeMessage['payload']
+  ): void {
+    const { judgeId } = payload || {};
+
+    // Validate payload
+    if (!judgeId) {
+      this.sendError(socket, 'Invalid remove judge payload', 'INVALID_JUDGE');
+      return;
+    }
+
+    const room = this.getSocketRoom(socket);
+    const sessionToken = room.juryManager.removeJudge(judgeId);
+    if (sessionToken) {
+      this.emitToUser(room, sessionToken, 'jury:status', this.getJudgeStatus(null));
+    }
+    socket.emit('jury:update', this.getJuryUpdate(room));
+  }
+
+  /**
+   * Handle jury:join event from client
+   * Gives the sender's session the judge role of a join code. Vote locks are
+   * kept per session, so the role does not move away from a session whose
+   * vote in an active match still stands: the judge could vote there again
+   * @param socket - Socket that sent the code
+   * @param payload - Payload containing the join code
+   */
+  private async handleJuryJoin(
+    socket: Socket,
+    payload: JoinJuryMessage['payload']
+  ): Promise<void> {
+    const { code } = payload || {};
+
+    // Validate payload
+    if (typeof code !== 'string' || !code.trim()) {
+      this.sendError(socket, 'Invalid jury code', 'INVALID_JURY_CODE');
+      return;
+    }
+
+    const sessionToken = this.getSessionTokenFromSocket(socket);
+    const room = this.getSocketRoom(socket);
+    const previousSession = room.juryManager.getSessionForCode(code);
+    const isMove = previousSession !== null && previousSession !== sessionToken;
+
+    if (isMove) {
+      const state = await room.tournamentManager.getState();
+      if (getActiveMatches(state).some(match => room.voteLockManager.hasVoted(previousSession, match.id))) {
+        this.sendError(socket, 'This judge has voted in a match still in progress: enter the code again once it ends', 'JUDGE_VOTE_PENDING');
+        return;
+      }
+    }
+
+    const judge = room.juryManager.join(code, sessionToken);
+    if (!judge) {
+      // Security logging: wrong codes may be guesses (session token logged, not raw IP)
+      console.warn(`[SECURITY] Invalid jury code - Session: ${sessionToken.substring(0, 8)}..., Socket: ${socket.id}`);
+      this.sendError(socket, 'Invalid jury code', 'INVALID_JURY_CODE');
+      return;
+    }
+
+    // The session the role moved away from votes as audience again
+    if (isMove) {
+      this.emitToUser(room, previousSession, 'jury:status', this.getJudgeStatus(null));
+    }
+    this.emitToUser(room, sessionToken, 'jury:status', this.getJudgeStatus(judge));
+    this.broadcastJury(room);
+  }
+
+  /**
+   * Handle clock:ping event from client
+   * Replies with the server time so the client can count match deadlines
+   * down on its own clock
+   * @param socket - Socket that sent the ping
+   * @param payload - Payload containing the client time the ping was sent
+   */
+  private handleClockPing(
+    socket: Socket,
+    payload: ClockPingMessage['payload']
+  ): void {
+    const { sentAt } = payload || {};
+
+    // Validate payload
+    if (typeof sentAt !== 'number' || !Number.isFinite(sentAt)) {
+      return;
+    }
+
+    const pong: ClockPongMessage['payload'] = { sentAt, serverTime: Date.now() };
+    socket.emit('clock:pong', pong);
+  }
+
+  /**
+   * Send the jury list, with join codes, to the room's admin clients only
+   * @param room - Tournament whose jury changed
+   */
+  private broadcastJury(room: TournamentRoom): void {
+    this.io.to(room.adminChannel).emit('jury:update', this.getJuryUpdate(room));
+  }
+
+  /**
+   * Build the jury list sent to admins
+   * @param room - Tournament the jury belongs to
+   */
+  private getJuryUpdate(room: TournamentRoom): JuryUpdateMessage['payload'] {
+    return { judges: room.juryManager.getJudges() };
+  }
+
+  /**
+   * Build the role notification sent to a judge, leaving out the join code
+   * @param judge - The judge, or null when the role was revoked
+   */
+  private getJudgeStatus(judge: { id: string; name: string } | null): JudgeStatusMessage['payload'] {
+    return { judge: judge && { id: judge.id, name: judge.name } };
+  }
+
   /**
    * Handle admin:reset event from client
-   * Resets tournament state, deletes uploaded images, and broadcasts reset notification
+   * Archives the room's tournament if it finished and clears it. A tournament
+   * still being played is refused: it can only be thrown away through
+   * admin:delete-tournament
    * @param socket - Socket that sent the reset command
    * @param payload - Reset payload (empty object)
    */
@@ -300,35 +1186,17 @@ export class WebSocketServer {
     payload: ResetTournamentMessage['payload']
   ): Promise<void> {
     try {
-      // Call tournamentManager.resetTournament() to get image URLs
-      const imageUrls = await this.tournamentManager.resetTournament();
-
-      // Call file deletion utility with image URLs
-      const deleteResult = await deleteUploadedImages(imageUrls);
+      const room = this.getSocketRoom(socket);
 
-      // Log any file deletion errors (but don't fail the reset)
-      if (deleteResult.errors.length > 0) {
-        console.error('File deletion errors:', deleteResult.errors);
+      const state = await room.tournamentManager.getState();
+      if (state && state.status !== 'WAITING' && state.status !== 'TOURNAMENT_FINISHED') {
+        this.sendError(socket, 'Tournament has not finished: delete it to start over', 'TOURNAMENT_IN_PROGRESS');
+        return;
       }
 
-      // Initialize empty state after reset
-      await this.tournamentManager.initializeEmptyState();
-
-      // Broadcast tournament:reset event to all connected clients
-      const resetMessage: TournamentResetMessage = {
-        type: 'tournament:reset',
-        payload: {
-          timestamp: new Date()
-        }
-      };
-      this.io.emit('tournament:reset', resetMessage.payload);
-
-      // Send success response to admin client
-      socket.emit('admin:reset:success', {
-        message: 'Tournament reset successfully',
-        deletedFiles: deleteResult.deletedCount,
-        errors: deleteResult.errors
-      });
+      // Keep a finished tournament in the history before clearing it
+      const archived = await this.archiveFinishedTournament(room);
+      await this.clearTournament(socket, room, archived);
     } catch (error) {
       console.error('Error resetting tournament:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to reset tournament';
@@ -338,6 +1206,110 @@ export class WebSocketServer {
     }
   }
 
+  /**
+   * Handle admin:delete-tournament event from client
+   * Clears the room's tournament without archiving it, whatever its status
+   * @param socket - Socket that sent the delete command
+   * @param payload - Payload confirming the deletion
+   */
+  private async handleAdminDeleteTournament(
+    socket: Socket,
+    payload: DeleteTournamentMessage['payload']
+  ): Promise<void> {
+    // Validate payload
+    if (payload?.confirm !== true) {
+      this.sendError(socket, 'Deleting the tournament must be confirmed', 'INVALID_DELETE');
+      return;
+    }
+
+    try {
+      const room = this.getSocketRoom(socket);
+      const state = await room.tournamentManager.getState();
+      console.log(`Deleted ${state?.status ?? 'empty'} tournament${room.code ? ` of room ${room.code}` : ''} without archiving it`);
+      await this.clearTournament(socket, room, null);
+    } catch (error) {
+      console.error('Error deleting tournament:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete tournament';
+      this.sendError(socket, errorMessage, 'RESET_ERROR');
+    }
+  }
+
+  /**
+   * Clear a room's tournament: reset its state, delete the uploaded images
+   * nothing shows any more, and broadcast reset notification to the room
+   * @param socket - Admin socket that asked for it, told the outcome
+   * @param room - Room whose tournament is cleared
+   * @param archived - Archive record kept of the tournament, if any
+   */
+  private async clearTournament(
+    socket: Socket,
+    room: TournamentRoom,
+    archived: ArchivedTournament | null
+  ): Promise<void> {
+    // Call tournamentManager.resetTournament() to get image URLs
+    const imageUrls = await room.tournamentManager.resetTournament();
+
+    // Delete the images, keeping those the history still shows
+    const deleteResult = await this.deleteUnusedImages(imageUrls);
+
+    // Log any file deletion errors (but don't fail the reset)
+    if (deleteResult.errors.length > 0) {
+      console.error('File deletion errors:', deleteResult.errors);
+    }
+
+    // Initialize empty state after reset
+    await room.tournamentManager.initializeEmptyState();
+
+    // Clients drop their state on reset, so the next one they get is a full snapshot
+    room.sentStates = { admins: null, voters: null };
+    room.restoredAt = null;
+
+    // Broadcast tournament:reset event to all clients in the room
+    const resetMessage: TournamentResetMessage = {
+      type: 'tournament:reset',
+      payload: {
+        timestamp: new Date()
+      }
+    };
+    this.io.to(room.channel).emit('tournament:reset', resetMessage.payload);
+
+    // Send success response to admin client
+    socket.emit('admin:reset:success', {
+      message: 'Tournament reset successfully',
+      archivedTournamentId: archived?.id || null,
+      deletedFiles: deleteResult.deletedCount,
+      errors: deleteResult.errors
+    });
+  }
+
+  /**
+   * Archive a room's tournament if it has finished, before its live state is
+   * cleared or replaced
+   * @param room - Room whose tournament is about to be cleared
+   * @returns The archived tournament, or null if the tournament had not finished
+   */
+  private async archiveFinishedTournament(room: TournamentRoom): Promise<ArchivedTournament | null> {
+    const state = await room.tournamentManager.getState();
+    if (!state || state.status !== 'TOURNAMENT_FINISHED') {
+      return null;
+    }
+
+    const tournament = createArchivedTournament(state, room.code);
+    await getArchiveInstance().addTournament(tournament);
+    console.log(`Archived tournament ${tournament.id}${room.code ? ` of room ${room.code}` : ''}`);
+    return tournament;
+  }
+
+  /**
+   * Delete the images of a cleared tournament, except those still shown by
+   * an archived tournament or another live one
+   * @param imageUrls - Images of the cleared tournament
+   */
+  private async deleteUnusedImages(imageUrls: string[]): Promise<DeleteResult> {
+    const inUse = await getImageUrlsInUse();
+    return deleteUploadedImages(imageUrls.filter(url => !inUse.has(url)));
+  }
+
   /**
    * Send error message to a specific client
    * @param socket - Socket to send error to
@@ -364,11 +1336,20 @@ export class WebSocketServer {
   }
 
   /**
-   * Get the tournament manager instance
+   * Get the tournament manager instance of the default tournament
    * @returns Tournament manager instance
    */
   public getTournamentManager(): TournamentManager {
-    return this.tournamentManager;
+    return this.defaultRoom.tournamentManager;
+  }
+
+  /**
+   * Get a room that clients have connected to
+   * @param code - Room code
+   * @returns The room, or null if no client has joined it yet
+   */
+  public getRoom(code: string): TournamentRoom | null {
+    return this.rooms.get(code.trim().toUpperCase()) || null;
   }
 
   /**
@@ -380,19 +1361,27 @@ export class WebSocketServer {
   }
 
   /**
-   * Get the connection map manager instance
+   * Get the connection map manager instance of the default tournament
    * @returns Connection map manager instance
    */
   public getConnectionMapManager(): ConnectionMapManager {
-    return this.connectionMap;
+    return this.defaultRoom.connectionMap;
   }
 
   /**
-   * Get the vote lock manager instance
+   * Get the vote lock manager instance of the default tournament
    * @returns Vote lock manager instance
    */
   public getVoteLockManager(): VoteLockManager {
-    return this.voteLockManager;
+    return this.defaultRoom.voteLockManager;
+  }
+
+  /**
+   * Get the jury manager instance of the default tournament
+   * @returns Jury manager instance
+   */
+  public getJuryManager(): JuryManager {
+    return this.defaultRoom.juryManager;
   }
 
   /**
@@ -10,16 +10,106 @@
  */
 export interface Meme {
   id: string;              // UUID
-  imageUrl: string;        // Relative path: /uploads/[filename]
+  imageUrl: string;        // Relative path: /uploads/[filename]; the large variant in a widely supported format
   caption: string;         // Short text description
   uploadedAt: Date;        // Timestamp
+  variants?: ImageVariants; // Resized copies; absent on memes uploaded before they were generated
 }
 
+/**
+ * Sizes each uploaded image is resized to
+ */
+export type ImageVariantSize = 'thumbnail' | 'medium' | 'large';
+
+/**
+ * Modern formats the resized copies of an image can be stored in
+ */
+export type ImageVariantFormat = 'webp' | 'avif';
+
+/**
+ * A resized copy of a meme image
+ */
+export interface ImageVariant {
+  url: string;             // Relative path of the copy in the modern format
+  mimeType: string;        // image/webp or image/avif
+  fallbackUrl: string;     // Relative path of the copy as JPEG or PNG, for browsers without the modern format
+  width: number;           // Pixels
+  height: number;          // Pixels
+}
+
+/**
+ * Resized copies of a meme image, by size
+ */
+export type ImageVariants = Record<ImageVariantSize, ImageVariant>;
+
 /**
  * Status of a match in the tournament
  */
 export type MatchStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED';
 
+/**
+ * Format used to organize the tournament
+ * ROUND_ROBIN and SWISS are league formats: matches can end in a draw
+ * and the champion is decided by the standings table
+ */
+export type TournamentFormat = 'SINGLE_ELIMINATION' | 'DOUBLE_ELIMINATION' | 'ROUND_ROBIN' | 'SWISS';
+
+/**
+ * How memes are ordered into seeds before the bracket is generated
+ * PAST_RESULTS ranks memes by the standings of the previous finished tournament
+ */
+export type SeedingStrategy = 'RANDOM' | 'UPLOAD_ORDER' | 'MANUAL' | 'PAST_RESULTS';
+
+/**
+ * How an elimination match with tied votes is decided
+ * SUDDEN_DEATH: short overtime where the first vote wins
+ * REVOTE: votes are cleared and the match is voted again
+ * FIRST_TO_FINAL_COUNT: the meme that reached its final count first wins
+ * ADMIN_DECISION: the admin picks the winner
+ * RANDOM: coin flip
+ * Policies that cannot produce a winner fall back to RANDOM
+ */
+export type TieBreakPolicy = 'SUDDEN_DEATH' | 'REVOTE' | 'FIRST_TO_FINAL_COUNT' | 'ADMIN_DECISION' | 'RANDOM';
+
+/**
+ * Tie-break stage a match is currently in
+ */
+export type TieBreakPhase = 'SUDDEN_DEATH' | 'REVOTE' | 'AWAITING_ADMIN';
+
+/**
+ * Policy that can end a match before, or after, its scheduled time
+ * ALL_VOTED: ends the match once every connected session has voted on it
+ * DECISIVE_LEAD: ends the match once the voters left cannot change the result
+ * AUTO_EXTEND: adds overtime when a late vote arrives in a close match
+ */
+export type MatchEndingPolicy = 'ALL_VOTED' | 'DECISIVE_LEAD' | 'AUTO_EXTEND';
+
+/**
+ * Why a match stopped taking votes
+ */
+export type MatchEndReason = 'TIME_EXPIRED' | 'ALL_VOTED' | 'DECISIVE_LEAD' | 'ENDED_BY_ADMIN';
+
+/**
+ * How judge votes are combined with audience votes
+ * WEIGHTED counts each judge vote as several audience votes; SHARE gives the
+ * jury a fixed part of the result however many people vote
+ */
+export type JuryScoring = 'WEIGHTED' | 'SHARE';
+
+/**
+ * Section of the bracket a round belongs to
+ * Single-elimination brackets do not set a side
+ */
+export type BracketSide = 'WINNERS' | 'LOSERS' | 'GRAND_FINAL';
+
+/**
+ * Reference to one side of a match, used to route memes between matches
+ */
+export interface MatchSlot {
+  matchId: string;
+  slot: 'left' | 'right';
+}
+
 /**
  * Represents a single match between two memes
  */
@@ -27,18 +117,56 @@ export interface Match {
   id: string;              // UUID
   roundIndex: number;      // 0-based round number
   matchIndex: number;      // Position within round
-  leftMeme: Meme;
-  rightMeme: Meme;
+  leftMeme: Meme | null;   // null until seeding or an earlier match fills the slot
+  rightMeme: Meme | null;
   votes: {
     left: number;
     right: number;
   };
-  timeRemaining: number;   // Seconds
+  timeRemaining: number;   // Seconds; while the clock runs, the seconds left when it last changed
   totalTime: number;       // Seconds
   status: MatchStatus;
-  winner: Meme | null;
+  winner: Meme | null;     // null on a completed match means a draw (league formats only)
   startedAt: Date | null;
   completedAt: Date | null;
+  winnerTo?: MatchSlot | null;   // Where the winner advances (null = final match)
+  loserTo?: MatchSlot | null;    // Where the loser drops to (null = eliminated)
+  isBracketReset?: boolean;      // Grand final rematch, only played if the losers bracket champion wins
+  isThirdPlace?: boolean;        // Played between the semifinal losers before the final
+  lastVoteAt?: {                 // When each side received its latest vote
+    left: Date | null;
+    right: Date | null;
+  };
+  tieBreakPhase?: TieBreakPhase; // Set while a tie-break is in progress
+  decidedBy?: TieBreakPolicy;    // Set when a tie-break decided the winner
+  override?: MatchOverride;      // Set when the admin forced the winner
+  endReason?: MatchEndReason;    // Set when voting on the match ended
+  extensions?: number;           // Overtime periods added by the AUTO_EXTEND policy
+  endsAt?: number | null;        // Server time (epoch ms) voting ends; set only while the clock runs
+  votesHidden?: boolean;         // Set on state sent to voters while blind voting hides the live tally
+  votingRound?: number;          // Sent to voters instead of tieBreakPhase while the tally is hidden: 2 once voting reopened
+  juryVotes?: {                  // Judge votes, kept apart from the audience tally in votes
+    left: number;
+    right: number;
+  };
+  entrants?: Meme[];             // Heats only: every meme competing, in seed order (leftMeme/rightMeme are the first two)
+  entrantVotes?: Record<string, number>;  // Heats only: meme ID → votes
+  juryEntrantVotes?: Record<string, number>;  // Heats only: meme ID → judge votes
+  qualifiers?: Meme[];           // Heats only: memes that advanced, in finishing order
+  qualifiersTo?: (MatchSlot | null)[];    // Heats only: where each qualifying place advances
+}
+
+/**
+ * A match whose two slots have been filled
+ */
+export type FilledMatch = Match & { leftMeme: Meme; rightMeme: Meme };
+
+/**
+ * Record of an admin forcing the winner of a match
+ */
+export interface MatchOverride {
+  reason: string;
+  overriddenAt: Date;
 }
 
 /**
@@ -48,12 +176,76 @@ export interface Round {
   roundIndex: number;      // 0-based
   matches: Match[];
   completed: boolean;
+  side?: BracketSide;      // Defaults to WINNERS
+  bye?: Meme | null;       // League formats: meme sitting out this round
+}
+
+/**
+ * A meme's row in the standings table of a league format
+ */
+export interface StandingsEntry {
+  meme: Meme;
+  rank: number;            // 1-based position after tie-breakers
+  played: number;
+  wins: number;            // Includes Swiss byes
+  draws: number;
+  losses: number;
+  points: number;
+  votesFor: number;
+  votesAgainst: number;
+  voteDifferential: number;
 }
 
 /**
  * Overall status of the tournament
+ * MATCH_RESULT is the intermission that reveals a result before play goes on
  */
-export type TournamentStatus = 'WAITING' | 'DUEL_IN_PROGRESS' | 'TOURNAMENT_FINISHED';
+export type TournamentStatus = 'WAITING' | 'DUEL_IN_PROGRESS' | 'PAUSED' | 'MATCH_RESULT' | 'TOURNAMENT_FINISHED';
+
+/**
+ * Result revealed during a MATCH_RESULT intermission
+ */
+export interface MatchResultIntermission {
+  matches: Match[];        // Matches that just ended; parallel matches often end together
+  timeRemaining: number;   // Seconds until play goes on, when the reveal started
+  totalTime: number;       // Seconds
+  endsAt?: number | null;  // Server time (epoch ms) play goes on
+}
+
+/**
+ * Settings chosen by the admin when starting a tournament
+ */
+export interface TournamentSettings {
+  votingTimeSeconds: number;
+  format?: TournamentFormat;       // Defaults to SINGLE_ELIMINATION
+  grandFinalReset?: boolean;       // Double elimination only: replay the grand final if the losers bracket champion wins
+  thirdPlaceMatch?: boolean;       // Single elimination only: the semifinal losers play for third place
+  heatSize?: number;               // Single elimination only: memes per first-round heat (3 or 4)
+  heatQualifiers?: number;         // Heats only: memes advancing from each heat (1 or 2); defaults to 1
+  swissRounds?: number;            // Swiss only: number of rounds to play
+  tieBreak?: TieBreakPolicy;       // Elimination formats only; defaults to RANDOM
+  seeding?: SeedingStrategy;       // Defaults to UPLOAD_ORDER
+  seedOrder?: string[];            // MANUAL only: meme IDs from seed 1 downwards
+  parallelMatches?: number;        // Matches of the same round played at once; defaults to 1
+  roundTimeSchedule?: number[];    // Seconds per round, the last entry for the final; overrides votingTimeSeconds
+  roundTimeMultiplier?: number;    // Each round lasts this many times the previous one, starting at votingTimeSeconds
+  endingPolicies?: MatchEndingPolicy[];  // Adaptive ways a match can end; none means matches always run their full time
+  intermissionSeconds?: number;    // Length of the result reveal after each match; 0 or unset skips it
+  blindVoting?: boolean;           // Only admin clients receive the tally of a match before it ends
+  juryScoring?: JuryScoring;       // How judge votes count; unset means judges vote like the audience
+  juryWeight?: number;             // WEIGHTED only: audience votes each judge vote is worth
+  juryShare?: number;              // SHARE only: fraction of the result decided by the jury (0-1)
+}
+
+/**
+ * A member of the jury, as listed for the admin
+ */
+export interface Judge {
+  id: string;
+  name: string;
+  joinCode: string;        // Code the judge enters to take up the role
+  joined: boolean;         // Whether a session has claimed the code
+}
 
 /**
  * Complete state of the tournament
@@ -62,11 +254,100 @@ export interface TournamentState {
   status: TournamentStatus;
   memes: Meme[];
   bracket: Round[];
-  currentMatch: Match | null;
+  currentMatch: Match | null;     // First of the active matches
+  activeMatches?: Match[];         // Matches being voted on at the same time
   winner: Meme | null;
-  config: {
-    votingTimeSeconds: number;
-  };
+  config: TournamentSettings;
+  standings?: StandingsEntry[];    // League formats only
+  seeds?: Record<string, number>;  // Meme ID → seed (1 = top seed)
+  undoableMatchId?: string | null; // Match whose result the admin can undo next
+  matchResult?: MatchResultIntermission | null;  // Set while the status is MATCH_RESULT
+  revision?: number;               // Set on state sent to clients: broadcast it reflects, see StatePatchMessage
+}
+
+/**
+ * One change in a state patch
+ * Changed fields are sent with their new value and removed fields are listed
+ * in unset. Rounds and matches are addressed by position in the bracket, and
+ * the active matches by ID, as clients look them up in the bracket
+ */
+export type StatePatchOp =
+  | {
+      op: 'state';                 // Top-level fields other than the bracket and the active matches
+      changes: Partial<TournamentState>;
+      unset?: string[];
+    }
+  | {
+      op: 'add-round';             // Round appended to the bracket (Swiss pairings)
+      round: Round;
+    }
+  | {
+      op: 'round';                 // Fields of a round other than its matches
+      roundIndex: number;
+      changes: Partial<Round>;
+      unset?: string[];
+    }
+  | {
+      op: 'match';                 // Fields of a match, e.g. the tally after a vote or the winner once completed
+      roundIndex: number;
+      matchIndex: number;
+      changes: Partial<Match>;
+      unset?: string[];
+    }
+  | {
+      op: 'active';                // Matches being voted on changed
+      currentMatchId: string | null;
+      activeMatchIds?: string[];
+    };
+
+/**
+ * A finished tournament, kept in the history once its live state is cleared
+ */
+export interface ArchivedTournament {
+  id: string;
+  roomCode: string | null;   // Room it was played in, null for the default tournament
+  startedAt: Date | null;    // When its first match started
+  finishedAt: Date | null;   // When its last match ended
+  archivedAt: Date;
+  state: TournamentState;    // Final state: memes, bracket with vote counts, standings and winner
+}
+
+/**
+ * File formats a finished tournament can be exported in
+ */
+export type ExportFormat = 'json' | 'csv' | 'md';
+
+/**
+ * What the history lists about an archived tournament
+ */
+export interface ArchivedTournamentSummary {
+  id: string;
+  roomCode: string | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  archivedAt: Date;
+  format?: TournamentFormat;
+  memeCount: number;
+  winner: Meme | null;
+}
+
+/**
+ * Limits applied to uploaded files
+ */
+export interface UploadLimits {
+  maxFileSize: number;        // Bytes
+  maxArchiveSize: number;     // Bytes, for zip archives and meme packages
+  allowedMimeTypes: string[];
+}
+
+/**
+ * Outcome of one image in a bulk upload
+ */
+export interface UploadResult {
+  filename: string;   // Name of the file in the archive or folder
+  success: boolean;
+  meme?: Meme;        // Meme created from the file
+  error?: string;     // Why the file was not uploaded
 }
 
 // ============================================================================
@@ -75,25 +356,57 @@ export interface TournamentState {
 
 /**
  * State update message sent from server to clients
+ * A full snapshot, sent on connecting, when a client asks to resync, and
+ * when a change cannot be expressed as a patch
  */
 export interface StateUpdateMessage {
   type: 'state:update';
   payload: TournamentState;
 }
 
+/**
+ * State patch message sent from server to clients
+ * Applies on top of the state at baseRevision only; a client holding any
+ * other revision missed a change and asks for a snapshot with state:resync
+ */
+export interface StatePatchMessage {
+  type: 'state:patch';
+  payload: {
+    baseRevision: number;
+    revision: number;
+    ops: StatePatchOp[];
+  };
+}
+
+/**
+ * Resync message sent from client to server after missing a patch
+ * The server answers with a state:update snapshot
+ */
+export interface ResyncStateMessage {
+  type: 'state:resync';
+  payload: {};
+}
+
 /**
  * Vote choice for a match
  */
 export type VoteChoice = 'LEFT' | 'RIGHT';
 
+/**
+ * What a vote is cast for: a side of a duel, or any entrant of a match by meme ID
+ */
+export type VoteTarget = VoteChoice | { memeId: string };
+
 /**
  * Vote cast message sent from client to server
+ * Heats are voted on by memeId; duels accept either a side or a memeId
  */
 export interface VoteCastMessage {
   type: 'vote:cast';
   payload: {
     matchId: string;
-    choice: VoteChoice;
+    choice?: VoteChoice;
+    memeId?: string;
   };
 }
 
@@ -102,9 +415,7 @@ export interface VoteCastMessage {
  */
 export interface StartTournamentMessage {
   type: 'admin:start';
-  payload: {
-    votingTimeSeconds: number;
-  };
+  payload: TournamentSettings;
 }
 
 /**
@@ -149,6 +460,189 @@ export interface ResetTournamentMessage {
   payload: {};
 }
 
+/**
+ * Delete tournament message sent from admin client to server
+ * Clears a tournament that has not finished without archiving it
+ */
+export interface DeleteTournamentMessage {
+  type: 'admin:delete-tournament';
+  payload: {
+    confirm: boolean;  // Must be true: the tournament is lost for good
+  };
+}
+
+/**
+ * Tie decision message sent from admin client to server
+ * Picks the winner of a match awaiting an admin tie-break decision
+ */
+export interface DecideTieMessage {
+  type: 'admin:decide-tie';
+  payload: {
+    matchId: string;
+    choice: VoteChoice;
+  };
+}
+
+/**
+ * Pause message sent from admin client to server
+ * Stops the match timer and voting until the tournament is resumed
+ */
+export interface PauseTournamentMessage {
+  type: 'admin:pause';
+  payload: {};
+}
+
+/**
+ * Resume message sent from admin client to server
+ */
+export interface ResumeTournamentMessage {
+  type: 'admin:resume';
+  payload: {};
+}
+
+/**
+ * Next message sent from admin client to server
+ * Ends the result reveal early and moves on to the next match
+ */
+export interface ContinueTournamentMessage {
+  type: 'admin:next';
+  payload: {};
+}
+
+/**
+ * Time adjustment message sent from admin client to server
+ * Adds (positive) or removes (negative) seconds on the current match
+ */
+export interface AdjustTimeMessage {
+  type: 'admin:adjust-time';
+  payload: {
+    matchId: string;
+    deltaSeconds: number;
+  };
+}
+
+/**
+ * End match message sent from admin client to server
+ * Closes voting on the current match immediately
+ */
+export interface EndMatchMessage {
+  type: 'admin:end-match';
+  payload: {
+    matchId: string;
+  };
+}
+
+/**
+ * Undo message sent from admin client to server
+ * Rolls back the last completed match so it can be played again
+ */
+export interface UndoResultMessage {
+  type: 'admin:undo';
+  payload: {
+    matchId: string;
+  };
+}
+
+/**
+ * Override message sent from admin client to server
+ * Forces the winner of the current match; the reason is shown with the result
+ */
+export interface OverrideMatchMessage {
+  type: 'admin:override';
+  payload: {
+    matchId: string;
+    choice: VoteChoice;
+    reason: string;
+  };
+}
+
+/**
+ * Add judge message sent from admin client to server
+ * Issues a join code for a new member of the jury
+ */
+export interface AddJudgeMessage {
+  type: 'admin:add-judge';
+  payload: {
+    name: string;
+  };
+}
+
+/**
+ * Remove judge message sent from admin client to server
+ * Revokes the judge's join code; their session goes back to voting as audience
+ */
+export interface RemoveJudgeMessage {
+  type: 'admin:remove-judge';
+  payload: {
+    judgeId: string;
+  };
+}
+
+/**
+ * Jury join message sent from client to server
+ * Claims the judge role with a code issued by the admin
+ */
+export interface JoinJuryMessage {
+  type: 'jury:join';
+  payload: {
+    code: string;
+  };
+}
+
+/**
+ * Jury list sent from server to admin clients whenever it changes
+ */
+export interface JuryUpdateMessage {
+  type: 'jury:update';
+  payload: {
+    judges: Judge[];
+  };
+}
+
+/**
+ * Judge role notification sent from server to the judge's sockets
+ * A null judge means the role was revoked
+ */
+export interface JudgeStatusMessage {
+  type: 'jury:status';
+  payload: {
+    judge: { id: string; name: string } | null;
+  };
+}
+
+/**
+ * Clock ping sent from client to server to measure the server clock offset
+ */
+export interface ClockPingMessage {
+  type: 'clock:ping';
+  payload: {
+    sentAt: number;        // Client time (epoch ms)
+  };
+}
+
+/**
+ * Clock pong sent from server back to the pinging client
+ */
+export interface ClockPongMessage {
+  type: 'clock:pong';
+  payload: {
+    sentAt: number;        // Echoed from the ping
+    serverTime: number;    // Server time (epoch ms) the ping was answered
+  };
+}
+
+/**
+ * Notification sent from server to clients reconnecting after the server
+ * restarted in the middle of a tournament and resumed it
+ */
+export interface SessionRestoredMessage {
+  type: 'session:restored';
+  payload: {
+    restoredAt: number;        // Server time (epoch ms) the tournament was resumed
+    votedMatchIds: string[];   // Active matches this client's session had already voted in
+  };
+}
+
 /**
  * Tournament reset notification sent from server to all clients
  */
@@ -171,18 +665,42 @@ export interface SocketAuth {
  */
 export type WebSocketMessage = 
   | StateUpdateMessage 
+  | StatePatchMessage
+  | ResyncStateMessage
   | VoteCastMessage 
   | StartTournamentMessage 
   | ErrorMessage
   | VoteLockedMessage
   | VoteRejectedMessage
   | ResetTournamentMessage
+  | DeleteTournamentMessage
+  | DecideTieMessage
+  | PauseTournamentMessage
+  | ResumeTournamentMessage
+  | ContinueTournamentMessage
+  | AdjustTimeMessage
+  | EndMatchMessage
+  | UndoResultMessage
+  | OverrideMatchMessage
+  | AddJudgeMessage
+  | RemoveJudgeMessage
+  | JoinJuryMessage
+  | JuryUpdateMessage
+  | JudgeStatusMessage
+  | ClockPingMessage
+  | ClockPongMessage
+  | SessionRestoredMessage
   | TournamentResetMessage;
 
 // ============================================================================
 // Repository Interface (for Liskov Substitution Principle)
 // ============================================================================
 
+/**
+ * Session tokens that voted in each match, keyed by match ID
+ */
+export type VoteLocks = Record<string, string[]>;
+
 /**
  * Abstract repository interface for tournament data persistence.
  * This interface allows easy substitution of persistence mechanisms
@@ -203,4 +721,19 @@ export interface ITournamentRepository {
   // Match operations
   updateMatch(match: Match): Promise<void>;
   getMatchById(id: string): Promise<Match | null>;
+
+  // Vote lock operations (cleared along with the state)
+  getVoteLocks(): Promise<VoteLocks>;
+  setVoteLocks(locks: VoteLocks): Promise<void>;
+}
+
+/**
+ * Store of archived tournaments
+ * Archived tournaments are never changed, only added and deleted
+ */
+export interface ITournamentArchive {
+  addTournament(tournament: ArchivedTournament): Promise<void>;
+  getTournaments(): Promise<ArchivedTournament[]>;   // Most recently archived first
+  getTournamentById(id: string): Promise<ArchivedTournament | null>;
+  deleteTournament(id: string): Promise<void>;
 }